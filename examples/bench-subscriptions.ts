@@ -0,0 +1,84 @@
+import logger from '../src/utils/logger';
+import { MonitoringManager } from '../src/core/monitoring';
+import { SubscriptionManager } from '../src/core/subscription';
+
+const SERVICES = 10 * 1000;
+const SUBSCRIPTIONS_PER_SERVICE = 10; // 100k subscriptions in total
+const TOPICS = 1000;
+
+/**
+ * Measures the time taken by a step of the benchmark.
+ */
+function measure(name: string, operations: number, step: () => void) {
+    const start = performance.now();
+    step();
+    const end = performance.now();
+    console.log(`${name}: ${((end - start) / 1000).toFixed(3)}s (${Math.floor((operations / ((end - start) / 1000))).toLocaleString()} ops/sec)`);
+}
+
+/**
+ * Benchmarks looking up and removing the subscriptions of every service, as on a reconnect storm,
+ * with 10k services holding 100k subscriptions. Also benchmarks matching the topics, and subscribing
+ * while the matches of every topic are cached.
+ */
+async function runBenchmark() {
+    // Subscribing logs every subscription, keep the output to the results
+    logger.level = 'error';
+
+    const monitoringManager = new MonitoringManager();
+    const subscriptionManager = new SubscriptionManager(monitoringManager);
+    const serviceIds = Array.from({ length: SERVICES }, (_, i) => `service${i}`);
+
+    measure('Subscribe', SERVICES * SUBSCRIPTIONS_PER_SERVICE, () => {
+        for (const [i, serviceId] of serviceIds.entries()) {
+            for (let j = 0; j < SUBSCRIPTIONS_PER_SERVICE; j++) {
+                const topic = `bench.topic${(i + j * 97) % TOPICS}.events`;
+                if (j % 2 === 0) {
+                    subscriptionManager.subscribePublish(serviceId, j === 0 ? `bench.topic${i % TOPICS}.#` : topic);
+                } else {
+                    subscriptionManager.subscribeRequest(serviceId, topic, j % 3);
+                }
+            }
+        }
+    });
+
+    measure('Get subscribed topics', SERVICES, () => {
+        for (const serviceId of serviceIds) {
+            subscriptionManager.getSubscribedTopics(serviceId);
+        }
+    });
+
+    measure('Match topics (cold cache)', TOPICS, () => {
+        for (let i = 0; i < TOPICS; i++) {
+            subscriptionManager.getPublishSubscribers(`bench.topic${i}.events`);
+        }
+    });
+
+    measure('Match topics (warm cache)', TOPICS, () => {
+        for (let i = 0; i < TOPICS; i++) {
+            subscriptionManager.getPublishSubscribers(`bench.topic${i}.events`);
+        }
+    });
+
+    // Every new topic creates and removes a node, invalidating the cached matches of that topic only
+    measure('Subscribe and unsubscribe new topics (warm cache)', SERVICES, () => {
+        for (const [i, serviceId] of serviceIds.entries()) {
+            subscriptionManager.subscribePublish(serviceId, `bench.topic${i % TOPICS}.new${i}`);
+            subscriptionManager.unsubscribePublish(serviceId, `bench.topic${i % TOPICS}.new${i}`);
+        }
+    });
+
+    measure('Unsubscribe (disconnect)', SERVICES, () => {
+        for (const serviceId of serviceIds) {
+            subscriptionManager.unsubscribe(serviceId);
+        }
+    });
+
+    await subscriptionManager.dispose();
+    monitoringManager.dispose();
+}
+
+// Run the benchmark test
+runBenchmark()
+    .then(() => console.log('Benchmark test completed'))
+    .catch(err => console.error('Test failed:', err));
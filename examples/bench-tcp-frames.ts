@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { Socket } from 'net';
+import { config } from '../src/config';
+import logger from '../src/utils/logger';
+import { TCPSocketConnection } from '../src/core/connection/protocols/tcpsocket';
+
+const STREAM_SIZE = 64 * 1024 * 1024; // 64 MB of frames per run
+const CHUNK_SIZE = 1460; // The payload of a TCP segment on an Ethernet link
+const FRAME_SIZES = [1024, 64 * 1024];
+
+/**
+ * Measures the time taken by a step of the benchmark.
+ */
+function measure(name: string, operations: number, step: () => void) {
+    const start = performance.now();
+    step();
+    const end = performance.now();
+    const seconds = (end - start) / 1000;
+    console.log(`${name}: ${seconds.toFixed(3)}s (${Math.floor(operations / seconds).toLocaleString()} frames/sec, ${(STREAM_SIZE / 1024 / 1024 / seconds).toFixed(1)} MB/sec)`);
+}
+
+/**
+ * Builds a stream of length-prefixed frames, split in chunks as received from a socket.
+ */
+function createChunks(frameSize: number): Buffer[] {
+    const frame = Buffer.alloc(4 + frameSize, 'a');
+    frame.writeUInt32BE(frameSize, 0);
+    const stream = Buffer.concat(Array.from({ length: STREAM_SIZE / frameSize }, () => frame));
+
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < stream.length; offset += CHUNK_SIZE) {
+        chunks.push(stream.subarray(offset, offset + CHUNK_SIZE));
+    }
+    return chunks;
+}
+
+/**
+ * Reassembles frames the way TCP connections did before the chunk reader, concatenating every received chunk
+ * to the unread bytes.
+ */
+function reassembleWithConcat(chunks: Buffer[], listener: (message: Buffer) => void) {
+    let buffer = Buffer.alloc(0);
+    let expectedLength = -1;
+    for (const chunk of chunks) {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (true) {
+            if (expectedLength === -1) {
+                if (buffer.length < 4) break;
+                expectedLength = buffer.readUInt32BE(0);
+                buffer = buffer.subarray(4);
+            }
+            if (buffer.length < expectedLength) break;
+            listener(buffer.subarray(0, expectedLength));
+            buffer = buffer.subarray(expectedLength);
+            expectedLength = -1;
+        }
+    }
+}
+
+/**
+ * Benchmarks reassembling 1 KB and 64 KB frames received in TCP segment sized chunks, concatenating every chunk
+ * (before) and with the chunk reader of TCP connections (after).
+ */
+async function runBenchmark() {
+    logger.level = 'error';
+    config.message.payload.maxLength = Math.max(config.message.payload.maxLength, ...FRAME_SIZES);
+
+    for (const frameSize of FRAME_SIZES) {
+        const chunks = createChunks(frameSize);
+        const frames = STREAM_SIZE / frameSize;
+        let received = 0;
+
+        measure(`${frameSize / 1024} KB frames, Buffer.concat per chunk`, frames, () => {
+            reassembleWithConcat(chunks, () => received++);
+        });
+
+        // The connection only reads from the socket, an emitter is enough to feed it the chunks
+        const socket = new EventEmitter() as unknown as Socket;
+        const connection = new TCPSocketConnection(socket, '127.0.0.1');
+        connection.onMessage(() => received++);
+        measure(`${frameSize / 1024} KB frames, chunk reader`, frames, () => {
+            for (const chunk of chunks) {
+                socket.emit('data', chunk);
+            }
+        });
+
+        if (received !== 2 * frames) {
+            throw new Error(`Received ${received} frames instead of ${2 * frames}`);
+        }
+    }
+}
+
+// Run the benchmark test
+runBenchmark()
+    .then(() => console.log('Benchmark test completed'))
+    .catch(err => console.error('Test failed:', err));
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import dotenv from 'dotenv';
+import { LoadBalancingStrategy, SlowConsumerPolicy } from '@core/types';
 import { Config } from './types';
 
 // Load environment variables from .env file (if it exists)
@@ -9,6 +10,57 @@ dotenv.config();
 
 const DEFAULT_CONFIG_PATH = path.join(__dirname, 'default.yaml');
 
+/**
+ * Characters that topic levels can never contain: the level separator, the wildcards (of subscriptions, and of
+ * `TopicUtils.test` patterns), the header separator, the delimiters of metric parameters, and whitespace.
+ */
+const RESERVED_TOPIC_CHARACTERS = ['.', '+', '#', '*', '>', ':', '{', '}', ' ', '\t', '\r', '\n'];
+
+/**
+ * Validates the topic grammar of a configuration.
+ *
+ * @param config - The configuration to validate.
+ * @throws {Error} If the topic grammar is invalid.
+ */
+export function validateTopicConfig(config: Config): void {
+    const { maxLength, maxDepth, characters } = config.topic;
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+        throw new Error(`Invalid topic.maxLength: ${maxLength}, expected a positive integer`);
+    }
+    if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+        throw new Error(`Invalid topic.maxDepth: ${maxDepth}, expected a positive integer`);
+    }
+
+    // Only printable ASCII, so the topic length in characters is its length in bytes (see MAX_HEADER_LENGTH)
+    if (typeof characters !== 'string' || !/^[\x21-\x5a\x5e-\x7e]+$/.test(characters)) {
+        throw new Error(`Invalid topic.characters: ${characters}, expected printable ASCII characters without brackets or backslashes`);
+    }
+    let level: RegExp;
+    try {
+        level = new RegExp(`^[${characters}]$`);
+    } catch (error) {
+        throw new Error(`Invalid topic.characters: ${characters}, ${(error as Error).message}`);
+    }
+    const reserved = RESERVED_TOPIC_CHARACTERS.filter(character => level.test(character));
+    if (reserved.length > 0) {
+        throw new Error(`Invalid topic.characters: ${characters}, must not allow ${reserved.map(character => JSON.stringify(character)).join(', ')}`);
+    }
+}
+
+/**
+ * Validates the slow-consumer policy of a configuration.
+ *
+ * @param config - The configuration to validate.
+ * @throws {Error} If the slow-consumer policy is unknown.
+ */
+export function validateOutboundConfig(config: Config): void {
+    const { policy } = config.connection.outbound;
+    const policies = Object.values(SlowConsumerPolicy) as string[];
+    if (!policies.includes(policy)) {
+        throw new Error(`Invalid connection.outbound.policy: ${policy}, expected one of ${policies.join(', ')}`);
+    }
+}
+
 /**
  * Loads the configuration from the specified YAML file and applies
  * environment variable overrides.
@@ -27,7 +79,12 @@ export function loadConfig(configPath: string = DEFAULT_CONFIG_PATH): Config {
         if (process.env.WSS_PORT) config.ports.wss = parseInt(process.env.WSS_PORT, 10);
         if (process.env.TCP_PORT) config.ports.tcp = parseInt(process.env.TCP_PORT, 10);
         if (process.env.TLS_PORT) config.ports.tls = parseInt(process.env.TLS_PORT, 10);
+        if (process.env.HTTP_ENABLED) config.http.enabled = process.env.HTTP_ENABLED === 'true';
+        if (process.env.HTTP_PORT) config.http.port = parseInt(process.env.HTTP_PORT, 10);
         if (process.env.HOST) config.host = process.env.HOST;
+        if (process.env.TOPIC_MAX_LENGTH) config.topic.maxLength = parseInt(process.env.TOPIC_MAX_LENGTH, 10);
+        if (process.env.TOPIC_MAX_DEPTH) config.topic.maxDepth = parseInt(process.env.TOPIC_MAX_DEPTH, 10);
+        if (process.env.TOPIC_CHARACTERS) config.topic.characters = process.env.TOPIC_CHARACTERS;
         if (process.env.ALLOW_UNSECURE) config.allowUnsecure = process.env.ALLOW_UNSECURE === 'true';
         if (process.env.SSL_KEY && process.env.SSL_CERT) {
             config.ssl = {
@@ -35,14 +92,37 @@ export function loadConfig(configPath: string = DEFAULT_CONFIG_PATH): Config {
                 cert: process.env.SSL_CERT
             };
         }
+        if (process.env.AUTH_ENABLED) config.auth.enabled = process.env.AUTH_ENABLED === 'true';
+        if (process.env.AUTH_CREDENTIALS) config.auth.credentials = process.env.AUTH_CREDENTIALS;
+        if (process.env.AUTH_ACL_POLICY) config.auth.acl.policy = process.env.AUTH_ACL_POLICY;
         if (process.env.AUTH_FAILURE_LOCKOUT_THRESHOLD) config.auth.failure.lockout.threshold = parseInt(process.env.AUTH_FAILURE_LOCKOUT_THRESHOLD, 10);
         if (process.env.AUTH_FAILURE_LOCKOUT_DURATION) config.auth.failure.lockout.duration = parseInt(process.env.AUTH_FAILURE_LOCKOUT_DURATION, 10);
         if (process.env.RATE_LIMIT_GLOBAL_PER_SERVICE) config.rate.limit.global.per.service = parseInt(process.env.RATE_LIMIT_GLOBAL_PER_SERVICE, 10);
         if (process.env.RATE_LIMIT_GLOBAL_PER_TOPIC) config.rate.limit.global.per.topic = parseInt(process.env.RATE_LIMIT_GLOBAL_PER_TOPIC, 10);
+        if (process.env.RATE_LIMIT_ADMINS) config.rate.limit.admins = process.env.RATE_LIMIT_ADMINS.split(',').map(identity => identity.trim()).filter(Boolean);
         if (process.env.CONNECTION_MAX_CONCURRENT) config.connection.max.concurrent = parseInt(process.env.CONNECTION_MAX_CONCURRENT, 10);
+        if (process.env.CONNECTION_OUTBOUND_HIGH_WATER_MARK) config.connection.outbound.highWaterMark = parseInt(process.env.CONNECTION_OUTBOUND_HIGH_WATER_MARK, 10);
+        if (process.env.CONNECTION_OUTBOUND_LOW_WATER_MARK) config.connection.outbound.lowWaterMark = parseInt(process.env.CONNECTION_OUTBOUND_LOW_WATER_MARK, 10);
+        if (process.env.CONNECTION_OUTBOUND_POLICY) config.connection.outbound.policy = process.env.CONNECTION_OUTBOUND_POLICY as SlowConsumerPolicy;
         if (process.env.REQUEST_RESPONSE_TIMEOUT_DEFAULT) config.request.response.timeout.default = parseInt(process.env.REQUEST_RESPONSE_TIMEOUT_DEFAULT, 10);
         if (process.env.REQUEST_RESPONSE_TIMEOUT_MAX) config.request.response.timeout.max = parseInt(process.env.REQUEST_RESPONSE_TIMEOUT_MAX, 10);
+        if (process.env.REQUEST_LOADBALANCING_STRATEGY) config.request.loadbalancing.strategy = process.env.REQUEST_LOADBALANCING_STRATEGY as LoadBalancingStrategy;
+        if (process.env.REQUEST_RETRIES_MAX) config.request.retries.max = parseInt(process.env.REQUEST_RETRIES_MAX, 10);
         if (process.env.MAX_OUTSTANDING_REQUESTS) config.max.outstanding.requests = parseInt(process.env.MAX_OUTSTANDING_REQUESTS, 10);
+        if (process.env.DURABLE_DIRECTORY) config.durable.directory = process.env.DURABLE_DIRECTORY;
+        if (process.env.DURABLE_RETENTION_MAX_SIZE) config.durable.retention.maxSize = parseInt(process.env.DURABLE_RETENTION_MAX_SIZE, 10);
+        if (process.env.DURABLE_RETENTION_MAX_AGE) config.durable.retention.maxAge = parseInt(process.env.DURABLE_RETENTION_MAX_AGE, 10);
+        if (process.env.DURABLE_ACK_INTERVAL) config.durable.ack.interval = parseInt(process.env.DURABLE_ACK_INTERVAL, 10);
+        if (process.env.DELIVERY_ACK_TIMEOUT) config.delivery.ack.timeout = parseInt(process.env.DELIVERY_ACK_TIMEOUT, 10);
+        if (process.env.DELIVERY_ATTEMPTS_MAX) config.delivery.attempts.max = parseInt(process.env.DELIVERY_ATTEMPTS_MAX, 10);
+        if (process.env.DEADLETTER_TOPIC) config.deadletter.topic = process.env.DEADLETTER_TOPIC;
+        if (process.env.SUBSCRIPTION_CACHE_SIZE) config.subscription.cache.size = parseInt(process.env.SUBSCRIPTION_CACHE_SIZE, 10);
+        if (process.env.SUBSCRIPTION_RETAINED_MAX_COUNT) config.subscription.retained.maxCount = parseInt(process.env.SUBSCRIPTION_RETAINED_MAX_COUNT, 10);
+        if (process.env.SUBSCRIPTION_RETAINED_MAX_SIZE) config.subscription.retained.maxSize = parseInt(process.env.SUBSCRIPTION_RETAINED_MAX_SIZE, 10);
+
+        // Report an invalid topic grammar or slow-consumer policy at startup, rather than on the first message
+        validateTopicConfig(config);
+        validateOutboundConfig(config);
 
         return config;
     } catch (error) {
@@ -1,3 +1,5 @@
+import { LoadBalancingStrategy, SlowConsumerPolicy } from '@core/types';
+
 /**
  * Represents the configuration for the Message Broker.
  */
@@ -8,7 +10,16 @@ export interface Config {
         ws: number;
         wss: number;
     };
+    http: {
+        enabled: boolean;
+        port: number;
+    };
     host: string;
+    topic: {
+        maxLength: number;
+        maxDepth: number;
+        characters: string;
+    };
     ssl?: {
         key?: string;
         cert?: string;
@@ -20,6 +31,11 @@ export interface Config {
     };
     // ... other configuration parameters as needed
     auth: {
+        enabled: boolean;
+        credentials?: string;
+        acl: {
+            policy?: string;
+        };
         failure: {
             lockout: {
                 threshold: number;
@@ -41,7 +57,8 @@ export interface Config {
                         [key: string]: number // Allows for dynamic keys based on topic names
                     }
                 }
-            }
+            },
+            admins: string[]; // The identities allowed to change the limits at runtime
         }
     }
     connection: {
@@ -50,6 +67,11 @@ export interface Config {
         }
         heartbeatRetryTimeout: number;
         heartbeatDeregisterTimeout: number;
+        outbound: {
+            highWaterMark: number;
+            lowWaterMark: number;
+            policy: SlowConsumerPolicy;
+        }
     }
     request: {
         response: {
@@ -57,6 +79,15 @@ export interface Config {
                 default: number;
                 max: number;
             }
+        },
+        loadbalancing: {
+            strategy: LoadBalancingStrategy;
+            topics: {
+                [key: string]: LoadBalancingStrategy // Allows for dynamic keys based on topic patterns
+            }
+        },
+        retries: {
+            max: number;
         }
     },
     max: {
@@ -69,6 +100,45 @@ export interface Config {
             maxLength: number;
         }
     },
+    durable: {
+        directory: string;
+        segment: {
+            maxSize: number;
+        },
+        retention: {
+            maxSize: number;
+            maxAge: number;
+        },
+        compaction: {
+            interval: number;
+        },
+        ack: {
+            interval: number;
+        }
+    },
+    delivery: {
+        ack: {
+            timeout: number;
+        },
+        backoff: {
+            max: number;
+        },
+        attempts: {
+            max: number;
+        }
+    },
+    deadletter: {
+        topic: string;
+    },
+    subscription: {
+        cache: {
+            size: number;
+        },
+        retained: {
+            maxCount: number;
+            maxSize: number;
+        }
+    },
     monitoring: {
         interval: number;
     }
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { config } from '@config';
+import { InternalError } from '@core/errors';
+import { TopicUtils } from '@core/utils';
+
+/**
+ * The actions a topic ACL rule applies to.
+ */
+export type AccessAction = 'publish' | 'request' | 'subscribe';
+
+/**
+ * Whether a rule (or the policy default) allows or denies the action.
+ */
+export type AccessEffect = 'allow' | 'deny';
+
+const ACCESS_ACTIONS: AccessAction[] = ['publish', 'request', 'subscribe'];
+const ACCESS_EFFECTS: AccessEffect[] = ['allow', 'deny'];
+
+/**
+ * A single rule in the policy file.
+ */
+export interface AccessRule {
+    /** The identity the rule applies to, or '*' for every service (authenticated or not) */
+    identity: string;
+    /** Whether the rule allows or denies the actions */
+    effect: AccessEffect;
+    /** The actions the rule applies to */
+    actions: AccessAction[];
+    /** The topic patterns the rule applies to ('+' and '#' wildcards, as in subscriptions) */
+    topics: string[];
+}
+
+/**
+ * A rule with its topic patterns split into levels.
+ */
+interface CompiledRule {
+    identity: string;
+    effect: AccessEffect;
+    actions: Set<AccessAction>;
+    topics: string[][];
+}
+
+/**
+ * Checks if a topic pattern covers another, i.e. every topic matched by the second pattern is matched by the first.
+ *
+ * @param rule The levels of the covering pattern.
+ * @param pattern The levels of the covered pattern (or topic).
+ * @returns True if the rule covers the pattern, false otherwise.
+ */
+function covers(rule: string[], pattern: string[]): boolean {
+    for (let i = 0; i < rule.length; i++) {
+        if (rule[i] === '#') return true;
+        if (i >= pattern.length || pattern[i] === '#') return false;
+        if (rule[i] !== '+' && (pattern[i] === '+' || rule[i] !== pattern[i])) return false;
+    }
+    return rule.length === pattern.length;
+}
+
+/**
+ * Checks if two topic patterns overlap, i.e. at least one topic is matched by both.
+ *
+ * @param a The levels of the first pattern (or topic).
+ * @param b The levels of the second pattern (or topic).
+ * @returns True if the patterns overlap, false otherwise.
+ */
+function overlaps(a: string[], b: string[]): boolean {
+    for (let i = 0; ; i++) {
+        if (a[i] === '#' || b[i] === '#') return true;
+        if (i >= a.length || i >= b.length) return a.length === b.length;
+        if (a[i] !== '+' && b[i] !== '+' && a[i] !== b[i]) return false;
+    }
+}
+
+/**
+ * The topic ACL policy: per-identity allow and deny rules on topic patterns, for each action.
+ *
+ * A topic (or, for subscriptions, a topic pattern) is denied if any matching deny rule overlaps it, allowed if
+ * an allow rule covers it, and otherwise gets the default effect of the policy. System topics are not subject
+ * to the policy, they keep their own restrictions, except the dead-letter topic: dead letters carry the messages
+ * of every topic, so it is only allowed by an allow rule naming it (never by a wildcard or the default effect).
+ */
+export class AccessPolicy {
+    private readonly rules: CompiledRule[];
+
+    /**
+     * @param defaultEffect The effect when no rule applies.
+     * @param rules The allow and deny rules.
+     */
+    constructor(private readonly defaultEffect: AccessEffect, rules: AccessRule[]) {
+        this.rules = rules.map(rule => ({
+            identity: rule.identity,
+            effect: rule.effect,
+            actions: new Set(rule.actions),
+            topics: rule.topics.map(topic => topic.split('.')),
+        }));
+    }
+
+    /**
+     * Gets the number of rules in the policy.
+     */
+    get size(): number {
+        return this.rules.length;
+    }
+
+    /**
+     * Checks if a service may perform an action on a topic.
+     *
+     * @param identity The identity of the service, or undefined if it has not authenticated.
+     * @param action The action performed.
+     * @param topic The topic, or the topic pattern for subscriptions.
+     * @returns True if the action is allowed, false otherwise.
+     */
+    isAllowed(identity: string | undefined, action: AccessAction, topic: string): boolean {
+        const deadLetter = topic === config.deadletter.topic;
+        if (topic.startsWith('system.') && !deadLetter) return true;
+
+        const parts = topic.split('.');
+        let allowed = false;
+        for (const rule of this.rules) {
+            if ((rule.identity !== '*' && rule.identity !== identity) || !rule.actions.has(action)) continue;
+            if (rule.effect === 'deny') {
+                if (rule.topics.some(pattern => overlaps(pattern, parts))) return false;
+            } else if (!allowed) {
+                allowed = rule.topics.some(pattern => deadLetter ? pattern.join('.') === topic : covers(pattern, parts));
+            }
+        }
+        return allowed || (!deadLetter && this.defaultEffect === 'allow');
+    }
+}
+
+/**
+ * Loads the topic ACL policy from a YAML (or JSON) policy file.
+ *
+ * @param filePath The path to the policy file.
+ * @returns The policy.
+ * @throws {InternalError} If the file is malformed.
+ */
+export function loadPolicy(filePath: string): AccessPolicy {
+    const content = yaml.load(fs.readFileSync(filePath, 'utf-8')) as { default?: AccessEffect, rules?: AccessRule[] } | undefined;
+    const defaultEffect = content?.default ?? 'deny';
+    const rules = content?.rules ?? [];
+    if (!ACCESS_EFFECTS.includes(defaultEffect)) {
+        throw new InternalError('Invalid policy file: default must be allow or deny', { filePath });
+    }
+    if (!Array.isArray(rules)) {
+        throw new InternalError('Invalid policy file: rules must be a list', { filePath });
+    }
+    for (const [index, rule] of rules.entries()) {
+        if (!rule || typeof rule.identity !== 'string' || !rule.identity) {
+            throw new InternalError(`Invalid policy file: rule ${index} requires an identity`, { filePath });
+        }
+        if (!ACCESS_EFFECTS.includes(rule.effect)) {
+            throw new InternalError(`Invalid policy file: rule ${index} requires an effect of allow or deny`, { filePath });
+        }
+        if (!Array.isArray(rule.actions) || rule.actions.length === 0 || !rule.actions.every(action => ACCESS_ACTIONS.includes(action))) {
+            throw new InternalError(`Invalid policy file: rule ${index} requires actions among ${ACCESS_ACTIONS.join(', ')}`, { filePath });
+        }
+        const isValidTopic = (topic: unknown) => typeof topic === 'string' && TopicUtils.isValidSubscription(topic) && (!topic.startsWith('system.') || topic === config.deadletter.topic);
+        if (!Array.isArray(rule.topics) || rule.topics.length === 0 || !rule.topics.every(isValidTopic)) {
+            throw new InternalError(`Invalid policy file: rule ${index} requires valid non-system topic patterns (or the dead-letter topic)`, { filePath });
+        }
+    }
+    return new AccessPolicy(defaultEffect, rules);
+}
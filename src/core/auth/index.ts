@@ -0,0 +1,323 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { config } from '@config';
+import { ForbiddenError, InternalError, UnauthorizedError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { SetupLogger } from '@utils/logger';
+import { AccessAction, AccessPolicy, loadPolicy } from './acl';
+import { AuthMetrics } from './metrics';
+
+export * from './acl';
+
+const logger = SetupLogger('AuthManager');
+
+/**
+ * Topics that a connection may use before it has authenticated.
+ */
+const UNAUTHENTICATED_TOPICS = new Set(['system.auth', 'system.heartbeat']);
+
+/**
+ * A single entry in the credentials file.
+ * Each entry maps either an API key or a shared secret to an identity.
+ */
+export interface Credential {
+    /** The identity that is granted when the credential is presented */
+    identity: string;
+    /** The API key for the identity (presented on its own) */
+    apiKey?: string;
+    /** The shared secret for the identity (presented together with the identity) */
+    secret?: string;
+}
+
+/**
+ * The payload of a `system.auth` request.
+ */
+export interface AuthRequest {
+    /** The API key to authenticate with */
+    apiKey?: string;
+    /** The identity to authenticate as (required when using a shared secret) */
+    identity?: string;
+    /** The shared secret to authenticate with */
+    secret?: string;
+}
+
+/**
+ * Tracks failed authentication attempts for a single IP.
+ */
+interface FailureRecord {
+    /** Number of consecutive failed attempts */
+    count: number;
+    /** The time until which the IP is locked out (if locked out) */
+    lockedUntil?: Date;
+    /** Timer that forgets the record once the lockout duration has elapsed */
+    expiry: NodeJS.Timeout;
+}
+
+/**
+ * Loads the credentials from a YAML (or JSON) credentials file.
+ *
+ * @param filePath The path to the credentials file.
+ * @returns The list of credentials.
+ * @throws {InternalError} If the file is malformed.
+ */
+export function loadCredentials(filePath: string): Credential[] {
+    const content = yaml.load(fs.readFileSync(filePath, 'utf-8')) as { credentials?: Credential[] } | undefined;
+    const credentials = content?.credentials ?? [];
+    if (!Array.isArray(credentials)) {
+        throw new InternalError('Invalid credentials file: credentials must be a list', { filePath });
+    }
+    for (const credential of credentials) {
+        if (!credential || typeof credential.identity !== 'string' || !credential.identity) {
+            throw new InternalError('Invalid credentials file: every credential requires an identity', { filePath });
+        }
+        if (typeof credential.apiKey !== 'string' && typeof credential.secret !== 'string') {
+            throw new InternalError(`Invalid credentials file: ${credential.identity} requires an apiKey or a secret`, { filePath });
+        }
+    }
+    return credentials;
+}
+
+/**
+ * Compares two strings in constant time.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns True if the strings are equal, false otherwise.
+ */
+function safeEqual(a: string, b: string): boolean {
+    // Hash both values so the comparison does not leak the length of the expected value
+    const hashA = createHash('sha256').update(a).digest();
+    const hashB = createHash('sha256').update(b).digest();
+    return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Manages the authentication handshake of connections, the lockout of IPs
+ * that repeatedly fail to authenticate, and the topic ACL policy.
+ */
+export class AuthManager {
+    private credentials: Credential[];
+    private policy?: AccessPolicy;
+    private readonly identities: Map<string, string>;
+    private readonly failures: Map<string, FailureRecord>;
+    private readonly metrics: AuthMetrics;
+
+    constructor(monitoringManager: MonitoringManager) {
+        this.identities = new Map();
+        this.failures = new Map();
+        this.metrics = new AuthMetrics(monitoringManager);
+        this.credentials = config.auth.credentials ? loadCredentials(config.auth.credentials) : [];
+        if (config.auth.enabled) {
+            logger.info(`Authentication enabled with ${this.credentials.length} credential(s)`);
+        }
+        if (config.auth.acl.policy) {
+            this.policy = loadPolicy(config.auth.acl.policy);
+            logger.info(`Topic ACL policy loaded with ${this.policy.size} rule(s)`);
+        }
+    }
+
+    /**
+     * Reloads the topic ACL policy from the policy file (e.g. after it was edited). If the file is invalid, the
+     * current policy is kept. The new policy applies to subsequent messages and subscriptions only.
+     *
+     * @returns True if the policy was reloaded, false otherwise.
+     */
+    reloadPolicy(): boolean {
+        if (!config.auth.acl.policy) {
+            this.policy = undefined;
+            return true;
+        }
+        try {
+            this.policy = loadPolicy(config.auth.acl.policy);
+            logger.info(`Topic ACL policy reloaded with ${this.policy.size} rule(s)`);
+            return true;
+        } catch (error) {
+            logger.error('Failed to reload the topic ACL policy, keeping the current one', { error });
+            return false;
+        }
+    }
+
+    /**
+     * Whether connections must authenticate before routing messages.
+     */
+    get enabled(): boolean {
+        return config.auth.enabled;
+    }
+
+    /**
+     * Authenticates a service with the given credentials.
+     *
+     * @param serviceId The ID of the service authenticating.
+     * @param ip The IP the service is connected from.
+     * @param request The credentials presented by the service.
+     * @returns The identity that was granted.
+     * @throws {UnauthorizedError} If the IP is locked out or the credentials are invalid.
+     */
+    authenticate(serviceId: string, ip: string, request: AuthRequest): string {
+        const retryAfter = this.getLockoutRemaining(ip);
+        if (retryAfter > 0) {
+            this.metrics.failureRate.slot.add(1);
+            this.metrics.failureTotal.slot.add(1);
+            throw new UnauthorizedError('Too many failed authentication attempts', { retryAfter });
+        }
+
+        const identity = this.verify(request);
+        if (!identity) {
+            this.recordFailure(ip);
+            logger.warn(`Failed authentication attempt for service ${serviceId} (IP ${ip})`, { serviceId, ip });
+            throw new UnauthorizedError('Invalid credentials');
+        }
+
+        // Forget any previous failures for the IP
+        this.clearFailures(ip);
+
+        this.identities.set(serviceId, identity);
+        this.metrics.successRate.slot.add(1);
+        this.metrics.successTotal.slot.add(1);
+        logger.info(`Service ${serviceId} authenticated as ${identity} (IP ${ip})`, { serviceId, ip, identity });
+        return identity;
+    }
+
+    /**
+     * Verifies the credentials presented by a service.
+     *
+     * @param request The credentials presented by the service.
+     * @returns The identity matching the credentials, or undefined if none match.
+     */
+    private verify(request: AuthRequest): string | undefined {
+        const { apiKey, identity, secret } = request ?? {};
+        if (typeof apiKey === 'string' && apiKey) {
+            // Check every key so the time taken does not depend on which entry matched
+            let match: string | undefined;
+            for (const credential of this.credentials) {
+                if (credential.apiKey !== undefined && safeEqual(credential.apiKey, apiKey) && !match) {
+                    match = credential.identity;
+                }
+            }
+            return match;
+        }
+        if (typeof identity === 'string' && typeof secret === 'string' && secret) {
+            const credential = this.credentials.find(c => c.identity === identity && c.secret !== undefined);
+            return credential && safeEqual(credential.secret!, secret) ? credential.identity : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Records a failed authentication attempt for an IP, locking it out once the threshold is reached.
+     *
+     * @param ip The IP that failed to authenticate.
+     */
+    private recordFailure(ip: string): void {
+        const { threshold, duration } = config.auth.failure.lockout;
+        const record = this.failures.get(ip);
+        if (record) clearTimeout(record.expiry);
+
+        const count = (record?.count ?? 0) + 1;
+        const locked = threshold > 0 && count >= threshold;
+        this.failures.set(ip, {
+            count,
+            lockedUntil: locked ? new Date(Date.now() + duration * 1000) : undefined,
+            // Do not keep the process alive for the expiry of a lockout
+            expiry: setTimeout(() => this.clearFailures(ip), duration * 1000).unref(),
+        });
+
+        this.metrics.failureRate.slot.add(1);
+        this.metrics.failureTotal.slot.add(1);
+        if (locked) {
+            this.metrics.lockoutActive.slot.add(1);
+            this.metrics.lockoutTotal.slot.add(1);
+            logger.warn(`IP ${ip} locked out for ${duration} seconds after ${count} failed authentication attempts`, { ip, count, duration });
+        }
+    }
+
+    /**
+     * Forgets all failed authentication attempts for an IP.
+     *
+     * @param ip The IP to clear.
+     */
+    private clearFailures(ip: string): void {
+        const record = this.failures.get(ip);
+        if (!record) return;
+        clearTimeout(record.expiry);
+        if (record.lockedUntil) this.metrics.lockoutActive.slot.add(-1);
+        this.failures.delete(ip);
+    }
+
+    /**
+     * Gets the number of seconds remaining in an IP's lockout.
+     *
+     * @param ip The IP to check.
+     * @returns The number of seconds remaining, or 0 if the IP is not locked out.
+     */
+    getLockoutRemaining(ip: string): number {
+        const lockedUntil = this.failures.get(ip)?.lockedUntil;
+        if (!lockedUntil) return 0;
+        const remaining = lockedUntil.getTime() - Date.now();
+        return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+    }
+
+    /**
+     * Checks if a service is allowed to send a message on a topic.
+     *
+     * @param serviceId The ID of the service sending the message.
+     * @param topic The topic of the message.
+     * @throws {UnauthorizedError} If authentication is enabled and the service has not authenticated.
+     */
+    assertAuthorized(serviceId: string, topic: string): void {
+        if (!this.enabled || this.identities.has(serviceId) || UNAUTHENTICATED_TOPICS.has(topic)) return;
+        throw new UnauthorizedError('Authentication required', { topic });
+    }
+
+    /**
+     * Checks if the topic ACL policy allows a service to perform an action on a topic.
+     *
+     * @param serviceId The ID of the service.
+     * @param action The action performed.
+     * @param topic The topic, or the topic pattern for subscriptions.
+     * @throws {ForbiddenError} If the policy denies the action.
+     */
+    assertAllowed(serviceId: string, action: AccessAction, topic: string): void {
+        if (!this.policy) return;
+        const identity = this.identities.get(serviceId);
+        if (this.policy.isAllowed(identity, action, topic)) return;
+
+        this.metrics.aclDeniedRate.slot.add(1);
+        this.metrics.aclDeniedTotal.slot.add(1);
+        logger.warn(`Denied ${action} on topic ${topic} to service ${serviceId}`, { serviceId, identity, action, topic });
+        throw new ForbiddenError(`Not allowed to ${action} on topic ${topic}`, { action, topic });
+    }
+
+    /**
+     * Gets the identity a service authenticated as.
+     *
+     * @param serviceId The ID of the service.
+     * @returns The identity, or undefined if the service has not authenticated.
+     */
+    getIdentity(serviceId: string): string | undefined {
+        return this.identities.get(serviceId);
+    }
+
+    /**
+     * Forgets the identity of a service (e.g. when it disconnects).
+     *
+     * @param serviceId The ID of the service.
+     */
+    logout(serviceId: string): void {
+        this.identities.delete(serviceId);
+    }
+
+    /**
+     * Disposes of all identities, lockouts, the policy and metrics.
+     */
+    dispose(): void {
+        for (const ip of Array.from(this.failures.keys())) {
+            this.clearFailures(ip);
+        }
+        this.identities.clear();
+        this.policy = undefined;
+        this.metrics.dispose();
+        logger.info('Disposed of all metrics');
+    }
+}
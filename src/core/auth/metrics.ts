@@ -0,0 +1,58 @@
+import { MetricsContainer, MonitoringManager } from '@core/monitoring';
+import { Metric } from '@core/monitoring/metrics';
+import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
+
+/**
+ * Metrics for the Auth module
+ */
+export class AuthMetrics implements MetricsContainer {
+    /** Rate of actions denied by the topic ACL policy */
+    public readonly aclDeniedRate: Metric<RateSlot>;
+
+    /** Total number of actions denied by the topic ACL policy */
+    public readonly aclDeniedTotal: Metric<GaugeSlot>;
+
+    /** Rate of failed authentication attempts */
+    public readonly failureRate: Metric<RateSlot>;
+
+    /** Total number of failed authentication attempts */
+    public readonly failureTotal: Metric<GaugeSlot>;
+
+    /** Number of IPs currently locked out */
+    public readonly lockoutActive: Metric<GaugeSlot>;
+
+    /** Total number of lockouts */
+    public readonly lockoutTotal: Metric<GaugeSlot>;
+
+    /** Rate of successful authentication attempts */
+    public readonly successRate: Metric<RateSlot>;
+
+    /** Total number of successful authentication attempts */
+    public readonly successTotal: Metric<GaugeSlot>;
+
+    constructor(private readonly monitoringManager: MonitoringManager) {
+        // Initialize all metrics
+        this.aclDeniedRate = this.monitoringManager.registerMetric('auth.acl.denied.rate', RateSlot);
+        this.aclDeniedTotal = this.monitoringManager.registerMetric('auth.acl.denied.total', GaugeSlot);
+        this.failureRate = this.monitoringManager.registerMetric('auth.failure.rate', RateSlot);
+        this.failureTotal = this.monitoringManager.registerMetric('auth.failure.total', GaugeSlot);
+        this.lockoutActive = this.monitoringManager.registerMetric('auth.lockout.active', GaugeSlot);
+        this.lockoutTotal = this.monitoringManager.registerMetric('auth.lockout.total', GaugeSlot);
+        this.successRate = this.monitoringManager.registerMetric('auth.success.rate', RateSlot);
+        this.successTotal = this.monitoringManager.registerMetric('auth.success.total', GaugeSlot);
+    }
+
+    /**
+     * Dispose of all metrics
+     */
+    public dispose(): void {
+        this.aclDeniedRate.dispose();
+        this.aclDeniedTotal.dispose();
+        this.failureRate.dispose();
+        this.failureTotal.dispose();
+        this.lockoutActive.dispose();
+        this.lockoutTotal.dispose();
+        this.successRate.dispose();
+        this.successTotal.dispose();
+    }
+}
@@ -1,8 +1,12 @@
+import { Server as HttpServer } from 'http';
 import { Server } from 'net';
 import { WebSocketServer } from 'ws';
 import { config } from '@config';
+import { AuthManager } from '@core/auth';
 import { ConnectionManager } from '@core/connection/manager';
-import { createTcpServer, createWebSocketServer } from '@core/connection/protocols';
+import { createHttpServer, createTcpServer, createWebSocketServer } from '@core/connection/protocols';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
 import { MonitoringManager } from '@core/monitoring';
 import { ServiceRegistry } from '@core/registry';
 import { MessageRouter } from '@core/router';
@@ -15,7 +19,11 @@ const logger = SetupLogger('MessageBroker');
 export class MessageBroker {
     private tcpServers: Server[];
     private wsServers: WebSocketServer[];
+    private httpServer?: HttpServer;
+    private authManager: AuthManager;
     private connectionManager: ConnectionManager;
+    private deliveryManager: DeliveryManager;
+    private durableManager: DurableManager;
     private messageRouter: MessageRouter;
     private monitorManager: MonitoringManager;
     private subscriptionManager: SubscriptionManager;
@@ -29,22 +37,38 @@ export class MessageBroker {
     constructor() {
         this.monitorManager = new MonitoringManager();
         this.systemManager = new SystemManager(this.monitorManager);
-        this.subscriptionManager = new SubscriptionManager();
-        this.messageRouter = new MessageRouter(this.subscriptionManager, this.monitorManager);
-        this.serviceRegistry = new ServiceRegistry(this.subscriptionManager, this.monitorManager);
-        this.connectionManager = new ConnectionManager(this.messageRouter, this.serviceRegistry, this.monitorManager, this.subscriptionManager);
+        this.authManager = new AuthManager(this.monitorManager);
+        this.subscriptionManager = new SubscriptionManager(this.monitorManager);
+        this.durableManager = new DurableManager(this.monitorManager);
+        this.deliveryManager = new DeliveryManager(this.monitorManager);
+        this.messageRouter = new MessageRouter(this.subscriptionManager, this.durableManager, this.deliveryManager, this.monitorManager, this.authManager);
+        this.serviceRegistry = new ServiceRegistry(this.subscriptionManager, this.durableManager, this.deliveryManager, this.monitorManager, this.authManager);
+        this.connectionManager = new ConnectionManager(this.messageRouter, this.serviceRegistry, this.monitorManager, this.subscriptionManager, this.authManager);
         this.serviceRegistry.assignConnectionManager(this.connectionManager);
         this.messageRouter.assignConnectionManager(this.connectionManager);
         this.messageRouter.assignServiceRegistry(this.serviceRegistry);
+        this.durableManager.assignConnectionManager(this.connectionManager);
+        this.subscriptionManager.assignConnectionManager(this.connectionManager);
+        this.deliveryManager.assignConnectionManager(this.connectionManager);
 
-        // Create TCP and WebSocket servers
+        // Create TCP and WebSocket servers, and the HTTP gateway if enabled
         this.tcpServers = createTcpServer(this.connectionManager);
         this.wsServers = createWebSocketServer(this.connectionManager);
+        this.httpServer = createHttpServer(this.connectionManager);
 
         this.createdAt = new Date();
         logger.info(`Created at ${this.createdAt.toISOString()}`);
     }
 
+    /**
+     * Reloads the topic ACL policy from its file.
+     *
+     * @returns True if the policy was reloaded, false if it is invalid (the current policy is kept).
+     */
+    reloadPolicy(): boolean {
+        return this.authManager.reloadPolicy();
+    }
+
     /**
      * Shuts down the Message Broker.
      */
@@ -57,12 +81,21 @@ export class MessageBroker {
         // Clear all subscriptions
         await this.subscriptionManager.dispose();
 
+        // Drop the pending at-least-once deliveries
+        await this.deliveryManager.dispose();
+
+        // Close the durable consumer logs
+        await this.durableManager.dispose();
+
         // Clear all services
         await this.serviceRegistry.dispose();
 
         // Close all connections
         await this.connectionManager.dispose();
 
+        // Clear all identities and lockouts
+        this.authManager.dispose();
+
         // Dispose of system manager
         this.systemManager.dispose();
 
@@ -73,7 +106,8 @@ export class MessageBroker {
         try {
             await Promise.all([
                 ...this.tcpServers.map(server => server.close()),
-                ...this.wsServers.map(server => server.close())
+                ...this.wsServers.map(server => server.close()),
+                this.httpServer?.close()
             ]);
             logger.info('All servers closed');
         } catch (error) {
@@ -1,7 +1,8 @@
 import { randomUUID } from "crypto";
 import { config } from "@config";
+import { AuthManager } from "@core/auth";
 import { Connection, ConnectionState } from "@core/connection/types";
-import { InternalError, MalformedMessageError, MessageError } from "@core/errors";
+import { InternalError, MalformedMessageError, MessageError, ServiceUnavailableError, UnauthorizedError } from "@core/errors";
 import { MonitoringManager } from "@core/monitoring";
 import { ServiceRegistry } from "@core/registry";
 import { MessageRouter } from "@core/router";
@@ -39,6 +40,31 @@ interface ClientMessageAudit {
     }; // The original client message
 }
 
+/**
+ * The payload of a message published to the dead-letter topic.
+ */
+interface DeadLetterMessage {
+    reason: string; // The reason the message was dropped
+    code: string; // The code of the error the message was dropped with
+    details?: object; // The details of the error
+    header: BrokerHeader | ClientHeader; // The header of the dropped message
+    payload: string; // The raw payload of the dropped message
+}
+
+/**
+ * Pulls the next message to send to a service one page at a time (see `ConnectionManager.sendPaced`),
+ * or returns undefined once all messages were sent.
+ */
+export type MessageSource = () => { header: BrokerHeader; payload: Payload | Buffer } | undefined;
+
+/**
+ * The messages sent to a service one page at a time.
+ */
+interface PacedStream {
+    sources: MessageSource[]; // The sources of the messages, sent one after the other
+    pumping: boolean; // Whether messages are being pulled (sending them reports the outbound depth back)
+}
+
 /**
  * The header for an error message when the message header are malformed.
  */
@@ -53,15 +79,20 @@ const ERROR_HEADER: BrokerHeader = {
  */
 export class ConnectionManager {
     private connections: Map<string, Connection>;
+    private outboundDepths: Map<string, number>;
+    private pacedStreams: Map<string, PacedStream>;
     private metrics: ConnectionMetrics;
 
     constructor(
         private messageRouter: MessageRouter,
         private serviceRegistry: ServiceRegistry,
         monitorManager: MonitoringManager,
-        private subscriptionManager: SubscriptionManager
+        private subscriptionManager: SubscriptionManager,
+        private authManager: AuthManager
     ) {
         this.connections = new Map<string, Connection>();
+        this.outboundDepths = new Map<string, number>();
+        this.pacedStreams = new Map<string, PacedStream>();
         this.metrics = new ConnectionMetrics(monitorManager);
     }
 
@@ -72,6 +103,21 @@ export class ConnectionManager {
      * @param ws The connection object.
      */
     addConnection(connection: Connection): void {
+        // Reject the connection if the maximum number of concurrent connections has been reached
+        if (this.connections.size >= config.connection.max.concurrent) {
+            this.rejectConnection(connection, new ServiceUnavailableError("Maximum number of concurrent connections reached", {
+                limit: config.connection.max.concurrent,
+            }));
+            return;
+        }
+
+        // Reject the connection if the IP is locked out after too many failed authentication attempts
+        const retryAfter = this.authManager.getLockoutRemaining(connection.ip);
+        if (retryAfter > 0) {
+            this.rejectConnection(connection, new UnauthorizedError("Too many failed authentication attempts", { retryAfter }));
+            return;
+        }
+
         try {
             connection.serviceId = randomUUID();
             // If registration succeeds, add the connection
@@ -79,6 +125,7 @@ export class ConnectionManager {
             // Add a listeners
             connection.onMessage(this.handleMessage.bind(this, connection));
             connection.onClose(this.removeConnection.bind(this, connection.serviceId));
+            connection.onBackpressure(this.handleBackpressure.bind(this, connection.serviceId));
             // Register connection with service registry first
             this.serviceRegistry.registerService(connection.serviceId);
             // Update metrics
@@ -102,6 +149,23 @@ export class ConnectionManager {
         }
     }
 
+    /**
+     * Rejects a connection before it is registered, sending an error frame to the client before closing it.
+     *
+     * @param connection The connection to reject.
+     * @param error The error to send to the client.
+     */
+    private rejectConnection(connection: Connection, error: MessageError): void {
+        logger.warn(`Rejected connection from IP ${connection.ip}: ${error.message}`, { ip: connection.ip, error });
+        try {
+            connection.send(MessageUtils.serialize(ERROR_HEADER, { error: error.toJSON() }));
+        } catch (sendError) {
+            logger.error(`Unable to send rejection to IP ${connection.ip}:`, { ip: connection.ip, error: sendError });
+        }
+        connection.close();
+        this.metrics.onConnectionRejected();
+    }
+
     /**
      * Removes a connection from the connection manager.
      *
@@ -111,23 +175,112 @@ export class ConnectionManager {
         const connection = this.connections.get(serviceId);
         if (connection) {
             this.connections.delete(serviceId);
+            this.outboundDepths.delete(serviceId);
+            this.pacedStreams.delete(serviceId);
             this.serviceRegistry.unregisterService(serviceId);
+            // Settle the requests the service was handling now that it is unsubscribed
+            this.messageRouter.handleServiceDisconnect(serviceId);
+            this.authManager.logout(serviceId);
+            this.metrics.serviceQueueDepth.getMetric({ serviceId })?.dispose();
             this.metrics.onConnectionClosed();
             logger.info(`Removed connection for service ${serviceId} (IP ${connection.ip})`);
         }
     }
 
+    /**
+     * Handles a change of the outbound queue of a connection, updating its depth metric and counting the
+     * messages dropped by the slow-consumer policy. Resumes the paced messages once it drained to the low water mark.
+     *
+     * @param serviceId The ID of the service.
+     * @param depth The number of bytes sent to the service that were not yet sent over the network.
+     * @param dropped The number of messages dropped by the change.
+     */
+    private handleBackpressure(serviceId: string, depth: number, dropped: number): void {
+        // Messages still being sent when the connection closed report back after it was removed
+        if (!this.connections.has(serviceId)) return;
+
+        const metric = this.metrics.serviceQueueDepth.getMetric({ serviceId }) ?? this.metrics.serviceQueueDepth.registerMetric({ serviceId });
+        metric.slot.set(depth);
+        if (dropped > 0) {
+            logger.debug(`Dropped ${dropped} message(s) to slow consumer ${serviceId}`, { serviceId, depth, dropped });
+            this.metrics.onMessageDropped(dropped);
+        }
+
+        this.outboundDepths.set(serviceId, depth);
+        if (depth <= config.connection.outbound.lowWaterMark) this.pumpPaced(serviceId);
+    }
+
+    /**
+     * Sends the messages of a source to a service one page at a time, so a large backlog (e.g. the replay of a
+     * durable consumer) neither trips the slow-consumer policy nor is dropped by it: messages are pulled from the
+     * source while the outbound depth of the connection is within the low water mark, and the pulling resumes once
+     * the connection drained back to it. The sources of a service are sent one after the other, and are dropped
+     * when the service disconnects.
+     *
+     * @param serviceId The ID of the service to send the messages to.
+     * @param source Pulls the next message to send.
+     */
+    sendPaced(serviceId: string, source: MessageSource): void {
+        if (!this.connections.has(serviceId)) return;
+
+        const stream = this.pacedStreams.get(serviceId);
+        if (stream) {
+            stream.sources.push(source);
+            return;
+        }
+        this.pacedStreams.set(serviceId, { sources: [source], pumping: false });
+        this.pumpPaced(serviceId);
+    }
+
+    /**
+     * Pulls and sends the paced messages of a service until its outbound depth exceeds the low water mark,
+     * or all sources are exhausted.
+     *
+     * @param serviceId The ID of the service.
+     */
+    private pumpPaced(serviceId: string): void {
+        const stream = this.pacedStreams.get(serviceId);
+        if (!stream || stream.pumping) return;
+
+        stream.pumping = true;
+        try {
+            while (stream.sources.length > 0 && this.connections.has(serviceId) && (this.outboundDepths.get(serviceId) ?? 0) <= config.connection.outbound.lowWaterMark) {
+                const message = stream.sources[0]();
+                if (message) {
+                    this.sendMessage(serviceId, message.header, message.payload, undefined);
+                } else {
+                    stream.sources.shift();
+                }
+            }
+        } catch (error) {
+            logger.error(`Stopped sending paced messages to service ${serviceId}`, { serviceId, error });
+            stream.sources.length = 0;
+        } finally {
+            stream.pumping = false;
+        }
+        if (stream.sources.length === 0 && this.pacedStreams.get(serviceId) === stream) {
+            this.pacedStreams.delete(serviceId);
+        }
+    }
+
     /**
      * Resolves a connection for a given service ID.
      *
      * @param serviceId The ID of the service.
+     * @param message The message to send over the connection, dead-lettered if the connection is not found or not open.
      * @returns The connection object if found, undefined otherwise.
      */
-    private _resolveConnection(serviceId: string): Connection | undefined {
+    private _resolveConnection(
+        serviceId: string,
+        message?: { header: BrokerHeader; payload: Payload | Buffer }
+    ): Connection | undefined {
         const connection = this.connections.get(serviceId);
 
         if (!connection) {
             logger.warn(`Unable to send message to service ${serviceId}: connection not found`);
+            if (message) {
+                this.deadLetter(message.header, message.payload, new ServiceUnavailableError("Desired service connection not found", { serviceId }));
+            }
             return;
         }
 
@@ -135,7 +288,9 @@ export class ConnectionManager {
             logger.warn(`Unable to send message to service ${serviceId}: Connection is not open`);
             connection.close();
             this.removeConnection(serviceId);
-            throw new InternalError("Desired service connection is not open");
+            const error = new InternalError("Desired service connection is not open", { serviceId });
+            if (message) this.deadLetter(message.header, message.payload, error);
+            throw error;
         }
 
         return connection;
@@ -154,35 +309,105 @@ export class ConnectionManager {
         payload: Payload = {},
         maskedId: string | undefined
     ): void {
-        const connection = this._resolveConnection(serviceId);
-        if (!connection) return;
-
-        // Send the message to the service
-        connection.send(MessageUtils.serialize(header as BrokerHeader, payload));
-        //logger.debug(`Sent message ${header.action}:${header.topic}:${header.version}:${header.requestid ? ':' +header.requestid : ''} to ${serviceId}`, { header, payload, serviceId });
+        this.fanOutMessage([serviceId], header, payload, maskedId);
+    }
 
-        // Notify all subscribers of `system.message`:
+    /**
+     * Sends the same message to several services over their connections, encoding it once for all of them.
+     *
+     * @param serviceIds The IDs of the services to send the message to.
+     * @param header The message header.
+     * @param payload The message payload.
+     */
+    fanOutMessage<T>(
+        serviceIds: string[],
+        header: Exact<T, BrokerHeader>,
+        payload: Payload | Buffer = {},
+        maskedId: string | undefined
+    ): void {
+        if (serviceIds.length === 0) return;
+        const encoded = MessageUtils.encode(header as BrokerHeader, payload);
         const subscribers = this.subscriptionManager.getPublishSubscribers("system.message");
-        if (subscribers.length) {
-            const subHeader = { action: ActionType.PUBLISH, topic: "system.message", version: "1.0.0" } as BrokerHeader;
-            const message = { header, payload } as any as BrokerMessageAudit["message"];
-            // If the message has a parentRequestId, and it matches the maskedId, then remove the parentRequestId
-            //if (maskedId && maskedId === message.header.parentRequestId) delete message.header.parentRequestId; // TODO: We should probably ensure that we don't call this function with a parentRequestId that matches the maskedId
-            const msg = MessageUtils.serialize(subHeader, {
-                timestamp: new Date().toISOString(),
-                to: serviceId,
-                message,
-                maskedId,
-            } as BrokerMessageAudit);
-            // Forward the message to all subscribers
-            for (const subscriber of subscribers) {
-                const connection = this._resolveConnection(subscriber);
-                if (!connection) {
-                    this.subscriptionManager.unsubscribe(subscriber);
-                    this.serviceRegistry.unregisterService(subscriber);
-                    continue;
+        let audit: ((serviceId: string) => string) | undefined; // The audit of the message, serialized once for all services
+
+        for (const serviceId of serviceIds) {
+            const connection = this._resolveConnection(serviceId, { header: header as BrokerHeader, payload });
+            if (!connection) continue;
+
+            // Send the message to the service
+            connection.send(encoded);
+            //logger.debug(`Sent message ${header.action}:${header.topic}:${header.version}:${header.requestid ? ':' +header.requestid : ''} to ${serviceId}`, { header, payload, serviceId });
+
+            // Notify all subscribers of `system.message`:
+            if (subscribers.length) {
+                audit ??= this.serializeAudit(header as BrokerHeader, payload, maskedId);
+                const msg = audit(serviceId);
+                // Forward the message to all subscribers
+                for (const subscriber of subscribers) {
+                    const connection = this._resolveConnection(subscriber);
+                    if (!connection) {
+                        this.subscriptionManager.unsubscribe(subscriber);
+                        this.serviceRegistry.unregisterService(subscriber);
+                        continue;
+                    }
+                    connection.send(msg);
                 }
-                connection.send(msg);
+            }
+        }
+    }
+
+    /**
+     * Serializes the audit of a message the broker sends (see `BrokerMessageAudit`) for the `system.message`
+     * subscribers. The audit is serialized once around the original message, and only the recipient is
+     * concatenated in for each service the message is sent to.
+     *
+     * @param header The header of the message.
+     * @param payload The payload of the message (raw payloads are audited as they are).
+     * @param maskedId The response id that the broker overwrote.
+     * @returns The serializer of the audit for a recipient.
+     */
+    private serializeAudit(header: BrokerHeader, payload: Payload | Buffer, maskedId: string | undefined): (serviceId: string) => string {
+        const subHeader = { action: ActionType.PUBLISH, topic: "system.message", version: "1.0.0" } as BrokerHeader;
+        // If the message has a parentRequestId, and it matches the maskedId, then remove the parentRequestId
+        //if (maskedId && maskedId === message.header.parentRequestId) delete message.header.parentRequestId; // TODO: We should probably ensure that we don't call this function with a parentRequestId that matches the maskedId
+        const message = `{"header":${JSON.stringify(header)},"payload":${MessageUtils.serializePayload(payload) || "{}"}}`;
+        const prefix = `${MessageUtils.serialize(subHeader, Buffer.alloc(0))}{"timestamp":${JSON.stringify(new Date().toISOString())},"to":`;
+        const suffix = `,"message":${message}${maskedId !== undefined ? `,"maskedId":${JSON.stringify(maskedId)}` : ""}}`;
+        return (serviceId) => `${prefix}${JSON.stringify(serviceId)}${suffix}`;
+    }
+
+    /**
+     * Publishes a message the broker dropped to the subscribers of the dead-letter topic, with the reason and the
+     * error it was dropped with, so it can be inspected and published again. Messages of the dead-letter topic
+     * itself are never dead-lettered.
+     *
+     * @param header The header of the dropped message.
+     * @param payload The raw payload of the dropped message.
+     * @param error The error the message was dropped with.
+     */
+    deadLetter(header: BrokerHeader | ClientHeader, payload: Payload | Buffer, error: MessageError): void {
+        const topic = config.deadletter.topic;
+        if (header.topic === topic) return;
+
+        logger.warn(`Dead-lettering message ${header.action}:${header.topic}:${header.version}: ${error.message}`, { header, error });
+        this.metrics.onMessageDeadLettered();
+
+        const subscribers = this.subscriptionManager.getPublishSubscribers(topic);
+        if (!subscribers.length) return;
+
+        const deadLetterHeader = { action: ActionType.PUBLISH, topic, version: "1.0.0", requestId: randomUUID() } as BrokerHeader;
+        const deadLetterPayload: DeadLetterMessage = {
+            reason: error.message,
+            code: error.code,
+            details: error.details,
+            header,
+            payload: MessageUtils.serializePayload(payload),
+        };
+        for (const subscriber of subscribers) {
+            try {
+                this.sendMessage(subscriber, deadLetterHeader, deadLetterPayload, undefined);
+            } catch (sendError) {
+                logger.error(`Unable to send dead-lettered message to service ${subscriber}:`, { serviceId: subscriber, error: sendError });
             }
         }
     }
@@ -232,6 +457,9 @@ export class ConnectionManager {
                 }
             }
 
+            // Only allow authenticated services to route messages (other than authentication and heartbeats)
+            this.authManager.assertAuthorized(connection.serviceId, parser.header.topic);
+
             // Route the message to the message router
             this.messageRouter.routeMessage(connection.serviceId, parser);
         } catch (error) {
@@ -297,6 +525,8 @@ export class ConnectionManager {
             connection.close();
         }
         this.connections.clear();
+        this.outboundDepths.clear();
+        this.pacedStreams.clear();
         logger.info("Closed all connections");
         this.metrics.dispose();
         logger.info("Disposed of all metrics");
@@ -1,5 +1,6 @@
 import { MetricsContainer, MonitoringManager } from '@core/monitoring';
 import { Metric } from '@core/monitoring';
+import { ParameterizedMetric } from '@core/monitoring/metrics';
 import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
 
 /**
@@ -33,6 +34,21 @@ export class ConnectionMetrics implements MetricsContainer {
     /** Total number of rejected connections */
     public readonly connectionRejectedTotal: Metric<GaugeSlot>;
 
+    /** Rate of messages published to the dead-letter topic */
+    public readonly messageDeadLetteredRate: Metric<RateSlot>;
+
+    /** Total number of messages published to the dead-letter topic */
+    public readonly messageDeadLetteredTotal: Metric<GaugeSlot>;
+
+    /** Rate of messages dropped by the slow-consumer policy */
+    public readonly messageDroppedRate: Metric<RateSlot>;
+
+    /** Total number of messages dropped by the slow-consumer policy */
+    public readonly messageDroppedTotal: Metric<GaugeSlot>;
+
+    /** Number of bytes sent to a specific service that were not yet sent over the network */
+    public readonly serviceQueueDepth: ParameterizedMetric<GaugeSlot>;
+
     constructor(private monitorManager: MonitoringManager) {
         // Initialize all metrics
         this.activeConnections = this.monitorManager.registerMetric('connection.active', GaugeSlot);
@@ -44,6 +60,11 @@ export class ConnectionMetrics implements MetricsContainer {
         this.connectionFailedTotal = this.monitorManager.registerMetric('connection.failed.total', GaugeSlot);
         this.connectionRejectedRate = this.monitorManager.registerMetric('connection.rejected.rate', RateSlot);
         this.connectionRejectedTotal = this.monitorManager.registerMetric('connection.rejected.total', GaugeSlot);
+        this.messageDeadLetteredRate = this.monitorManager.registerMetric('connection.deadlettered.rate', RateSlot);
+        this.messageDeadLetteredTotal = this.monitorManager.registerMetric('connection.deadlettered.total', GaugeSlot);
+        this.messageDroppedRate = this.monitorManager.registerMetric('connection.dropped.rate', RateSlot);
+        this.messageDroppedTotal = this.monitorManager.registerMetric('connection.dropped.total', GaugeSlot);
+        this.serviceQueueDepth = this.monitorManager.registerParameterized('connection.service.{serviceid}.queue.depth', GaugeSlot);
     }
 
     /**
@@ -75,10 +96,28 @@ export class ConnectionMetrics implements MetricsContainer {
     /**
      * Updates metrics when a connection attempt is rejected
      */
-    /*onConnectionRejected(): void {
+    onConnectionRejected(): void {
         this.connectionRejectedRate.slot.add(1);
         this.connectionRejectedTotal.slot.add(1);
-    }*/
+    }
+
+    /**
+     * Updates metrics when a message is published to the dead-letter topic
+     */
+    onMessageDeadLettered(): void {
+        this.messageDeadLetteredRate.slot.add(1);
+        this.messageDeadLetteredTotal.slot.add(1);
+    }
+
+    /**
+     * Updates metrics when messages are dropped by the slow-consumer policy
+     *
+     * @param count The number of messages dropped
+     */
+    onMessageDropped(count: number): void {
+        this.messageDroppedRate.slot.add(count);
+        this.messageDroppedTotal.slot.add(count);
+    }
 
     /**
      * Disposes of all metrics
@@ -93,5 +132,10 @@ export class ConnectionMetrics implements MetricsContainer {
         this.connectionFailedTotal.dispose();
         this.connectionRejectedRate.dispose();
         this.connectionRejectedTotal.dispose();
+        this.messageDeadLetteredRate.dispose();
+        this.messageDeadLetteredTotal.dispose();
+        this.messageDroppedRate.dispose();
+        this.messageDroppedTotal.dispose();
+        this.serviceQueueDepth.dispose();
     }
 }
\ No newline at end of file
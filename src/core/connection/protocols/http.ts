@@ -0,0 +1,521 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import { config } from '@config';
+import { InternalError, InvalidRequestError, MalformedMessageError, MessageError, ServiceUnavailableError, TimeoutError } from '@core/errors';
+import { ActionType } from '@core/types';
+import { BrokerHeader, ClientHeader, MessageUtils } from '@core/utils';
+import { SetupLogger } from '@utils/logger';
+import { ConnectionManager } from '../manager';
+import { OutboundQueue } from '../queue';
+import { Connection, ConnectionState } from '../types';
+
+const logger = SetupLogger('HTTPConnection');
+
+/**
+ * The HTTP status of the errors, by error code. Other codes are errors of the responding service (Bad Gateway).
+ */
+const HTTP_STATUS: { [code: string]: number } = {
+    INVALID_REQUEST: 400,
+    MALFORMED_MESSAGE: 400,
+    INVALID_REQUEST_ID: 400,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+    NO_ROUTE_FOUND: 404,
+    TOPIC_NOT_SUPPORTED: 404,
+    VERSION_NOT_SUPPORTED: 404,
+    RATE_LIMITED: 429,
+    INTERNAL_ERROR: 500,
+    SERVICE_UNAVAILABLE: 503,
+    TIMEOUT: 504,
+};
+
+/**
+ * The endpoints of the gateway: `POST /publish/{topic}` and `POST /request/{topic}`.
+ */
+const ENDPOINT_REGEX = /^\/(publish|request)\/([^/]+)$/;
+
+/**
+ * The Server-Sent Events endpoint of the gateway: `GET /subscribe?topic={pattern}`.
+ */
+const SUBSCRIBE_ENDPOINT = '/subscribe';
+
+/**
+ * Gets the HTTP status of an error.
+ *
+ * @param error The error.
+ * @returns The HTTP status.
+ */
+export function getHttpStatus(error: MessageError): number {
+    return HTTP_STATUS[error.code] ?? 502;
+}
+
+/**
+ * An HTTP call to the gateway, registered as an ephemeral service for the time of the call so the message is routed,
+ * authorized and measured like the messages of socket clients.
+ *
+ * The messages of the call are sent through the message listener, and the broker messages sent to the connection
+ * settle them when they are the responses to them (other messages, e.g. the initialize message, are dropped).
+ */
+export class HTTPConnection implements Connection {
+    serviceId!: string; // This will be set by the ConnectionManager
+    private isConnected: boolean = true;
+    private messageListener?: (message: Buffer) => void;
+    private closeListener?: () => void;
+    private readonly pending: Map<string, { resolve: (response: MessageUtils.Parser) => void; reject: (error: MessageError) => void }> = new Map();
+    private _rejection?: MessageError;
+
+    constructor(public readonly ip: string) {}
+
+    get state(): ConnectionState {
+        return this.isConnected ? ConnectionState.OPEN : ConnectionState.CLOSED;
+    }
+
+    /**
+     * The error the connection was rejected with by the ConnectionManager, if any.
+     */
+    get rejection(): MessageError | undefined {
+        return this._rejection;
+    }
+
+    onMessage(listener: (message: Buffer) => void): void {
+        this.messageListener = listener;
+    }
+
+    onClose(listener: () => void): void {
+        this.closeListener = listener;
+    }
+
+    onBackpressure(): void {
+        // The responses are kept until the call is answered, there is no outbound queue
+    }
+
+    send(message: string | Buffer): void {
+        if (this.state !== ConnectionState.OPEN) {
+            logger.warn(`Unable to send message to service ${this.serviceId}: Connection is not open`);
+            throw new InternalError('Desired service connection is not open');
+        }
+
+        this.receive(new MessageUtils.Parser(Buffer.isBuffer(message) ? message : Buffer.from(message)));
+    }
+
+    /**
+     * Handles a broker message sent to the connection.
+     *
+     * @param parser The message.
+     */
+    protected receive(parser: MessageUtils.Parser): void {
+        const { action, topic, requestId } = parser.header;
+        if (action === ActionType.REQUEST && topic === 'system.heartbeat') {
+            // Keep the service registered during long requests
+            const header: BrokerHeader = { action: ActionType.RESPONSE, topic, version: '1.0.0' };
+            this.messageListener?.(MessageUtils.encode(header, {}));
+        } else if (action === ActionType.RESPONSE && requestId && this.pending.has(requestId)) {
+            this.pending.get(requestId)!.resolve(parser);
+        } else if (action === ActionType.RESPONSE && topic === 'error') {
+            // The connection was rejected, or a message could not be parsed
+            this._rejection = getError(parser);
+        }
+    }
+
+    /**
+     * Routes a message of the call and waits for its response.
+     *
+     * @param header The header of the message (its request ID is generated).
+     * @param payload The raw payload of the message.
+     * @param timeout The time to wait for the response, in milliseconds.
+     * @returns The response.
+     * @throws {MessageError} If the message is malformed, is not answered in time, or the connection closes.
+     */
+    request(header: ClientHeader, payload: Buffer, timeout: number): Promise<MessageUtils.Parser> {
+        const requestId = randomUUID();
+        const message = MessageUtils.encode({ ...header, requestId }, payload);
+        // Report malformed headers (e.g. an invalid topic) to the caller, as they are answered without request ID
+        new MessageUtils.Parser(message);
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => settle(() => reject(new TimeoutError('Request timed out', { timeout }))), timeout);
+            const settle = (callback: () => void) => {
+                clearTimeout(timer);
+                this.pending.delete(requestId);
+                callback();
+            };
+            this.pending.set(requestId, {
+                resolve: (response) => settle(() => resolve(response)),
+                reject: (error) => settle(() => reject(error)),
+            });
+            this.messageListener?.(message);
+        });
+    }
+
+    close(): void {
+        if (!this.isConnected) return;
+        this.isConnected = false;
+        for (const { reject } of Array.from(this.pending.values())) {
+            reject(new ServiceUnavailableError('Connection closed'));
+        }
+        this.closeListener?.();
+    }
+}
+
+/**
+ * A Server-Sent Events stream of the gateway, registered as a read-only service for the lifetime of the stream: it
+ * only subscribes to PUBLISH messages, and streams each of them as an event.
+ *
+ * The publishes routed to the connection while it subscribes are kept until the stream opens, and the broker
+ * messages sent before it subscribes (e.g. the initialize message) are dropped.
+ */
+export class SSEConnection extends HTTPConnection {
+    private readonly outbound: OutboundQueue;
+    private backlog?: string[];
+    private streaming: boolean = false;
+
+    constructor(
+        private readonly res: http.ServerResponse,
+        ip: string
+    ) {
+        super(ip);
+        this.outbound = new OutboundQueue({
+            get buffered() { return res.writableLength; },
+            write: (event, callback) => res.write(event, callback),
+        }, (reason) => {
+            logger.warn(`Disconnecting slow consumer ${this.serviceId} (IP ${this.ip}): ${reason}`, { serviceId: this.serviceId, ip: this.ip });
+            this.close();
+        });
+    }
+
+    // Optional to stay compatible with HTTPConnection.onBackpressure, which takes no listener
+    onBackpressure(listener?: (depth: number, dropped: number) => void): void {
+        if (listener) this.outbound.onChange(listener);
+    }
+
+    protected receive(parser: MessageUtils.Parser): void {
+        if (parser.header.action !== ActionType.PUBLISH) {
+            super.receive(parser);
+        } else if (this.streaming) {
+            this.outbound.push(toEvent(parser));
+        } else {
+            this.backlog?.push(toEvent(parser));
+        }
+    }
+
+    /**
+     * Subscribes the connection to the PUBLISH messages of topic patterns.
+     *
+     * @param topics The topic patterns ('+' and '#' wildcards).
+     * @param timeout The time to wait for each subscription, in milliseconds.
+     * @throws {MessageError} If a subscription is refused (e.g. an invalid topic pattern, or one the service is not
+     * allowed to subscribe to), or is not answered in time.
+     */
+    async subscribe(topics: string[], timeout: number): Promise<void> {
+        this.backlog ??= [];
+        for (const topic of topics) {
+            const header = { action: ActionType.REQUEST, topic: 'system.topic.subscribe', version: '1.0.0' } as ClientHeader;
+            const response = await this.request(header, Buffer.from(JSON.stringify({ action: ActionType.PUBLISH, topic })), timeout);
+            const error = getError(response);
+            if (error) throw error;
+        }
+    }
+
+    /**
+     * Opens the stream, and streams the publishes routed to the connection while it subscribed.
+     */
+    open(): void {
+        this.res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+        this.res.flushHeaders();
+        this.streaming = true;
+        for (const event of this.backlog?.splice(0) ?? []) {
+            this.outbound.push(event);
+        }
+    }
+
+    close(): void {
+        if (this.state !== ConnectionState.OPEN) return;
+        this.outbound.clear();
+        this.backlog = undefined;
+        super.close();
+        // The calls that did not stream yet are answered by their handler
+        if (this.streaming) this.res.end();
+    }
+}
+
+/**
+ * Formats a PUBLISH message as a Server-Sent Event of the default type, whose data is the header of the message
+ * (its metadata) and its payload: `{"header":{...},"payload":...}`.
+ *
+ * @param message The message.
+ * @returns The event.
+ */
+function toEvent(message: MessageUtils.Parser): string {
+    const payload = message.rawPayload.toString('utf-8') || '{}';
+    // Each line of a multi-line payload is a data line, which the client joins back with line feeds
+    const data = `{"header":${JSON.stringify(message.header)},"payload":${payload}}`.split(/\r\n|\r|\n/);
+    return `data: ${data.join('\ndata: ')}\n\n`;
+}
+
+/**
+ * Gets the error a response carries: the error payload of a responding service, or an error of the broker.
+ *
+ * @param response The response.
+ * @returns The error, or undefined if the response is successful.
+ */
+function getError(response: MessageUtils.Parser): MessageError | undefined {
+    if (response.hasError) {
+        try {
+            response.parsePayload();
+        } catch (error) {
+            if (error instanceof MessageError) return error;
+            throw error;
+        }
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(response.rawPayload.toString('utf-8'));
+    } catch {
+        return undefined; // Not an error of the broker
+    }
+    if (typeof payload !== 'object' || payload === null || !('error' in payload)) return undefined;
+    const error = payload.error;
+    if (typeof error !== 'object' || error === null || !('code' in error) || !('message' in error)) return undefined;
+    if (typeof error.code !== 'string' || typeof error.message !== 'string') return undefined;
+
+    const details = 'details' in error && typeof error.details === 'object' && error.details !== null ? error.details : undefined;
+    const timestamp = 'timestamp' in error && (typeof error.timestamp === 'string' || typeof error.timestamp === 'number') ? new Date(error.timestamp) : undefined;
+    return new MessageError(error.code, error.message, details, timestamp);
+}
+
+/**
+ * Creates the HTTP gateway server, over HTTPS if SSL is configured, if it is enabled.
+ *
+ * @param connectionManager - The connection manager instance to register the calls with
+ * @returns The HTTP server instance, or undefined if the gateway is disabled
+ */
+export function createHttpServer(connectionManager: ConnectionManager): http.Server | undefined {
+    if (!config.http.enabled) {
+        logger.debug('HTTP gateway is disabled');
+        return;
+    }
+
+    let server: http.Server;
+    if (config.ssl && config.ssl.key && config.ssl.cert) {
+        logger.debug('Creating secure HTTP gateway (HTTPS)');
+        server = https.createServer({
+            key: fs.readFileSync(config.ssl.key),
+            cert: fs.readFileSync(config.ssl.cert)
+        });
+    } else if (config.allowUnsecure) {
+        logger.debug('Creating unsecure HTTP gateway - explicitly enabled in config');
+        server = http.createServer();
+    } else {
+        throw new InternalError('The HTTP gateway could not be started. Check SSL configuration or enable unsecure connections.');
+    }
+
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const handler = req.url?.split('?')[0] === SUBSCRIBE_ENDPOINT ? handleSubscribe : handleCall;
+        handler(req, res, connectionManager).catch((error) => {
+            logger.error('Unexpected error while handling an HTTP call:', error);
+            reply(res, 500, { error: new InternalError('An unexpected error while routing the message').toJSON() });
+        });
+    });
+
+    server.on('error', (error: Error) => {
+        logger.error('HTTP gateway error:', error);
+    });
+
+    server.listen(config.http.port, config.host, () => {
+        logger.info(`HTTP gateway listening on ${config.host}:${config.http.port}`);
+    });
+
+    return server;
+}
+
+/**
+ * Handles an HTTP call: registers it as an ephemeral service, authenticates it, routes its message and answers with
+ * the response.
+ *
+ * The version, timeout and routing key of the message are set with the `version`, `timeout` and `routingKey`
+ * query parameters.
+ *
+ * @param req The HTTP request.
+ * @param res The HTTP response.
+ * @param connectionManager The connection manager to register the call with.
+ */
+async function handleCall(req: http.IncomingMessage, res: http.ServerResponse, connectionManager: ConnectionManager): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const endpoint = ENDPOINT_REGEX.exec(url.pathname);
+    if (!endpoint) {
+        reply(res, 404, { error: new InvalidRequestError(`Unknown endpoint ${url.pathname}`).toJSON() });
+        return;
+    }
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        reply(res, 405, { error: new InvalidRequestError(`Method ${req.method} is not allowed`).toJSON() });
+        return;
+    }
+
+    const connection = new HTTPConnection(req.socket.remoteAddress || 'unknown');
+    logger.debug(`Client called ${url.pathname} (HTTP) from IP ${connection.ip}`);
+    try {
+        const payload = await readBody(req);
+        const timeout = await register(connection, req, res, url, connectionManager);
+
+        const header = {
+            action: endpoint[1] === 'publish' ? ActionType.PUBLISH : ActionType.REQUEST,
+            topic: decodeURIComponent(endpoint[2]),
+            version: url.searchParams.get('version') ?? '1.0.0',
+            timeout: url.searchParams.has('timeout') ? timeout : undefined,
+            routingKey: url.searchParams.get('routingKey') ?? undefined,
+        } as ClientHeader;
+        const response = await connection.request(header, payload, timeout);
+        const error = getError(response);
+        if (error) throw error;
+        reply(res, 200, response.rawPayload);
+    } catch (error) {
+        if (!(error instanceof MessageError)) throw error;
+        reply(res, getHttpStatus(error), { error: error.toJSON() });
+    } finally {
+        connection.close();
+    }
+}
+
+/**
+ * Handles a Server-Sent Events subscription: registers it as a read-only service, authenticates it, subscribes it
+ * to the topic patterns of its `topic` query parameters and streams the matching publishes until the client goes
+ * away, which removes the service like any other disconnection.
+ *
+ * @param req The HTTP request.
+ * @param res The HTTP response.
+ * @param connectionManager The connection manager to register the subscription with.
+ */
+async function handleSubscribe(req: http.IncomingMessage, res: http.ServerResponse, connectionManager: ConnectionManager): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        reply(res, 405, { error: new InvalidRequestError(`Method ${req.method} is not allowed`).toJSON() });
+        return;
+    }
+
+    const connection = new SSEConnection(res, req.socket.remoteAddress || 'unknown');
+    logger.debug(`Client subscribed (SSE) from IP ${connection.ip}`);
+    try {
+        const topics = url.searchParams.getAll('topic');
+        if (!topics.length) {
+            throw new InvalidRequestError('Missing topic', { topics });
+        }
+        // Drain the request, so the stream is not held back by it
+        await readBody(req);
+        const timeout = await register(connection, req, res, url, connectionManager);
+
+        await connection.subscribe(topics, timeout);
+        connection.open();
+    } catch (error) {
+        if (!(error instanceof MessageError)) throw error;
+        reply(res, getHttpStatus(error), { error: error.toJSON() });
+        connection.close();
+    }
+}
+
+/**
+ * Registers an HTTP call as an ephemeral service, closed when the client goes away, and authenticates it with the
+ * credentials of its `Authorization` header (a `Bearer` API key, or a `Basic` identity and shared secret).
+ *
+ * @param connection The connection of the call.
+ * @param req The HTTP request.
+ * @param res The HTTP response.
+ * @param url The URL of the call.
+ * @param connectionManager The connection manager to register the call with.
+ * @returns The time to wait for the responses of the call (its `timeout` query parameter), in milliseconds.
+ * @throws {MessageError} If the call is rejected, its timeout is invalid, or it fails to authenticate.
+ */
+async function register(
+    connection: HTTPConnection,
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    connectionManager: ConnectionManager
+): Promise<number> {
+    connectionManager.addConnection(connection);
+    if (connection.state !== ConnectionState.OPEN) {
+        throw connection.rejection ?? new ServiceUnavailableError('Connection rejected');
+    }
+    // Stop waiting for the responses if the client goes away
+    res.on('close', () => connection.close());
+
+    const timeout = url.searchParams.has('timeout') ? Number(url.searchParams.get('timeout')) : config.request.response.timeout.default;
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+        throw new InvalidRequestError(`Invalid timeout ${url.searchParams.get('timeout')}`, { timeout: url.searchParams.get('timeout') });
+    }
+    const credentials = parseAuthorization(req.headers.authorization);
+    if (credentials) {
+        const header = { action: ActionType.REQUEST, topic: 'system.auth', version: '1.0.0' } as ClientHeader;
+        const response = await connection.request(header, Buffer.from(JSON.stringify(credentials)), timeout);
+        const error = getError(response);
+        if (error) throw error;
+    }
+    return timeout;
+}
+
+/**
+ * Parses the credentials of an `Authorization` header into the payload of a `system.auth` request.
+ *
+ * @param authorization The `Authorization` header.
+ * @returns The credentials, or undefined if there are none.
+ * @throws {InvalidRequestError} If the authorization scheme is not supported.
+ */
+function parseAuthorization(authorization: string | undefined): { apiKey?: string; identity?: string; secret?: string } | undefined {
+    if (!authorization) return;
+    const [scheme, credentials = ''] = authorization.split(' ', 2);
+    switch (scheme.toLowerCase()) {
+        case 'bearer':
+            return { apiKey: credentials };
+        case 'basic': {
+            const decoded = Buffer.from(credentials, 'base64').toString('utf-8');
+            const separator = decoded.indexOf(':');
+            return { identity: decoded.slice(0, separator), secret: decoded.slice(separator + 1) };
+        }
+        default:
+            throw new InvalidRequestError(`Unsupported authorization scheme ${scheme}`, { schemes: ['Bearer', 'Basic'] });
+    }
+}
+
+/**
+ * Reads the body of an HTTP request, up to the maximum payload length.
+ *
+ * @param req The HTTP request.
+ * @returns The body.
+ * @throws {MalformedMessageError} If the body exceeds the maximum payload length.
+ */
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let length = 0;
+        req.on('data', (chunk: Buffer) => {
+            length += chunk.length;
+            // Keep reading past the maximum, so the error can still be answered
+            if (length <= config.message.payload.maxLength) chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (length > config.message.payload.maxLength) {
+                reject(new MalformedMessageError(`Payload exceeds maximum length of ${MessageUtils.prettySize(config.message.payload.maxLength)}`, { payloadLength: length }));
+            } else {
+                resolve(Buffer.concat(chunks, length));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Answers an HTTP call with a JSON body.
+ *
+ * @param res The HTTP response.
+ * @param status The HTTP status.
+ * @param body The body, serialized unless it is raw.
+ */
+function reply(res: http.ServerResponse, status: number, body: object | Buffer): void {
+    if (res.headersSent || res.destroyed) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(Buffer.isBuffer(body) ? body : JSON.stringify(body));
+}
@@ -1,2 +1,3 @@
+export { createHttpServer, HTTPConnection, SSEConnection } from './http';
 export { createTcpServer, TCPSocketConnection } from './tcpsocket';
 export { createWebSocketServer, WebSocketConnection } from './websocket';
\ No newline at end of file
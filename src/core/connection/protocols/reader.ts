@@ -0,0 +1,106 @@
+/**
+ * Reads bytes from a list of received chunks, without concatenating the chunks as they arrive.
+ *
+ * Reads within a single chunk return a view of the chunk (zero-copy); only reads that cross chunk boundaries
+ * copy the bytes into a new buffer. This keeps reassembling a large frame received in many small chunks linear
+ * in its size.
+ */
+export class ChunkReader {
+    private readonly chunks: Buffer[] = [];
+    private offset: number = 0; // The offset of the first unread byte in the first chunk
+    private _length: number = 0;
+
+    /**
+     * The number of unread bytes.
+     */
+    get length(): number {
+        return this._length;
+    }
+
+    /**
+     * Appends a received chunk.
+     *
+     * @param chunk The chunk.
+     */
+    push(chunk: Buffer): void {
+        if (chunk.length === 0) return;
+        this.chunks.push(chunk);
+        this._length += chunk.length;
+    }
+
+    /**
+     * Reads a 32-bit unsigned big-endian integer.
+     *
+     * @returns The integer.
+     * @throws {RangeError} If fewer than 4 bytes are unread.
+     */
+    readUInt32BE(): number {
+        const first = this.chunks[0];
+        if (first && first.length - this.offset >= 4) {
+            const value = first.readUInt32BE(this.offset);
+            this.skip(4);
+            return value;
+        }
+        return this.read(4).readUInt32BE(0);
+    }
+
+    /**
+     * Reads bytes, returning a view of the chunk they were received in when they do not cross chunk boundaries.
+     *
+     * @param length The number of bytes to read.
+     * @returns The bytes.
+     * @throws {RangeError} If fewer than `length` bytes are unread.
+     */
+    read(length: number): Buffer {
+        const bytes = this.peek(length);
+        this.skip(length);
+        return bytes;
+    }
+
+    /**
+     * Gets bytes without reading them, returning a view of the chunk they were received in when they do not
+     * cross chunk boundaries.
+     *
+     * @param length The number of bytes to get.
+     * @returns The bytes.
+     * @throws {RangeError} If fewer than `length` bytes are unread.
+     */
+    peek(length: number): Buffer {
+        if (length > this._length) {
+            throw new RangeError(`Cannot read ${length} bytes, only ${this._length} are unread`);
+        }
+        const first = this.chunks[0];
+        if (length === 0) return Buffer.alloc(0);
+        if (first.length - this.offset >= length) {
+            return first.subarray(this.offset, this.offset + length);
+        }
+
+        // The bytes cross chunk boundaries, copy them once into a new buffer
+        const bytes = Buffer.allocUnsafe(length);
+        let copied = first.copy(bytes, 0, this.offset);
+        for (let i = 1; copied < length; i++) {
+            copied += this.chunks[i].copy(bytes, copied, 0, Math.min(this.chunks[i].length, length - copied));
+        }
+        return bytes;
+    }
+
+    /**
+     * Skips bytes, releasing the chunks that were read entirely.
+     *
+     * @param length The number of bytes to skip (at most the number of unread bytes).
+     */
+    private skip(length: number): void {
+        this._length -= length;
+        let remaining = length;
+        while (remaining > 0) {
+            const available = this.chunks[0].length - this.offset;
+            if (remaining < available) {
+                this.offset += remaining;
+                return;
+            }
+            remaining -= available;
+            this.chunks.shift();
+            this.offset = 0;
+        }
+    }
+}
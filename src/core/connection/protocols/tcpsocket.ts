@@ -7,6 +7,8 @@ import { Connection, ConnectionState } from '../types';
 import { config } from '@config';
 import { MAX_HEADER_LENGTH } from '@core/utils/message';
 import { ConnectionManager } from '../manager';
+import { OutboundQueue } from '../queue';
+import { ChunkReader } from './reader';
 
 const logger = SetupLogger('TCPSocketConnection');
 
@@ -20,19 +22,36 @@ export class TCPSocketConnection implements Connection {
     private isConnected: boolean = true;
     private messageListener?: (message: Buffer) => void;
     private closeListener?: () => void;
-    private buffer: Buffer = Buffer.alloc(0);
+    private readonly reader: ChunkReader = new ChunkReader();
     private expectedLength: number = -1;
+    private readonly outbound: OutboundQueue;
 
     constructor(
         private socket: net.Socket,
         public readonly ip: string
     ) {
+        this.outbound = new OutboundQueue({
+            get buffered() { return socket.writableLength; },
+            write: (message, callback) => {
+                // Write the length and the message separately, so the message is not copied into each frame
+                // Uncorked right away, so the buffered bytes only count what the socket failed to send
+                const lengthBuffer = Buffer.allocUnsafe(4);
+                lengthBuffer.writeUInt32BE(Buffer.byteLength(message));
+                socket.cork();
+                socket.write(lengthBuffer);
+                socket.write(message, callback);
+                socket.uncork();
+            },
+        }, (reason) => {
+            logger.warn(`Disconnecting slow consumer ${this.serviceId} (IP ${this.ip}): ${reason}`, { serviceId: this.serviceId, ip: this.ip });
+            this.close();
+        });
         this.setupSocketListeners();
     }
 
     private setupSocketListeners(): void {
         this.socket.on('data', (data: Buffer) => {
-            this.buffer = Buffer.concat([this.buffer, data]);
+            this.reader.push(data);
             this.processBuffer();
         });
 
@@ -53,9 +72,8 @@ export class TCPSocketConnection implements Connection {
         while (true) {
             // If we don't have a length yet, try to read it
             if (this.expectedLength === -1) {
-                if (this.buffer.length < 4) return; // Need more data
-                this.expectedLength = this.buffer.readUInt32BE(0);
-                this.buffer = this.buffer.subarray(4);
+                if (this.reader.length < 4) return; // Need more data
+                this.expectedLength = this.reader.readUInt32BE();
             }
 
             if (this.expectedLength > config.message.payload.maxLength + MAX_HEADER_LENGTH) { // TODO: How to handle payload vs header length?
@@ -65,7 +83,7 @@ export class TCPSocketConnection implements Connection {
                         serviceId: this.serviceId,
                         ip: this.ip,
                         expectedLength: this.expectedLength,
-                        buffer: this.buffer.subarray(0, this.expectedLength).toString('hex'),
+                        buffer: this.reader.peek(Math.min(this.reader.length, this.expectedLength)).toString('hex'),
                     }
                 );
                 this.close();
@@ -73,18 +91,17 @@ export class TCPSocketConnection implements Connection {
             }
 
             // Check if we have enough data for the complete message
-            if (this.buffer.length < this.expectedLength) return; // Need more data
+            if (this.reader.length < this.expectedLength) return; // Need more data
 
-            // Extract the message
-            const message = this.buffer.subarray(0, this.expectedLength);
-            this.buffer = this.buffer.subarray(this.expectedLength);
+            // Extract the message (only copied if it was received in several chunks)
+            const message = this.reader.read(this.expectedLength);
             this.expectedLength = -1;
 
             // Emit the message
             this.messageListener?.(message);
 
             // If no more data to process, break
-            if (this.buffer.length < 4) break;
+            if (this.reader.length < 4) break;
         }
     }
 
@@ -100,12 +117,13 @@ export class TCPSocketConnection implements Connection {
         this.closeListener = listener;
     }
 
-    send(message: string): void {
+    onBackpressure(listener: (depth: number, dropped: number) => void): void {
+        this.outbound.onChange(listener);
+    }
+
+    send(message: string | Buffer): void {
         if (this.state === ConnectionState.OPEN) {
-            const messageBuffer = Buffer.from(message);
-            const lengthBuffer = Buffer.alloc(4);
-            lengthBuffer.writeUInt32BE(messageBuffer.length);
-            this.socket.write(Buffer.concat([lengthBuffer, messageBuffer]));
+            this.outbound.push(message);
         } else {
             logger.warn(`Unable to send message to service ${this.serviceId}: Connection is not open`);
             throw new InternalError('Desired service connection is not open');
@@ -116,6 +134,7 @@ export class TCPSocketConnection implements Connection {
         if (this.state === ConnectionState.OPEN) {
             this.socket.end();
         }
+        this.outbound.clear();
         this.closeListener?.();
         this.isConnected = false;
     }
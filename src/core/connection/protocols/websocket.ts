@@ -6,6 +6,7 @@ import { config } from '@config';
 import { InternalError } from '@core/errors';
 import { SetupLogger} from '@utils/logger';
 import { ConnectionManager } from '../manager';
+import { OutboundQueue } from '../queue';
 import { Connection, ConnectionState } from '../types';
 import { MAX_HEADER_LENGTH } from '@core/utils/message';
 
@@ -16,11 +17,20 @@ export class WebSocketConnection implements Connection {
     private isConnected: boolean = true;
     private messageListener?: (message: Buffer) => void;
     private closeListener?: () => void;
+    private readonly outbound: OutboundQueue;
 
     constructor(
         private ws: WebSocket,
         public readonly ip: string
     ) {
+        this.outbound = new OutboundQueue({
+            get buffered() { return ws.bufferedAmount; },
+            write: (message, callback) => ws.send(message, { binary: false }, callback), // Encoded messages are sent as text too
+        }, (reason) => {
+            logger.warn(`Disconnecting slow consumer ${this.serviceId} (IP ${this.ip}): ${reason}`, { serviceId: this.serviceId, ip: this.ip });
+            this.close();
+        });
+
         this.ws.on("message", (buffer: Buffer) => {
             this.messageListener?.(buffer);
         });
@@ -50,9 +60,13 @@ export class WebSocketConnection implements Connection {
         this.closeListener = listener;
     }
 
-    send(message: string): void {
+    onBackpressure(listener: (depth: number, dropped: number) => void): void {
+        this.outbound.onChange(listener);
+    }
+
+    send(message: string | Buffer): void {
         if (this.state === ConnectionState.OPEN) {
-            this.ws.send(message);
+            this.outbound.push(message);
         } else {
             logger.warn(`Unable to send message to service ${this.serviceId}: Connection is not open`);
             throw new InternalError("Desired service connection is not open");
@@ -63,6 +77,7 @@ export class WebSocketConnection implements Connection {
         if (this.state === ConnectionState.OPEN) {
             this.ws.close();
         }
+        this.outbound.clear();
         this.closeListener?.();
         this.isConnected = false;
     }
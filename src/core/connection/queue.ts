@@ -0,0 +1,134 @@
+import { config } from '@config';
+import { SlowConsumerPolicy } from '@core/types';
+
+/**
+ * The transport an outbound queue writes to (a socket or a WebSocket).
+ */
+export interface OutboundTransport {
+    /**
+     * The number of bytes written to the transport that it failed to send over the network so far (the bytes it
+     * holds back on purpose, e.g. while corked to write a frame at once, are sent before this is measured)
+     */
+    readonly buffered: number;
+    /**
+     * Writes a message to the transport.
+     *
+     * @param message The message to write.
+     * @param callback Called once the message was sent over the network (or failed to).
+     */
+    write(message: string | Buffer, callback: () => void): void;
+}
+
+/**
+ * Accounts for the bytes sent to a connection that were not yet sent over the network, and applies the
+ * slow-consumer policy when they exceed the high water mark.
+ *
+ * Once a connection exceeds the high water mark it is a slow consumer until its transport drains to the low
+ * water mark. Meanwhile, depending on `connection.outbound.policy`:
+ * - `drop-new`: new messages are dropped.
+ * - `drop-oldest`: new messages are queued, dropping the oldest queued messages to stay under the high water mark.
+ *   The queue is written to the transport once it drained.
+ * - `disconnect`: the connection is closed.
+ */
+export class OutboundQueue {
+    private readonly messages: (string | Buffer)[] = [];
+    private queuedBytes: number = 0;
+    private slow: boolean = false;
+    private listener?: (depth: number, dropped: number) => void;
+
+    /**
+     * @param transport The transport to write the messages to.
+     * @param disconnect Closes the connection, with the reason, when the policy is to disconnect slow consumers.
+     */
+    constructor(
+        private readonly transport: OutboundTransport,
+        private readonly disconnect: (reason: string) => void
+    ) {}
+
+    /**
+     * The number of bytes sent to the connection that were not yet sent over the network (queued or buffered
+     * by the transport).
+     */
+    get depth(): number {
+        return this.transport.buffered + this.queuedBytes;
+    }
+
+    /**
+     * Sets the listener called when the depth changes, with the number of messages dropped by the change.
+     *
+     * @param listener The listener.
+     */
+    onChange(listener: (depth: number, dropped: number) => void): void {
+        this.listener = listener;
+    }
+
+    /**
+     * Sends a message, or applies the slow-consumer policy if the connection is a slow consumer.
+     *
+     * @param message The message to send.
+     */
+    push(message: string | Buffer): void {
+        const { highWaterMark, policy } = config.connection.outbound;
+        const size = Buffer.byteLength(message);
+        if (!this.slow && this.depth + size > highWaterMark) {
+            this.slow = true;
+        }
+
+        if (!this.slow) {
+            this.transport.write(message, this._drainBind);
+            this.listener?.(this.depth, 0);
+            return;
+        }
+
+        let dropped = 0;
+        switch (policy) {
+            case SlowConsumerPolicy.DISCONNECT: {
+                const reason = `Outbound queue of ${this.depth + size} bytes exceeds the high water mark of ${highWaterMark} bytes`;
+                this.clear();
+                this.disconnect(reason);
+                return;
+            }
+            case SlowConsumerPolicy.DROP_NEW:
+                dropped = 1;
+                break;
+            case SlowConsumerPolicy.DROP_OLDEST:
+                this.messages.push(message);
+                this.queuedBytes += size;
+                while (this.depth > highWaterMark && this.messages.length > 1) {
+                    this.queuedBytes -= Buffer.byteLength(this.messages.shift()!);
+                    dropped++;
+                }
+                break;
+        }
+        this.drain(dropped);
+    }
+
+    /**
+     * Drops the queued messages (e.g. when the connection closes).
+     */
+    clear(): void {
+        this.messages.length = 0;
+        this.queuedBytes = 0;
+        this.slow = false;
+    }
+
+    /**
+     * Writes the queued messages to the transport once it drained to the low water mark.
+     *
+     * @param dropped The number of messages dropped since the depth was last reported.
+     */
+    private drain(dropped: number = 0): void {
+        if (this.slow && this.transport.buffered <= config.connection.outbound.lowWaterMark) {
+            this.slow = false;
+            const messages = this.messages.splice(0);
+            this.queuedBytes = 0;
+            for (const message of messages) {
+                this.transport.write(message, this._drainBind);
+            }
+        }
+        this.listener?.(this.depth, dropped);
+    }
+
+    // Called back by the transport once a message was sent (with an error if it failed to)
+    private _drainBind = () => this.drain();
+}
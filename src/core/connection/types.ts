@@ -10,6 +10,7 @@ export interface Connection {
 
     onMessage(listener: (message: Buffer) => void): void;
     onClose(listener: () => void): void;
-    send(message: string): void;
+    onBackpressure(listener: (depth: number, dropped: number) => void): void; // Outbound bytes not yet sent, and messages dropped as a slow consumer
+    send(message: string | Buffer): void; // An encoded message, possibly shared with other connections (never modified)
     close(): void;
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { MessageError, ServiceUnavailableError, TimeoutError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { BrokerHeader } from '@core/utils';
+import { SetupLogger } from '@utils/logger';
+import { DeliveryMetrics } from './metrics';
+
+const logger = SetupLogger('DeliveryManager');
+
+/**
+ * An at-least-once delivery of a message to a subscriber, waiting for its acknowledgement.
+ */
+interface Delivery {
+    /** The ID of the subscriber */
+    serviceId: string;
+    /** The header the message is delivered with (its requestId identifies the delivery) */
+    header: BrokerHeader;
+    /** The raw payload of the message */
+    payload: Buffer;
+    /** The number of times the message was sent to the subscriber */
+    attempts: number;
+    /** The timeout after which the message is sent again (or dead-lettered) */
+    timeout?: NodeJS.Timeout;
+}
+
+/**
+ * Manages at-least-once (QoS 1) publish deliveries: the message is sent again to the subscriber, with exponential
+ * backoff, until the subscriber acknowledges it with `system.publish.ack`. After the maximum number of attempts,
+ * or if the subscriber disconnects, the message is published to the dead-letter topic instead.
+ */
+export class DeliveryManager {
+    private readonly deliveries: Map<string, Map<string, Delivery>>;
+    private connectionManager!: ConnectionManager;
+    private readonly metrics: DeliveryMetrics;
+
+    constructor(monitoringManager: MonitoringManager) {
+        this.deliveries = new Map();
+        this.metrics = new DeliveryMetrics(monitoringManager);
+    }
+
+    /**
+     * Assigns a ConnectionManager to the DeliveryManager.
+     *
+     * @param connectionManager The ConnectionManager to assign.
+     */
+    assignConnectionManager(connectionManager: ConnectionManager): void {
+        this.connectionManager = connectionManager;
+    }
+
+    /**
+     * Delivers a message to subscribers until they acknowledge it.
+     *
+     * @param serviceIds The IDs of the subscribers.
+     * @param header The header to deliver the message with (its requestId identifies the delivery).
+     * @param payload The raw payload of the message.
+     */
+    deliver(serviceIds: string[], header: BrokerHeader, payload: Buffer): void {
+        // Copy the payload once for all subscribers, so it outlives the buffer it was received in
+        const copy = Buffer.from(payload);
+        for (const serviceId of serviceIds) {
+            let deliveries = this.deliveries.get(serviceId);
+            if (!deliveries) {
+                deliveries = new Map();
+                this.deliveries.set(serviceId, deliveries);
+            }
+
+            const delivery: Delivery = { serviceId, header, payload: copy, attempts: 0 };
+            deliveries.set(header.requestId!, delivery);
+            this.send(delivery);
+            this.updateInFlight(serviceId);
+        }
+    }
+
+    /**
+     * Acknowledges a delivery.
+     *
+     * @param serviceId The ID of the subscriber acknowledging the message.
+     * @param requestId The requestId the message was delivered with.
+     * @returns True if the delivery was acknowledged, false if no delivery to the subscriber has the requestId.
+     */
+    ack(serviceId: string, requestId: string): boolean {
+        const delivery = this.deliveries.get(serviceId)?.get(requestId);
+        if (!delivery) return false;
+
+        this.remove(delivery);
+        this.metrics.acknowledgedCount.slot.add(1);
+        return true;
+    }
+
+    /**
+     * Gets the number of deliveries to a subscriber waiting for their acknowledgement.
+     *
+     * @param serviceId The ID of the subscriber.
+     * @returns The number of in-flight deliveries.
+     */
+    getInFlight(serviceId: string): number {
+        return this.deliveries.get(serviceId)?.size ?? 0;
+    }
+
+    /**
+     * Dead-letters the pending deliveries of a subscriber (e.g. when it disconnects).
+     *
+     * @param serviceId The ID of the subscriber.
+     */
+    detach(serviceId: string): void {
+        const deliveries = this.deliveries.get(serviceId);
+        if (deliveries) {
+            for (const delivery of Array.from(deliveries.values())) {
+                this.remove(delivery);
+                this.deadLetter(delivery, new ServiceUnavailableError('Subscriber disconnected', { serviceId, attempts: delivery.attempts }));
+            }
+        }
+        this.metrics.serviceInFlight.getMetric({ serviceId })?.dispose();
+    }
+
+    /**
+     * Drops all pending deliveries.
+     */
+    async dispose(): Promise<void> {
+        for (const deliveries of this.deliveries.values()) {
+            for (const delivery of deliveries.values()) {
+                clearTimeout(delivery.timeout);
+            }
+        }
+        this.deliveries.clear();
+        this.metrics.dispose();
+    }
+
+    /**
+     * Sends a delivery to its subscriber and waits for the acknowledgement. The time to wait doubles
+     * after every attempt, up to the maximum backoff.
+     *
+     * @param delivery The delivery.
+     */
+    private send(delivery: Delivery): void {
+        delivery.attempts++;
+        this.connectionManager.sendMessage(delivery.serviceId, delivery.header, delivery.payload, undefined);
+
+        const wait = Math.min(config.delivery.ack.timeout * 2 ** (delivery.attempts - 1), config.delivery.backoff.max);
+        delivery.timeout = setTimeout(() => this.handleAckTimeout(delivery), wait);
+        delivery.timeout.unref();
+    }
+
+    /**
+     * Handles a delivery that was not acknowledged in time, by sending it again or dead-lettering it
+     * once it reached the maximum number of attempts.
+     *
+     * @param delivery The delivery.
+     */
+    private handleAckTimeout(delivery: Delivery): void {
+        if (delivery.attempts >= config.delivery.attempts.max) {
+            this.remove(delivery);
+            this.deadLetter(delivery, new TimeoutError(`Not acknowledged after ${delivery.attempts} attempts`, { serviceId: delivery.serviceId, attempts: delivery.attempts }));
+            return;
+        }
+
+        logger.debug(`Redelivering message ${delivery.header.requestId} to ${delivery.serviceId}`, { serviceId: delivery.serviceId, header: delivery.header, attempts: delivery.attempts });
+        this.metrics.redeliveredCount.slot.add(1);
+        this.metrics.redeliveredRate.slot.add(1);
+        this.send(delivery);
+    }
+
+    /**
+     * Removes a delivery from the pending deliveries of its subscriber.
+     *
+     * @param delivery The delivery.
+     */
+    private remove(delivery: Delivery): void {
+        clearTimeout(delivery.timeout);
+        const deliveries = this.deliveries.get(delivery.serviceId);
+        deliveries?.delete(delivery.header.requestId!);
+        if (deliveries?.size === 0) this.deliveries.delete(delivery.serviceId);
+        this.updateInFlight(delivery.serviceId);
+    }
+
+    /**
+     * Publishes an undelivered message to the dead-letter topic.
+     *
+     * @param delivery The delivery.
+     * @param error The reason the message could not be delivered.
+     */
+    private deadLetter(delivery: Delivery, error: MessageError): void {
+        this.metrics.deadLetteredCount.slot.add(1);
+        this.connectionManager.deadLetter(delivery.header, delivery.payload, error);
+    }
+
+    /**
+     * Updates the in-flight metric of a subscriber.
+     *
+     * @param serviceId The ID of the subscriber.
+     */
+    private updateInFlight(serviceId: string): void {
+        const metric = this.metrics.serviceInFlight.getMetric({ serviceId }) ?? this.metrics.serviceInFlight.registerMetric({ serviceId });
+        metric.slot.set(this.deliveries.get(serviceId)?.size ?? 0);
+    }
+}
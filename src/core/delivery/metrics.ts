@@ -0,0 +1,43 @@
+import { MetricsContainer, MonitoringManager } from '@core/monitoring';
+import { Metric, ParameterizedMetric } from '@core/monitoring/metrics';
+import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
+
+/**
+ * Metrics for the Delivery module
+ */
+export class DeliveryMetrics implements MetricsContainer {
+    /** Total number of at-least-once deliveries acknowledged by their subscriber */
+    public readonly acknowledgedCount: Metric<GaugeSlot>;
+
+    /** Total number of at-least-once deliveries sent again after an ack timeout */
+    public readonly redeliveredCount: Metric<GaugeSlot>;
+
+    /** Rate of at-least-once deliveries sent again after an ack timeout */
+    public readonly redeliveredRate: Metric<RateSlot>;
+
+    /** Total number of at-least-once deliveries given up and sent to the dead-letter topic */
+    public readonly deadLetteredCount: Metric<GaugeSlot>;
+
+    /** Number of unacknowledged deliveries of a specific subscriber */
+    public readonly serviceInFlight: ParameterizedMetric<GaugeSlot>;
+
+    constructor(private readonly monitoringManager: MonitoringManager) {
+        // Initialize all metrics
+        this.acknowledgedCount = this.monitoringManager.registerMetric('delivery.message.count.acknowledged', GaugeSlot);
+        this.redeliveredCount = this.monitoringManager.registerMetric('delivery.message.count.redelivered', GaugeSlot);
+        this.redeliveredRate = this.monitoringManager.registerMetric('delivery.message.rate.redelivered', RateSlot);
+        this.deadLetteredCount = this.monitoringManager.registerMetric('delivery.message.count.deadlettered', GaugeSlot);
+        this.serviceInFlight = this.monitoringManager.registerParameterized('delivery.service.{serviceid}.inflight', GaugeSlot);
+    }
+
+    /**
+     * Dispose of all metrics
+     */
+    public dispose(): void {
+        this.acknowledgedCount.dispose();
+        this.redeliveredCount.dispose();
+        this.redeliveredRate.dispose();
+        this.deadLetteredCount.dispose();
+        this.serviceInFlight.dispose();
+    }
+}
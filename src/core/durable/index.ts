@@ -0,0 +1,459 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as semver from 'semver';
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { ForbiddenError, InvalidRequestError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { KeyedSetLeafCollection, TopicTrie } from '@core/subscription/trie';
+import { ActionType } from '@core/types';
+import { BrokerHeader, MessageUtils, TopicUtils } from '@core/utils';
+import { SetupLogger } from '@utils/logger';
+import { SegmentLog } from './log';
+import { DurableMetrics } from './metrics';
+
+export { LogRecord, SegmentLog } from './log';
+
+const logger = SetupLogger('DurableManager');
+
+/**
+ * Consumer names are used as directory names, so they are limited to letters, digits, underscores and dashes.
+ */
+const CONSUMER_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * The name of the file holding the subscriptions and acknowledged offset of a consumer.
+ */
+const CONSUMER_FILE = 'consumer.json';
+
+/**
+ * A durable subscription of a consumer to a topic pattern.
+ */
+interface DurableSubscriber {
+    /** The name of the consumer */
+    consumer: string;
+    /** The semver range of the message versions accepted by the subscription (all versions if not present) */
+    version?: string;
+}
+
+/**
+ * The state of a durable consumer.
+ */
+interface Consumer {
+    /** The name of the consumer */
+    name: string;
+    /** The version ranges of the subscriptions of the consumer, by topic pattern */
+    topics: Map<string, string | undefined>;
+    /** The log of the messages for the consumer */
+    log: SegmentLog;
+    /** The offset of the last message acknowledged by the consumer (-1 if none) */
+    acknowledged: number;
+    /** The identity that created the consumer (undefined if created without authentication) */
+    owner?: string;
+    /** The ID of the service the consumer is attached to (if connected) */
+    serviceId?: string;
+    /** Whether the log is being replayed to the attached service (which then also delivers the new messages) */
+    replaying: boolean;
+    /** The offsets of the messages delivered to the attached service and not acknowledged yet, by requestId */
+    deliveries: Map<string, number>;
+}
+
+/**
+ * The content of the consumer file.
+ */
+interface ConsumerFile {
+    topics: Record<string, string | null>;
+    acknowledged: number;
+    owner?: string;
+}
+
+/**
+ * Manages durable subscriptions: subscriptions of a named consumer that outlive the connection of the service
+ * consuming them. Every matching publish is appended to the log of the consumer (see `SegmentLog`) and delivered
+ * while a service is attached to the consumer. A service attaching to the consumer (by subscribing with its name)
+ * gets a replay of all messages after the last one acknowledged, so no message is lost while it is disconnected.
+ *
+ * A consumer belongs to the identity that created it (or, without authentication, to the service that created it),
+ * and only services of that identity may attach to it. The acknowledged offsets are saved in batches, so a crash
+ * redelivers the messages acknowledged since the last save.
+ */
+export class DurableManager {
+    private readonly consumers: Map<string, Consumer>;
+    private readonly trie: TopicTrie<DurableSubscriber, KeyedSetLeafCollection<DurableSubscriber, 'consumer'>>;
+    private connectionManager!: ConnectionManager;
+    private readonly metrics: DurableMetrics;
+    private readonly maintenanceInterval: NodeJS.Timeout;
+    private readonly unsaved: Set<Consumer> = new Set();
+    private saveTimeout?: NodeJS.Timeout;
+
+    constructor(monitoringManager: MonitoringManager) {
+        this.consumers = new Map();
+        this.trie = new TopicTrie(() => new KeyedSetLeafCollection('consumer'));
+        this.metrics = new DurableMetrics(monitoringManager);
+        this.load();
+
+        this.maintenanceInterval = setInterval(() => this.maintain(), config.durable.compaction.interval);
+        this.maintenanceInterval.unref();
+    }
+
+    /**
+     * Checks if a consumer name is valid.
+     *
+     * @param name The name of the consumer.
+     * @returns True if the name is valid, false otherwise.
+     */
+    static isValidConsumer(name: string): boolean {
+        return CONSUMER_REGEX.test(name);
+    }
+
+    /**
+     * Assigns a ConnectionManager to the DurableManager.
+     *
+     * @param connectionManager The ConnectionManager to assign.
+     */
+    assignConnectionManager(connectionManager: ConnectionManager): void {
+        this.connectionManager = connectionManager;
+    }
+
+    /**
+     * Subscribes a consumer to a topic and attaches the service to the consumer. A service attaching to the consumer
+     * gets the messages that have not been acknowledged yet replayed first.
+     *
+     * @param consumer The name of the consumer.
+     * @param serviceId The ID of the service consuming the messages.
+     * @param topic The topic to subscribe to.
+     * @param version The semver range of the message versions to receive (all versions if not specified).
+     * @param identity The identity the service authenticated as (undefined without authentication).
+     * @returns True if the subscription was successful, false otherwise.
+     * @throws {ForbiddenError} If the consumer belongs to another identity.
+     * @throws {InvalidRequestError} If the consumer is attached to another service.
+     */
+    subscribe(consumer: string, serviceId: string, topic: string, version?: string, identity?: string): boolean {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        if (!DurableManager.isValidConsumer(consumer) || !TopicUtils.isValidSubscription(canonicalTopic)) {
+            logger.warn(`Invalid consumer or topic name for durable subscription: ${consumer} ${topic}`);
+            return false;
+        }
+        if (version !== undefined && !semver.validRange(version)) {
+            logger.warn(`Invalid version range for durable subscription: ${version}`);
+            return false;
+        }
+
+        // Ownership is only checked for authenticated services, as service IDs change on every connection
+        // Consumers created without an identity are claimed by the first identity attaching to them
+        const existing = this.consumers.get(consumer);
+        if (identity !== undefined && existing?.owner !== undefined && existing.owner !== identity) {
+            throw new ForbiddenError('Consumer belongs to another identity', { consumer });
+        }
+        const state = existing ?? this.createConsumer(consumer);
+        if (state.serviceId && state.serviceId !== serviceId) {
+            throw new InvalidRequestError('Consumer is attached to another service', { consumer });
+        }
+        state.owner = identity ?? state.owner;
+
+        state.topics.set(canonicalTopic, version);
+        this.trie.set(canonicalTopic, { consumer, version });
+        this.save(state);
+        logger.info(`Consumer ${consumer} subscribed to durable topic: ${canonicalTopic}`, { serviceId, consumer, topic: canonicalTopic, version });
+
+        if (!state.serviceId) {
+            state.serviceId = serviceId;
+            this.replay(state);
+        }
+        return true;
+    }
+
+    /**
+     * Unsubscribes a consumer from a topic. A consumer without subscriptions is deleted, together with its log.
+     * Only the service attached to the consumer (which is of the identity the consumer belongs to) may unsubscribe it.
+     *
+     * @param consumer The name of the consumer.
+     * @param serviceId The ID of the service attached to the consumer.
+     * @param topic The topic to unsubscribe from.
+     * @returns True if the subscription was removed, false otherwise.
+     */
+    unsubscribe(consumer: string, serviceId: string, topic: string): boolean {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        const state = this.consumers.get(consumer);
+        if (!state || state.serviceId !== serviceId || !state.topics.delete(canonicalTopic)) {
+            return false;
+        }
+
+        this.trie.delete(canonicalTopic, { consumer });
+        if (state.topics.size === 0) {
+            this.unsaved.delete(state);
+            state.log.destroy();
+            this.consumers.delete(consumer);
+            this.metrics.consumerCount.slot.set(this.consumers.size);
+            logger.info(`Deleted durable consumer ${consumer}`, { serviceId, consumer });
+        } else {
+            this.save(state);
+        }
+        return true;
+    }
+
+    /**
+     * Gets the consumers with a durable subscription matching a topic.
+     *
+     * @param topic The topic of the message.
+     * @param version The version of the message (all consumers accept messages without a version).
+     * @returns The names of the consumers.
+     */
+    getConsumers(topic: string, version?: string): string[] {
+        const consumers = new Set<string>();
+        for (const subscriber of this.trie.get(TopicUtils.getCanonical(topic))) {
+            if (!version || !subscriber.version || semver.satisfies(version, subscriber.version)) {
+                consumers.add(subscriber.consumer);
+            }
+        }
+        return Array.from(consumers);
+    }
+
+    /**
+     * Appends a published message to the logs of consumers, and delivers it to the consumers that are attached.
+     *
+     * @param consumers The names of the consumers.
+     * @param parser The published message.
+     */
+    publish(consumers: string[], parser: MessageUtils.Parser): void {
+        const { action, topic, version } = parser.header;
+        const data = Buffer.from(MessageUtils.serialize({ action, topic, version } as BrokerHeader, parser.rawPayload));
+        for (const consumer of consumers) {
+            const state = this.consumers.get(consumer);
+            if (!state) continue;
+
+            const offset = state.log.append(data);
+            this.metrics.appendedCount.slot.add(1);
+            this.metrics.appendedRate.slot.add(1);
+            if (state.serviceId && !state.replaying) this.deliver(state, offset, data);
+        }
+    }
+
+    /**
+     * Acknowledges a message delivered to a consumer, and all messages delivered to it before.
+     * The consumer only gets the messages after it replayed when it attaches again.
+     *
+     * @param serviceId The ID of the service attached to the consumer.
+     * @param requestId The requestId the message was delivered with.
+     * @returns True if the message was acknowledged, false if no delivery matches.
+     */
+    ack(serviceId: string, requestId: string): boolean {
+        for (const state of this.consumers.values()) {
+            const offset = state.serviceId === serviceId ? state.deliveries.get(requestId) : undefined;
+            if (offset === undefined) continue;
+
+            for (const [deliveryId, deliveryOffset] of state.deliveries) {
+                if (deliveryOffset <= offset) state.deliveries.delete(deliveryId);
+            }
+            if (offset > state.acknowledged) {
+                state.acknowledged = offset;
+                this.scheduleSave(state);
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Detaches a service from its consumers (e.g. when it disconnects). The messages for the consumers are kept
+     * in their logs until a service attaches again.
+     *
+     * @param serviceId The ID of the service.
+     */
+    detach(serviceId: string): void {
+        for (const state of this.consumers.values()) {
+            if (state.serviceId !== serviceId) continue;
+            state.serviceId = undefined;
+            state.replaying = false;
+            state.deliveries.clear();
+            logger.info(`Detached durable consumer ${state.name}`, { serviceId, consumer: state.name });
+        }
+    }
+
+    /**
+     * Applies the retention limits to the logs of all consumers, and compacts them by removing
+     * the acknowledged messages.
+     */
+    maintain(): void {
+        let size = 0;
+        for (const state of this.consumers.values()) {
+            const startOffset = state.log.startOffset;
+            const removed = state.log.applyRetention(config.durable.retention.maxSize, config.durable.retention.maxAge);
+            // Only count the messages that were removed before being acknowledged as expired
+            const expired = Math.max(0, Math.min(removed, state.log.startOffset - 1 - state.acknowledged));
+            this.metrics.expiredCount.slot.add(expired);
+            if (expired > 0) {
+                logger.warn(`Removed ${expired} unacknowledged messages from the log of consumer ${state.name} by retention`, { consumer: state.name, startOffset });
+            }
+
+            this.metrics.compactedCount.slot.add(state.log.compact(state.acknowledged));
+            size += state.log.size;
+        }
+        this.metrics.logSize.slot.set(size);
+    }
+
+    /**
+     * Stops the maintenance of the logs and closes them.
+     */
+    async dispose(): Promise<void> {
+        clearInterval(this.maintenanceInterval);
+        this.saveUnsaved();
+        for (const state of this.consumers.values()) {
+            state.log.close();
+        }
+        this.consumers.clear();
+        this.metrics.dispose();
+    }
+
+    /**
+     * Sends the messages of the log of a consumer that have not been acknowledged yet to the attached service.
+     * The log is sent one page at a time as the connection drains, until the replay caught up with the end of the
+     * log (including the messages appended meanwhile), after which new messages are delivered as they are published.
+     *
+     * @param state The consumer.
+     */
+    private replay(state: Consumer): void {
+        const serviceId = state.serviceId!;
+        const records = state.log.read(state.acknowledged + 1); // Also reads the messages appended meanwhile
+        let replayed = 0;
+
+        state.replaying = true;
+        this.connectionManager.sendPaced(serviceId, () => {
+            if (state.serviceId !== serviceId) return undefined;
+
+            const record = records.next();
+            if (record.done) {
+                state.replaying = false;
+                if (replayed > 0) {
+                    logger.info(`Replayed ${replayed} messages to durable consumer ${state.name}`, { serviceId, consumer: state.name });
+                }
+                return undefined;
+            }
+
+            replayed++;
+            this.metrics.replayedCount.slot.add(1);
+            return this.createDelivery(state, record.value.offset, record.value.data);
+        });
+    }
+
+    /**
+     * Delivers a message of the log of a consumer to the attached service.
+     *
+     * @param state The consumer.
+     * @param offset The offset of the message in the log.
+     * @param data The message, as stored in the log.
+     */
+    private deliver(state: Consumer, offset: number, data: Buffer): void {
+        const { header, payload } = this.createDelivery(state, offset, data);
+        this.connectionManager.sendMessage(state.serviceId!, header, payload, undefined);
+    }
+
+    /**
+     * Creates the delivery of a message of the log of a consumer, with a new requestId to acknowledge it with.
+     *
+     * @param state The consumer.
+     * @param offset The offset of the message in the log.
+     * @param data The message, as stored in the log.
+     * @returns The header and payload to send to the attached service.
+     */
+    private createDelivery(state: Consumer, offset: number, data: Buffer): { header: BrokerHeader; payload: Buffer } {
+        const message = new MessageUtils.Parser(data);
+        const requestId = randomUUID();
+        state.deliveries.set(requestId, offset);
+        return { header: MessageUtils.toBrokerHeader(message.header, undefined, requestId), payload: message.rawPayload };
+    }
+
+    /**
+     * Creates a consumer with an empty log.
+     *
+     * @param name The name of the consumer.
+     * @returns The consumer.
+     */
+    private createConsumer(name: string): Consumer {
+        const state: Consumer = {
+            name,
+            topics: new Map(),
+            log: new SegmentLog(path.join(config.durable.directory, name), config.durable.segment.maxSize),
+            acknowledged: -1,
+            replaying: false,
+            deliveries: new Map(),
+        };
+        this.consumers.set(name, state);
+        this.metrics.consumerCount.slot.set(this.consumers.size);
+        return state;
+    }
+
+    /**
+     * Loads the consumers (and their subscriptions) saved in the log directory.
+     */
+    private load(): void {
+        if (!fs.existsSync(config.durable.directory)) return;
+        for (const name of fs.readdirSync(config.durable.directory)) {
+            const file = path.join(config.durable.directory, name, CONSUMER_FILE);
+            if (!DurableManager.isValidConsumer(name) || !fs.existsSync(file)) continue;
+            try {
+                const content = JSON.parse(fs.readFileSync(file, 'utf-8')) as ConsumerFile;
+                const state = this.createConsumer(name);
+                state.acknowledged = content.acknowledged;
+                state.owner = content.owner;
+                for (const [topic, version] of Object.entries(content.topics)) {
+                    state.topics.set(topic, version ?? undefined);
+                    this.trie.set(topic, { consumer: name, version: version ?? undefined });
+                }
+            } catch (error) {
+                logger.error(`Failed to load durable consumer ${name}`, { consumer: name, error });
+            }
+        }
+        if (this.consumers.size > 0) {
+            logger.info(`Loaded ${this.consumers.size} durable consumers`);
+        }
+    }
+
+    /**
+     * Schedules saving the acknowledged offset of a consumer, with the offsets of the other consumers acknowledged
+     * until the next save (every `durable.ack.interval` ms), to keep writing the files out of the routing path.
+     *
+     * @param state The consumer.
+     */
+    private scheduleSave(state: Consumer): void {
+        this.unsaved.add(state);
+        if (!this.saveTimeout) {
+            this.saveTimeout = setTimeout(() => this.saveUnsaved(), config.durable.ack.interval);
+            this.saveTimeout.unref();
+        }
+    }
+
+    /**
+     * Saves the consumers whose acknowledged offset changed since they were last saved.
+     */
+    private saveUnsaved(): void {
+        clearTimeout(this.saveTimeout);
+        this.saveTimeout = undefined;
+        for (const state of this.unsaved) {
+            try {
+                this.save(state);
+            } catch (error) {
+                logger.error(`Failed to save durable consumer ${state.name}`, { consumer: state.name, error });
+            }
+        }
+        this.unsaved.clear();
+    }
+
+    /**
+     * Saves the subscriptions, owner and acknowledged offset of a consumer.
+     *
+     * @param state The consumer.
+     */
+    private save(state: Consumer): void {
+        this.unsaved.delete(state);
+        const content: ConsumerFile = {
+            topics: Object.fromEntries(Array.from(state.topics, ([topic, version]) => [topic, version ?? null])),
+            acknowledged: state.acknowledged,
+            owner: state.owner,
+        };
+        const file = path.join(state.log.directory, CONSUMER_FILE);
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(content));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+}
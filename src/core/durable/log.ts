@@ -0,0 +1,363 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SetupLogger } from '@utils/logger';
+
+const logger = SetupLogger('SegmentLog');
+
+/**
+ * The size of the header of a record: the length of its data (4 bytes), its offset (8 bytes) and its timestamp (8 bytes).
+ */
+const RECORD_HEADER_SIZE = 20;
+
+/**
+ * The extension of the segment files. Segment files are named after the offset of their first record,
+ * zero-padded so they sort in order.
+ */
+const SEGMENT_EXTENSION = '.log';
+
+/**
+ * The number of bytes of a segment file read at a time when reading the log (a larger record is read at once).
+ */
+const READ_PAGE_SIZE = 65536;
+
+/**
+ * A record of a log.
+ */
+export interface LogRecord {
+    /** The offset of the record in the log */
+    offset: number;
+    /** The time (in ms since epoch) at which the record was appended */
+    timestamp: number;
+    /** The data of the record */
+    data: Buffer;
+}
+
+/**
+ * A segment file of a log, holding the records with consecutive offsets from its base offset.
+ */
+interface Segment {
+    /** The offset of the first record of the segment */
+    baseOffset: number;
+    /** The offset of the last record of the segment (baseOffset - 1 if the segment is empty) */
+    lastOffset: number;
+    /** The time (in ms since epoch) at which the last record was appended */
+    lastTimestamp: number;
+    /** The path of the segment file */
+    path: string;
+    /** The size of the segment file in bytes */
+    size: number;
+}
+
+/**
+ * Encodes a record.
+ *
+ * @param record The record to encode.
+ * @returns The encoded record.
+ */
+function encodeRecord(record: LogRecord): Buffer {
+    const buffer = Buffer.allocUnsafe(RECORD_HEADER_SIZE + record.data.length);
+    buffer.writeUInt32BE(record.data.length, 0);
+    buffer.writeBigUInt64BE(BigInt(record.offset), 4);
+    buffer.writeBigUInt64BE(BigInt(record.timestamp), 12);
+    record.data.copy(buffer, RECORD_HEADER_SIZE);
+    return buffer;
+}
+
+/**
+ * Decodes the records of a segment file. A truncated record at the end of the file (left by an interrupted
+ * write) ends the decoding.
+ *
+ * @param buffer The content of the segment file.
+ * @returns The records of the segment, and the number of bytes of complete records.
+ */
+function decodeRecords(buffer: Buffer): { records: LogRecord[], length: number } {
+    const records: LogRecord[] = [];
+    let position = 0;
+    while (position + RECORD_HEADER_SIZE <= buffer.length) {
+        const length = buffer.readUInt32BE(position);
+        if (position + RECORD_HEADER_SIZE + length > buffer.length) break;
+        records.push({
+            offset: Number(buffer.readBigUInt64BE(position + 4)),
+            timestamp: Number(buffer.readBigUInt64BE(position + 12)),
+            data: buffer.subarray(position + RECORD_HEADER_SIZE, position + RECORD_HEADER_SIZE + length),
+        });
+        position += RECORD_HEADER_SIZE + length;
+    }
+    return { records, length: position };
+}
+
+/**
+ * An append-only log stored in segment files in a directory. Records get consecutive offsets, and are removed
+ * from the start of the log only, by retention (whole segments) or compaction (records up to an offset).
+ */
+export class SegmentLog {
+    private readonly segments: Segment[] = [];
+    private readonly pending: Buffer[] = [];
+    private nextOffset = 0;
+    private fd?: number;
+    private flushScheduled = false;
+
+    /**
+     * Opens the log in a directory, creating the directory if needed and recovering the existing segments.
+     *
+     * @param directory The directory of the segment files.
+     * @param segmentSize The size in bytes after which a new segment is started.
+     */
+    constructor(readonly directory: string, private readonly segmentSize: number) {
+        fs.mkdirSync(directory, { recursive: true });
+        const files = fs.readdirSync(directory).filter(file => file.endsWith(SEGMENT_EXTENSION)).sort();
+        for (const file of files) {
+            const segmentPath = path.join(directory, file);
+            const content = fs.readFileSync(segmentPath);
+            const { records, length } = decodeRecords(content);
+
+            // Drop a record left incomplete by an interrupted write
+            if (length < content.length) fs.truncateSync(segmentPath, length);
+
+            const baseOffset = parseInt(path.basename(file, SEGMENT_EXTENSION), 10);
+            const last = records[records.length - 1];
+            this.segments.push({
+                baseOffset,
+                lastOffset: last?.offset ?? baseOffset - 1,
+                lastTimestamp: last?.timestamp ?? 0,
+                path: segmentPath,
+                size: length,
+            });
+            this.nextOffset = (last?.offset ?? baseOffset - 1) + 1;
+        }
+    }
+
+    /**
+     * Gets the offset of the first record of the log (the next offset if the log is empty).
+     */
+    get startOffset(): number {
+        return this.segments.find(segment => segment.lastOffset >= segment.baseOffset)?.baseOffset ?? this.nextOffset;
+    }
+
+    /**
+     * Gets the offset the next appended record gets.
+     */
+    get endOffset(): number {
+        return this.nextOffset;
+    }
+
+    /**
+     * Gets the total size of the segment files in bytes.
+     */
+    get size(): number {
+        return this.segments.reduce((size, segment) => size + segment.size, 0);
+    }
+
+    /**
+     * Appends a record to the log, starting a new segment if the current one is full. The records appended
+     * during a turn of the event loop are written to the segment file at once, after the turn (see `flush`).
+     *
+     * @param data The data of the record.
+     * @param timestamp The time (in ms since epoch) of the record.
+     * @returns The offset of the record.
+     */
+    append(data: Buffer, timestamp: number = Date.now()): number {
+        let segment = this.segments[this.segments.length - 1];
+        if (!segment || this.fd === undefined || segment.size >= this.segmentSize) {
+            segment = this.roll();
+        }
+
+        const offset = this.nextOffset++;
+        const record = encodeRecord({ offset, timestamp, data });
+        this.pending.push(record);
+        segment.lastOffset = offset;
+        segment.lastTimestamp = timestamp;
+        segment.size += record.length;
+
+        if (!this.flushScheduled) {
+            this.flushScheduled = true;
+            setImmediate(this._flushBind);
+        }
+        return offset;
+    }
+
+    /**
+     * Writes the appended records that were not written yet to the segment file.
+     */
+    flush(): void {
+        if (this.pending.length === 0 || this.fd === undefined) return;
+        const records = this.pending.length === 1 ? this.pending[0] : Buffer.concat(this.pending);
+        this.pending.length = 0;
+        fs.writeSync(this.fd, records);
+    }
+
+    /**
+     * Reads the records of the log from an offset, one page of the segment files at a time, so only a page is held
+     * in memory while the records are consumed. Each page is read from the log as it is then: the records appended
+     * meanwhile are read too, and the records removed meanwhile are skipped.
+     *
+     * @param fromOffset The offset of the first record to read (the records removed from the log are skipped).
+     * @param pageSize The number of bytes read from a segment file at a time.
+     * @returns The records, in order of their offsets.
+     */
+    *read(fromOffset: number, pageSize: number = READ_PAGE_SIZE): Generator<LogRecord> {
+        let offset = fromOffset;
+        let cursor: { segment: Segment, path: string, position: number } | undefined;
+        while (true) {
+            this.flush();
+            const segment = this.segments.find(segment => segment.lastOffset >= offset);
+            if (!segment) return;
+
+            // Resume after the previous page, unless it was in another segment or the segment was rewritten meanwhile
+            const position = cursor?.segment === segment && cursor.path === segment.path ? cursor.position : 0;
+            const { records, length } = this.readPage(segment, position, pageSize);
+            if (length === 0) return;
+            cursor = { segment, path: segment.path, position: position + length };
+
+            for (const record of records) {
+                if (record.offset < offset) continue;
+                yield record;
+                offset = record.offset + 1;
+            }
+        }
+    }
+
+    /**
+     * Removes the oldest segments of the log while it exceeds a maximum size, or their last record exceeds
+     * a maximum age. The segment records are appended to is never removed.
+     *
+     * @param maxSize The maximum size of the log in bytes (0 for unlimited).
+     * @param maxAge The maximum age of the records in ms (0 for unlimited).
+     * @param now The current time (in ms since epoch).
+     * @returns The number of records removed.
+     */
+    applyRetention(maxSize: number, maxAge: number, now: number = Date.now()): number {
+        let removed = 0;
+        let size = this.size;
+        while (this.segments.length > 1) {
+            const segment = this.segments[0];
+            const tooLarge = maxSize > 0 && size > maxSize;
+            const tooOld = maxAge > 0 && segment.lastTimestamp < now - maxAge;
+            if (!tooLarge && !tooOld) break;
+
+            fs.rmSync(segment.path, { force: true });
+            this.segments.shift();
+            size -= segment.size;
+            removed += segment.lastOffset - segment.baseOffset + 1;
+        }
+        return removed;
+    }
+
+    /**
+     * Compacts the log by removing the records up to an offset (e.g. the records acknowledged by the consumer
+     * of the log) from the segments no longer appended to. Segments that only hold such records are deleted,
+     * and the first remaining segment is rewritten without them.
+     *
+     * @param offset The offset of the last record to remove.
+     * @returns The number of records removed.
+     */
+    compact(offset: number): number {
+        let removed = 0;
+        while (this.segments.length > 1 && this.segments[0].lastOffset <= offset) {
+            const segment = this.segments.shift()!;
+            fs.rmSync(segment.path, { force: true });
+            removed += segment.lastOffset - segment.baseOffset + 1;
+        }
+
+        // Rewrite the first segment if it starts with removable records
+        const segment = this.segments[0];
+        if (this.segments.length > 1 && segment.baseOffset <= offset) {
+            const records = decodeRecords(fs.readFileSync(segment.path)).records.filter(record => record.offset > offset);
+            const content = Buffer.concat(records.map(encodeRecord));
+            const compactedPath = this.getSegmentPath(offset + 1);
+            fs.writeFileSync(`${compactedPath}.tmp`, content);
+            fs.renameSync(`${compactedPath}.tmp`, compactedPath);
+            fs.rmSync(segment.path, { force: true });
+
+            removed += offset - segment.baseOffset + 1;
+            segment.baseOffset = offset + 1;
+            segment.path = compactedPath;
+            segment.size = content.length;
+        }
+        return removed;
+    }
+
+    /**
+     * Writes the appended records and closes the segment records are appended to.
+     */
+    close(): void {
+        if (this.fd !== undefined) {
+            this.flush();
+            fs.closeSync(this.fd);
+            this.fd = undefined;
+        }
+    }
+
+    /**
+     * Closes the log and deletes its directory.
+     */
+    destroy(): void {
+        this.pending.length = 0;
+        this.close();
+        this.segments.length = 0;
+        fs.rmSync(this.directory, { recursive: true, force: true });
+    }
+
+    /**
+     * Starts a new segment at the next offset, or reopens the last segment if it is not full yet.
+     *
+     * @returns The segment to append to.
+     */
+    private roll(): Segment {
+        this.close();
+        let segment = this.segments[this.segments.length - 1];
+        if (!segment || segment.size >= this.segmentSize) {
+            segment = { baseOffset: this.nextOffset, lastOffset: this.nextOffset - 1, lastTimestamp: 0, path: this.getSegmentPath(this.nextOffset), size: 0 };
+            this.segments.push(segment);
+        }
+        this.fd = fs.openSync(segment.path, 'a');
+        return segment;
+    }
+
+    /**
+     * Reads the complete records of a page of a segment file.
+     *
+     * @param segment The segment.
+     * @param position The position in the segment file to read from (the start of a record).
+     * @param pageSize The number of bytes to read (more if the first record is larger).
+     * @returns The records of the page, and the number of bytes of complete records.
+     */
+    private readPage(segment: Segment, position: number, pageSize: number): { records: LogRecord[], length: number } {
+        if (position >= segment.size) return { records: [], length: 0 };
+        const fd = fs.openSync(segment.path, 'r');
+        try {
+            let buffer = Buffer.allocUnsafe(Math.min(Math.max(pageSize, RECORD_HEADER_SIZE), segment.size - position));
+            let bytesRead = fs.readSync(fd, buffer, 0, buffer.length, position);
+            if (bytesRead >= RECORD_HEADER_SIZE) {
+                const recordSize = RECORD_HEADER_SIZE + buffer.readUInt32BE(0);
+                if (recordSize > bytesRead) {
+                    buffer = Buffer.allocUnsafe(recordSize);
+                    bytesRead = fs.readSync(fd, buffer, 0, recordSize, position);
+                }
+            }
+            return decodeRecords(buffer.subarray(0, bytesRead));
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    // Writes the records appended during the last turn of the event loop
+    private _flushBind = () => {
+        this.flushScheduled = false;
+        try {
+            this.flush();
+        } catch (error) {
+            logger.error(`Failed to write the log records to ${this.directory}`, { directory: this.directory, error });
+        }
+    };
+
+    /**
+     * Gets the path of the segment file starting at an offset.
+     *
+     * @param baseOffset The offset of the first record of the segment.
+     * @returns The path of the segment file.
+     */
+    private getSegmentPath(baseOffset: number): string {
+        return path.join(this.directory, `${baseOffset.toString().padStart(20, '0')}${SEGMENT_EXTENSION}`);
+    }
+}
@@ -0,0 +1,53 @@
+import { MetricsContainer, MonitoringManager } from '@core/monitoring';
+import { Metric } from '@core/monitoring/metrics';
+import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
+
+/**
+ * Metrics for the Durable module
+ */
+export class DurableMetrics implements MetricsContainer {
+    /** Number of durable consumers */
+    public readonly consumerCount: Metric<GaugeSlot>;
+
+    /** Total number of messages appended to the logs of durable consumers */
+    public readonly appendedCount: Metric<GaugeSlot>;
+
+    /** Rate of messages appended to the logs of durable consumers */
+    public readonly appendedRate: Metric<RateSlot>;
+
+    /** Total number of messages replayed to reconnecting durable consumers */
+    public readonly replayedCount: Metric<GaugeSlot>;
+
+    /** Total number of messages removed from the logs by retention before being acknowledged */
+    public readonly expiredCount: Metric<GaugeSlot>;
+
+    /** Total number of acknowledged messages removed from the logs by compaction */
+    public readonly compactedCount: Metric<GaugeSlot>;
+
+    /** Total size of the logs in bytes */
+    public readonly logSize: Metric<GaugeSlot>;
+
+    constructor(private readonly monitoringManager: MonitoringManager) {
+        // Initialize all metrics
+        this.consumerCount = this.monitoringManager.registerMetric('durable.consumer.count', GaugeSlot);
+        this.appendedCount = this.monitoringManager.registerMetric('durable.message.count.appended', GaugeSlot);
+        this.appendedRate = this.monitoringManager.registerMetric('durable.message.rate.appended', RateSlot);
+        this.replayedCount = this.monitoringManager.registerMetric('durable.message.count.replayed', GaugeSlot);
+        this.expiredCount = this.monitoringManager.registerMetric('durable.message.count.expired', GaugeSlot);
+        this.compactedCount = this.monitoringManager.registerMetric('durable.message.count.compacted', GaugeSlot);
+        this.logSize = this.monitoringManager.registerMetric('durable.log.size', GaugeSlot);
+    }
+
+    /**
+     * Dispose of all metrics
+     */
+    public dispose(): void {
+        this.consumerCount.dispose();
+        this.appendedCount.dispose();
+        this.appendedRate.dispose();
+        this.replayedCount.dispose();
+        this.expiredCount.dispose();
+        this.compactedCount.dispose();
+        this.logSize.dispose();
+    }
+}
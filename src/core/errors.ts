@@ -220,6 +220,22 @@ export class TimeoutError extends MessageError {
     }
 }
 
+/**
+ * Error class for rate limited messages.
+ * @extends MessageError
+ */
+export class RateLimitedError extends MessageError {
+    /**
+     * Creates a new RateLimitedError instance.
+     * @param {string} message - The error message.
+     * @param {object} [details] - Optional additional details about the error.
+     * @param {Date} [timestamp] - Optional timestamp of when the error occurred.
+     */
+    constructor(...args: RemoveFirst<ConstructorParameters<typeof MessageError>>) {
+        super('RATE_LIMITED', ...args);
+    }
+}
+
 /**
  * Error class for internal errors.
  * @extends MessageError
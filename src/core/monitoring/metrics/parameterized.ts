@@ -1,12 +1,18 @@
 import { EventEmitter } from 'events';
+import { config } from '@config';
 import { InternalError } from '@core/errors';
 import { Metric } from './metric';
 import { BaseSlot } from './slots/base';
 
-// Regex for validating metric templates with parameters
-const METRIC_TEMPLATE_REGEX = /^[a-z][a-z0-9]*(\.[a-z][a-z0-9]*|\.\{[a-z]+\}){0,4}$/;
+// The depth of the metric templates of the broker itself, allowed whatever the configured topic depth
+const MIN_METRIC_TEMPLATE_DEPTH = 5;
+
+// Regex for validating metric templates with parameters, whose levels follow the configured topic grammar
+const METRIC_LEVEL = `[a-z][${config.topic.characters}]*`;
+const METRIC_TEMPLATE_REGEX = new RegExp(`^${METRIC_LEVEL}(\\.${METRIC_LEVEL}|\\.\\{[a-z]+\\}){0,${Math.max(MIN_METRIC_TEMPLATE_DEPTH, config.topic.maxDepth) - 1}}$`);
 
 // Regex for validating a parameterized metric value - allows any chars except : and }
+// (topic names are valid values, as the configured topic characters can never include them)
 const PARAM_VALUE_REGEX = /^[^:}]+$/;
 
 /**
@@ -86,10 +92,10 @@ export class ParameterizedMetric<TSlot extends BaseSlot = BaseSlot> extends Even
      * - Be a string with a maximum length of 255 characters
      * - Start with a letter
      * - Each segment must be either:
-     *   - Letters and numbers only
+     *   - A letter followed by the `topic.characters` (letters and numbers by default)
      *   - A parameter placeholder in the format {param} where param contains only letters
      * - Follow a hierarchical structure using dots as separators
-     * - Have a maximum depth of 5 levels
+     * - Have a maximum depth of `topic.maxDepth` levels (and at least 5)
      * - Not contain consecutive dots
      * - Not start or end with a dot
      *
@@ -1,14 +1,19 @@
+import * as semver from 'semver';
 import { LogEntry, transports } from 'winston';
 import { config } from '@config';
+import { AuthManager, AuthRequest } from '@core/auth';
 import { ConnectionManager } from '@core/connection';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
 import {
+    ForbiddenError,
     InvalidRequestError,
     ServiceUnavailableError,
     TopicNotSupportedError,
 } from '@core/errors';
 import { MonitoringManager } from '@core/monitoring';
-import { SubscriptionManager } from '@core/subscription';
-import { ActionType } from '@core/types';
+import { Qos, SubscriptionManager } from '@core/subscription';
+import { ActionType, LoadBalancingStrategy } from '@core/types';
 import { BrokerHeader, ClientHeader, Message, MessageUtils, TopicUtils } from '@core/utils';
 import { SetupLogger } from '@utils/logger';
 import { RegistryMetrics } from './metrics';
@@ -40,11 +45,21 @@ export class ServiceRegistry {
     private readonly services: Map<string, ServiceRegistration>;
     private connectionManager!: ConnectionManager;
     private subscriptionManager: SubscriptionManager;
+    private durableManager: DurableManager;
+    private deliveryManager: DeliveryManager;
     private readonly metrics: RegistryMetrics;
 
-    constructor(subscriptionManager: SubscriptionManager, private readonly monitoringManager: MonitoringManager) {
+    constructor(
+        subscriptionManager: SubscriptionManager,
+        durableManager: DurableManager,
+        deliveryManager: DeliveryManager,
+        private readonly monitoringManager: MonitoringManager,
+        private readonly authManager: AuthManager
+    ) {
         this.services = new Map();
         this.subscriptionManager = subscriptionManager;
+        this.durableManager = durableManager;
+        this.deliveryManager = deliveryManager;
         this.metrics = new RegistryMetrics(monitoringManager);
         this.metrics.count.slot.set(0);
 
@@ -173,6 +188,8 @@ export class ServiceRegistry {
             clearTimeout(service.heartbeatDeregisterTimeout);
             this.services.delete(serviceId);
             this.subscriptionManager.unsubscribe(serviceId);
+            this.durableManager.detach(serviceId);
+            this.deliveryManager.detach(serviceId);
             this.connectionManager.removeConnection(serviceId);
             logger.info(`Service ${serviceId} unregistered.`, { name: service.name, description: service.description });
         }
@@ -213,6 +230,9 @@ export class ServiceRegistry {
 
         try {
             switch (message.header.topic) {
+                case 'system.auth':
+                    this.handleAuth(serviceId, message);
+                    break;
                 case 'system.heartbeat':
                     this.handleHeartbeatMessage(serviceId, message);
                     break;
@@ -225,6 +245,12 @@ export class ServiceRegistry {
                 case 'system.metrics':
                     this.handleMetricsRequest(serviceId, message);
                     break;
+                case 'system.publish.ack':
+                    this.handlePublishAck(serviceId, message);
+                    break;
+                case 'system.rate.limit':
+                    this.handleRateLimit(serviceId, message);
+                    break;
                 case 'system.service.list':
                     this.handleServiceList(serviceId, message);
                     break;
@@ -273,6 +299,25 @@ export class ServiceRegistry {
         }
     }
 
+    /**
+     * Handles an authentication request.
+     *
+     * @param serviceId The ID of the service authenticating.
+     * @param message The message to handle.
+     */
+    private handleAuth(serviceId: string, message: MessageUtils.Parser): void {
+        const payload = message.parsePayload<AuthRequest>() ?? {};
+        const ip = this.connectionManager.getConnection(serviceId)?.ip ?? 'unknown';
+
+        // Authenticate the service (throws if the credentials are invalid or the IP is locked out)
+        const identity = this.authManager.authenticate(serviceId, ip, payload);
+
+        // Send a success response
+        const responseHeader = MessageUtils.toBrokerHeader(message.header, ActionType.RESPONSE, message.header.requestId);
+        const responsePayload = { status: 'success', identity };
+        this.connectionManager.sendMessage(serviceId, responseHeader, responsePayload, undefined);
+    }
+
     /**
      * Handles a heartbeat request.
      *
@@ -400,6 +445,95 @@ export class ServiceRegistry {
         this.connectionManager.sendMessage(serviceId, responseHeader, responsePayload, undefined);
     }
 
+    /**
+     * Handles the acknowledgement of an at-least-once delivery, or of a message delivered to a durable consumer
+     * (which also acknowledges all messages delivered to the consumer before it).
+     *
+     * @param serviceId The ID of the service acknowledging the message.
+     * @param message The message to handle.
+     */
+    private handlePublishAck(serviceId: string, message: MessageUtils.Parser): void {
+        const { requestId } = message.parsePayload<{ requestId?: string }>() ?? {};
+
+        // Check if the requestId is valid
+        if (!requestId || typeof requestId !== 'string' || !isUUID4(requestId)) {
+            throw new InvalidRequestError('Missing or invalid requestId', { requestId });
+        }
+
+        const success = this.deliveryManager.ack(serviceId, requestId) || this.durableManager.ack(serviceId, requestId);
+
+        const responseHeader = MessageUtils.toBrokerHeader(message.header, ActionType.RESPONSE, message.header.requestId);
+        const responsePayload = { status: success ? 'success' : 'failure' };
+        this.connectionManager.sendMessage(serviceId, responseHeader, responsePayload, undefined);
+    }
+
+    /**
+     * Handles a rate limit request, updating the rate limits (if given) and responding with the current limits.
+     * Limits are in messages per second, where 0 means unlimited. Only the identities of `rate.limit.admins` may
+     * update the limits, so services cannot lift their own throttle.
+     *
+     * @param serviceId The ID of the service updating the rate limits.
+     * @param message The message to handle.
+     * @throws {ForbiddenError} If the service updates the limits without an admin identity.
+     */
+    private handleRateLimit(serviceId: string, message: MessageUtils.Parser): void {
+        const { service, topic, topics } = message.parsePayload<{ service?: number, topic?: number, topics?: Record<string, number> }>() ?? {};
+        const limits = config.rate.limit;
+        const updating = service !== undefined || topic !== undefined || topics !== undefined;
+
+        // Check the service is an admin before looking at the limits
+        const identity = this.authManager.getIdentity(serviceId);
+        if (updating && (identity === undefined || !limits.admins.includes(identity))) {
+            throw new ForbiddenError('Not allowed to change the rate limits', { identity });
+        }
+
+        const isValidLimit = (limit: unknown) => typeof limit === 'number' && Number.isInteger(limit) && limit >= 0;
+
+        // Validate all limits before applying any of them
+        if (service !== undefined && !isValidLimit(service)) {
+            throw new InvalidRequestError('Invalid service rate limit', { service });
+        }
+        if (topic !== undefined && !isValidLimit(topic)) {
+            throw new InvalidRequestError('Invalid topic rate limit', { topic });
+        }
+        if (topics !== undefined && (typeof topics !== 'object' || topics === null || Array.isArray(topics))) {
+            throw new InvalidRequestError('Invalid topic rate limits', { topics });
+        }
+        for (const [name, limit] of Object.entries(topics ?? {})) {
+            if (!TopicUtils.isValid(name) || name.startsWith('system.')) {
+                throw new InvalidRequestError('Invalid topic', { topic: name });
+            }
+            if (!isValidLimit(limit)) {
+                throw new InvalidRequestError('Invalid topic rate limit', { topic: name, limit });
+            }
+        }
+
+        // Apply the limits (the router reads them from the configuration on every message)
+        if (service !== undefined) limits.global.per.service = service;
+        if (topic !== undefined) limits.global.per.topic = topic;
+        for (const [name, limit] of Object.entries(topics ?? {})) {
+            if (limit === 0) {
+                delete limits.topic.per.service[name];
+            } else {
+                limits.topic.per.service[name] = limit;
+            }
+        }
+        if (updating) {
+            logger.info(`Rate limits updated by service ${serviceId} (${identity})`, { serviceId, identity, service, topic, topics });
+        }
+
+        const responseHeader = MessageUtils.toBrokerHeader(message.header, ActionType.RESPONSE, message.header.requestId);
+        const responsePayload = {
+            status: 'success',
+            limits: {
+                service: limits.global.per.service,
+                topic: limits.global.per.topic,
+                topics: { ...limits.topic.per.service },
+            },
+        };
+        this.connectionManager.sendMessage(serviceId, responseHeader, responsePayload, undefined);
+    }
+
     /**
      * Handles a service list request.
      *
@@ -514,34 +648,90 @@ export class ServiceRegistry {
      * @param message The message to handle.
      */
     private handleTopicSubscribe(serviceId: string, message: MessageUtils.Parser): void {
-        const { action, topic, priority = 0 } = message.parsePayload<{ action?: ActionType, topic?: string, priority?: number }>();
+        const { action, topic, priority = 0, strategy, version, consumer, qos, group } = message.parsePayload<{ action?: ActionType, topic?: string, priority?: number, strategy?: LoadBalancingStrategy, version?: string, consumer?: string, qos?: Qos, group?: string }>();
 
         // Check if the action is valid
         if (!action || typeof action !== 'string' || !Object.values(ActionType).includes(action)) {
             throw new InvalidRequestError('Missing or invalid action', { action });
         }
 
-        // Check if the topic is valid
-        if (!topic || typeof topic !== 'string' || !TopicUtils.isValid(topic)) {
+        // Check if the topic is a valid topic or topic pattern ('+' and '#' wildcards)
+        if (!topic || typeof topic !== 'string' || !TopicUtils.isValidSubscription(topic)) {
             throw new InvalidRequestError('Missing or invalid topic', { topic });
         }
 
 
-        // Only allow subscribing to topics that are not restricted system topics
-        if (topic.startsWith('system.') && !SUBSCRIBABLE_SYSTEM_TOPICS.has(topic)) {
+        // Only allow subscribing to topics that are not restricted system topics (or the dead-letter topic)
+        if (topic.startsWith('system.') && !SUBSCRIBABLE_SYSTEM_TOPICS.has(topic) && topic !== config.deadletter.topic) {
             throw new InvalidRequestError('Unable to subscribe to restricted topic', { topic });
         }
 
+        // Check the topic ACL policy (for both publish and request subscriptions)
+        this.authManager.assertAllowed(serviceId, 'subscribe', topic);
+
         // Check if the priority is a valid number
         if (typeof priority !== 'number' || isNaN(priority) || !isFinite(priority)) {
             throw new InvalidRequestError('Invalid priority', { priority });
         }
 
+        // Check if the version range is valid
+        if (version !== undefined && (typeof version !== 'string' || !semver.validRange(version))) {
+            throw new InvalidRequestError('Invalid version range', { version });
+        }
+
+        // Check if the subscription group is valid (only for non-durable publish subscriptions to non-system topics)
+        if (group !== undefined) {
+            if (action !== ActionType.PUBLISH || consumer !== undefined || topic.startsWith('system.')) {
+                throw new InvalidRequestError('Subscription groups are only allowed for non-durable publish subscriptions', { action, topic, group });
+            }
+            if (typeof group !== 'string' || !SubscriptionManager.isValidGroup(group)) {
+                throw new InvalidRequestError('Invalid subscription group', { group });
+            }
+        }
+
+        // Check if the load balancing strategy is valid (only for request subscriptions and subscription groups)
+        if (strategy !== undefined) {
+            if (action !== ActionType.REQUEST && group === undefined) {
+                throw new InvalidRequestError('Load balancing strategy is only allowed for request subscriptions and subscription groups', { action, strategy });
+            }
+            if (!Object.values(LoadBalancingStrategy).includes(strategy)) {
+                throw new InvalidRequestError('Invalid load balancing strategy', { strategy, validStrategies: Object.values(LoadBalancingStrategy) });
+            }
+        }
+
+        // Check if the durable consumer is valid (only for publish subscriptions to non-system topics)
+        if (consumer !== undefined) {
+            if (action !== ActionType.PUBLISH || topic.startsWith('system.')) {
+                throw new InvalidRequestError('Durable subscriptions are only allowed for publish subscriptions', { action, topic, consumer });
+            }
+            if (typeof consumer !== 'string' || !DurableManager.isValidConsumer(consumer)) {
+                throw new InvalidRequestError('Invalid consumer name', { consumer });
+            }
+        }
+
+        // Check if the delivery guarantee is valid (only for publish subscriptions, durable ones are always acknowledged)
+        if (qos !== undefined) {
+            if (action !== ActionType.PUBLISH || consumer !== undefined) {
+                throw new InvalidRequestError('QoS is only allowed for non-durable publish subscriptions', { action, qos });
+            }
+            if (qos !== 0 && qos !== 1) {
+                throw new InvalidRequestError('Invalid QoS, expected 0 or 1', { qos });
+            }
+        }
+
         let success = false;
-        if (action === ActionType.PUBLISH) {
-            success = this.subscriptionManager.subscribePublish(serviceId, topic);
+        if (consumer !== undefined) {
+            success = this.durableManager.subscribe(consumer, serviceId, topic, version, this.authManager.getIdentity(serviceId));
+        } else if (action === ActionType.PUBLISH) {
+            success = this.subscriptionManager.subscribePublish(serviceId, topic, version, qos, group);
+            if (success && group !== undefined && strategy !== undefined) {
+                this.subscriptionManager.setGroupStrategy(group, strategy);
+            }
         } else if (action === ActionType.REQUEST) {
-            success = this.subscriptionManager.subscribeRequest(serviceId, topic, priority);
+            success = this.subscriptionManager.subscribeRequest(serviceId, topic, priority, version);
+            if (success && strategy !== undefined) {
+                this.subscriptionManager.setRequestStrategy(topic, strategy);
+            }
         }
 
         const responseHeader = MessageUtils.toBrokerHeader(message.header, ActionType.RESPONSE, message.header.requestId);
@@ -557,26 +747,29 @@ export class ServiceRegistry {
      * @param message The message to handle.
      */
     private handleTopicUnsubscribe(serviceId: string, message: MessageUtils.Parser): void {
-        const { action, topic } = message.parsePayload<{ action?: ActionType, topic?: string }>();
+        const { action, topic, consumer } = message.parsePayload<{ action?: ActionType, topic?: string, consumer?: string }>();
 
         // Check if the action is valid
         if (!action || typeof action !== 'string' || !Object.values(ActionType).includes(action)) {
             throw new InvalidRequestError('Missing or invalid action', { action });
         }
 
-        // Check if the topic is valid
-        if (!topic || typeof topic !== 'string' || !TopicUtils.isValid(topic)) {
+        // Check if the topic is a valid topic or topic pattern ('+' and '#' wildcards)
+        if (!topic || typeof topic !== 'string' || !TopicUtils.isValidSubscription(topic)) {
             throw new InvalidRequestError('Missing or invalid topic', { topic });
         }
 
 
         // Only allow unsubscribing from topics that are not system topics, or system.service.register, or system.topic.subscribe
-        if (topic.startsWith('system.') && topic !== 'system.service.register' && topic !== 'system.topic.subscribe') {
+        // (or the dead-letter topic)
+        if (topic.startsWith('system.') && topic !== 'system.service.register' && topic !== 'system.topic.subscribe' && topic !== config.deadletter.topic) {
             throw new InvalidRequestError('Unable to unsubscribe from restricted topic', { topic });
         }
 
         let success = false;
-        if (action === ActionType.PUBLISH) {
+        if (consumer !== undefined) {
+            success = typeof consumer === 'string' && this.durableManager.unsubscribe(consumer, serviceId, topic);
+        } else if (action === ActionType.PUBLISH) {
             success = this.subscriptionManager.unsubscribePublish(serviceId, topic);
         } else if (action === ActionType.REQUEST) {
             success = this.subscriptionManager.unsubscribeRequest(serviceId, topic);
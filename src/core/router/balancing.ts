@@ -0,0 +1,172 @@
+import { config } from '@config';
+import { SubscriptionManager } from '@core/subscription';
+import { LoadBalancingStrategy } from '@core/types';
+import { SetupLogger } from '@utils/logger';
+
+const logger = SetupLogger('LoadBalancer');
+
+// The number of topics (and subscription groups) whose round-robin counter is kept
+const MAX_ROUND_ROBIN_COUNTERS = 10000;
+
+/**
+ * The information available to a balancer when picking a subscriber for a request.
+ */
+export interface BalancingContext {
+    /** The topic of the request */
+    topic: string;
+    /** The routing key supplied by the requester (if any) */
+    routingKey?: string;
+    /** The subscription group a publish is sent to (if any), whose members take turns across all its topics */
+    group?: string;
+    /** Gets the number of outstanding requests for a service */
+    outstanding: (serviceId: string) => number;
+}
+
+/**
+ * Picks a subscriber for a request from a list of candidates.
+ */
+export interface Balancer {
+    /**
+     * Picks a subscriber for a request.
+     *
+     * @param candidates The service IDs of the candidate subscribers (never empty).
+     * @param context The context of the request.
+     * @returns The service ID of the picked subscriber.
+     */
+    select(candidates: string[], context: BalancingContext): string;
+}
+
+/**
+ * Picks a random subscriber.
+ */
+export class RandomBalancer implements Balancer {
+    select(candidates: string[]): string {
+        return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+}
+
+/**
+ * Picks each subscriber of a topic (or member of a subscription group) in turn.
+ * Only the counters of the most recently used topics are kept, the turn of an evicted topic starts over.
+ */
+export class RoundRobinBalancer implements Balancer {
+    private readonly counters = new Map<string, number>();
+
+    constructor(private readonly maxCounters = MAX_ROUND_ROBIN_COUNTERS) {}
+
+    select(candidates: string[], context: BalancingContext): string {
+        // Subscription groups are keyed by their name prefixed with a character topics cannot contain
+        const key = context.group !== undefined ? `:${context.group}` : context.topic;
+        const counter = this.counters.get(key) ?? 0;
+
+        // Move the counter to the end of the map, so the least recently used one is evicted first
+        this.counters.delete(key);
+        if (this.counters.size >= this.maxCounters) {
+            this.counters.delete(this.counters.keys().next().value!);
+        }
+        this.counters.set(key, (counter + 1) % Number.MAX_SAFE_INTEGER);
+        return candidates[counter % candidates.length];
+    }
+}
+
+/**
+ * Picks the subscriber with the fewest outstanding requests (the first one in case of a tie).
+ */
+export class LeastOutstandingBalancer implements Balancer {
+    select(candidates: string[], context: BalancingContext): string {
+        let selected = candidates[0];
+        let fewest = context.outstanding(selected);
+        for (let i = 1; i < candidates.length && fewest > 0; i++) {
+            const outstanding = context.outstanding(candidates[i]);
+            if (outstanding < fewest) {
+                selected = candidates[i];
+                fewest = outstanding;
+            }
+        }
+        return selected;
+    }
+}
+
+/**
+ * Picks the same subscriber for the same routing key using rendezvous hashing, so only the requests of
+ * a subscriber that leaves are moved to other subscribers. Requests without a routing key are picked randomly.
+ */
+export class ConsistentHashBalancer implements Balancer {
+    private readonly fallback = new RandomBalancer();
+
+    select(candidates: string[], context: BalancingContext): string {
+        if (!context.routingKey) return this.fallback.select(candidates);
+
+        let selected = candidates[0];
+        let highest = -1;
+        for (const candidate of candidates) {
+            const weight = ConsistentHashBalancer.hash(`${context.routingKey}:${candidate}`);
+            if (weight > highest) {
+                selected = candidate;
+                highest = weight;
+            }
+        }
+        return selected;
+    }
+
+    /**
+     * Hashes a string using 32-bit FNV-1a.
+     *
+     * @param value The string to hash.
+     * @returns The unsigned 32-bit hash.
+     */
+    static hash(value: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
+
+/**
+ * Picks a subscriber for a request using the load balancing strategy of its topic.
+ * The strategy of a topic is the one of its most specific matching pattern (set in the configuration or
+ * when subscribing), or `request.loadbalancing.strategy` if no pattern matches.
+ */
+export class LoadBalancer {
+    private readonly balancers: Record<LoadBalancingStrategy, Balancer>;
+
+    constructor(private readonly subscriptionManager: SubscriptionManager) {
+        this.balancers = {
+            [LoadBalancingStrategy.RANDOM]: new RandomBalancer(),
+            [LoadBalancingStrategy.ROUND_ROBIN]: new RoundRobinBalancer(),
+            [LoadBalancingStrategy.LEAST_OUTSTANDING]: new LeastOutstandingBalancer(),
+            [LoadBalancingStrategy.CONSISTENT_HASH]: new ConsistentHashBalancer(),
+        };
+        if (!this.balancers[config.request.loadbalancing.strategy]) {
+            logger.warn(`Unknown load balancing strategy ${config.request.loadbalancing.strategy}, falling back to ${LoadBalancingStrategy.RANDOM}`);
+        }
+    }
+
+    /**
+     * Gets the load balancing strategy for a topic.
+     *
+     * @param topic The topic of the request.
+     * @returns The load balancing strategy.
+     */
+    getStrategy(topic: string): LoadBalancingStrategy {
+        const strategy = this.subscriptionManager.getRequestStrategy(topic) ?? config.request.loadbalancing.strategy;
+        return this.balancers[strategy] ? strategy : LoadBalancingStrategy.RANDOM;
+    }
+
+    /**
+     * Picks a subscriber for a request (or a member of a subscription group for a publish).
+     *
+     * @param candidates The service IDs of the candidate subscribers (never empty).
+     * @param context The context of the request.
+     * @param strategy The load balancing strategy to use (the strategy of the topic if not specified).
+     * @returns The service ID of the picked subscriber.
+     */
+    select(candidates: string[], context: BalancingContext, strategy?: LoadBalancingStrategy): string {
+        if (candidates.length === 1) return candidates[0];
+        const balancer = (strategy && this.balancers[strategy]) || this.balancers[this.getStrategy(context.topic)];
+        return balancer.select(candidates, context);
+    }
+}
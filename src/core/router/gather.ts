@@ -0,0 +1,113 @@
+import { MessageError } from '@core/errors';
+import { ClientHeader, GatherMode, PayloadError } from '@core/utils';
+
+/**
+ * The outcome of a gather request for one subscriber: either its result or its error.
+ */
+export interface GatherResult {
+    /** The ID of the subscriber */
+    serviceId: string;
+    /** The payload of the successful response */
+    result?: unknown;
+    /** The error of the failed response */
+    error?: PayloadError;
+}
+
+/**
+ * Collects the responses of the subscribers of a gather request (a request sent to all subscribers of a topic),
+ * until enough of them responded successfully or all of them responded.
+ */
+export class Gather {
+    /** The responses received so far, in order of arrival */
+    readonly results: GatherResult[] = [];
+    /** The IDs of the outstanding requests, by subscriber */
+    readonly requests = new Map<string, string>();
+    /** The deadline of the gather request */
+    timeout?: NodeJS.Timeout;
+    private successes = 0;
+
+    /**
+     * Creates a new gather request.
+     *
+     * @param originServiceId The ID of the service that made the request.
+     * @param originalHeader The header of the original request.
+     * @param targets The service IDs of the subscribers the request is sent to.
+     */
+    constructor(
+        readonly originServiceId: string,
+        readonly originalHeader: ClientHeader,
+        readonly targets: string[],
+    ) {}
+
+    /**
+     * Gets the number of successful responses needed to complete a gather request.
+     *
+     * @param mode The completion mode of the request.
+     * @param targets The number of subscribers the request is sent to.
+     * @returns The number of successful responses needed.
+     */
+    static getRequired(mode: GatherMode, targets: number): number {
+        if (mode === 'all') return targets;
+        if (mode === 'quorum') return Math.floor(targets / 2) + 1;
+        return Math.min(mode, targets);
+    }
+
+    /**
+     * Gets the number of successful responses needed to complete this request.
+     */
+    get required(): number {
+        return Gather.getRequired(this.originalHeader.gather ?? 'all', this.targets.length);
+    }
+
+    /**
+     * Gets the number of subscribers that have not responded yet.
+     */
+    get pending(): number {
+        return this.targets.length - this.results.length;
+    }
+
+    /**
+     * Checks if enough subscribers responded successfully.
+     */
+    get isComplete(): boolean {
+        return this.successes >= this.required;
+    }
+
+    /**
+     * Checks if the request is settled, i.e. it is complete or all subscribers responded.
+     */
+    get isSettled(): boolean {
+        return this.isComplete || this.pending === 0;
+    }
+
+    /**
+     * Records the successful response of a subscriber.
+     *
+     * @param serviceId The ID of the subscriber.
+     * @param result The payload of the response.
+     */
+    addResult(serviceId: string, result: unknown): void {
+        this.results.push({ serviceId, result });
+        this.successes++;
+    }
+
+    /**
+     * Records the failed response of a subscriber.
+     *
+     * @param serviceId The ID of the subscriber.
+     * @param error The error of the response.
+     */
+    addError(serviceId: string, error: MessageError): void {
+        this.results.push({ serviceId, error: error.toJSON() });
+    }
+
+    /**
+     * Gets the aggregated payload sent to the requester. Subscribers that had not responded when the request
+     * was settled are not listed.
+     *
+     * @returns The aggregated payload.
+     */
+    toPayload(): { complete: boolean; required: number; results: GatherResult[] } {
+        return { complete: this.isComplete, required: this.required, results: this.results };
+    }
+}
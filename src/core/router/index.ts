@@ -1,37 +1,74 @@
 import { randomUUID } from 'crypto';
 import { config } from '@config';
+import { AuthManager } from '@core/auth';
 import { ConnectionManager } from '@core/connection';
-import { InvalidRequestIdError, MalformedMessageError, NoRouteFoundError, ServiceUnavailableError, TimeoutError } from '@core/errors';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
+import { InvalidRequestError, InvalidRequestIdError, MalformedMessageError, MessageError, NoRouteFoundError, RateLimitedError, ServiceUnavailableError, TimeoutError, UnsupportedVersionError } from '@core/errors';
 import { MonitoringManager } from '@core/monitoring/manager';
 import { ServiceRegistry } from '@core/registry';
 import { SubscriptionManager } from '@core/subscription';
 import { ActionType } from '@core/types';
 import { Message, ClientHeader, MessageUtils, BrokerHeader } from '@core/utils';
 import { SetupLogger } from '@utils/logger';
+import { LoadBalancer } from './balancing';
+import { Gather } from './gather';
 import { RouterMetrics } from './metrics';
+import { RateLimiter } from './ratelimit';
 
 const logger = SetupLogger('MessageRouter');
 
+/**
+ * The error codes of responses that are retried on another subscriber (if the request has retries left).
+ */
+const RETRYABLE_ERROR_CODES = new Set(['SERVICE_UNAVAILABLE', 'TIMEOUT']);
+
 export interface Request {
     originServiceId: string;
     targetServiceId: string;
     targetRequestId: string;
     originalHeader: ClientHeader;
+    /** The raw payload of the request, kept to re-route or dead-letter it */
+    payload: Buffer;
+    /** The number of times the request can still be re-routed */
+    retries: number;
+    /** The time (in ms since epoch) at which the request times out */
+    expiresAt: number;
+    /** The IDs of the services that already failed to handle the request */
+    attempted: string[];
+    /** The gather request this request is part of (if any) */
+    gather?: Gather;
+    /** The number of partial responses forwarded so far */
+    chunks: number;
     timeout?: NodeJS.Timeout;
     createdAt: Date;
 }
 
 export class MessageRouter {
     private requests: Map<string, Request>;
+    private requestsByTarget: Map<string, Set<string>>;
+    private requestsByOrigin: Map<string, Set<Request>>;
     private subscriptionManager: SubscriptionManager;
+    private durableManager: DurableManager;
+    private deliveryManager: DeliveryManager;
+    private authManager: AuthManager;
     private connectionManager!: ConnectionManager;
     private serviceRegistry!: ServiceRegistry;
     private metrics: RouterMetrics;
+    private rateLimiter: RateLimiter;
+    private loadBalancer: LoadBalancer;
 
-    constructor(subscriptionManager: SubscriptionManager, monitoringManager: MonitoringManager) {
+    constructor(subscriptionManager: SubscriptionManager, durableManager: DurableManager, deliveryManager: DeliveryManager, monitoringManager: MonitoringManager, authManager: AuthManager) {
         this.requests = new Map();
+        this.requestsByTarget = new Map();
+        this.requestsByOrigin = new Map();
         this.subscriptionManager = subscriptionManager;
+        this.durableManager = durableManager;
+        this.deliveryManager = deliveryManager;
+        this.authManager = authManager;
         this.metrics = new RouterMetrics(monitoringManager);
+        this.rateLimiter = new RateLimiter();
+        this.loadBalancer = new LoadBalancer(subscriptionManager);
     }
 
     /**
@@ -71,6 +108,11 @@ export class MessageRouter {
         this.metrics.messageSizeMax.slot.add(parser.length);
 
         try {
+            // Enforce the rate limits (system messages, responses and cancellations are exempt)
+            if (action !== ActionType.RESPONSE && action !== ActionType.CANCEL && !topic.startsWith('system.')) {
+                this.enforceRateLimit(serviceId, topic);
+            }
+
             switch (action) {
                 case ActionType.PUBLISH:
                     this.metrics.publishCount.slot.add(1);
@@ -105,6 +147,9 @@ export class MessageRouter {
                         throw error;
                     }
                     break;
+                case ActionType.CANCEL:
+                    this.handleCancel(serviceId, parser);
+                    break;
                 default:
                     // This should never happen
                     const exhaustiveCheck: never = action;
@@ -122,6 +167,26 @@ export class MessageRouter {
         }
     }
 
+    /**
+     * Enforces the configured rate limits for a message.
+     *
+     * @param serviceId The ID of the service that sent the message.
+     * @param topic The topic of the message.
+     * @throws {RateLimitedError} If the message exceeds any of the rate limits.
+     */
+    private enforceRateLimit(serviceId: string, topic: string): void {
+        try {
+            this.rateLimiter.consume(serviceId, topic);
+        } catch (error) {
+            if (error instanceof RateLimitedError) {
+                logger.warn(`Rate limited message to topic: ${topic} from service: ${serviceId}`, { serviceId, topic, details: error.details });
+                this.metrics.messageCountRateLimited.slot.add(1);
+                this.metrics.messageRateRateLimited.slot.add(1);
+            }
+            throw error;
+        }
+    }
+
     /**
      * Handles a publish message.
      *
@@ -130,7 +195,7 @@ export class MessageRouter {
      * @returns True if the message was successfully published, false otherwise.
      */
     private handlePublish(serviceId: string, parser: MessageUtils.Parser): boolean {
-        const { topic } = parser.header;
+        const { topic, version } = parser.header;
 
         // Handle system messages
         if (topic.startsWith('system.')) {
@@ -138,14 +203,40 @@ export class MessageRouter {
             return true;
         }
 
-        // Check if the topic has any subscribers
-        const subscribers = this.subscriptionManager.getPublishSubscribers(topic);
-        if (subscribers.length === 0) {
-            logger.debug(`No subscribers for topic: ${topic}`);
+        // Check the topic ACL policy
+        this.authManager.assertAllowed(serviceId, 'publish', topic);
+
+        // Keep the last value of the topic for new subscribers (an empty retained publish only clears it)
+        if (parser.header.retain) {
+            this.subscriptionManager.setRetained(parser.header, parser.rawPayload);
+            if (parser.rawPayload.length === 0) {
+                this.sendPublishResponse(serviceId, parser);
+                return true;
+            }
+        }
+
+        // Get the subscribers the message is sent to: all ungrouped subscribers accepting the version of the message,
+        // and one member of each subscription group
+        const recipients = this.subscriptionManager.getPublishRecipients(topic, version, (group, members) => this.loadBalancer.select(members, {
+            topic,
+            routingKey: parser.header.routingKey,
+            group,
+            outstanding: (serviceId) => this.deliveryManager.getInFlight(serviceId) + (this.requestsByTarget.get(serviceId)?.size ?? 0),
+        }, this.subscriptionManager.getGroupStrategy(group)));
+
+        // Check if the topic has any subscribers (or durable consumers) accepting the version of the message
+        // (retained publishes are kept for later subscribers, so they are never dropped)
+        const consumers = this.durableManager.getConsumers(topic, version);
+        if (recipients.length === 0 && consumers.length === 0 && !parser.header.retain) {
+            logger.debug(`No subscribers for topic: ${topic} with version: ${version}`);
             // Send an error response to the requester
             const responseHeader = MessageUtils.toBrokerHeader(parser.header, ActionType.RESPONSE, parser.header.requestId);
-            const responsePayload = { error: new NoRouteFoundError(`No subscribers for topic ${topic}`).toJSON() };
+            const error = this.subscriptionManager.getPublishSubscribers(topic).length > 0 || this.durableManager.getConsumers(topic).length > 0
+                ? new UnsupportedVersionError(`No subscribers for topic ${topic} accept version ${version}`, { topic, version })
+                : new NoRouteFoundError(`No subscribers for topic ${topic}`);
+            const responsePayload = { error: error.toJSON() };
             this.connectionManager.sendMessage(serviceId, responseHeader, responsePayload, undefined);
+            this.connectionManager.deadLetter(parser.header, parser.rawPayload, error);
             this.metrics.publishCountDropped.slot.add(1);
             this.metrics.publishRateDropped.slot.add(1);
             return false;
@@ -154,13 +245,39 @@ export class MessageRouter {
         // Remove the requestId from the header before forwarding
         const newRequestId = this.generateRequestId();
         const forwardedHeader = MessageUtils.toBrokerHeader(parser.header, undefined, newRequestId);
-        // Forward the message to all subscribers
+        // Forward the message to the subscribers (at-least-once subscribers get it until they acknowledge it)
         logger.info(`Publishing message to topic: ${topic} for service: ${serviceId}`);
-        for (const subscriber of subscribers) {
-            this.connectionManager.sendMessage(subscriber, forwardedHeader, parser.rawPayload, parser.header.requestId);
+        const qosSubscribers = new Set(this.subscriptionManager.getQosPublishSubscribers(topic, version));
+        const qosRecipients: string[] = [];
+        const plainRecipients: string[] = [];
+        for (const recipient of recipients) {
+            if (qosSubscribers.has(recipient)) {
+                qosRecipients.push(recipient);
+            } else {
+                plainRecipients.push(recipient);
+            }
         }
+        // The message is encoded once for all the other subscribers
+        this.connectionManager.fanOutMessage(plainRecipients, forwardedHeader, parser.rawPayload, parser.header.requestId);
+        if (qosRecipients.length > 0) {
+            this.deliveryManager.deliver(qosRecipients, forwardedHeader, parser.rawPayload);
+        }
+        // Append the message to the logs of the durable consumers (delivering it to those attached)
+        if (consumers.length > 0) {
+            this.durableManager.publish(consumers, parser);
+        }
+
+        this.sendPublishResponse(serviceId, parser);
+        return true;
+    }
 
-        // If the message had a requestId, send a response to the original sender
+    /**
+     * Sends a success response for a publish message to its sender, if the message had a requestId.
+     *
+     * @param serviceId The ID of the service that sent the message.
+     * @param parser The published message.
+     */
+    private sendPublishResponse(serviceId: string, parser: MessageUtils.Parser): void {
         // NOTE: This is commented out for now due to tracer code issues.
         if (parser.header.requestId) {
             const responseHeader = MessageUtils.toBrokerHeader(parser.header, ActionType.RESPONSE, parser.header.requestId);
@@ -168,8 +285,6 @@ export class MessageRouter {
             this.connectionManager.sendMessage(serviceId, responseHeader, payload, undefined);
             logger.info(`Sent publish response to service: ${serviceId} for request: ${parser.header.requestId}`);
         }
-
-        return true;
     }
 
     /**
@@ -180,7 +295,7 @@ export class MessageRouter {
      * @returns True if the request was successfully handled, false otherwise.
      */
     private handleRequest(serviceId: string, parser: MessageUtils.Parser): boolean {
-        const { topic } = parser.header;
+        const { topic, version } = parser.header;
 
         // Handle system messages
         if (topic.startsWith('system.')) {
@@ -188,18 +303,33 @@ export class MessageRouter {
             return true;
         }
 
-        // Check if the topic has any subscribers
-        const subscribers = this.subscriptionManager.getTopRequestSubscribers(topic);
+        // Check the topic ACL policy
+        this.authManager.assertAllowed(serviceId, 'request', topic);
+
+        // Send gather requests to all subscribers
+        if (parser.header.gather !== undefined) {
+            return this.handleGather(serviceId, parser);
+        }
+
+        // Check if the topic has any subscribers accepting the version of the request
+        const subscribers = this.subscriptionManager.getTopRequestSubscribers(topic, version);
         if (!subscribers || subscribers.length === 0) {
-            throw new NoRouteFoundError(`No subscribers for topic ${topic}`);
+            this.throwNoRequestSubscribers(topic, version);
         }
 
         // Pick a subscriber based on priority. If there are multiple subscribers with the same
-        // highest priority, randomly select one.
-        const targetServiceId = subscribers[Math.floor(Math.random() * subscribers.length)];
-
-        // Create the request object
-        const request = this.generateRequest(serviceId, targetServiceId, parser.header);
+        // highest priority, select one using the load balancing strategy of the topic.
+        const targetServiceId = this.loadBalancer.select(subscribers, {
+            topic,
+            routingKey: parser.header.routingKey,
+            outstanding: (serviceId) => this.requestsByTarget.get(serviceId)?.size ?? 0,
+        });
+
+        // Create the request object (keeping a copy of the payload to re-route or dead-letter the request)
+        const request = this.generateRequest(serviceId, targetServiceId, parser.header, {
+            payload: Buffer.from(parser.rawPayload),
+            retries: parser.header.retries ?? 0,
+        });
 
         // Add the targetRequestId to the message header before forwarding
         const forwardedHeader = MessageUtils.toBrokerHeader(parser.header, undefined, request.targetRequestId);
@@ -209,6 +339,111 @@ export class MessageRouter {
         return true;
     }
 
+    /**
+     * Handles a gather request by sending it to all subscribers of the topic. The responses are aggregated and sent
+     * to the requester once enough subscribers responded successfully (see `Gather`), or at the deadline.
+     *
+     * @param serviceId The ID of the service making the request.
+     * @param parser The request message.
+     * @returns True if the request was successfully handled, false otherwise.
+     */
+    private handleGather(serviceId: string, parser: MessageUtils.Parser): boolean {
+        const { topic, version, requestId } = parser.header;
+
+        // Check if the topic has any subscribers accepting the version of the request
+        // (a service subscribed through several patterns only gets one request)
+        const subscribers = Array.from(new Set(this.subscriptionManager.getRequestSubscribers(topic, version)));
+        if (subscribers.length === 0) {
+            this.throwNoRequestSubscribers(topic, version);
+        }
+
+        const gather = new Gather(serviceId, parser.header, subscribers);
+        gather.timeout = setTimeout(() => {
+            logger.warn(`Gather request ${serviceId}:${requestId} timed out with ${gather.pending} pending responses`, { serviceId, topic });
+            this.metrics.requestCountTimeout.slot.add(1);
+            this.metrics.requestRateTimeout.slot.add(1);
+            for (const [targetServiceId, targetRequestId] of gather.requests) {
+                this.removeRequest(targetServiceId, targetRequestId);
+                gather.addError(targetServiceId, new TimeoutError('Request timed out', { targetServiceId }));
+            }
+            gather.requests.clear();
+            this.settleGather(gather);
+        }, parser.header.timeout ?? config.request.response.timeout.default);
+
+        // Forward the request to all subscribers, each with its own targetRequestId (sharing a copy of the payload
+        // to dead-letter the requests)
+        logger.info(`Gathering request for topic: ${topic} from service: ${serviceId} from ${subscribers.length} subscribers`);
+        const payload = Buffer.from(parser.rawPayload);
+        for (const targetServiceId of subscribers) {
+            const request = this.generateRequest(serviceId, targetServiceId, parser.header, { payload, gather });
+            gather.requests.set(targetServiceId, request.targetRequestId);
+            const forwardedHeader = MessageUtils.toBrokerHeader(parser.header, undefined, request.targetRequestId);
+            this.connectionManager.sendMessage(targetServiceId, forwardedHeader, parser.rawPayload, requestId);
+        }
+        this.metrics.requestCountGather.slot.add(1);
+        this.metrics.requestRateGather.slot.add(1);
+
+        return true;
+    }
+
+    /**
+     * Throws the error for a request without subscribers accepting its version.
+     *
+     * @param topic The topic of the request.
+     * @param version The version of the request.
+     * @throws {UnsupportedVersionError} If the topic has subscribers, but none accepting the version.
+     * @throws {NoRouteFoundError} If the topic has no subscribers.
+     */
+    private throwNoRequestSubscribers(topic: string, version: string): never {
+        if (this.subscriptionManager.getRequestSubscribers(topic).length > 0) {
+            throw new UnsupportedVersionError(`No subscribers for topic ${topic} accept version ${version}`, { topic, version });
+        }
+        throw new NoRouteFoundError(`No subscribers for topic ${topic}`);
+    }
+
+    /**
+     * Records the response of a subscriber to a gather request, and settles the gather request if its outcome is known.
+     *
+     * @param request The request of the subscriber (already removed from the requests map).
+     * @param response The result or error of the subscriber.
+     */
+    private addGatherResponse(request: Request, response: { result: unknown } | { error: MessageError }): void {
+        const gather = request.gather!;
+        gather.requests.delete(request.targetServiceId);
+        if ('error' in response) {
+            gather.addError(request.targetServiceId, response.error);
+        } else {
+            gather.addResult(request.targetServiceId, response.result);
+        }
+
+        if (gather.isSettled) {
+            this.settleGather(gather);
+        }
+    }
+
+    /**
+     * Settles a gather request: drops the requests of the subscribers that have not responded yet, and sends
+     * the aggregated responses to the requester.
+     *
+     * @param gather The gather request.
+     */
+    private settleGather(gather: Gather): void {
+        clearTimeout(gather.timeout);
+        for (const [targetServiceId, targetRequestId] of gather.requests) {
+            this.removeRequest(targetServiceId, targetRequestId);
+        }
+        gather.requests.clear();
+
+        if (!gather.isComplete) {
+            this.metrics.requestCountGatherIncomplete.slot.add(1);
+            this.metrics.requestRateGatherIncomplete.slot.add(1);
+        }
+
+        const responseHeader = MessageUtils.toBrokerHeader(gather.originalHeader, ActionType.RESPONSE, gather.originalHeader.requestId);
+        this.connectionManager.sendMessage(gather.originServiceId, responseHeader, gather.toPayload(), undefined);
+        logger.debug(`Sent gather response to service: ${gather.originServiceId} for request: ${gather.originalHeader.requestId}`);
+    }
+
     /**
      * Handles a response message.
      *
@@ -236,9 +471,41 @@ export class MessageRouter {
             throw new InvalidRequestIdError(`No matching request found for requestId: ${targetRequestId}`);
         }
 
+        // Forward partial responses without closing the request (error responses always close it)
+        if (parser.header.partial && !parser.hasError) {
+            return this.handlePartialResponse(request, parser);
+        }
+
         // Remove the request from the map (which also clears the timeout associated with the request)
         this.removeRequest(request.targetServiceId, request.targetRequestId);
 
+        // Track the number of chunks of streamed responses (the partial responses and the final one)
+        if (request.chunks > 0) {
+            this.metrics.responseChunksAvg.slot.add(request.chunks + 1);
+            this.metrics.responseChunksMax.slot.add(request.chunks + 1);
+        }
+
+        // Add the response to the gather request it is part of
+        if (request.gather) {
+            let response: { result: unknown } | { error: MessageError };
+            try {
+                response = { result: parser.parsePayload() };
+            } catch (error) {
+                if (!(error instanceof MessageError)) throw error;
+                response = { error };
+            }
+            this.addGatherResponse(request, response);
+            return true;
+        }
+
+        // Fail over to the next subscriber if the error is retryable and the request has retries left
+        if (parser.hasError && request.retries > 0 && this.isRetryable(parser) && this.retryRequest(request)) {
+            logger.warn(`Retryable error received from service: ${request.targetServiceId} for request: ${request.targetRequestId}`, { serviceId: request.targetServiceId });
+            this.metrics.requestCountRetry.slot.add(1);
+            this.metrics.requestRateRetry.slot.add(1);
+            return true;
+        }
+
         // Send the response to the original requester
         if (request.originalHeader.requestId || parser.hasError) {
             const responseHeader = MessageUtils.toBrokerHeader(request.originalHeader, ActionType.RESPONSE, request.originalHeader.requestId);
@@ -259,15 +526,202 @@ export class MessageRouter {
     }
 
     /**
-     * Adds a request to the requests map.
+     * Handles the cancellation of a request by its requester: drops the outstanding request matching the requestId
+     * of the requester, and forwards the cancellation to the service handling it (using the requestId known to that
+     * service) so it can stop working on it. No response is sent for the cancelled request. Cancelling a gather request
+     * cancels the requests of all subscribers that have not responded yet.
+     * Requests that already completed (or are unknown) are ignored, as a response may cross the cancellation.
      *
-     * @param targetServiceId The ID of the service that made the request.
-     * @param targetRequestId The ID of the request.
-     * @param request The request object.
-     * @param originalServiceId The ID of the service that made the request.
-     * @param originalRequestId The ID of the original request.
+     * @param serviceId The ID of the service that made the request.
+     * @param parser The cancel message.
+     * @returns True if a request was cancelled, false otherwise.
+     */
+    private handleCancel(serviceId: string, parser: MessageUtils.Parser): boolean {
+        const { requestId } = parser.header;
+
+        // Find the outstanding requests made by the service with the requestId
+        const requests = Array.from(this.requestsByOrigin.get(`${serviceId}:${requestId}`) ?? []);
+        if (requests.length === 0) {
+            logger.debug(`No outstanding request to cancel for requestId: ${requestId} from service: ${serviceId}`);
+            return false;
+        }
+
+        for (const request of requests) {
+            this.removeRequest(request.targetServiceId, request.targetRequestId);
+            if (request.gather) {
+                clearTimeout(request.gather.timeout);
+                request.gather.requests.delete(request.targetServiceId);
+            }
+
+            // Notify the service handling the request
+            const cancelHeader = MessageUtils.toBrokerHeader(request.originalHeader, ActionType.CANCEL, request.targetRequestId);
+            this.connectionManager.sendMessage(request.targetServiceId, cancelHeader, undefined, requestId);
+        }
+        logger.info(`Cancelled request ${serviceId}:${requestId} for topic: ${requests[0].originalHeader.topic}`);
+        this.metrics.requestCountCancelled.slot.add(1);
+        this.metrics.requestRateCancelled.slot.add(1);
+
+        return true;
+    }
+
+    /**
+     * Handles a partial response: forwards it to the original requester and keeps the request open until the final
+     * response. Each partial response resets the inactivity timeout of the request, and a streamed request is no longer
+     * retried on another subscriber.
+     *
+     * @param request The request the response belongs to.
+     * @param parser The partial response message.
+     * @returns True if the partial response was successfully handled.
+     * @throws {InvalidRequestError} If the request is part of a gather request.
+     */
+    private handlePartialResponse(request: Request, parser: MessageUtils.Parser): boolean {
+        if (request.gather) {
+            throw new InvalidRequestError('Partial responses are not allowed for gather requests', { requestId: request.targetRequestId });
+        }
+
+        request.chunks++;
+        request.retries = 0;
+        this.metrics.responseCountPartial.slot.add(1);
+        this.metrics.responseRatePartial.slot.add(1);
+
+        // Only requests with a requestId are timed out and get responses
+        if (request.originalHeader.requestId) {
+            clearTimeout(request.timeout);
+            request.expiresAt = Date.now() + (request.originalHeader.timeout ?? config.request.response.timeout.default);
+            request.timeout = setTimeout(() => this.handleRequestTimeout(request), request.expiresAt - Date.now());
+
+            const responseHeader = { ...MessageUtils.toBrokerHeader(request.originalHeader, ActionType.RESPONSE, request.originalHeader.requestId), partial: true };
+            this.connectionManager.sendMessage(request.originServiceId, responseHeader, parser.rawPayload, undefined);
+            logger.debug(`Sent partial response ${request.chunks} to service: ${request.originServiceId} for request: ${request.originalHeader.requestId}`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Checks if an error response can be retried on another subscriber.
+     *
+     * @param parser The error response.
+     * @returns True if the error code is retryable, false otherwise.
      */
-    private generateRequest(originServiceId: string, targetServiceId: string, originalHeader: ClientHeader): Request {
+    private isRetryable(parser: MessageUtils.Parser): boolean {
+        try {
+            parser.parsePayload();
+        } catch (error) {
+            return error instanceof MessageError && RETRYABLE_ERROR_CODES.has(error.code);
+        }
+        return false;
+    }
+
+    /**
+     * Handles the disconnection of a service by settling all outstanding requests it was handling, instead of
+     * letting them time out. Requests with a remaining retry budget are re-routed to the next subscriber
+     * (see `retryRequest`), all others are answered with a ServiceUnavailableError.
+     * Must be called after the service has been unsubscribed from all topics.
+     *
+     * @param serviceId The ID of the disconnected service.
+     */
+    handleServiceDisconnect(serviceId: string): void {
+        const targetRequestIds = this.requestsByTarget.get(serviceId);
+        if (!targetRequestIds) return;
+
+        logger.info(`Settling ${targetRequestIds.size} outstanding requests for disconnected service: ${serviceId}`);
+        for (const targetRequestId of Array.from(targetRequestIds)) {
+            const request = this.getRequest(serviceId, targetRequestId);
+            if (!request) continue;
+            this.removeRequest(serviceId, targetRequestId);
+
+            // Re-route the request if the requester opted in, otherwise fail it
+            if (request.retries > 0 && this.retryRequest(request)) {
+                this.metrics.requestCountRerouted.slot.add(1);
+                this.metrics.requestRateRerouted.slot.add(1);
+                continue;
+            }
+
+            this.metrics.requestCountUnavailable.slot.add(1);
+            this.metrics.requestRateUnavailable.slot.add(1);
+            const error = new ServiceUnavailableError('Target service disconnected', { targetServiceId: serviceId });
+            if (request.gather) {
+                this.addGatherResponse(request, { error });
+            } else if (request.originalHeader.requestId) {
+                const responseHeader = MessageUtils.toBrokerHeader(request.originalHeader, ActionType.RESPONSE, request.originalHeader.requestId);
+                this.connectionManager.sendMessage(request.originServiceId, responseHeader, { error: error.toJSON() }, undefined);
+            }
+        }
+    }
+
+    /**
+     * Sends a failed request to the next subscriber that has not been attempted yet, within the original
+     * deadline of the request: first the other subscribers of the same priority, then the lower priorities.
+     * Each retry uses one retry of the budget of the request.
+     *
+     * @param request The failed request (already removed from the requests map).
+     * @returns True if the request was retried, false if there is no retry, subscriber or time left.
+     */
+    private retryRequest(request: Request): boolean {
+        const { topic, version } = request.originalHeader;
+        if (request.retries <= 0 || request.expiresAt <= Date.now()) return false;
+
+        const attempted = [...request.attempted, request.targetServiceId];
+        const subscribers = this.subscriptionManager.getRequestSubscriberTiers(topic, version)
+            .map(tier => tier.filter(subscriber => !attempted.includes(subscriber)))
+            .find(tier => tier.length > 0);
+        if (!subscribers) return false;
+
+        const targetServiceId = this.loadBalancer.select(subscribers, {
+            topic,
+            routingKey: request.originalHeader.routingKey,
+            outstanding: (serviceId) => this.requestsByTarget.get(serviceId)?.size ?? 0,
+        });
+        const retried = this.generateRequest(request.originServiceId, targetServiceId, request.originalHeader, {
+            payload: request.payload,
+            retries: request.retries - 1,
+            expiresAt: request.expiresAt,
+            attempted,
+        });
+
+        const forwardedHeader = MessageUtils.toBrokerHeader(request.originalHeader, undefined, retried.targetRequestId);
+        logger.info(`Retrying request for topic: ${topic} from service: ${request.targetServiceId} on: ${targetServiceId} with new request ID: ${retried.targetRequestId}`);
+        this.connectionManager.sendMessage(targetServiceId, forwardedHeader, request.payload, request.originalHeader.requestId);
+
+        return true;
+    }
+
+    /**
+     * Gets the time an attempt of a request has to respond. The time left until the deadline of the request is
+     * split evenly between the attempts it can still make, so a failing subscriber leaves time for the next ones.
+     *
+     * @param request The request.
+     * @returns The timeout of the attempt in ms.
+     */
+    private getAttemptTimeout(request: Request): number {
+        const remaining = Math.max(0, request.expiresAt - Date.now());
+        if (request.retries <= 0) return remaining;
+
+        // Only count the retries that can be made on the current subscribers
+        const alternatives = this.subscriptionManager.getRequestSubscriberTiers(request.originalHeader.topic, request.originalHeader.version)
+            .flat()
+            .filter(subscriber => subscriber !== request.targetServiceId && !request.attempted.includes(subscriber))
+            .length;
+        return Math.floor(remaining / (1 + Math.min(request.retries, alternatives)));
+    }
+
+    /**
+     * Creates a request and adds it to the requests map.
+     *
+     * @param originServiceId The ID of the service that made the request.
+     * @param targetServiceId The ID of the service handling the request.
+     * @param originalHeader The header of the original request.
+     * @param options The payload and retry budget of the request, its deadline and attempted services if it is being retried,
+     * and the gather request it is part of (which handles the deadline instead).
+     * @returns The request object.
+     */
+    private generateRequest(
+        originServiceId: string,
+        targetServiceId: string,
+        originalHeader: ClientHeader,
+        options: Partial<Pick<Request, 'payload' | 'retries' | 'expiresAt' | 'attempted' | 'gather'>> = {},
+    ): Request {
         const targetRequestId = this.generateRequestId();
         // Create the request object
         const request: Request = {
@@ -275,27 +729,17 @@ export class MessageRouter {
             targetServiceId,
             targetRequestId,
             originalHeader,
-            timeout: originalHeader.requestId ? setTimeout(() => {
-                // NOTE: If this runs, the request is still in the map
-                this.requests.delete(`${targetServiceId}:${targetRequestId}`);
-                logger.warn(`Request ${originServiceId}:${originalHeader.requestId} to ${targetServiceId}:${targetRequestId} timed out`, {
-                    originServiceId,
-                    originalHeader,
-                    targetServiceId,
-                    targetRequestId,
-                });
-
-                // Track timeout metrics
-                this.metrics.requestCountTimeout.slot.add(1);
-                this.metrics.requestRateTimeout.slot.add(1);
-
-                // Send a timeout error back to the original requester
-                const responsePayload = { error: new TimeoutError('Request timed out', { targetServiceId }).toJSON() };
-                const responseHeader = MessageUtils.toBrokerHeader(originalHeader, ActionType.RESPONSE, originalHeader.requestId);
-                this.connectionManager.sendMessage(originServiceId, responseHeader, responsePayload, undefined);
-            }, originalHeader.timeout ?? config.request.response.timeout.default) : undefined,
+            payload: options.payload ?? Buffer.alloc(0),
+            retries: options.retries ?? 0,
+            expiresAt: options.expiresAt ?? Date.now() + (originalHeader.timeout ?? config.request.response.timeout.default),
+            attempted: options.attempted ?? [],
+            gather: options.gather,
+            chunks: 0,
             createdAt: new Date(),
         };
+        if (originalHeader.requestId && !request.gather) {
+            request.timeout = setTimeout(() => this.handleRequestTimeout(request), this.getAttemptTimeout(request));
+        }
 
         // Check if the number of outstanding requests has reached the limit
         if (this.requests.size >= config.max.outstanding.requests) {
@@ -307,12 +751,22 @@ export class MessageRouter {
                 }
             }
 
-            // Remove the oldest request and send an error response
-            if (oldestRequest) {
+            // Remove the oldest request, send an error response and dead-letter it
+            if (oldestRequest?.gather) {
+                this.removeRequest(oldestRequest.targetServiceId, oldestRequest.targetRequestId);
+                const error = new ServiceUnavailableError('Message broker is busy');
+                this.addGatherResponse(oldestRequest, { error });
+                this.connectionManager.deadLetter(oldestRequest.originalHeader, oldestRequest.payload, error);
+                logger.warn(`Removed oldest request ${oldestRequest.originalHeader.requestId} from ${oldestRequest.originServiceId} due to exceeding max outstanding requests`);
+                this.metrics.requestCountDropped.slot.add(1);
+                this.metrics.requestRateDropped.slot.add(1);
+            } else if (oldestRequest) {
                 this.removeRequest(oldestRequest.targetServiceId, oldestRequest.targetRequestId);
+                const error = new ServiceUnavailableError('Message broker is busy');
                 const responseHeader = MessageUtils.toBrokerHeader(oldestRequest.originalHeader, ActionType.RESPONSE, oldestRequest.originServiceId);
-                const responsePayload = { error: new ServiceUnavailableError('Message broker is busy').toJSON() };
+                const responsePayload = { error: error.toJSON() };
                 this.connectionManager.sendMessage(oldestRequest.originServiceId, responseHeader, responsePayload, undefined);
+                this.connectionManager.deadLetter(oldestRequest.originalHeader, oldestRequest.payload, error);
                 logger.warn(`Removed oldest request ${oldestRequest.originalHeader.requestId} from ${oldestRequest.originServiceId} due to exceeding max outstanding requests`);
                 this.metrics.requestCountDropped.slot.add(1);
                 this.metrics.requestRateDropped.slot.add(1);
@@ -321,10 +775,62 @@ export class MessageRouter {
 
         // Add the request to the requests map
         this.requests.set(`${targetServiceId}:${targetRequestId}`, request);
+        let targetRequestIds = this.requestsByTarget.get(targetServiceId);
+        if (!targetRequestIds) {
+            targetRequestIds = new Set();
+            this.requestsByTarget.set(targetServiceId, targetRequestIds);
+        }
+        targetRequestIds.add(targetRequestId);
+        if (originalHeader.requestId) {
+            const originKey = `${originServiceId}:${originalHeader.requestId}`;
+            let originRequests = this.requestsByOrigin.get(originKey);
+            if (!originRequests) {
+                originRequests = new Set();
+                this.requestsByOrigin.set(originKey, originRequests);
+            }
+            originRequests.add(request);
+        }
 
         return request;
     }
 
+    /**
+     * Handles the timeout of a request: retries it on the next subscriber if it has retries left,
+     * otherwise sends a timeout error to the original requester.
+     *
+     * @param request The request that timed out.
+     */
+    private handleRequestTimeout(request: Request): void {
+        const { originServiceId, originalHeader, targetServiceId, targetRequestId } = request;
+
+        // NOTE: If this runs, the request is still in the map
+        this.requests.delete(`${targetServiceId}:${targetRequestId}`);
+        this.untrackRequest(request);
+        logger.warn(`Request ${originServiceId}:${originalHeader.requestId} to ${targetServiceId}:${targetRequestId} timed out`, {
+            originServiceId,
+            originalHeader,
+            targetServiceId,
+            targetRequestId,
+        });
+
+        // Track timeout metrics
+        this.metrics.requestCountTimeout.slot.add(1);
+        this.metrics.requestRateTimeout.slot.add(1);
+
+        // Fail over to the next subscriber if the request has retries left
+        if (this.retryRequest(request)) {
+            this.metrics.requestCountRetry.slot.add(1);
+            this.metrics.requestRateRetry.slot.add(1);
+            return;
+        }
+
+        // Send a timeout error back to the original requester and dead-letter the request
+        const error = new TimeoutError('Request timed out', { targetServiceId });
+        const responseHeader = MessageUtils.toBrokerHeader(originalHeader, ActionType.RESPONSE, originalHeader.requestId);
+        this.connectionManager.sendMessage(originServiceId, responseHeader, { error: error.toJSON() }, undefined);
+        this.connectionManager.deadLetter(originalHeader, request.payload, error);
+    }
+
     /**
      * Gets a request from the requests map.
      *
@@ -345,8 +851,32 @@ export class MessageRouter {
      */
     private removeRequest(targetServiceId: string, targetRequestId: string): boolean {
         const request = this.getRequest(targetServiceId, targetRequestId);
-        clearTimeout(request?.timeout);
-        return this.requests.delete(`${targetServiceId}:${targetRequestId}`);
+        if (!request) return false;
+        clearTimeout(request.timeout);
+        this.requests.delete(`${targetServiceId}:${targetRequestId}`);
+        this.untrackRequest(request);
+        return true;
+    }
+
+    /**
+     * Removes a request from the indexes of outstanding requests per target service and per original request.
+     *
+     * @param request The request to remove.
+     */
+    private untrackRequest(request: Request): void {
+        const { targetServiceId, targetRequestId, originServiceId, originalHeader } = request;
+        const targetRequestIds = this.requestsByTarget.get(targetServiceId);
+        targetRequestIds?.delete(targetRequestId);
+        if (targetRequestIds?.size === 0) {
+            this.requestsByTarget.delete(targetServiceId);
+        }
+
+        const originKey = `${originServiceId}:${originalHeader.requestId}`;
+        const originRequests = this.requestsByOrigin.get(originKey);
+        originRequests?.delete(request);
+        if (originRequests?.size === 0) {
+            this.requestsByOrigin.delete(originKey);
+        }
     }
 
     /**
@@ -367,8 +897,16 @@ export class MessageRouter {
             if (request.timeout) {
                 clearTimeout(request.timeout);
             }
+            if (request.gather) {
+                clearTimeout(request.gather.timeout);
+            }
         }
         this.requests.clear();
+        this.requestsByTarget.clear();
+        this.requestsByOrigin.clear();
+
+        // Stop rate limiting
+        this.rateLimiter.dispose();
 
         // Dispose metrics
         this.metrics.dispose();
@@ -11,6 +11,8 @@ export class RouterMetrics {
     public readonly messageRate: Metric<RateSlot>;
     public readonly messageCountError: Metric<GaugeSlot>;
     public readonly messageRateError: Metric<RateSlot>;
+    public readonly messageCountRateLimited: Metric<GaugeSlot>;
+    public readonly messageRateRateLimited: Metric<RateSlot>;
     public readonly messageSizeAvg: Metric<AverageSlot>;
     public readonly messageSizeMax: Metric<MaximumSlot>;
 
@@ -27,16 +29,32 @@ export class RouterMetrics {
     public readonly requestCountDropped: Metric<GaugeSlot>;
     public readonly requestCountError: Metric<GaugeSlot>;
     public readonly requestCountTimeout: Metric<GaugeSlot>;
+    public readonly requestCountUnavailable: Metric<GaugeSlot>;
+    public readonly requestCountRerouted: Metric<GaugeSlot>;
+    public readonly requestCountRetry: Metric<GaugeSlot>;
+    public readonly requestCountGather: Metric<GaugeSlot>;
+    public readonly requestCountGatherIncomplete: Metric<GaugeSlot>;
+    public readonly requestCountCancelled: Metric<GaugeSlot>;
     public readonly requestRate: Metric<RateSlot>;
     public readonly requestRateDropped: Metric<RateSlot>;
     public readonly requestRateError: Metric<RateSlot>;
     public readonly requestRateTimeout: Metric<RateSlot>;
+    public readonly requestRateUnavailable: Metric<RateSlot>;
+    public readonly requestRateRerouted: Metric<RateSlot>;
+    public readonly requestRateRetry: Metric<RateSlot>;
+    public readonly requestRateGather: Metric<RateSlot>;
+    public readonly requestRateGatherIncomplete: Metric<RateSlot>;
+    public readonly requestRateCancelled: Metric<RateSlot>;
 
     // Response metrics
     public readonly responseCount: Metric<GaugeSlot>;
     public readonly responseCountError: Metric<GaugeSlot>;
     public readonly responseRate: Metric<RateSlot>;
     public readonly responseRateError: Metric<RateSlot>;
+    public readonly responseCountPartial: Metric<GaugeSlot>;
+    public readonly responseRatePartial: Metric<RateSlot>;
+    public readonly responseChunksAvg: Metric<AverageSlot>;
+    public readonly responseChunksMax: Metric<MaximumSlot>;
 
     constructor(private readonly monitoringManager: MonitoringManager) {
         // Message metrics
@@ -44,6 +62,8 @@ export class RouterMetrics {
         this.messageRate = this.monitoringManager.registerMetric('router.message.rate', RateSlot);
         this.messageCountError = this.monitoringManager.registerMetric('router.message.count.error', GaugeSlot);
         this.messageRateError = this.monitoringManager.registerMetric('router.message.rate.error', RateSlot);
+        this.messageCountRateLimited = this.monitoringManager.registerMetric('router.message.count.ratelimited', GaugeSlot);
+        this.messageRateRateLimited = this.monitoringManager.registerMetric('router.message.rate.ratelimited', RateSlot);
         this.messageSizeAvg = this.monitoringManager.registerMetric('router.message.size.avg', AverageSlot);
         this.messageSizeMax = this.monitoringManager.registerMetric('router.message.size.max', MaximumSlot);
 
@@ -60,10 +80,22 @@ export class RouterMetrics {
         this.requestCountDropped = this.monitoringManager.registerMetric('router.request.count.dropped', GaugeSlot);
         this.requestCountError = this.monitoringManager.registerMetric('router.request.count.error', GaugeSlot);
         this.requestCountTimeout = this.monitoringManager.registerMetric('router.request.count.timeout', GaugeSlot);
+        this.requestCountUnavailable = this.monitoringManager.registerMetric('router.request.count.unavailable', GaugeSlot);
+        this.requestCountRerouted = this.monitoringManager.registerMetric('router.request.count.rerouted', GaugeSlot);
+        this.requestCountRetry = this.monitoringManager.registerMetric('router.request.count.retry', GaugeSlot);
+        this.requestCountGather = this.monitoringManager.registerMetric('router.request.count.gather', GaugeSlot);
+        this.requestCountGatherIncomplete = this.monitoringManager.registerMetric('router.request.count.gather.incomplete', GaugeSlot);
+        this.requestCountCancelled = this.monitoringManager.registerMetric('router.request.count.cancelled', GaugeSlot);
         this.requestRate = this.monitoringManager.registerMetric('router.request.rate', RateSlot);
         this.requestRateDropped = this.monitoringManager.registerMetric('router.request.rate.dropped', RateSlot);
         this.requestRateError = this.monitoringManager.registerMetric('router.request.rate.error', RateSlot);
         this.requestRateTimeout = this.monitoringManager.registerMetric('router.request.rate.timeout', RateSlot);
+        this.requestRateUnavailable = this.monitoringManager.registerMetric('router.request.rate.unavailable', RateSlot);
+        this.requestRateRerouted = this.monitoringManager.registerMetric('router.request.rate.rerouted', RateSlot);
+        this.requestRateRetry = this.monitoringManager.registerMetric('router.request.rate.retry', RateSlot);
+        this.requestRateGather = this.monitoringManager.registerMetric('router.request.rate.gather', RateSlot);
+        this.requestRateGatherIncomplete = this.monitoringManager.registerMetric('router.request.rate.gather.incomplete', RateSlot);
+        this.requestRateCancelled = this.monitoringManager.registerMetric('router.request.rate.cancelled', RateSlot);
 
 
         // Response metrics
@@ -71,6 +103,10 @@ export class RouterMetrics {
         this.responseCountError = this.monitoringManager.registerMetric('router.response.count.error', GaugeSlot);
         this.responseRate = this.monitoringManager.registerMetric('router.response.rate', RateSlot);
         this.responseRateError = this.monitoringManager.registerMetric('router.response.rate.error', RateSlot);
+        this.responseCountPartial = this.monitoringManager.registerMetric('router.response.count.partial', GaugeSlot);
+        this.responseRatePartial = this.monitoringManager.registerMetric('router.response.rate.partial', RateSlot);
+        this.responseChunksAvg = this.monitoringManager.registerMetric('router.response.chunks.avg', AverageSlot);
+        this.responseChunksMax = this.monitoringManager.registerMetric('router.response.chunks.max', MaximumSlot);
     }
 
     /**
@@ -82,6 +118,8 @@ export class RouterMetrics {
         this.messageRate.dispose();
         this.messageCountError.dispose();
         this.messageRateError.dispose();
+        this.messageCountRateLimited.dispose();
+        this.messageRateRateLimited.dispose();
         this.messageSizeAvg.dispose();
         this.messageSizeMax.dispose();
 
@@ -98,15 +136,31 @@ export class RouterMetrics {
         this.requestCountDropped.dispose();
         this.requestCountError.dispose();
         this.requestCountTimeout.dispose();
+        this.requestCountUnavailable.dispose();
+        this.requestCountRerouted.dispose();
+        this.requestCountRetry.dispose();
+        this.requestCountGather.dispose();
+        this.requestCountGatherIncomplete.dispose();
+        this.requestCountCancelled.dispose();
         this.requestRate.dispose();
         this.requestRateDropped.dispose();
         this.requestRateError.dispose();
         this.requestRateTimeout.dispose();
+        this.requestRateUnavailable.dispose();
+        this.requestRateRerouted.dispose();
+        this.requestRateRetry.dispose();
+        this.requestRateGather.dispose();
+        this.requestRateGatherIncomplete.dispose();
+        this.requestRateCancelled.dispose();
 
         // Response metrics
         this.responseCount.dispose();
         this.responseCountError.dispose();
         this.responseRate.dispose();
         this.responseRateError.dispose();
+        this.responseCountPartial.dispose();
+        this.responseRatePartial.dispose();
+        this.responseChunksAvg.dispose();
+        this.responseChunksMax.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { config } from '@config';
+import { RateLimitedError } from '@core/errors';
+
+/**
+ * Interval (in ms) at which idle buckets are pruned.
+ */
+const PRUNE_INTERVAL = 60 * 1000;
+
+/**
+ * The scope a rate limit applies to.
+ * - `service`: all messages sent by a service (`rate.limit.global.per.service`)
+ * - `topic`: all messages sent to a topic (`rate.limit.global.per.topic`)
+ * - `service.topic`: messages sent by a service to a topic (`rate.limit.topic.per.service[topic]`)
+ */
+export type RateLimitScope = 'service' | 'topic' | 'service.topic';
+
+/**
+ * A token bucket that refills continuously at `limit` tokens per second, holding at most `limit` tokens.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    /**
+     * Creates a new, full token bucket.
+     *
+     * @param limit The number of tokens added per second (and the capacity of the bucket).
+     * @param now The current time in ms.
+     */
+    constructor(private limit: number, now: number = Date.now()) {
+        this.tokens = limit;
+        this.updatedAt = now;
+    }
+
+    /**
+     * Refills the bucket for the time elapsed since the last update.
+     * If the limit has changed, the bucket is resized (keeping its current tokens up to the new capacity).
+     *
+     * @param limit The current limit.
+     * @param now The current time in ms.
+     */
+    private refill(limit: number, now: number): void {
+        this.limit = limit;
+        const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+        this.tokens = Math.min(limit, this.tokens + elapsed * limit);
+        this.updatedAt = now;
+    }
+
+    /**
+     * Checks if a token is available, without taking it.
+     *
+     * @param limit The current limit.
+     * @param now The current time in ms.
+     * @returns The number of ms until a token is available, or 0 if one is available now.
+     */
+    peek(limit: number, now: number = Date.now()): number {
+        this.refill(limit, now);
+        return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / limit) * 1000);
+    }
+
+    /**
+     * Takes a token from the bucket. Must only be called after `peek` returned 0.
+     */
+    take(): void {
+        this.tokens -= 1;
+    }
+
+    /**
+     * Checks if the bucket is full (i.e. it is equivalent to a new bucket and can be discarded).
+     *
+     * @param now The current time in ms.
+     * @returns True if the bucket is full, false otherwise.
+     */
+    isFull(now: number = Date.now()): boolean {
+        this.refill(this.limit, now);
+        return this.tokens >= this.limit;
+    }
+}
+
+/**
+ * Enforces the `rate.limit` configuration using token buckets.
+ * Limits are read from the configuration on every check, so changes to the configuration apply immediately.
+ * A limit of 0 (or a missing limit) means unlimited.
+ */
+export class RateLimiter {
+    private readonly buckets: Map<string, TokenBucket>;
+    private readonly pruneInterval: NodeJS.Timeout;
+
+    constructor() {
+        this.buckets = new Map();
+        this.pruneInterval = setInterval(() => this.prune(), PRUNE_INTERVAL);
+        this.pruneInterval.unref();
+    }
+
+    /**
+     * Consumes a token from every bucket that applies to a message.
+     * Tokens are only taken if all buckets have one available, so a rejected message does not count towards any limit.
+     *
+     * @param serviceId The ID of the service sending the message.
+     * @param topic The topic of the message.
+     * @throws {RateLimitedError} If any of the limits has been reached.
+     */
+    consume(serviceId: string, topic: string): void {
+        const { global, topic: perTopic } = config.rate.limit;
+        const limits: [RateLimitScope, string, number][] = [
+            ['service', `service:${serviceId}`, global.per.service],
+            ['topic', `topic:${topic}`, global.per.topic],
+            ['service.topic', `service.topic:${serviceId}:${topic}`, perTopic.per.service[topic]],
+        ];
+
+        const now = Date.now();
+        const buckets: TokenBucket[] = [];
+        for (const [scope, key, limit] of limits) {
+            if (!limit || limit <= 0) continue;
+
+            let bucket = this.buckets.get(key);
+            if (!bucket) {
+                bucket = new TokenBucket(limit, now);
+                this.buckets.set(key, bucket);
+            }
+
+            const retryAfterMs = bucket.peek(limit, now);
+            if (retryAfterMs > 0) {
+                throw new RateLimitedError(`Rate limit of ${limit} messages per second exceeded`, { scope, limit, retryAfterMs });
+            }
+            buckets.push(bucket);
+        }
+
+        for (const bucket of buckets) {
+            bucket.take();
+        }
+    }
+
+    /**
+     * Removes all full buckets, as they are equivalent to new buckets.
+     */
+    prune(): void {
+        const now = Date.now();
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.isFull(now)) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Disposes of all buckets and stops pruning.
+     */
+    dispose(): void {
+        clearInterval(this.pruneInterval);
+        this.buckets.clear();
+    }
+}
@@ -1,7 +1,13 @@
-import { TopicUtils } from '@core/utils';
-import { ActionType } from '@core/types';
+import { randomUUID } from 'crypto';
+import * as semver from 'semver';
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { MonitoringManager } from '@core/monitoring';
+import { BrokerHeader, ClientHeader, TopicUtils } from '@core/utils';
+import { ActionType, LoadBalancingStrategy } from '@core/types';
 import { SetupLogger } from '@utils/logger';
-import { TopicTrie, SetLeafCollection, SortedSetLeafCollection } from './trie';
+import { SubscriptionMetrics } from './metrics';
+import { TopicTrie, TopicTrieOptions, SetLeafCollection, SortedSetLeafCollection, KeyedSetLeafCollection } from './trie';
 
 const logger = SetupLogger('SubscriptionManager');
 
@@ -15,18 +21,59 @@ export interface Subscription {
     topic: string;
     /** The priority of the subscription (only present for request subscriptions) */
     priority?: number;
+    /** The semver range of the message versions accepted by the subscription (all versions if not present) */
+    version?: string;
+    /** The delivery guarantee of the subscription (only present for at-least-once publish subscriptions) */
+    qos?: Qos;
+    /** The subscription group the subscription is a member of (only present for grouped publish subscriptions) */
+    group?: string;
 }
 
 /**
- * Represents a subscriber with a service ID and priority.
+ * The default load balancing strategy of subscription groups.
+ */
+const DEFAULT_GROUP_STRATEGY = LoadBalancingStrategy.ROUND_ROBIN;
+
+/**
+ * Picks the member of a subscription group a publish is sent to.
+ *
+ * @param group The name of the group.
+ * @param members The service IDs of the members of the group accepting the publish (never empty).
+ * @returns The service ID of the picked member.
+ */
+export type GroupSelector = (group: string, members: string[]) => string;
+
+/**
+ * The delivery guarantee of a PUBLISH subscription:
+ * - 0: at most once, messages are sent once and forgotten
+ * - 1: at least once, messages are redelivered until the subscriber acknowledges them
+ */
+export type Qos = 0 | 1;
+
+/**
+ * Represents a subscriber with a service ID, priority and accepted version range.
  */
 interface Subscriber {
     /** The unique identifier of the service */
     serviceId: string;
     /** The priority of the subscriber (higher value = higher priority) */
     priority: number;
+    /** The semver range of the message versions accepted by the subscriber (all versions if not present) */
+    version?: string;
+    /** How specific the topic pattern of the subscription is (see `getSpecificity`, lower value = more specific) */
+    specificity: number;
 }
 
+/**
+ * Represents a PUBLISH subscriber, which has no priority but a delivery guarantee.
+ */
+type PublishSubscriber = Omit<Subscriber, 'priority' | 'specificity'> & {
+    /** The delivery guarantee of the subscriber (at most once if not present) */
+    qos?: Qos;
+    /** The subscription group of the subscriber, competing with the other members for each publish (if present) */
+    group?: string;
+};
+
 export interface TopicSubscriptions {
     /** The type of action (publish or request) */
     action: ActionType;
@@ -38,21 +85,103 @@ export interface TopicSubscriptions {
         serviceId: string;
         /** The priority of the subscriber (higher value = higher priority) */
         priority?: number;
+        /** The semver range of the message versions accepted by the subscriber (all versions if not present) */
+        version?: string;
+        /** The delivery guarantee of the subscriber (only present for at-least-once publish subscribers) */
+        qos?: Qos;
+        /** The subscription group of the subscriber (only present for grouped publish subscribers) */
+        group?: string;
     }[];
 }
 
+/**
+ * Represents the subscriptions of a service, by canonical topic pattern.
+ * The subscribers are the same objects as the leaves of the tries.
+ */
+interface ServiceSubscriptions {
+    /** The PUBLISH subscriptions of the service */
+    publish: Map<string, PublishSubscriber>;
+    /** The REQUEST subscriptions of the service */
+    request: Map<string, Subscriber>;
+}
+
+/**
+ * Represents the retained last value of a topic.
+ */
+interface RetainedMessage {
+    /** The version of the message */
+    version: string;
+    /** The raw payload of the message */
+    payload: Buffer;
+}
+
+/**
+ * Checks if a subscriber accepts a message version.
+ *
+ * @param subscriber The subscriber.
+ * @param version The version of the message (all subscribers accept messages without a version).
+ * @returns True if the subscriber has no version range or the version satisfies it, false otherwise.
+ */
+function acceptsVersion(subscriber: PublishSubscriber, version?: string): boolean {
+    return !version || !subscriber.version || semver.satisfies(version, subscriber.version);
+}
+
+/**
+ * Gets how specific a topic pattern is: 0 for an exact topic, 1 for a pattern with '+' wildcards only,
+ * and 2 for a pattern with a '#' wildcard.
+ *
+ * @param pattern The topic pattern.
+ * @returns The specificity of the pattern (lower value = more specific).
+ */
+function getSpecificity(pattern: string): number {
+    if (pattern.endsWith('#')) return 2;
+    return pattern.split('.').includes('+') ? 1 : 0;
+}
+
+/**
+ * Compares REQUEST subscribers by rank: higher priority first and, for the same priority, the subscriber
+ * with the more specific topic pattern first.
+ *
+ * @param a The first subscriber.
+ * @param b The second subscriber.
+ * @returns A negative number if `a` ranks before `b`, a positive number if after, 0 if they rank the same.
+ */
+function compareRank(a: Subscriber, b: Subscriber): number {
+    return b.priority - a.priority || a.specificity - b.specificity;
+}
+
+/**
+ * Gets the REQUEST subscribers accepting a message version in order of rank, keeping only the best ranked
+ * subscription of a service subscribed through several matching patterns.
+ *
+ * @param subscribers The subscribers matching the topic of the message.
+ * @param version The version of the message.
+ * @returns The subscribers, best ranked first.
+ */
+function rankSubscribers(subscribers: Iterable<Subscriber>, version?: string): Subscriber[] {
+    const ranked = Array.from(subscribers)
+        .filter(sub => acceptsVersion(sub, version))
+        .sort(compareRank);
+    const seen = new Set<string>();
+    return ranked.filter(sub => !seen.has(sub.serviceId) && seen.add(sub.serviceId));
+}
+
 /**
  * Manages service subscriptions to topics, supporting both PUBLISH and REQUEST patterns.
- * - PUBLISH subscriptions are unordered and unique per topic
+ * - PUBLISH subscriptions are unordered and unique per topic, and may be members of a subscription group
  * - REQUEST subscriptions are ordered by priority (higher priority first) and unique per topic
+ *
+ * Subscriptions may use the '+' (one level) and '#' (zero or more trailing levels) wildcards. REQUEST subscribers
+ * matching a topic rank by priority first; for the same priority, exact subscriptions rank before '+' patterns,
+ * which rank before '#' patterns. Wildcard patterns never match system topics, which only exact subscriptions receive.
  */
 export class SubscriptionManager {
     /**
      * Trie for storing PUBLISH subscriptions.
-     * Uses SetLeafCollection for unordered, unique storage.
+     * Uses KeyedSetLeafCollection for unordered storage, unique per service.
      * @private
      */
-    private publishTrie: TopicTrie<string, SetLeafCollection<string>>;
+    private publishTrie: TopicTrie<PublishSubscriber, KeyedSetLeafCollection<PublishSubscriber, 'serviceId'>>;
 
     /**
      * Trie for storing REQUEST subscriptions.
@@ -61,55 +190,229 @@ export class SubscriptionManager {
      */
     private requestTrie: TopicTrie<Subscriber, SortedSetLeafCollection<Subscriber, 'priority'>>;
 
-    constructor() {
-        // Initialize PUBLISH trie with SetLeafCollection
-        this.publishTrie = new TopicTrie(() => new SetLeafCollection());
+    /**
+     * Trie for storing the load balancing strategies of REQUEST topic patterns.
+     * Each pattern holds at most one strategy.
+     * @private
+     */
+    private strategyTrie: TopicTrie<LoadBalancingStrategy, SetLeafCollection<LoadBalancingStrategy>>;
+
+    /**
+     * The retained last value of each topic, by canonical topic, from the least to the most recently set.
+     * @private
+     */
+    private retained: Map<string, RetainedMessage>;
+
+    /**
+     * The total size in bytes of the retained payloads.
+     * @private
+     */
+    private retainedSize: number;
+
+    /**
+     * The load balancing strategy of each subscription group, by group name.
+     * @private
+     */
+    private groupStrategies: Map<string, LoadBalancingStrategy>;
+
+    /**
+     * The subscriptions of each service, by service ID. Kept consistent with the PUBLISH and REQUEST tries,
+     * so the subscriptions of a service are found without walking the tries.
+     * @private
+     */
+    private services: Map<string, ServiceSubscriptions>;
+
+    private connectionManager!: ConnectionManager;
+    private readonly metrics: SubscriptionMetrics;
+
+    constructor(monitoringManager: MonitoringManager) {
+        this.metrics = new SubscriptionMetrics(monitoringManager);
+
+        // Cache the matches of the most recent topics, as the same topics are usually published over and over
+        const cache: TopicTrieOptions = {
+            cacheSize: config.subscription.cache.size,
+            onCacheHit: () => this.metrics.cacheHitRate.slot.add(1),
+            onCacheMiss: () => this.metrics.cacheMissRate.slot.add(1),
+        };
+
+        // Initialize PUBLISH trie with KeyedSetLeafCollection
+        this.publishTrie = new TopicTrie(() => new KeyedSetLeafCollection('serviceId'), cache);
 
         // Initialize REQUEST trie with SortedSetLeafCollection
         // Sort by priority (higher first) and compare subscribers by serviceId
         this.requestTrie = new TopicTrie(() =>
-            new SortedSetLeafCollection('priority', (a, b) => a.serviceId === b.serviceId)
+            new SortedSetLeafCollection('priority', (a, b) => a.serviceId === b.serviceId),
+            cache
         );
+
+        // Initialize the strategy trie with the strategies from the configuration
+        this.strategyTrie = new TopicTrie(() => new SetLeafCollection());
+        this.retained = new Map();
+        this.retainedSize = 0;
+        this.groupStrategies = new Map();
+        this.services = new Map();
+        for (const [topic, strategy] of Object.entries(config.request.loadbalancing.topics ?? {})) {
+            if (!this.setRequestStrategy(topic, strategy)) {
+                logger.warn(`Ignoring invalid load balancing strategy ${strategy} for topic: ${topic}`);
+            }
+        }
+    }
+
+    /**
+     * Assigns a ConnectionManager to the SubscriptionManager.
+     *
+     * @param connectionManager The ConnectionManager to assign.
+     */
+    assignConnectionManager(connectionManager: ConnectionManager): void {
+        this.connectionManager = connectionManager;
+    }
+
+    /**
+     * Checks if a subscription group name is valid: 1 to 64 letters, digits, underscores or dashes.
+     *
+     * @param group The name of the group.
+     * @returns True if the name is valid, false otherwise.
+     */
+    static isValidGroup(group: string): boolean {
+        return /^[A-Za-z0-9_-]{1,64}$/.test(group);
     }
 
     /**
      * Subscribes a service to a topic for PUBLISH events.
+     * The retained messages matching the subscription are delivered to the service right away.
      *
      * @param serviceId The ID of the service subscribing.
      * @param topic The topic to subscribe to.
+     * @param version The semver range of the message versions to receive (all versions if not specified).
+     * @param qos The delivery guarantee of the subscription (at most once if not specified).
+     * @param group The subscription group to join, whose members each get a share of the publishes (if specified).
      * @returns True if the subscription was successful, false otherwise.
      */
-    subscribePublish(serviceId: string, topic: string): boolean {
+    subscribePublish(serviceId: string, topic: string, version?: string, qos?: Qos, group?: string): boolean {
         const canonicalTopic = TopicUtils.getCanonical(topic);
         if (!TopicUtils.isValidSubscription(canonicalTopic)) {
             logger.warn(`Invalid topic name for PUBLISH subscription: ${topic}`);
             return false;
         }
+        if (version !== undefined && !semver.validRange(version)) {
+            logger.warn(`Invalid version range for PUBLISH subscription: ${version}`);
+            return false;
+        }
+        if (group !== undefined && !SubscriptionManager.isValidGroup(group)) {
+            logger.warn(`Invalid subscription group for PUBLISH subscription: ${group}`);
+            return false;
+        }
 
-        this.publishTrie.set(canonicalTopic, serviceId);
+        const subscriber: PublishSubscriber = { serviceId, version, qos: qos || undefined, group };
+        this.publishTrie.set(canonicalTopic, subscriber);
+        this.getServiceSubscriptions(serviceId).publish.set(canonicalTopic, subscriber);
+
+        logger.info(`Service subscribed to PUBLISH topic: ${canonicalTopic}`, { serviceId, topic: canonicalTopic, version, qos, group });
+
+        // Deliver the retained messages matching the subscription, a page at a time as the connection drains
+        // Each message is read when it is sent, so a topic retained again meanwhile is sent with its last value
+        const retainedTopics = this.getRetained(canonicalTopic, version).map(([retainedTopic]) => retainedTopic);
+        if (retainedTopics.length > 0) {
+            this.connectionManager.sendPaced(serviceId, () => {
+                for (let retainedTopic = retainedTopics.shift(); retainedTopic; retainedTopic = retainedTopics.shift()) {
+                    const message = this.retained.get(retainedTopic);
+                    if (!message || !acceptsVersion({ serviceId, version }, message.version)) continue;
+                    const header: BrokerHeader = { action: ActionType.PUBLISH, topic: retainedTopic, version: message.version, requestId: randomUUID(), retain: true };
+                    return { header, payload: message.payload };
+                }
+                return undefined;
+            });
+        }
+        return true;
+    }
 
-        logger.info(`Service subscribed to PUBLISH topic: ${canonicalTopic}`, { serviceId, topic: canonicalTopic });
+    /**
+     * Sets the retained last value of a topic, which is delivered to every new PUBLISH subscriber of the topic.
+     * A message with an empty payload clears the retained value. When the retained messages exceed
+     * `subscription.retained.maxCount` or `subscription.retained.maxSize`, the least recently set ones are evicted.
+     *
+     * @param header The header of the published message.
+     * @param payload The raw payload of the published message.
+     */
+    setRetained(header: ClientHeader, payload: Buffer): void {
+        const canonicalTopic = TopicUtils.getCanonical(header.topic);
+        const cleared = this.deleteRetained(canonicalTopic);
+        if (payload.length === 0) {
+            if (cleared) {
+                logger.info(`Cleared retained message of topic: ${canonicalTopic}`, { topic: canonicalTopic });
+            }
+            return;
+        }
+
+        // Copy the payload, so the retained message does not keep the buffer of the whole message alive
+        // The topic was deleted first, so it moves to the end of the eviction order
+        this.retained.set(canonicalTopic, { version: header.version, payload: Buffer.from(payload) });
+        this.retainedSize += payload.length;
+
+        // Evict the least recently set messages over the limits (0 means unlimited)
+        const { maxCount, maxSize } = config.subscription.retained;
+        for (const topic of this.retained.keys()) {
+            if ((!maxCount || this.retained.size <= maxCount) && (!maxSize || this.retainedSize <= maxSize)) break;
+            this.deleteRetained(topic);
+            logger.warn(`Evicted retained message of topic: ${topic} due to exceeding the retained messages limits`, { topic });
+        }
+    }
+
+    /**
+     * Deletes the retained message of a topic, and releases its size.
+     *
+     * @param topic The canonical topic.
+     * @returns True if the topic had a retained message, false otherwise.
+     */
+    private deleteRetained(topic: string): boolean {
+        const message = this.retained.get(topic);
+        if (!message) return false;
+        this.retained.delete(topic);
+        this.retainedSize -= message.payload.length;
         return true;
     }
 
+    /**
+     * Gets the retained messages of the topics matching a subscription pattern.
+     *
+     * @param topic The topic pattern of the subscription (may contain wildcards).
+     * @param version The semver range of the subscription (all versions if not specified).
+     * @returns The [topic, message] pairs of the matching retained messages.
+     */
+    private getRetained(topic: string, version?: string): [string, RetainedMessage][] {
+        if (this.retained.size === 0) return [];
+
+        // Match the retained topics against the pattern with the same rules as the subscriptions
+        return Array.from(this.retained).filter(([retainedTopic, message]) =>
+            TopicUtils.matches(retainedTopic, topic) && acceptsVersion({ serviceId: '', version }, message.version)
+        );
+    }
+
     /**
      * Subscribes a service to a topic for REQUEST events with a priority.
      *
      * @param serviceId The ID of the service subscribing.
      * @param topic The topic to subscribe to.
      * @param priority The priority of the subscriber (higher value = higher priority).
+     * @param version The semver range of the message versions to receive (all versions if not specified).
      * @returns True if the subscription was successful, false otherwise.
      */
-    subscribeRequest(serviceId: string, topic: string, priority: number = 0): boolean {
+    subscribeRequest(serviceId: string, topic: string, priority: number = 0, version?: string): boolean {
         const canonicalTopic = TopicUtils.getCanonical(topic);
         if (!TopicUtils.isValidSubscription(canonicalTopic)) {
             logger.warn(`Invalid topic name for REQUEST subscription: ${topic}`);
             return false;
         }
+        if (version !== undefined && !semver.validRange(version)) {
+            logger.warn(`Invalid version range for REQUEST subscription: ${version}`);
+            return false;
+        }
 
-        this.requestTrie.set(canonicalTopic, { serviceId, priority });
+        const subscriber: Subscriber = { serviceId, priority, version, specificity: getSpecificity(canonicalTopic) };
+        this.requestTrie.set(canonicalTopic, subscriber);
+        this.getServiceSubscriptions(serviceId).request.set(canonicalTopic, subscriber);
 
-        logger.info(`Service subscribed to REQUEST topic: ${canonicalTopic} with priority: ${priority}`, { serviceId, topic: canonicalTopic, priority });
+        logger.info(`Service subscribed to REQUEST topic: ${canonicalTopic} with priority: ${priority}`, { serviceId, topic: canonicalTopic, priority, version });
         return true;
     }
 
@@ -127,8 +430,9 @@ export class SubscriptionManager {
             return false;
         }
 
-        const success = this.publishTrie.delete(canonicalTopic, serviceId);
+        const success = this.publishTrie.delete(canonicalTopic, { serviceId });
         if (success) {
+            this.removeServiceSubscription(serviceId, 'publish', canonicalTopic);
             logger.info(`Service unsubscribed from PUBLISH topic: ${canonicalTopic}`, { serviceId, topic: canonicalTopic });
         }
         return success;
@@ -149,8 +453,9 @@ export class SubscriptionManager {
         }
 
         // Create a dummy subscriber with the serviceId to match against
-        const success = this.requestTrie.delete(canonicalTopic, { serviceId, priority: 0 });
+        const success = this.requestTrie.delete(canonicalTopic, { serviceId, priority: 0, specificity: 0 });
         if (success) {
+            this.removeServiceSubscription(serviceId, 'request', canonicalTopic);
             logger.info(`Service unsubscribed from REQUEST topic: ${canonicalTopic}`, { serviceId, topic: canonicalTopic });
         }
         return success;
@@ -158,42 +463,176 @@ export class SubscriptionManager {
 
     /**
      * Gets all subscribers for a PUBLISH topic.
+     * A service subscribed through several matching patterns is only listed once.
      *
      * @param topic The topic to get subscribers for.
+     * @param version The version of the message (if specified, only subscribers accepting the version are returned).
      * @returns An array of service IDs subscribed to the topic.
      */
-    getPublishSubscribers(topic: string): string[] {
+    getPublishSubscribers(topic: string, version?: string): string[] {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        const subscribers = new Set<string>();
+        for (const subscriber of this.matchPublish(canonicalTopic)) {
+            if (acceptsVersion(subscriber, version)) subscribers.add(subscriber.serviceId);
+        }
+        return Array.from(subscribers);
+    }
+
+    /**
+     * Gets the services a PUBLISH message is sent to: every ungrouped subscriber, and one member of each subscription
+     * group picked by the selector. A service subscribed through several matching patterns is only listed once.
+     *
+     * @param topic The topic of the message.
+     * @param version The version of the message (if specified, only subscribers accepting the version are considered).
+     * @param select Picks the member of a group the message is sent to.
+     * @returns An array of service IDs.
+     */
+    getPublishRecipients(topic: string, version: string | undefined, select: GroupSelector): string[] {
         const canonicalTopic = TopicUtils.getCanonical(topic);
-        return Array.from(this.publishTrie.get(canonicalTopic));
+        const recipients = new Set<string>();
+        const groups = new Map<string, Set<string>>();
+        for (const subscriber of this.matchPublish(canonicalTopic)) {
+            if (!acceptsVersion(subscriber, version)) continue;
+            if (subscriber.group === undefined) {
+                recipients.add(subscriber.serviceId);
+                continue;
+            }
+
+            let members = groups.get(subscriber.group);
+            if (!members) {
+                members = new Set();
+                groups.set(subscriber.group, members);
+            }
+            members.add(subscriber.serviceId);
+        }
+
+        for (const [group, members] of groups) {
+            recipients.add(select(group, Array.from(members)));
+        }
+        return Array.from(recipients);
     }
 
     /**
-     * Gets all subscribers for a REQUEST topic, ordered by priority (highest first).
+     * Sets the load balancing strategy of a subscription group, replacing any previous strategy of the group.
+     *
+     * @param group The name of the group.
+     * @param strategy The load balancing strategy.
+     * @returns True if the strategy was set, false if the group or strategy is invalid.
+     */
+    setGroupStrategy(group: string, strategy: LoadBalancingStrategy): boolean {
+        if (!SubscriptionManager.isValidGroup(group) || !Object.values(LoadBalancingStrategy).includes(strategy)) {
+            return false;
+        }
+
+        this.groupStrategies.set(group, strategy);
+        logger.info(`Load balancing strategy for subscription group: ${group} set to: ${strategy}`, { group, strategy });
+        return true;
+    }
+
+    /**
+     * Gets the load balancing strategy of a subscription group.
+     *
+     * @param group The name of the group.
+     * @returns The load balancing strategy, round-robin if none was set for the group.
+     */
+    getGroupStrategy(group: string): LoadBalancingStrategy {
+        return this.groupStrategies.get(group) ?? DEFAULT_GROUP_STRATEGY;
+    }
+
+    /**
+     * Gets the subscribers for a PUBLISH topic that require at-least-once delivery, through any of their matching patterns.
      *
      * @param topic The topic to get subscribers for.
-     * @returns An array of service IDs subscribed to the topic, ordered by priority.
+     * @param version The version of the message (if specified, only subscribers accepting the version are returned).
+     * @returns An array of service IDs subscribed to the topic with QoS 1.
      */
-    getRequestSubscribers(topic: string): string[] {
+    getQosPublishSubscribers(topic: string, version?: string): string[] {
         const canonicalTopic = TopicUtils.getCanonical(topic);
-        return Array.from(this.requestTrie.get(canonicalTopic)).map(sub => sub.serviceId);
+        const subscribers = new Set<string>();
+        for (const subscriber of this.matchPublish(canonicalTopic)) {
+            if (subscriber.qos === 1 && acceptsVersion(subscriber, version)) subscribers.add(subscriber.serviceId);
+        }
+        return Array.from(subscribers);
     }
 
     /**
-     * Gets the highest priority subscribers for a REQUEST topic.
+     * Gets all subscribers for a REQUEST topic, ordered by rank (highest priority first, then most specific pattern first).
+     * A service subscribed through several matching patterns is only listed once, at its best rank.
      *
      * @param topic The topic to get subscribers for.
-     * @returns An array of service IDs with the highest priority for the topic.
+     * @param version The version of the message (if specified, only subscribers accepting the version are returned).
+     * @returns An array of service IDs subscribed to the topic, ordered by rank.
      */
-    getTopRequestSubscribers(topic: string): string[] {
+    getRequestSubscribers(topic: string, version?: string): string[] {
         const canonicalTopic = TopicUtils.getCanonical(topic);
-        const subscribers = Array.from(this.requestTrie.get(canonicalTopic));
-        if (subscribers.length === 0) return [];
-
-        // Get all subscribers with the highest priority
-        const topPriority = subscribers[0].priority;
-        return subscribers
-            .filter(sub => sub.priority === topPriority)
-            .map(sub => sub.serviceId);
+        return rankSubscribers(this.requestTrie.get(canonicalTopic), version).map(sub => sub.serviceId);
+    }
+
+    /**
+     * Gets the best ranked subscribers for a REQUEST topic: the subscribers with the highest priority and,
+     * among them, the most specific topic pattern.
+     *
+     * @param topic The topic to get subscribers for.
+     * @param version The version of the message (if specified, only subscribers accepting the version are considered).
+     * @returns An array of service IDs with the best rank for the topic.
+     */
+    getTopRequestSubscribers(topic: string, version?: string): string[] {
+        return this.getRequestSubscriberTiers(topic, version)[0] ?? [];
+    }
+
+    /**
+     * Gets all subscribers for a REQUEST topic, grouped by rank (highest priority first, then most specific pattern first).
+     * A service subscribed through several matching patterns is only listed once, at its best rank.
+     *
+     * @param topic The topic to get subscribers for.
+     * @param version The version of the message (if specified, only subscribers accepting the version are considered).
+     * @returns An array of tiers, each holding the service IDs sharing a rank.
+     */
+    getRequestSubscriberTiers(topic: string, version?: string): string[][] {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        const tiers: string[][] = [];
+        let previous: Subscriber | undefined;
+        for (const subscriber of rankSubscribers(this.requestTrie.get(canonicalTopic), version)) {
+            if (!previous || compareRank(previous, subscriber) !== 0) tiers.push([]);
+            tiers[tiers.length - 1].push(subscriber.serviceId);
+            previous = subscriber;
+        }
+        return tiers;
+    }
+
+    /**
+     * Sets the load balancing strategy for a REQUEST topic pattern, replacing any previous strategy for the pattern.
+     *
+     * @param topic The topic pattern to set the strategy for.
+     * @param strategy The load balancing strategy.
+     * @returns True if the strategy was set, false if the topic or strategy is invalid.
+     */
+    setRequestStrategy(topic: string, strategy: LoadBalancingStrategy): boolean {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        if (!TopicUtils.isValidSubscription(canonicalTopic) || !Object.values(LoadBalancingStrategy).includes(strategy)) {
+            return false;
+        }
+
+        const collection = this.strategyTrie.getOrCreateCollection(canonicalTopic);
+        for (const existing of Array.from(collection)) {
+            collection.delete(existing);
+        }
+        collection.add(strategy);
+
+        logger.info(`Load balancing strategy for REQUEST topic: ${canonicalTopic} set to: ${strategy}`, { topic: canonicalTopic, strategy });
+        return true;
+    }
+
+    /**
+     * Gets the load balancing strategy for a REQUEST topic.
+     * If multiple topic patterns match, the most specific pattern wins (exact levels before '+', and '+' before '#').
+     *
+     * @param topic The topic to get the strategy for.
+     * @returns The load balancing strategy, or undefined if no pattern matches the topic.
+     */
+    getRequestStrategy(topic: string): LoadBalancingStrategy | undefined {
+        const canonicalTopic = TopicUtils.getCanonical(topic);
+        return this.strategyTrie.get(canonicalTopic).next().value ?? undefined;
     }
 
     /**
@@ -204,26 +643,28 @@ export class SubscriptionManager {
      */
     getSubscribedTopics(serviceId: string): Subscription[] {
         const subscriptions: Subscription[] = [];
+        const service = this.services.get(serviceId);
+        if (!service) return subscriptions;
 
         // Get PUBLISH subscriptions
-        for (const [topic, subscriber] of this.publishTrie.entries()) {
-            if (subscriber === serviceId) {
-                subscriptions.push({
-                    action: ActionType.PUBLISH,
-                    topic
-                });
-            }
+        for (const [topic, subscriber] of service.publish) {
+            subscriptions.push({
+                action: ActionType.PUBLISH,
+                topic,
+                version: subscriber.version,
+                qos: subscriber.qos,
+                group: subscriber.group
+            });
         }
 
         // Get REQUEST subscriptions
-        for (const [topic, subscriber] of this.requestTrie.entries()) {
-            if (subscriber.serviceId === serviceId) {
-                subscriptions.push({
-                    action: ActionType.REQUEST,
-                    topic,
-                    priority: subscriber.priority
-                });
-            }
+        for (const [topic, subscriber] of service.request) {
+            subscriptions.push({
+                action: ActionType.REQUEST,
+                topic,
+                priority: subscriber.priority,
+                version: subscriber.version
+            });
         }
 
         // Sort by topic first, then action type
@@ -235,7 +676,7 @@ export class SubscriptionManager {
     }
 
     /**
-     * Gets all topics, for both PUBLISH and REQUEST events.
+     * Gets all topics, for both PUBLISH and REQUEST events, with the subscription group of grouped PUBLISH subscribers.
      *
      * @returns An array of subscriptions, sorted by topic name and then action type.
      */
@@ -244,29 +685,31 @@ export class SubscriptionManager {
         const publishTopics = new Map<string, TopicSubscriptions>();
         const requestTopics = new Map<string, TopicSubscriptions>();
         // Get PUBLISH subscriptions
-        for (const [topic, subscriber] of this.publishTrie.entries()) {
+        for (const [topic, { serviceId, version, qos, group }] of this.publishTrie.entries()) {
+            const entry = { serviceId, version, qos, group };
             const existingTopic = publishTopics.get(topic);
             if (existingTopic) {
-                existingTopic.subscribers.push({ serviceId: subscriber });
+                existingTopic.subscribers.push(entry);
             } else {
                 publishTopics.set(topic, {
                     action: ActionType.PUBLISH,
                     topic,
-                    subscribers: [{ serviceId: subscriber }]
+                    subscribers: [entry]
                 });
             }
         }
 
         // Get REQUEST subscriptions
-        for (const [topic, subscriber] of this.requestTrie.entries()) {
+        for (const [topic, { serviceId, priority, version }] of this.requestTrie.entries()) {
+            const entry = { serviceId, priority, version };
             const existingTopic = requestTopics.get(topic);
             if (existingTopic) {
-                existingTopic.subscribers.push({ serviceId: subscriber.serviceId, priority: subscriber.priority });
+                existingTopic.subscribers.push(entry);
             } else {
                 requestTopics.set(topic, {
                     action: ActionType.REQUEST,
                     topic,
-                    subscribers: [{ serviceId: subscriber.serviceId, priority: subscriber.priority }]
+                    subscribers: [entry]
                 });
             }
         }
@@ -287,24 +730,63 @@ export class SubscriptionManager {
      * Unsubscribes a service from all topics.
      *
      * @param serviceId The ID of the service to unsubscribe.
-     * @returns True if any unsubscriptions were successful, false if the service had no subscriptions.
+     * @returns True if the service was unsubscribed, false if it had no subscriptions.
      */
     unsubscribe(serviceId: string): boolean {
-        const subscriptions = this.getSubscribedTopics(serviceId);
-        if (subscriptions.length === 0) return false;
-
-        let success = false;
-        for (const subscription of subscriptions) {
-            const unsubscribed = subscription.action === ActionType.PUBLISH
-                ? this.unsubscribePublish(serviceId, subscription.topic)
-                : this.unsubscribeRequest(serviceId, subscription.topic);
-            success = success || unsubscribed;
+        const service = this.services.get(serviceId);
+        if (!service) return false;
+
+        // Remove the subscriptions of the service from the tries, without walking them
+        for (const topic of service.publish.keys()) {
+            this.publishTrie.delete(topic, { serviceId });
+        }
+        for (const topic of service.request.keys()) {
+            this.requestTrie.delete(topic, { serviceId, priority: 0, specificity: 0 });
         }
+        this.services.delete(serviceId);
 
-        if (success) {
-            logger.info(`Service unsubscribed from all topics`, { serviceId });
+        logger.info(`Service unsubscribed from all topics`, { serviceId, count: service.publish.size + service.request.size });
+        return true;
+    }
+
+    /**
+     * Gets the subscriptions of a service from the index, adding an empty entry for the service if needed.
+     *
+     * @param serviceId The ID of the service.
+     * @returns The subscriptions of the service.
+     */
+    private getServiceSubscriptions(serviceId: string): ServiceSubscriptions {
+        let service = this.services.get(serviceId);
+        if (!service) {
+            service = { publish: new Map(), request: new Map() };
+            this.services.set(serviceId, service);
         }
-        return success;
+        return service;
+    }
+
+    /**
+     * Removes a subscription of a service from the index, and the service once it has no subscriptions left.
+     *
+     * @param serviceId The ID of the service.
+     * @param action The kind of subscription.
+     * @param topic The canonical topic pattern of the subscription.
+     */
+    private removeServiceSubscription(serviceId: string, action: keyof ServiceSubscriptions, topic: string): void {
+        const service = this.services.get(serviceId);
+        if (!service) return;
+        service[action].delete(topic);
+        if (service.publish.size === 0 && service.request.size === 0) this.services.delete(serviceId);
+    }
+
+    /**
+     * Gets the PUBLISH subscribers matching a topic. System topics are only matched by exact subscriptions,
+     * so a pattern like '#' does not receive the messages of the broker itself.
+     *
+     * @param topic The canonical topic.
+     * @returns The matching subscribers.
+     */
+    private matchPublish(topic: string): Iterable<PublishSubscriber> {
+        return topic.startsWith('system.') ? this.publishTrie.getExact(topic) : this.publishTrie.get(topic);
     }
 
     /**
@@ -313,6 +795,12 @@ export class SubscriptionManager {
     async dispose(): Promise<void> {
         this.publishTrie.clear();
         this.requestTrie.clear();
+        this.strategyTrie.clear();
+        this.retained.clear();
+        this.retainedSize = 0;
+        this.groupStrategies.clear();
+        this.services.clear();
+        this.metrics.dispose();
         logger.info('Cleared all subscriptions');
     }
 }
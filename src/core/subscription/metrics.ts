@@ -0,0 +1,28 @@
+import { MetricsContainer, MonitoringManager } from '@core/monitoring';
+import { Metric } from '@core/monitoring/metrics';
+import { RateSlot } from '@core/monitoring/metrics/slots';
+
+/**
+ * Metrics for the Subscription module
+ */
+export class SubscriptionMetrics implements MetricsContainer {
+    /** Rate of topic matches served from the match cache */
+    public readonly cacheHitRate: Metric<RateSlot>;
+
+    /** Rate of topic matches not in the match cache, walking the subscription tries */
+    public readonly cacheMissRate: Metric<RateSlot>;
+
+    constructor(private readonly monitoringManager: MonitoringManager) {
+        // Initialize all metrics
+        this.cacheHitRate = this.monitoringManager.registerMetric('subscription.cache.rate.hit', RateSlot);
+        this.cacheMissRate = this.monitoringManager.registerMetric('subscription.cache.rate.miss', RateSlot);
+    }
+
+    /**
+     * Dispose of all metrics
+     */
+    public dispose(): void {
+        this.cacheHitRate.dispose();
+        this.cacheMissRate.dispose();
+    }
+}
@@ -40,6 +40,21 @@ export interface LeafCollection<T> {
     size: number;
 }
 
+/**
+ * Options of a topic trie.
+ */
+export interface TopicTrieOptions {
+    /**
+     * The maximum number of topics whose matching leaf collections are cached (0 or absent disables the cache).
+     * The least recently matched topic is evicted when the cache is full.
+     */
+    cacheSize?: number;
+    /** Called when the matches of a topic are found in the cache */
+    onCacheHit?: () => void;
+    /** Called when the matches of a topic are not in the cache and the trie is walked */
+    onCacheMiss?: () => void;
+}
+
 /**
  * Represents a node in the topic trie.
  * Each node can have children nodes for more specific topic levels,
@@ -77,6 +92,21 @@ interface TrieNode<T, C extends LeafCollection<T>> {
     leafs: C;
 }
 
+/**
+ * Represents a level of the index of the cached topics.
+ * The index mirrors the levels of the cached topics, so that the topics a pattern can match
+ * are found by walking the pattern instead of scanning the whole cache.
+ *
+ * @private
+ */
+interface CacheNode {
+    /** Map of the next levels of the cached topics, keyed by the topic segment that leads to them */
+    children: Map<string, CacheNode>;
+
+    /** The cached topic ending at this level, if any */
+    topic?: string;
+}
+
 /**
  * Topic trie data structure for efficient matching of topics against subscriptions.
  * Supports MQTT-style wildcards:
@@ -107,14 +137,38 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
      */
     private createLeafCollection: () => C;
 
+    /**
+     * The options of the trie.
+     * @private
+     */
+    private readonly options: TopicTrieOptions;
+
+    /**
+     * The leaf collections matching each recently matched topic, in order of last use (least recent first).
+     * The collections are the ones of the trie, so adding or removing leaves in an existing collection
+     * needs no invalidation: only creating or removing a collection does.
+     * @private
+     */
+    private cache: Map<string, C[]>;
+
+    /**
+     * The index of the cached topics by level, used to find the cached topics matched by a pattern.
+     * @private
+     */
+    private cacheIndex: CacheNode;
+
     /**
      * Constructs a new TopicTrie.
      *
      * @param createLeafCollection A function that returns a new empty `LeafCollection` instance.
      *                             This allows the trie to use different types of leaf collections (e.g., Set, Array).
+     * @param options The options of the trie (e.g. the size of its match cache).
      */
-    constructor(createLeafCollection: () => C) {
+    constructor(createLeafCollection: () => C, options: TopicTrieOptions = {}) {
         this.createLeafCollection = createLeafCollection;
+        this.options = options;
+        this.cache = new Map();
+        this.cacheIndex = { children: new Map() };
         this.root = this.emptyNode();
     }
 
@@ -194,6 +248,24 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
         }
     }
 
+    /**
+     * Returns a generator that yields the leaves (subscribers) of the given topic only, ignoring
+     * the subscriptions with wildcards that match it.
+     *
+     * @param topic The topic to get the leaves of. Must be a valid topic string.
+     * @returns A generator that yields the leaves subscribed to exactly the topic.
+     * @throws {Error} If the topic is invalid according to `TOPIC_REGEX`.
+     */
+    public *getExact(topic: string): Generator<T> {
+        if (!TopicUtils.isValid(topic)) throw new Error('Invalid topic name');
+        let node: TrieNode<T, C> | undefined = this.root;
+        for (const part of topic.split('.')) {
+            node = node.children.get(part);
+            if (!node) return;
+        }
+        yield* node.leafs;
+    }
+
     /**
      * Deletes a leaf (subscriber) from the trie for a given topic pattern.
      *
@@ -220,7 +292,10 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
             if (part === '#') {
                 if (!node.hashWildcard) return false;
                 node.hashWildcard.delete(leaf);
-                if (node.hashWildcard.size === 0) delete node.hashWildcard;
+                if (node.hashWildcard.size === 0) {
+                    delete node.hashWildcard;
+                    this.invalidate(topic);
+                }
                 return true;
             }
 
@@ -249,13 +324,14 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
                 const { node: parent, part } = path[i];
                 const child = part === '+' ? parent.plusWildcard : parent.children.get(part);
 
-                // If child node is empty, remove it
+                // If child node is empty, remove it (together with the cached matches of its collection)
                 if (child && this.isNodeEmpty(child)) {
                     if (part === '+') {
                         delete parent.plusWildcard;
                     } else {
                         parent.children.delete(part);
                     }
+                    this.invalidate(parts.slice(0, i + 1).join('.'));
                 } else {
                     // If we find a non-empty node, stop cleanup
                     break;
@@ -287,6 +363,8 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
      */
     public clear(): void {
         this.root = this.emptyNode(); // Simply replace the root with a new empty node, garbage collector will handle the rest
+        this.cache.clear();
+        this.cacheIndex = { children: new Map() };
     }
 
     /**
@@ -311,13 +389,19 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
 
             // Handle hash wildcard (#) - must be at the end
             if (part === '#') {
-                if (!node.hashWildcard) node.hashWildcard = this.createLeafCollection();
+                if (!node.hashWildcard) {
+                    node.hashWildcard = this.createLeafCollection();
+                    this.invalidate(topic);
+                }
                 return node.hashWildcard;
             }
 
             // Handle plus wildcard (+)
             if (part === '+') {
-                if (!node.plusWildcard) node.plusWildcard = this.emptyNode();
+                if (!node.plusWildcard) {
+                    node.plusWildcard = this.emptyNode();
+                    this.invalidate(parts.slice(0, i + 1).join('.'));
+                }
                 node = node.plusWildcard;
             } else {
                 // Get or create the child node for this part (exact match)
@@ -325,6 +409,7 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
                 if (!child) {
                     child = this.emptyNode();
                     node.children.set(part, child);
+                    this.invalidate(parts.slice(0, i + 1).join('.'));
                 }
                 node = child;
             }
@@ -353,10 +438,104 @@ export class TopicTrie<T, C extends LeafCollection<T>> {
      */
     public *getMatchingCollections(topic: string): Generator<C> {
         if (!TopicUtils.isValidSubscription(topic)) throw new Error('Invalid topic name');
-        const returned = new Set<C>(); // Keep track of returned collections to avoid duplicates
+        if (!this.options.cacheSize) {
+            // Start recursive traversal from the root node
+            yield* this.getMatchingCollectionsRecursive(this.root, topic.split('.'), 0, new Set<C>());
+            return;
+        }
 
-        // Start recursive traversal from the root node
-        yield* this.getMatchingCollectionsRecursive(this.root, topic.split('.'), 0, returned);
+        let collections = this.cache.get(topic);
+        if (collections) {
+            // Move the topic to the end of the cache, as the most recently used
+            this.cache.delete(topic);
+            this.options.onCacheHit?.();
+        } else {
+            collections = Array.from(this.getMatchingCollectionsRecursive(this.root, topic.split('.'), 0, new Set<C>()));
+            this.options.onCacheMiss?.();
+            if (this.cache.size >= this.options.cacheSize) {
+                const evicted = this.cache.keys().next().value!;
+                this.cache.delete(evicted);
+                this.unindex(evicted);
+            }
+            this.index(topic);
+        }
+        this.cache.set(topic, collections);
+        yield* collections;
+    }
+
+    /**
+     * Removes the cached matches of the topics matched by a topic pattern, after a collection was created
+     * or removed for the pattern. The cached matches of the other topics are left untouched.
+     * Only the levels of the cache index the pattern can match are visited.
+     *
+     * @private
+     * @param pattern The topic pattern of the created or removed collection.
+     */
+    private invalidate(pattern: string): void {
+        if (this.cache.size === 0) return;
+        const parts = pattern.split('.');
+        const invalidated: string[] = [];
+        const visit = (node: CacheNode, depth: number): void => {
+            const part = parts[depth];
+            if (part === '#') {
+                // '#' matches the topic of this level too, and every topic below it
+                if (node.topic !== undefined) invalidated.push(node.topic);
+                for (const child of node.children.values()) visit(child, depth);
+            } else if (depth === parts.length) {
+                if (node.topic !== undefined) invalidated.push(node.topic);
+            } else if (part === '+') {
+                for (const child of node.children.values()) visit(child, depth + 1);
+            } else {
+                const child = node.children.get(part);
+                if (child) visit(child, depth + 1);
+            }
+        };
+        visit(this.cacheIndex, 0);
+
+        for (const topic of invalidated) {
+            this.cache.delete(topic);
+            this.unindex(topic);
+        }
+    }
+
+    /**
+     * Adds a cached topic to the cache index.
+     *
+     * @private
+     * @param topic The topic added to the cache.
+     */
+    private index(topic: string): void {
+        let node = this.cacheIndex;
+        for (const part of topic.split('.')) {
+            let child = node.children.get(part);
+            if (!child) {
+                child = { children: new Map() };
+                node.children.set(part, child);
+            }
+            node = child;
+        }
+        node.topic = topic;
+    }
+
+    /**
+     * Removes a topic removed from the cache from the cache index, together with the levels left empty.
+     *
+     * @private
+     * @param topic The topic removed from the cache.
+     */
+    private unindex(topic: string): void {
+        const parts = topic.split('.');
+        const path: CacheNode[] = [this.cacheIndex];
+        for (const part of parts) {
+            const child = path[path.length - 1].children.get(part);
+            if (!child) return;
+            path.push(child);
+        }
+        delete path[parts.length].topic;
+
+        for (let i = parts.length; i > 0 && path[i].topic === undefined && path[i].children.size === 0; i--) {
+            path[i - 1].children.delete(parts[i - 1]);
+        }
     }
 
     /**
@@ -644,4 +823,57 @@ export class SortedSetLeafCollection<T, K extends keyof T> implements LeafCollec
     get size(): number {
         return this.array.length;
     }
-}
\ No newline at end of file
+}
+/**
+ * Implementation of `LeafCollection` using a `Map` keyed by a property of the leaves.
+ * This collection stores unique leaves (by key) in insertion order, replacing the existing leaf when a leaf
+ * with the same key is added.
+ * Useful when subscribers carry data besides their identity, but each subscriber is only added once per topic.
+ *
+ * @template T The type of the leaf stored in the collection.
+ * @template K The key of T identifying a leaf.
+ * @implements {LeafCollection<T>}
+ */
+export class KeyedSetLeafCollection<T, K extends keyof T> implements LeafCollection<T> {
+    /**
+     * The underlying Map to store leaves by key.
+     * @private
+     */
+    private map: Map<T[K], T>;
+
+    /**
+     * The key to use for identifying leaves.
+     * @private
+     */
+    private readonly key: K;
+
+    /**
+     * Constructs a new empty KeyedSetLeafCollection.
+     *
+     * @param key The key of T identifying a leaf.
+     */
+    constructor(key: K) {
+        this.map = new Map();
+        this.key = key;
+    }
+
+    /** @inheritdoc */
+    add(value: T): void {
+        this.map.set(value[this.key], value);
+    }
+
+    /** @inheritdoc */
+    delete(value: T): boolean {
+        return this.map.delete(value[this.key]);
+    }
+
+    /** @inheritdoc */
+    [Symbol.iterator](): Iterator<T> {
+        return this.map.values();
+    }
+
+    /** @inheritdoc */
+    get size(): number {
+        return this.map.size;
+    }
+}
@@ -15,4 +15,48 @@ export enum ActionType {
      * Represents a response action.
      */
     RESPONSE = 'response',
-}
\ No newline at end of file
+    /**
+     * Represents the cancellation of an outstanding request.
+     */
+    CANCEL = 'cancel',
+}
+/**
+ * Enumeration of the strategies for picking a subscriber for a request.
+ * @enum {string}
+ */
+export enum LoadBalancingStrategy {
+    /**
+     * Picks a random subscriber.
+     */
+    RANDOM = 'random',
+    /**
+     * Picks each subscriber in turn.
+     */
+    ROUND_ROBIN = 'round-robin',
+    /**
+     * Picks the subscriber with the fewest outstanding requests.
+     */
+    LEAST_OUTSTANDING = 'least-outstanding',
+    /**
+     * Picks the same subscriber for the same routing key (while the set of subscribers is unchanged).
+     */
+    CONSISTENT_HASH = 'consistent-hash',
+}
+/**
+ * Enumeration of the policies applied to connections that do not read their messages fast enough.
+ * @enum {string}
+ */
+export enum SlowConsumerPolicy {
+    /**
+     * Drops the oldest queued messages to make room for new ones.
+     */
+    DROP_OLDEST = 'drop-oldest',
+    /**
+     * Drops new messages until the connection caught up.
+     */
+    DROP_NEW = 'drop-new',
+    /**
+     * Closes the connection.
+     */
+    DISCONNECT = 'disconnect',
+}
@@ -3,7 +3,7 @@ import * as semver from 'semver';
 import { config } from '@config';
 import { MalformedMessageError, MessageError } from '@core/errors';
 import { ActionType } from '@core/types';
-import { BrokerHeader, ClientHeader, Payload } from '@core/utils/types';
+import { BrokerHeader, ClientHeader, GatherMode, Payload } from '@core/utils/types';
 import * as Topic from '@core/utils/topic';
 import { isUUID4 } from '@core/utils/uuid4';
 /**
@@ -24,14 +24,27 @@ export function prettySize(size: number): string {
 }
 
 const NEWLINE_CHAR = '\n'.charCodeAt(0);
+
+/**
+ * The maximum length of a routing key.
+ */
+export const MAX_ROUTING_KEY_LENGTH = 128;
+
+// Printable ASCII characters, except for the ':' header separator
+const ROUTING_KEY_REGEX = /^[\x21-\x39\x3b-\x7e]+$/;
+
+// 'all', 'quorum', or a positive integer of at most 6 digits
+const GATHER_REGEX = /^(all|quorum|[1-9]\d{0,5})$/;
+
 /**
  * The maximum length of the header in bytes.
- * This is the sum of the maximum lengths of the action, topic, version, requestId, parentRequestId, and timeout.
- * The action is the longest action name, the topic is the maximum topic length, the version is the semver range, the requestId is the UUID length, the parentRequestId is the UUID length, and the timeout is the maximum timeout value.
+ * This is the sum of the maximum lengths of the action, topic, version, requestId, parentRequestId, timeout, routingKey, retries, gather, partial, and retain.
+ * The action is the longest action name, the topic is the maximum topic length, the version is the semver range, the requestId is the UUID length, the parentRequestId is the UUID length, the timeout is the maximum timeout value, the routingKey is the maximum routing key length, the retries is the maximum retry budget, the gather is the longest gather mode, and the partial and retain are the flags.
  */
-export const MAX_HEADER_LENGTH = Object.values(ActionType).reduce((acc, action) => Math.max(acc, action.length), 0) + 1 + Topic.MAX_TOPIC_LENGTH + 1 + 20 + 1 + 36 + 1 + 36 + 1 + config.request.response.timeout.max.toString().length;
+export const MAX_HEADER_LENGTH = Object.values(ActionType).reduce((acc, action) => Math.max(acc, action.length), 0) + 1 + Topic.MAX_TOPIC_LENGTH + 1 + 20 + 1 + 36 + 1 + 36 + 1 + config.request.response.timeout.max.toString().length + 1 + MAX_ROUTING_KEY_LENGTH + 1 + config.request.retries.max.toString().length + 1 + 'quorum'.length + 1 + 'true'.length + 1 + 'true'.length;
 
 const ERROR_KEY = Buffer.from('error:');
+const EMPTY_PAYLOAD = Buffer.alloc(0);
 
 /**
  * Parses a message string into a Message object.
@@ -81,7 +94,7 @@ export class Parser {
 
     /**
      * Parses the message header from the message string.
-     * {action}:{topic}:{version}[:{requestId}[:{parentRequestId}[:{timeout}]]]
+     * {action}:{topic}:{version}[:{requestId}[:{parentRequestId}[:{timeout}[:{routingKey}[:{retries}[:{gather}[:{partial}[:{retain}]]]]]]]]
      *
      * @returns The parsed message header.
      * @throws MalformedMessageError if the message format is invalid.
@@ -103,6 +116,11 @@ export class Parser {
         if (headerParts.length >= 4 && headerParts[3]) header.requestId = headerParts[3];
         if (headerParts.length >= 5 && headerParts[4]) header.parentRequestId = headerParts[4];
         if (headerParts.length >= 6 && headerParts[5]) header.timeout = parseInt(headerParts[5]);
+        if (headerParts.length >= 7 && headerParts[6]) header.routingKey = headerParts[6];
+        if (headerParts.length >= 8 && headerParts[7]) header.retries = Number(headerParts[7]);
+        if (headerParts.length >= 9 && headerParts[8]) header.gather = /^\d+$/.test(headerParts[8]) ? Number(headerParts[8]) : headerParts[8] as GatherMode;
+        const partial = headerParts.length >= 10 ? headerParts[9] : '';
+        const retain = headerParts.length >= 11 ? headerParts[10] : '';
 
         // Validate the action
         const validActions = Object.values(ActionType);
@@ -130,6 +148,11 @@ export class Parser {
             }
         }
 
+        // Validate that cancellations identify the request to cancel
+        if (header.action === ActionType.CANCEL && !header.requestId) {
+            throw new MalformedMessageError('Cancel requires a request ID');
+        }
+
         // Validate the parent request ID
         if (header.parentRequestId && !isUUID4(header.parentRequestId)) {
             throw new MalformedMessageError(`Invalid parent request ID format: ${header.parentRequestId}`, { parentRequestId: header.parentRequestId });
@@ -145,6 +168,64 @@ export class Parser {
             }
         }
 
+        // Validate the routing key if present in the header
+        if (header.routingKey !== undefined) {
+            if (header.action !== ActionType.REQUEST) {
+                throw new MalformedMessageError('Routing key is only allowed for request actions', { action: header.action });
+            }
+            if (header.routingKey.length > MAX_ROUTING_KEY_LENGTH || !ROUTING_KEY_REGEX.test(header.routingKey)) {
+                throw new MalformedMessageError('Invalid routing key', { routingKey: header.routingKey });
+            }
+        }
+
+        // Validate the retry budget if present in the header
+        if (header.retries !== undefined) {
+            if (header.action !== ActionType.REQUEST) {
+                throw new MalformedMessageError('Retries are only allowed for request actions', { action: header.action });
+            }
+            if (!Number.isInteger(header.retries) || header.retries < 0 || header.retries > config.request.retries.max) {
+                throw new MalformedMessageError('Invalid retries value', { retries: header.retries, max: config.request.retries.max });
+            }
+        }
+
+        // Validate the gather mode if present in the header
+        if (header.gather !== undefined) {
+            if (header.action !== ActionType.REQUEST) {
+                throw new MalformedMessageError('Gather is only allowed for request actions', { action: header.action });
+            }
+            if (!GATHER_REGEX.test(String(header.gather))) {
+                throw new MalformedMessageError('Invalid gather mode', { gather: header.gather });
+            }
+            if (!header.requestId) {
+                throw new MalformedMessageError('Gather requires a request ID');
+            }
+            if (header.retries) {
+                throw new MalformedMessageError('Retries are not allowed for gather requests');
+            }
+        }
+
+        // Validate the partial flag if present in the header
+        if (partial) {
+            if (header.action !== ActionType.RESPONSE) {
+                throw new MalformedMessageError('Partial is only allowed for response actions', { action: header.action });
+            }
+            if (partial !== 'true') {
+                throw new MalformedMessageError('Invalid partial flag', { partial });
+            }
+            header.partial = true;
+        }
+
+        // Validate the retain flag if present in the header
+        if (retain) {
+            if (header.action !== ActionType.PUBLISH) {
+                throw new MalformedMessageError('Retain is only allowed for publish actions', { action: header.action });
+            }
+            if (retain !== 'true') {
+                throw new MalformedMessageError('Invalid retain flag', { retain });
+            }
+            header.retain = true;
+        }
+
         return header;
     }
 
@@ -199,15 +280,32 @@ export function serialize<T extends BrokerHeader | ClientHeader>(header: T, payl
     // Create the header line
     let headerLine = `${header.action}:${header.topic}:${header.version}`;
 
-    // Add the requestId, parentRequestId, and timeout to the header line if present
-    if ((header as ClientHeader).timeout) headerLine += `:${(header as ClientHeader).requestId ?? ''}:${(header as ClientHeader).parentRequestId ?? ''}:${(header as ClientHeader).timeout}`;
-    else if ((header as ClientHeader).parentRequestId) headerLine += `:${(header as ClientHeader).requestId ?? ''}:${(header as ClientHeader).parentRequestId}`;
-    else if (header.requestId) headerLine += `:${header.requestId}`;
+    // Add the requestId, parentRequestId, timeout, routingKey, retries, gather, partial, and retain to the header line if present,
+    // leaving the skipped fields before the last present one blank
+    const { requestId, parentRequestId, timeout, routingKey, retries, gather, partial, retain } = header as ClientHeader;
+    const optionalFields = [requestId, parentRequestId, timeout, routingKey, retries, gather, partial, retain].map(field => field ? String(field) : '');
+    while (optionalFields.length > 0 && !optionalFields[optionalFields.length - 1]) optionalFields.pop();
+    if (optionalFields.length > 0) headerLine += `:${optionalFields.join(':')}`;
 
     // Return the serialized message string
     return `${headerLine}\n${serializePayload(payload, replacer)}`;
 }
 
+/**
+ * Encodes a message into the bytes sent over a connection, without decoding raw payloads into a string first.
+ * The encoded message can be sent to any number of connections.
+ * @param header The message header.
+ * @param payload The message payload.
+ * @returns The encoded message.
+ */
+export function encode<T extends BrokerHeader | ClientHeader>(header: T, payload: Payload | Buffer): Buffer {
+    if (!Buffer.isBuffer(payload)) return Buffer.from(serialize(header, payload));
+    const headerLine = serialize(header, EMPTY_PAYLOAD);
+    const encoded = Buffer.allocUnsafe(Buffer.byteLength(headerLine) + payload.length);
+    payload.copy(encoded, encoded.write(headerLine));
+    return encoded;
+}
+
 export function toBrokerHeader(header: ClientHeader, action: ActionType = header.action, requestId?: string): BrokerHeader {
     // If no requestId is provided, generate a new one
     if (!requestId) requestId = randomUUID();
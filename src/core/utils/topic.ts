@@ -1,17 +1,21 @@
-const TOPIC_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9]*(\.[a-zA-Z][a-zA-Z0-9]*){0,4}$/; // Limit to 5 levels deep
-const TOPIC_SUBSCRIPTION_NAME_REGEX = /^([a-zA-Z][a-zA-Z0-9]*|\+|#$)(\.([a-zA-Z][a-zA-Z0-9]*|\+|#$)){0,4}$/; // Limit to 5 levels deep
+import { config } from '@config';
 
-export const MAX_TOPIC_LENGTH = 255;
+// A topic level starts with a letter, followed by the configured characters (validated when loading the configuration)
+const TOPIC_LEVEL = `[a-zA-Z][${config.topic.characters}]*`;
+const TOPIC_NAME_REGEX = new RegExp(`^${TOPIC_LEVEL}(\\.${TOPIC_LEVEL}){0,${config.topic.maxDepth - 1}}$`);
+const TOPIC_SUBSCRIPTION_NAME_REGEX = new RegExp(`^(${TOPIC_LEVEL}|\\+|#$)(\\.(${TOPIC_LEVEL}|\\+|#$)){0,${config.topic.maxDepth - 1}}$`);
+
+export const MAX_TOPIC_LENGTH = config.topic.maxLength;
 
 /**
  * Validates a topic name against the defined rules.
  *
  * A valid topic name must:
- * - Be a string with a maximum length of 255 characters.
- * - Start with a lowercase or uppercase letter.
- * - Contain only lowercase or uppercase letters, numbers, and dots (.).
+ * - Be a string with a maximum length of `topic.maxLength` characters (255 by default).
+ * - Start each level with a lowercase or uppercase letter.
+ * - Contain only the `topic.characters` after the first letter of each level (letters and numbers by default).
  * - Follow a hierarchical structure using dots as separators (e.g., 'baggage.events.europe').
- * - Have a maximum depth of 5 levels.
+ * - Have a maximum depth of `topic.maxDepth` levels (5 by default).
  * - Not contain consecutive dots (e.g., 'a..b' is invalid).
  * - Not start or end with a dot.
  *
@@ -27,10 +31,10 @@ export function isValid(name: string): boolean {
  * Validates a topic subscription name against the defined rules.
  *
  * A valid topic subscription name must:
- * - Be a string with a maximum length of 255 characters.
- * - Contain only lowercase or uppercase letters, numbers, dots (.), plus (+), or hash (#).
+ * - Be a string with a maximum length of `topic.maxLength` characters (255 by default).
+ * - Have levels that are either valid topic levels, plus (+), or hash (#) as the last level.
  * - Follow a hierarchical structure using dots as separators (e.g., 'baggage.events.europe').
- * - Have a maximum depth of 5 levels.
+ * - Have a maximum depth of `topic.maxDepth` levels (5 by default).
  * - Not contain consecutive dots (e.g., 'a..b' is invalid).
  * - Not start or end with a dot.
  *
@@ -146,11 +150,11 @@ export function test(name: string, pattern: string): boolean {
     const canonicalTopic = getCanonical(name);
     const canonicalPattern = getCanonical(pattern);
 
-    // Replace '.' with '\.' for regex escaping
+    // Escape the regex characters the configured topic characters may include, and '.'
     // Replace '*' with '[^.]+' to match one or more characters except a dot
     // Replace '>' at the end with '.*' to match anything that follows
     const regexPattern = canonicalPattern
-        .replace(/\./g, '\\.')
+        .replace(/[\\^$.|?()[\]{}]/g, '\\$&')
         .replace(/\*/g, '[^.]+')
         .replace(/>$/, '.*');
 
@@ -161,3 +165,30 @@ export function test(name: string, pattern: string): boolean {
     // Test the topic against the regular expression
     return regex.test(canonicalTopic);
 }
+
+/**
+ * Checks if a topic matches a subscription pattern, following the wildcard rules of the subscriptions.
+ *
+ * Supports two wildcard levels:
+ * - '+': Matches exactly one level.
+ * - '#': Matches any number of levels, including none (must be the last level of the pattern).
+ *
+ * For example:
+ * - matches('baggage.events.europe', 'baggage.+.europe') returns true
+ * - matches('baggage.events.europe', 'baggage.#') returns true
+ * - matches('baggage', 'baggage.#') returns true
+ * - matches('baggage.events.europe', 'baggage.+') returns false
+ *
+ * @param name The topic name to check (in canonical form).
+ * @param pattern The subscription pattern to match against (in canonical form).
+ * @returns True if the topic matches the pattern, false otherwise.
+ */
+export function matches(name: string, pattern: string): boolean {
+    const levels = name.split('.');
+    const patternLevels = pattern.split('.');
+    for (let i = 0; i < patternLevels.length; i++) {
+        if (patternLevels[i] === '#') return true;
+        if (i >= levels.length || (patternLevels[i] !== '+' && patternLevels[i] !== levels[i])) return false;
+    }
+    return patternLevels.length === levels.length;
+}
@@ -19,13 +19,36 @@ export type BrokerHeader = {
 
     /** Optional unique identifier for parent request-response message pairs */
     parentRequestId?: string;
+
+    /** Optional flag marking a response as one part of a streamed response (more parts follow) */
+    partial?: boolean;
+
+    /** Optional flag marking a publish as the retained last value of its topic */
+    retain?: boolean;
 };
 
 export type ClientHeader = BrokerHeader & {
     /** Optional timeout for request-response message pairs */
     timeout?: number;
+
+    /** Optional key for routing requests with the same key to the same subscriber (consistent-hash load balancing) */
+    routingKey?: string;
+
+    /** Optional number of times the broker may re-route a request to another subscriber */
+    retries?: number;
+
+    /** Optional completion mode for sending a request to all subscribers and aggregating their responses */
+    gather?: GatherMode;
 };
 
+/**
+ * The completion mode of a gather request:
+ * - `all`: completes once all subscribers responded successfully
+ * - `quorum`: completes once a majority of the subscribers responded successfully
+ * - a number N: completes once the first N subscribers responded successfully
+ */
+export type GatherMode = 'all' | 'quorum' | number;
+
 /**
  * Represents an error structure within a message.
  * Used to communicate error details in a standardized format.
@@ -16,6 +16,12 @@ export async function startServer() {
         process.exit(0);
     });
 
+    // Reload the topic ACL policy
+    process.on('SIGHUP', () => {
+        logger.info('Received SIGHUP signal. Reloading the topic ACL policy...');
+        messageBroker.reloadPolicy();
+    });
+
     process.on('SIGTERM', () => {
         logger.info('Received SIGTERM signal. Shutting down...');
         messageBroker.shutdown();
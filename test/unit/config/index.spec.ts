@@ -64,12 +64,19 @@ describe('Config', () => {
                 websocket: 8080,
                 tcp: 8081
             },
+            http: {},
             host: 'localhost',
+            topic: {
+                maxLength: 255,
+                maxDepth: 5,
+                characters: 'a-zA-Z0-9'
+            },
             logging: {
                 level: 'info',
                 format: 'json'
             },
             auth: {
+                acl: {},
                 failure: {
                     lockout: {
                         threshold: 5,
@@ -92,7 +99,12 @@ describe('Config', () => {
                     concurrent: 1000
                 },
                 heartbeatRetryTimeout: 5000,
-                heartbeatDeregisterTimeout: 30000
+                heartbeatDeregisterTimeout: 30000,
+                outbound: {
+                    highWaterMark: 8388608,
+                    lowWaterMark: 1048576,
+                    policy: 'disconnect'
+                }
             },
             request: {
                 response: {
@@ -100,6 +112,13 @@ describe('Config', () => {
                         default: 30000,
                         max: 60000
                     }
+                },
+                loadbalancing: {
+                    strategy: 'random',
+                    topics: {}
+                },
+                retries: {
+                    max: 5
                 }
             },
             max: {
@@ -112,6 +131,45 @@ describe('Config', () => {
                     maxLength: 1048576 // 1MB
                 }
             },
+            durable: {
+                directory: './data/durable',
+                segment: {
+                    maxSize: 1048576
+                },
+                retention: {
+                    maxSize: 0,
+                    maxAge: 0
+                },
+                compaction: {
+                    interval: 60000
+                },
+                ack: {
+                    interval: 1000
+                }
+            },
+            delivery: {
+                ack: {
+                    timeout: 5000
+                },
+                backoff: {
+                    max: 60000
+                },
+                attempts: {
+                    max: 5
+                }
+            },
+            deadletter: {
+                topic: 'system.deadletter'
+            },
+            subscription: {
+                cache: {
+                    size: 10000
+                },
+                retained: {
+                    maxCount: 10000,
+                    maxSize: 16777216
+                }
+            },
             monitoring: {
                 interval: 5000
             },
@@ -129,16 +187,40 @@ describe('Config', () => {
             WSS_PORT: '9443',
             TCP_PORT: '9091',
             TLS_PORT: '9444',
+            HTTP_ENABLED: 'true',
+            HTTP_PORT: '9092',
             HOST: 'test-host',
+            TOPIC_MAX_LENGTH: '512',
+            TOPIC_MAX_DEPTH: '8',
+            TOPIC_CHARACTERS: 'a-zA-Z0-9_-',
             ALLOW_UNSECURE: 'true',
+            AUTH_ENABLED: 'true',
+            AUTH_CREDENTIALS: '/path/to/credentials.yaml',
+            AUTH_ACL_POLICY: '/path/to/policy.yaml',
             AUTH_FAILURE_LOCKOUT_THRESHOLD: '10',
             AUTH_FAILURE_LOCKOUT_DURATION: '600',
             RATE_LIMIT_GLOBAL_PER_SERVICE: '2000',
             RATE_LIMIT_GLOBAL_PER_TOPIC: '200',
+            RATE_LIMIT_ADMINS: 'ops, sre',
             CONNECTION_MAX_CONCURRENT: '2000',
+            CONNECTION_OUTBOUND_HIGH_WATER_MARK: '4096',
+            CONNECTION_OUTBOUND_LOW_WATER_MARK: '1024',
+            CONNECTION_OUTBOUND_POLICY: 'drop-oldest',
             REQUEST_RESPONSE_TIMEOUT_DEFAULT: '45000',
             REQUEST_RESPONSE_TIMEOUT_MAX: '90000',
+            REQUEST_LOADBALANCING_STRATEGY: 'round-robin',
+            REQUEST_RETRIES_MAX: '2',
             MAX_OUTSTANDING_REQUESTS: '200',
+            DURABLE_DIRECTORY: '/var/lib/broker',
+            DURABLE_RETENTION_MAX_SIZE: '1024',
+            DURABLE_RETENTION_MAX_AGE: '3600000',
+            DURABLE_ACK_INTERVAL: '250',
+            DELIVERY_ACK_TIMEOUT: '2000',
+            DELIVERY_ATTEMPTS_MAX: '3',
+            DEADLETTER_TOPIC: 'system.dropped',
+            SUBSCRIPTION_CACHE_SIZE: '500',
+            SUBSCRIPTION_RETAINED_MAX_COUNT: '100',
+            SUBSCRIPTION_RETAINED_MAX_SIZE: '65536',
             SSL_KEY: '/path/to/key.pem',
             SSL_CERT: '/path/to/cert.pem'
         };
@@ -154,19 +236,104 @@ describe('Config', () => {
         expect(config.ports.wss).toBe(9443);
         expect(config.ports.tcp).toBe(9091);
         expect(config.ports.tls).toBe(9444);
+        expect(config.http).toEqual({ enabled: true, port: 9092 });
         expect(config.host).toBe('test-host');
+        expect(config.auth.enabled).toBe(true);
+        expect(config.auth.credentials).toBe('/path/to/credentials.yaml');
+        expect(config.auth.acl.policy).toBe('/path/to/policy.yaml');
         expect(config.auth.failure.lockout.threshold).toBe(10);
         expect(config.auth.failure.lockout.duration).toBe(600);
         expect(config.rate.limit.global.per.service).toBe(2000);
         expect(config.rate.limit.global.per.topic).toBe(200);
+        expect(config.rate.limit.admins).toEqual(['ops', 'sre']);
         expect(config.connection.max.concurrent).toBe(2000);
+        expect(config.connection.outbound).toEqual({ highWaterMark: 4096, lowWaterMark: 1024, policy: 'drop-oldest' });
         expect(config.request.response.timeout.default).toBe(45000);
         expect(config.request.response.timeout.max).toBe(90000);
+        expect(config.request.loadbalancing.strategy).toBe('round-robin');
+        expect(config.request.retries.max).toBe(2);
         expect(config.max.outstanding.requests).toBe(200);
+        expect(config.durable.directory).toBe('/var/lib/broker');
+        expect(config.durable.retention.maxSize).toBe(1024);
+        expect(config.durable.retention.maxAge).toBe(3600000);
+        expect(config.durable.ack.interval).toBe(250);
+        expect(config.delivery.ack.timeout).toBe(2000);
+        expect(config.delivery.attempts.max).toBe(3);
+        expect(config.deadletter.topic).toBe('system.dropped');
+        expect(config.subscription.cache.size).toBe(500);
+        expect(config.subscription.retained).toEqual({ maxCount: 100, maxSize: 65536 });
+        expect(config.topic).toEqual({ maxLength: 512, maxDepth: 8, characters: 'a-zA-Z0-9_-' });
         expect(config.ssl.key).toBe('/path/to/key.pem');
         expect(config.ssl.cert).toBe('/path/to/cert.pem');
 
         // Restore original environment
         process.env = originalEnv;
     });
+
+    describe('validateTopicConfig', () => {
+        const validate = (topic: any) => {
+            const { validateTopicConfig } = jest.requireActual('@config');
+            return () => validateTopicConfig({ topic });
+        };
+
+        it('should accept valid topic grammars', () => {
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'a-zA-Z0-9' })).not.toThrow();
+            expect(validate({ maxLength: 64, maxDepth: 10, characters: 'a-z0-9_-' })).not.toThrow();
+        });
+
+        it('should reject invalid lengths and depths', () => {
+            expect(validate({ maxLength: 0, maxDepth: 5, characters: 'a-z' })).toThrow('Invalid topic.maxLength: 0');
+            expect(validate({ maxLength: 255, maxDepth: 2.5, characters: 'a-z' })).toThrow('Invalid topic.maxDepth: 2.5');
+        });
+
+        it('should reject characters with a meaning in topics, headers or metric names', () => {
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'a-z.' })).toThrow('must not allow "."');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'a-z:+' })).toThrow('must not allow "+", ":"');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'a-z*>' })).toThrow('must not allow "*", ">"');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: '^a-z' })).toThrow('must not allow');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'z-a' })).toThrow('Invalid topic.characters: z-a');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: 'a-z]' })).toThrow('without brackets or backslashes');
+            expect(validate({ maxLength: 255, maxDepth: 5, characters: '' })).toThrow('Invalid topic.characters');
+        });
+
+        it('should report an invalid topic grammar when loading the configuration', () => {
+            (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ topic: { maxLength: 255, maxDepth: 0, characters: 'a-z' } }));
+            (path.join as jest.Mock).mockReturnValue('/test/path/config.yaml');
+
+            jest.isolateModules(() => {
+                expect(() => require('@config')).toThrow('Invalid topic.maxDepth: 0');
+            });
+            expect(console.error).toHaveBeenCalledWith('Error loading configuration:', expect.any(Error));
+        });
+    });
+
+    describe('validateOutboundConfig', () => {
+        const validate = (policy: string) => {
+            const { validateOutboundConfig } = jest.requireActual('@config');
+            return () => validateOutboundConfig({ connection: { outbound: { highWaterMark: 8388608, lowWaterMark: 1048576, policy } } });
+        };
+
+        it('should accept the slow-consumer policies', () => {
+            expect(validate('disconnect')).not.toThrow();
+            expect(validate('drop-new')).not.toThrow();
+            expect(validate('drop-oldest')).not.toThrow();
+        });
+
+        it('should reject unknown slow-consumer policies', () => {
+            expect(validate('drop-all')).toThrow('Invalid connection.outbound.policy: drop-all, expected one of drop-oldest, drop-new, disconnect');
+        });
+
+        it('should report an unknown slow-consumer policy when loading the configuration', () => {
+            (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+                topic: { maxLength: 255, maxDepth: 5, characters: 'a-z' },
+                connection: { outbound: { highWaterMark: 8388608, lowWaterMark: 1048576, policy: 'drop' } },
+            }));
+            (path.join as jest.Mock).mockReturnValue('/test/path/config.yaml');
+
+            jest.isolateModules(() => {
+                expect(() => require('@config')).toThrow('Invalid connection.outbound.policy: drop');
+            });
+            expect(console.error).toHaveBeenCalledWith('Error loading configuration:', expect.any(Error));
+        });
+    });
 });
\ No newline at end of file
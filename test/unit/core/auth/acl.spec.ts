@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import { AccessPolicy, loadPolicy } from '@core/auth/acl';
+import { InternalError } from '@core/errors';
+
+// Keep the real file system for the configuration, but allow the policy file to be mocked
+jest.mock('fs', () => {
+    const actual = jest.requireActual<typeof import('fs')>('fs');
+    return { ...actual, readFileSync: jest.fn(actual.readFileSync) };
+});
+
+/**
+ * Test suite for the AccessPolicy class.
+ * Tests the evaluation of allow and deny rules on topics and topic patterns.
+ */
+describe('AccessPolicy', () => {
+    const policy = new AccessPolicy('deny', [
+        { identity: 'billing', effect: 'allow', actions: ['publish', 'subscribe'], topics: ['billing.#'] },
+        { identity: 'billing', effect: 'deny', actions: ['subscribe'], topics: ['billing.audit.+'] },
+        { identity: '*', effect: 'allow', actions: ['request', 'subscribe'], topics: ['orders.+.status'] },
+    ]);
+
+    /**
+     * Verifies that allow rules apply to their identity, actions and topics only.
+     */
+    it('should allow topics covered by an allow rule', () => {
+        expect(policy.isAllowed('billing', 'publish', 'billing')).toBe(true);
+        expect(policy.isAllowed('billing', 'publish', 'billing.invoice.created')).toBe(true);
+        expect(policy.isAllowed('billing', 'request', 'billing.invoice')).toBe(false);
+        expect(policy.isAllowed('sorter', 'publish', 'billing.invoice')).toBe(false);
+        expect(policy.isAllowed('billing', 'publish', 'orders.invoice')).toBe(false);
+    });
+
+    /**
+     * Verifies that '*' rules apply to every service, including unauthenticated ones.
+     */
+    it('should apply wildcard identity rules to every service', () => {
+        expect(policy.isAllowed('sorter', 'request', 'orders.eu.status')).toBe(true);
+        expect(policy.isAllowed(undefined, 'request', 'orders.eu.status')).toBe(true);
+        expect(policy.isAllowed(undefined, 'request', 'orders.eu.status.details')).toBe(false);
+    });
+
+    /**
+     * Verifies that subscription patterns are allowed only if an allow rule covers every topic they match.
+     */
+    it('should only allow subscription patterns covered by an allow rule', () => {
+        expect(policy.isAllowed('sorter', 'subscribe', 'orders.+.status')).toBe(true);
+        expect(policy.isAllowed('sorter', 'subscribe', 'orders.#')).toBe(false);
+        expect(policy.isAllowed('sorter', 'subscribe', 'orders.+.+')).toBe(false);
+        expect(policy.isAllowed('billing', 'subscribe', 'billing.invoice.#')).toBe(true);
+    });
+
+    /**
+     * Verifies that deny rules win over allow rules, including for patterns that only overlap them.
+     */
+    it('should deny topics and patterns overlapping a deny rule', () => {
+        expect(policy.isAllowed('billing', 'subscribe', 'billing.audit.daily')).toBe(false);
+        expect(policy.isAllowed('billing', 'subscribe', 'billing.#')).toBe(false);
+        expect(policy.isAllowed('billing', 'subscribe', 'billing.+.daily')).toBe(false);
+        expect(policy.isAllowed('billing', 'subscribe', 'billing.audit')).toBe(true);
+        expect(policy.isAllowed('billing', 'publish', 'billing.audit.daily')).toBe(true);
+    });
+
+    /**
+     * Verifies that the default effect applies when no rule matches, and that system topics are exempt.
+     */
+    it('should apply the default effect and exempt system topics', () => {
+        const open = new AccessPolicy('allow', [{ identity: '*', effect: 'deny', actions: ['publish'], topics: ['#'] }]);
+        expect(open.isAllowed('sorter', 'subscribe', 'baggage.events')).toBe(true);
+        expect(open.isAllowed('sorter', 'publish', 'baggage.events')).toBe(false);
+        expect(open.isAllowed('sorter', 'publish', 'system.log')).toBe(true);
+        expect(policy.isAllowed('sorter', 'subscribe', 'system.topic.subscribe')).toBe(true);
+    });
+
+    /**
+     * Verifies that the dead-letter topic is only allowed by a rule naming it, as it carries protected messages.
+     */
+    it('should only allow the dead-letter topic with an allow rule naming it', () => {
+        const open = new AccessPolicy('allow', [
+            { identity: '*', effect: 'allow', actions: ['subscribe'], topics: ['#'] },
+            { identity: 'ops', effect: 'allow', actions: ['subscribe'], topics: [config.deadletter.topic] },
+        ]);
+        expect(open.isAllowed('sorter', 'subscribe', config.deadletter.topic)).toBe(false);
+        expect(open.isAllowed(undefined, 'subscribe', config.deadletter.topic)).toBe(false);
+        expect(open.isAllowed('ops', 'subscribe', config.deadletter.topic)).toBe(true);
+        expect(policy.isAllowed('billing', 'subscribe', config.deadletter.topic)).toBe(false);
+    });
+});
+
+/**
+ * Test suite for loading the policy file.
+ */
+describe('loadPolicy', () => {
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    /**
+     * Verifies that a valid policy file is parsed, denying by default.
+     */
+    it('should load the rules of a policy file', () => {
+        (fs.readFileSync as jest.Mock).mockReturnValue(`
+rules:
+  - identity: billing
+    effect: allow
+    actions: [publish]
+    topics: ['billing.#']
+`);
+        const policy = loadPolicy('/etc/mb/policy.yaml');
+        expect(policy.size).toBe(1);
+        expect(policy.isAllowed('billing', 'publish', 'billing.invoice')).toBe(true);
+        expect(policy.isAllowed('billing', 'publish', 'orders.created')).toBe(false);
+    });
+
+    /**
+     * Verifies that malformed policy files are rejected.
+     */
+    it('should reject malformed policy files', () => {
+        const load = (content: string) => {
+            (fs.readFileSync as jest.Mock).mockReturnValue(content);
+            return () => loadPolicy('/etc/mb/policy.yaml');
+        };
+
+        expect(load('default: maybe')).toThrow(InternalError);
+        expect(load('rules: billing')).toThrow('rules must be a list');
+        expect(load('rules:\n  - effect: allow')).toThrow('rule 0 requires an identity');
+        expect(load('rules:\n  - { identity: billing, effect: permit }')).toThrow('rule 0 requires an effect of allow or deny');
+        expect(load('rules:\n  - { identity: billing, effect: allow, actions: [respond], topics: [billing] }')).toThrow('rule 0 requires actions among publish, request, subscribe');
+        expect(load('rules:\n  - { identity: billing, effect: allow, actions: [publish], topics: [billing..invoice] }')).toThrow('rule 0 requires valid non-system topic patterns');
+        expect(load('rules:\n  - { identity: billing, effect: allow, actions: [publish], topics: [system.log] }')).toThrow('rule 0 requires valid non-system topic patterns');
+        expect(load(`rules:\n  - { identity: ops, effect: allow, actions: [subscribe], topics: [${config.deadletter.topic}] }`)().size).toBe(1);
+    });
+});
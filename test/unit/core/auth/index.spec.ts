@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import { AuthManager, loadCredentials } from '@core/auth';
+import { ForbiddenError, InternalError, UnauthorizedError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { RateSlot } from '@core/monitoring/metrics/slots';
+
+// Keep the real file system for the configuration, but allow the credentials file to be mocked
+jest.mock('fs', () => {
+    const actual = jest.requireActual<typeof import('fs')>('fs');
+    return { ...actual, readFileSync: jest.fn(actual.readFileSync) };
+});
+jest.mock('@utils/logger', () => {
+    const mockLogger = {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    };
+    return {
+        __esModule: true,
+        default: mockLogger,
+        SetupLogger: jest.fn().mockReturnValue(mockLogger)
+    };
+});
+
+const CREDENTIALS_FILE = `
+credentials:
+  - identity: sorter
+    apiKey: sorter-api-key
+  - identity: scanner
+    secret: scanner-secret
+`;
+
+/**
+ * Test suite for the AuthManager class.
+ * Tests credential loading, the authentication handshake and the IP lockout.
+ */
+describe('AuthManager', () => {
+    let monitoringManager: MonitoringManager;
+    let authManager: AuthManager;
+    const originalAuth = JSON.parse(JSON.stringify(config.auth));
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        config.auth.enabled = true;
+        config.auth.credentials = '/etc/mb/credentials.yaml';
+        config.auth.failure.lockout.threshold = 3;
+        config.auth.failure.lockout.duration = 60;
+        (fs.readFileSync as jest.Mock).mockReturnValue(CREDENTIALS_FILE);
+
+        monitoringManager = new MonitoringManager();
+        authManager = new AuthManager(monitoringManager);
+    });
+
+    afterEach(() => {
+        authManager.dispose();
+        monitoringManager.dispose();
+        config.auth = JSON.parse(JSON.stringify(originalAuth));
+        jest.clearAllMocks();
+        jest.useRealTimers();
+    });
+
+    /**
+     * Tests for loading the credentials file.
+     */
+    describe('loadCredentials', () => {
+        /**
+         * Verifies that a valid credentials file is parsed.
+         */
+        it('should load API keys and shared secrets', () => {
+            expect(loadCredentials('/etc/mb/credentials.yaml')).toEqual([
+                { identity: 'sorter', apiKey: 'sorter-api-key' },
+                { identity: 'scanner', secret: 'scanner-secret' },
+            ]);
+        });
+
+        /**
+         * Verifies that an empty file yields no credentials.
+         */
+        it('should return no credentials for an empty file', () => {
+            (fs.readFileSync as jest.Mock).mockReturnValue('');
+            expect(loadCredentials('/etc/mb/credentials.yaml')).toEqual([]);
+        });
+
+        /**
+         * Verifies that malformed files are rejected.
+         */
+        it('should reject malformed credentials files', () => {
+            (fs.readFileSync as jest.Mock).mockReturnValue('credentials: sorter');
+            expect(() => loadCredentials('/etc/mb/credentials.yaml')).toThrow(InternalError);
+
+            (fs.readFileSync as jest.Mock).mockReturnValue('credentials:\n  - apiKey: key');
+            expect(() => loadCredentials('/etc/mb/credentials.yaml')).toThrow('every credential requires an identity');
+
+            (fs.readFileSync as jest.Mock).mockReturnValue('credentials:\n  - identity: sorter');
+            expect(() => loadCredentials('/etc/mb/credentials.yaml')).toThrow('sorter requires an apiKey or a secret');
+        });
+    });
+
+    /**
+     * Tests for the authenticate method.
+     */
+    describe('authenticate', () => {
+        /**
+         * Verifies that a valid API key grants its identity.
+         */
+        it('should authenticate with an API key', () => {
+            expect(authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' })).toBe('sorter');
+            expect(authManager.getIdentity('service1')).toBe('sorter');
+            expect(monitoringManager.getMetric('auth.success.total')?.value).toBe(1);
+        });
+
+        /**
+         * Verifies that a valid identity and shared secret grants the identity.
+         */
+        it('should authenticate with a shared secret', () => {
+            expect(authManager.authenticate('service1', '10.0.0.1', { identity: 'scanner', secret: 'scanner-secret' })).toBe('scanner');
+            expect(authManager.getIdentity('service1')).toBe('scanner');
+        });
+
+        /**
+         * Verifies that invalid credentials are rejected and counted.
+         */
+        it('should reject invalid credentials', () => {
+            // Use a different IP for each attempt so the lockout does not kick in
+            expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow(UnauthorizedError);
+            expect(() => authManager.authenticate('service1', '10.0.0.2', { identity: 'scanner', secret: 'wrong' })).toThrow('Invalid credentials');
+            expect(() => authManager.authenticate('service1', '10.0.0.3', { identity: 'sorter', secret: 'sorter-api-key' })).toThrow('Invalid credentials');
+            expect(() => authManager.authenticate('service1', '10.0.0.4', {})).toThrow('Invalid credentials');
+
+            // Verify no identity was granted and the failures were counted
+            expect(authManager.getIdentity('service1')).toBeUndefined();
+            expect(monitoringManager.getMetric('auth.failure.total')?.value).toBe(4);
+        });
+
+        /**
+         * Verifies that an IP is locked out once the failure threshold is reached.
+         */
+        it('should lock out an IP after reaching the failure threshold', () => {
+            for (let i = 0; i < 3; i++) {
+                expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow('Invalid credentials');
+            }
+
+            // Verify valid credentials are now rejected for the locked out IP
+            expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' }))
+                .toThrow(expect.objectContaining({ code: 'UNAUTHORIZED', details: { retryAfter: 60 } }));
+            expect(authManager.getLockoutRemaining('10.0.0.1')).toBe(60);
+            expect(monitoringManager.getMetric('auth.lockout.active')?.value).toBe(1);
+            expect(monitoringManager.getMetric('auth.lockout.total')?.value).toBe(1);
+
+            // Verify other IPs are unaffected
+            expect(authManager.authenticate('service2', '10.0.0.2', { apiKey: 'sorter-api-key' })).toBe('sorter');
+        });
+
+        /**
+         * Verifies that the lockout is lifted once the duration has elapsed.
+         */
+        it('should lift the lockout after the configured duration', () => {
+            for (let i = 0; i < 3; i++) {
+                expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow(UnauthorizedError);
+            }
+
+            jest.advanceTimersByTime(60 * 1000);
+
+            expect(authManager.getLockoutRemaining('10.0.0.1')).toBe(0);
+            expect(monitoringManager.getMetric('auth.lockout.active')?.value).toBe(0);
+            expect(authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' })).toBe('sorter');
+        });
+
+        /**
+         * Verifies that a successful authentication resets the failure count.
+         */
+        it('should reset the failure count after a successful authentication', () => {
+            for (let i = 0; i < 2; i++) {
+                expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow(UnauthorizedError);
+            }
+            authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' });
+            for (let i = 0; i < 2; i++) {
+                expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow(UnauthorizedError);
+            }
+
+            // Verify the IP is not locked out
+            expect(authManager.getLockoutRemaining('10.0.0.1')).toBe(0);
+        });
+
+        /**
+         * Verifies that a threshold of 0 disables the lockout.
+         */
+        it('should never lock out when the threshold is 0', () => {
+            config.auth.failure.lockout.threshold = 0;
+            for (let i = 0; i < 10; i++) {
+                expect(() => authManager.authenticate('service1', '10.0.0.1', { apiKey: 'wrong' })).toThrow('Invalid credentials');
+            }
+            expect(authManager.getLockoutRemaining('10.0.0.1')).toBe(0);
+        });
+    });
+
+    /**
+     * Tests for the assertAuthorized method.
+     */
+    describe('assertAuthorized', () => {
+        /**
+         * Verifies that unauthenticated services may only use auth and heartbeat topics.
+         */
+        it('should only allow auth and heartbeat topics before authentication', () => {
+            expect(() => authManager.assertAuthorized('service1', 'system.auth')).not.toThrow();
+            expect(() => authManager.assertAuthorized('service1', 'system.heartbeat')).not.toThrow();
+            expect(() => authManager.assertAuthorized('service1', 'baggage.events')).toThrow(UnauthorizedError);
+            expect(() => authManager.assertAuthorized('service1', 'system.topic.subscribe')).toThrow('Authentication required');
+        });
+
+        /**
+         * Verifies that authenticated services may use any topic until they log out.
+         */
+        it('should allow all topics after authentication until logout', () => {
+            authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' });
+            expect(() => authManager.assertAuthorized('service1', 'baggage.events')).not.toThrow();
+
+            authManager.logout('service1');
+            expect(() => authManager.assertAuthorized('service1', 'baggage.events')).toThrow(UnauthorizedError);
+        });
+
+        /**
+         * Verifies that nothing is enforced when authentication is disabled.
+         */
+        it('should allow all topics when authentication is disabled', () => {
+            config.auth.enabled = false;
+            expect(authManager.enabled).toBe(false);
+            expect(() => authManager.assertAuthorized('service1', 'baggage.events')).not.toThrow();
+        });
+    });
+
+    /**
+     * Tests for the topic ACL policy.
+     */
+    describe('assertAllowed', () => {
+        const POLICY_FILE = `
+rules:
+  - identity: sorter
+    effect: allow
+    actions: [publish, subscribe]
+    topics: ['baggage.#']
+`;
+
+        beforeEach(() => {
+            config.auth.acl.policy = '/etc/mb/policy.yaml';
+            (fs.readFileSync as jest.Mock).mockImplementation((filePath) => filePath === '/etc/mb/policy.yaml' ? POLICY_FILE : CREDENTIALS_FILE);
+            authManager.dispose();
+            authManager = new AuthManager(monitoringManager);
+            authManager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' });
+        });
+
+        /**
+         * Verifies that the policy is evaluated against the identity of the service.
+         */
+        it('should allow the topics of the identity and deny the others', () => {
+            expect(() => authManager.assertAllowed('service1', 'publish', 'baggage.events')).not.toThrow();
+            expect(() => authManager.assertAllowed('service1', 'request', 'baggage.events')).toThrow(ForbiddenError);
+            expect(() => authManager.assertAllowed('service2', 'publish', 'baggage.events')).toThrow('Not allowed to publish on topic baggage.events');
+        });
+
+        /**
+         * Verifies that the dead-letter topic is refused without an allow rule naming it, even to subscribers of every
+         * other topic it carries.
+         */
+        it('should refuse subscriptions to the dead-letter topic', () => {
+            expect(() => authManager.assertAllowed('service1', 'subscribe', config.deadletter.topic)).toThrow(ForbiddenError);
+            expect(() => authManager.assertAllowed('service2', 'subscribe', config.deadletter.topic)).toThrow(ForbiddenError);
+            expect(() => authManager.assertAllowed('service1', 'subscribe', 'system.log')).not.toThrow();
+        });
+
+        /**
+         * Verifies that denials are counted.
+         */
+        it('should count denials', () => {
+            const rate = monitoringManager.getMetric('auth.acl.denied.rate') as RateSlot;
+            const addSpy = jest.spyOn(rate, 'add');
+
+            expect(() => authManager.assertAllowed('service1', 'subscribe', 'flight.status')).toThrow(ForbiddenError);
+
+            expect(addSpy).toHaveBeenCalledWith(1);
+            expect(monitoringManager.getMetric('auth.acl.denied.total')?.value).toBe(1);
+        });
+
+        /**
+         * Verifies that the policy can be reloaded, keeping the current one if the new file is invalid.
+         */
+        it('should reload the policy file', () => {
+            (fs.readFileSync as jest.Mock).mockReturnValue('default: allow');
+            expect(authManager.reloadPolicy()).toBe(true);
+            expect(() => authManager.assertAllowed('service1', 'request', 'flight.status')).not.toThrow();
+
+            (fs.readFileSync as jest.Mock).mockReturnValue('rules: invalid');
+            expect(authManager.reloadPolicy()).toBe(false);
+            expect(() => authManager.assertAllowed('service1', 'request', 'flight.status')).not.toThrow();
+
+            config.auth.acl.policy = '';
+            expect(authManager.reloadPolicy()).toBe(true);
+            expect(() => authManager.assertAllowed('service2', 'publish', 'flight.status')).not.toThrow();
+        });
+
+        /**
+         * Verifies that every topic is allowed without a policy file.
+         */
+        it('should allow every topic without a policy file', () => {
+            config.auth.acl.policy = '';
+            const manager = new AuthManager(new MonitoringManager());
+            expect(() => manager.assertAllowed('service2', 'publish', 'flight.status')).not.toThrow();
+            manager.dispose();
+        });
+    });
+
+    /**
+     * Tests for constructing without a credentials file.
+     */
+    describe('without credentials', () => {
+        /**
+         * Verifies that every attempt fails when no credentials file is configured.
+         */
+        it('should reject all credentials', () => {
+            config.auth.credentials = '';
+            const manager = new AuthManager(new MonitoringManager());
+            expect(() => manager.authenticate('service1', '10.0.0.1', { apiKey: 'sorter-api-key' })).toThrow(UnauthorizedError);
+            manager.dispose();
+        });
+    });
+});
@@ -9,9 +9,12 @@
 import { jest } from '@jest/globals';
 import { Server } from 'net';
 import { WebSocketServer } from 'ws';
+import { AuthManager } from '@core/auth';
 import { MessageBroker } from '@core/broker';
 import { ConnectionManager } from '@core/connection/manager';
-import { createTcpServer, createWebSocketServer } from '@core/connection/protocols';
+import { createHttpServer, createTcpServer, createWebSocketServer } from '@core/connection/protocols';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
 import { MonitoringManager } from '@core/monitoring';
 import { MessageRouter } from '@core/router';
 import { ServiceRegistry } from '@core/registry';
@@ -22,9 +25,10 @@ import logger, { SetupLogger } from '@utils/logger';
 // Mock all external dependencies
 jest.mock('net');
 jest.mock('ws');
+jest.mock('@core/auth');
 jest.mock('@core/connection/manager', () => ({
-    ConnectionManager: jest.fn().mockImplementation((messageRouter, serviceRegistry, monitorManager, subscriptionManager) => {
-        if (!messageRouter || !serviceRegistry || !monitorManager || !subscriptionManager) {
+    ConnectionManager: jest.fn().mockImplementation((messageRouter, serviceRegistry, monitorManager, subscriptionManager, authManager) => {
+        if (!messageRouter || !serviceRegistry || !monitorManager || !subscriptionManager || !authManager) {
             throw new Error('Missing required constructor arguments');
         }
         return {
@@ -33,9 +37,12 @@ jest.mock('@core/connection/manager', () => ({
     })
 }));
 jest.mock('@core/connection/protocols', () => ({
+    createHttpServer: jest.fn(),
     createTcpServer: jest.fn(),
     createWebSocketServer: jest.fn()
 }));
+jest.mock('@core/delivery');
+jest.mock('@core/durable');
 jest.mock('@core/monitoring');
 jest.mock('@core/router');
 jest.mock('@core/registry');
@@ -61,7 +68,10 @@ jest.mock('@utils/logger', () => {
 describe('MessageBroker', () => {
     let mockTcpServer: jest.Mocked<Server>;
     let mockWsServer: jest.Mocked<WebSocketServer>;
+    let mockAuthManager: jest.Mocked<AuthManager>;
     let mockConnectionManager: jest.Mocked<ConnectionManager>;
+    let mockDurableManager: jest.Mocked<DurableManager>;
+    let mockDeliveryManager: jest.Mocked<DeliveryManager>;
     let mockMessageRouter: jest.Mocked<MessageRouter>;
     let mockMonitorManager: jest.Mocked<MonitoringManager>;
     let mockSubscriptionManager: jest.Mocked<SubscriptionManager>;
@@ -96,10 +106,25 @@ describe('MessageBroker', () => {
             dispose: jest.fn()
         } as unknown as jest.Mocked<SystemManager>;
 
+        mockAuthManager = {
+            dispose: jest.fn()
+        } as unknown as jest.Mocked<AuthManager>;
+
         mockSubscriptionManager = {
+            assignConnectionManager: jest.fn(),
             dispose: jest.fn().mockImplementation(() => Promise.resolve())
         } as unknown as jest.Mocked<SubscriptionManager>;
 
+        mockDurableManager = {
+            assignConnectionManager: jest.fn(),
+            dispose: jest.fn().mockImplementation(() => Promise.resolve())
+        } as unknown as jest.Mocked<DurableManager>;
+
+        mockDeliveryManager = {
+            assignConnectionManager: jest.fn(),
+            dispose: jest.fn().mockImplementation(() => Promise.resolve())
+        } as unknown as jest.Mocked<DeliveryManager>;
+
         mockMessageRouter = {
             assignConnectionManager: jest.fn(),
             assignServiceRegistry: jest.fn(),
@@ -137,14 +162,17 @@ describe('MessageBroker', () => {
         // Setup mock constructors to return instances
         (MonitoringManager as jest.Mock).mockReturnValue(mockMonitorManager);
         (SystemManager as jest.Mock).mockReturnValue(mockSystemManager);
-        (SubscriptionManager as jest.Mock).mockReturnValue(mockSubscriptionManager);
+        (AuthManager as jest.Mock).mockReturnValue(mockAuthManager);
+        (SubscriptionManager as unknown as jest.Mock).mockReturnValue(mockSubscriptionManager);
+        (DurableManager as unknown as jest.Mock).mockReturnValue(mockDurableManager);
+        (DeliveryManager as jest.Mock).mockReturnValue(mockDeliveryManager);
         (MessageRouter as jest.Mock).mockReturnValue(mockMessageRouter);
         (ServiceRegistry as jest.Mock).mockReturnValue(mockServiceRegistry);
         (createTcpServer as jest.Mock).mockReturnValue([mockTcpServer]);
         (createWebSocketServer as jest.Mock).mockReturnValue([mockWsServer]);
 
         // Store the ConnectionManager instance when it's created
-        (ConnectionManager as jest.Mock).mockImplementation((messageRouter, serviceRegistry, monitorManager, subscriptionManager) => {
+        (ConnectionManager as jest.Mock).mockImplementation((messageRouter, serviceRegistry, monitorManager, subscriptionManager, authManager) => {
             mockConnectionManager = {
                 dispose: jest.fn().mockImplementation(() => Promise.resolve())
             } as unknown as jest.Mocked<ConnectionManager>;
@@ -167,24 +195,32 @@ describe('MessageBroker', () => {
             // Verify component creation
             expect(MonitoringManager).toHaveBeenCalledTimes(1);
             expect(SystemManager).toHaveBeenCalledWith(mockMonitorManager);
-            expect(SubscriptionManager).toHaveBeenCalledTimes(1);
-            expect(MessageRouter).toHaveBeenCalledWith(mockSubscriptionManager, mockMonitorManager);
-            expect(ServiceRegistry).toHaveBeenCalledWith(mockSubscriptionManager, mockMonitorManager);
+            expect(AuthManager).toHaveBeenCalledWith(mockMonitorManager);
+            expect(SubscriptionManager).toHaveBeenCalledWith(mockMonitorManager);
+            expect(DurableManager).toHaveBeenCalledWith(mockMonitorManager);
+            expect(DeliveryManager).toHaveBeenCalledWith(mockMonitorManager);
+            expect(MessageRouter).toHaveBeenCalledWith(mockSubscriptionManager, mockDurableManager, mockDeliveryManager, mockMonitorManager, mockAuthManager);
+            expect(ServiceRegistry).toHaveBeenCalledWith(mockSubscriptionManager, mockDurableManager, mockDeliveryManager, mockMonitorManager, mockAuthManager);
             expect(ConnectionManager).toHaveBeenCalledWith(
                 mockMessageRouter,
                 mockServiceRegistry,
                 mockMonitorManager,
-                mockSubscriptionManager
+                mockSubscriptionManager,
+                mockAuthManager
             );
 
             // Verify component relationships
             expect(mockServiceRegistry.assignConnectionManager).toHaveBeenCalledWith(mockConnectionManager);
             expect(mockMessageRouter.assignConnectionManager).toHaveBeenCalledWith(mockConnectionManager);
             expect(mockMessageRouter.assignServiceRegistry).toHaveBeenCalledWith(mockServiceRegistry);
+            expect(mockDurableManager.assignConnectionManager).toHaveBeenCalledWith(mockConnectionManager);
+            expect(mockSubscriptionManager.assignConnectionManager).toHaveBeenCalledWith(mockConnectionManager);
+            expect(mockDeliveryManager.assignConnectionManager).toHaveBeenCalledWith(mockConnectionManager);
 
             // Verify server creation
             expect(createTcpServer).toHaveBeenCalledWith(mockConnectionManager);
             expect(createWebSocketServer).toHaveBeenCalledWith(mockConnectionManager);
+            expect(createHttpServer).toHaveBeenCalledWith(mockConnectionManager);
 
             // Verify creation logging
             expect(logger.info).toHaveBeenCalledWith(expect.stringMatching(/^Created at .+$/));
@@ -214,10 +250,13 @@ describe('MessageBroker', () => {
             // Verify all components were disposed
             expect(mockMessageRouter.dispose).toHaveBeenCalled();
             expect(mockSubscriptionManager.dispose).toHaveBeenCalled();
+            expect(mockDurableManager.dispose).toHaveBeenCalled();
+            expect(mockDeliveryManager.dispose).toHaveBeenCalled();
             expect(mockServiceRegistry.dispose).toHaveBeenCalled();
             expect(mockConnectionManager.dispose).toHaveBeenCalled();
             expect(mockTcpServer.close).toHaveBeenCalled();
             expect(mockWsServer.close).toHaveBeenCalled();
+            expect(mockAuthManager.dispose).toHaveBeenCalled();
             expect(mockSystemManager.dispose).toHaveBeenCalled();
             expect(mockMonitorManager.dispose).toHaveBeenCalled();
 
@@ -227,6 +266,19 @@ describe('MessageBroker', () => {
             expect(logger.info).toHaveBeenCalledWith('Shutdown complete.');
         });
 
+        /**
+         * Tests that the HTTP gateway is closed with the other servers when it is enabled
+         */
+        it('should close the HTTP gateway', async () => {
+            const mockHttpServer = { close: jest.fn() };
+            (createHttpServer as jest.Mock).mockReturnValue(mockHttpServer);
+            broker = new MessageBroker();
+
+            await broker.shutdown();
+
+            expect(mockHttpServer.close).toHaveBeenCalled();
+        });
+
         /**
          * Tests that server close errors are properly handled and logged
          */
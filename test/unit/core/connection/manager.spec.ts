@@ -1,15 +1,17 @@
 import { randomUUID } from 'crypto';
+import { config } from '@config';
 import { jest } from '@jest/globals';
+import { AuthManager } from '@core/auth';
 import { ConnectionManager } from '@core/connection/manager';
 import { Connection, ConnectionState } from '@core/connection/types';
-import { Metric, MonitoringManager } from '@core/monitoring';
+import { Metric, MonitoringManager, ParameterizedMetric } from '@core/monitoring';
 import { ServiceRegistry } from '@core/registry';
 import { MessageRouter } from '@core/router';
 import { SubscriptionManager } from '@core/subscription';
 import { ActionType } from '@core/types';
 import { BrokerHeader } from '@core/utils';
 import logger from '@utils/logger';
-import { InternalError } from '@core/errors';
+import { InternalError, NoRouteFoundError, ServiceUnavailableError, UnauthorizedError } from '@core/errors';
 import { GaugeSlot } from '@core/monitoring/metrics/slots';
 import { MessageError } from '@core/errors';
 import { MessageUtils } from '@core/utils';
@@ -46,8 +48,10 @@ describe('ConnectionManager', () => {
     let mockServiceRegistry: jest.Mocked<ServiceRegistry>;
     let mockMonitorManager: jest.Mocked<MonitoringManager>;
     let mockSubscriptionManager: jest.Mocked<SubscriptionManager>;
+    let mockAuthManager: jest.Mocked<AuthManager>;
     let mockConnection: jest.Mocked<Connection>;
     let mockMetric: jest.Mocked<Metric<GaugeSlot>>;
+    let mockParameterizedMetric: jest.Mocked<ParameterizedMetric<GaugeSlot>>;
 
     beforeEach(() => {
         // Reset all mock implementations and call history before each test
@@ -58,7 +62,8 @@ describe('ConnectionManager', () => {
             value: 0,
             lastModified: new Date(),
             dispose: jest.fn(),
-            add: jest.fn()
+            add: jest.fn(),
+            set: jest.fn()
         } as unknown as jest.Mocked<GaugeSlot>;
 
         // Create mock metric with slot
@@ -67,10 +72,17 @@ describe('ConnectionManager', () => {
             dispose: jest.fn()
         } as unknown as jest.Mocked<Metric<GaugeSlot>>;
 
+        // Create mock parameterized metric creating the mock metric for every service
+        mockParameterizedMetric = {
+            getMetric: jest.fn(),
+            registerMetric: jest.fn().mockReturnValue(mockMetric),
+            dispose: jest.fn()
+        } as unknown as jest.Mocked<ParameterizedMetric<GaugeSlot>>;
+
         // Set up monitoring manager mock with metric registration
         mockMonitorManager = {
             registerMetric: jest.fn().mockReturnValue(mockMetric),
-            registerParameterized: jest.fn(),
+            registerParameterized: jest.fn().mockReturnValue(mockParameterizedMetric),
             dispose: jest.fn(),
         } as unknown as jest.Mocked<MonitoringManager>;
 
@@ -85,6 +97,7 @@ describe('ConnectionManager', () => {
         // Set up message router mock for message handling
         mockMessageRouter = {
             routeMessage: jest.fn(),
+            handleServiceDisconnect: jest.fn(),
             assignConnectionManager: jest.fn(),
             assignServiceRegistry: jest.fn(),
             dispose: jest.fn()
@@ -97,6 +110,13 @@ describe('ConnectionManager', () => {
             dispose: jest.fn(),
         } as unknown as jest.Mocked<SubscriptionManager>;
 
+        // Set up auth manager mock that allows every connection and message
+        mockAuthManager = {
+            getLockoutRemaining: jest.fn().mockReturnValue(0),
+            assertAuthorized: jest.fn(),
+            logout: jest.fn(),
+        } as unknown as jest.Mocked<AuthManager>;
+
         // Create mock connection with basic WebSocket-like interface
         mockConnection = {
             serviceId: randomUUID(),
@@ -104,12 +124,13 @@ describe('ConnectionManager', () => {
             state: ConnectionState.OPEN,
             onMessage: jest.fn(),
             onClose: jest.fn(),
+            onBackpressure: jest.fn(),
             send: jest.fn(),
             close: jest.fn(),
         } as any;
 
         // Initialize ConnectionManager with mocked dependencies
-        connectionManager = new ConnectionManager(mockMessageRouter, mockServiceRegistry, mockMonitorManager, mockSubscriptionManager);
+        connectionManager = new ConnectionManager(mockMessageRouter, mockServiceRegistry, mockMonitorManager, mockSubscriptionManager, mockAuthManager);
     });
 
     afterEach(() => {
@@ -166,6 +187,140 @@ describe('ConnectionManager', () => {
             // Verify connection was not registered
             expect(connectionManager.hasConnection('test-uuid')).toBe(false);
         });
+
+        /**
+         * Verifies that connections beyond the configured concurrency limit are rejected:
+         * - An error frame is sent to the client
+         * - The connection is closed and never registered
+         * - The rejection metrics are updated
+         */
+        it('should reject connections beyond the maximum concurrent limit', () => {
+            const originalMaxConcurrent = config.connection.max.concurrent;
+            config.connection.max.concurrent = 1;
+
+            try {
+                // Fill the only available slot
+                connectionManager.addConnection(mockConnection);
+                (mockMetric.slot.add as jest.Mock).mockClear();
+
+                // Attempt to add a second connection
+                const rejectedConnection = {
+                    ...mockConnection,
+                    serviceId: undefined,
+                    send: jest.fn(),
+                    close: jest.fn(),
+                    onMessage: jest.fn(),
+                    onClose: jest.fn(),
+                    onBackpressure: jest.fn(),
+                } as any as jest.Mocked<Connection>;
+                connectionManager.addConnection(rejectedConnection);
+
+                // Verify a well-formed SERVICE_UNAVAILABLE error frame was sent before closing
+                expect(rejectedConnection.send).toHaveBeenCalledTimes(1);
+                const parser = new MessageUtils.Parser(Buffer.from(rejectedConnection.send.mock.calls[0][0] as string));
+                expect(parser.header).toEqual({ action: ActionType.RESPONSE, topic: 'error', version: '1.0.0' });
+                expect(parser.parsePayload<any>().error).toEqual(expect.objectContaining({ code: 'SERVICE_UNAVAILABLE' }));
+                expect(rejectedConnection.close).toHaveBeenCalled();
+
+                // Verify the connection was never registered
+                expect(rejectedConnection.onMessage).not.toHaveBeenCalled();
+                expect(connectionManager.getConnectionCount()).toBe(1);
+                expect(mockServiceRegistry.registerService).toHaveBeenCalledTimes(1);
+
+                // Verify the rejection counters were incremented
+                expect(mockMetric.slot.add).toHaveBeenCalledTimes(2);
+                expect(mockMetric.slot.add).toHaveBeenCalledWith(1);
+            } finally {
+                config.connection.max.concurrent = originalMaxConcurrent;
+            }
+        });
+
+        /**
+         * Verifies that a rejected connection is still closed when the error frame cannot be sent.
+         */
+        it('should close rejected connections even if the error frame fails to send', () => {
+            const originalMaxConcurrent = config.connection.max.concurrent;
+            config.connection.max.concurrent = 0;
+
+            try {
+                // Simulate a send failure
+                mockConnection.send.mockImplementationOnce(() => {
+                    throw new InternalError('Desired service connection is not open');
+                });
+
+                connectionManager.addConnection(mockConnection);
+
+                // Verify the failure was logged and the connection was closed
+                expect(logger.error).toHaveBeenCalledWith(
+                    expect.stringContaining('Unable to send rejection to IP 127.0.0.1'),
+                    expect.any(Object)
+                );
+                expect(mockConnection.close).toHaveBeenCalled();
+                expect(connectionManager.getConnectionCount()).toBe(0);
+            } finally {
+                config.connection.max.concurrent = originalMaxConcurrent;
+            }
+        });
+    });
+
+    /**
+     * Tests for the authentication integration.
+     * Verifies lockouts at connect time and the authentication gate before routing.
+     */
+    describe('authentication', () => {
+        /**
+         * Verifies that connections from locked out IPs are rejected with an UNAUTHORIZED error frame.
+         */
+        it('should reject connections from locked out IPs', () => {
+            mockAuthManager.getLockoutRemaining.mockReturnValue(42);
+
+            connectionManager.addConnection(mockConnection);
+
+            // Verify the error frame and the connection was not registered
+            const parser = new MessageUtils.Parser(Buffer.from(mockConnection.send.mock.calls[0][0] as string));
+            expect(parser.parsePayload<any>().error).toEqual(expect.objectContaining({
+                code: 'UNAUTHORIZED',
+                details: { retryAfter: 42 },
+            }));
+            expect(mockAuthManager.getLockoutRemaining).toHaveBeenCalledWith('127.0.0.1');
+            expect(mockConnection.close).toHaveBeenCalled();
+            expect(connectionManager.getConnectionCount()).toBe(0);
+            expect(mockServiceRegistry.registerService).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Verifies that messages from unauthenticated services are answered with an error instead of being routed.
+         */
+        it('should not route messages from unauthenticated services', () => {
+            connectionManager.addConnection(mockConnection);
+            mockConnection.send.mockClear();
+            mockAuthManager.assertAuthorized.mockImplementationOnce(() => {
+                throw new UnauthorizedError('Authentication required');
+            });
+
+            const header = {
+                action: ActionType.REQUEST,
+                topic: 'test',
+                version: '1.0.0',
+                requestId: '123e4567-e89b-12d3-a456-426614174000'
+            };
+            (connectionManager as any).handleMessage(mockConnection, Buffer.from(MessageUtils.serialize(header, {})));
+
+            // Verify the message was checked, not routed, and an error was returned
+            expect(mockAuthManager.assertAuthorized).toHaveBeenCalledWith(mockConnection.serviceId, 'test');
+            expect(mockMessageRouter.routeMessage).not.toHaveBeenCalled();
+            expect(mockConnection.send.mock.calls[0][0].toString()).toContain('"code":"UNAUTHORIZED"');
+        });
+
+        /**
+         * Verifies that the identity of a service is forgotten when its connection is removed.
+         */
+        it('should log out services when their connection is removed', () => {
+            connectionManager.addConnection(mockConnection);
+            connectionManager.removeConnection(mockConnection.serviceId);
+
+            expect(mockAuthManager.logout).toHaveBeenCalledWith(mockConnection.serviceId);
+        });
     });
 
     /**
@@ -192,6 +347,11 @@ describe('ConnectionManager', () => {
             // Verify service was deregistered
             expect(mockServiceRegistry.unregisterService).toHaveBeenCalledWith(serviceId);
 
+            // Verify the outstanding requests of the service were settled after deregistration
+            expect(mockMessageRouter.handleServiceDisconnect).toHaveBeenCalledWith(serviceId);
+            expect(mockServiceRegistry.unregisterService.mock.invocationCallOrder[0])
+                .toBeLessThan(mockMessageRouter.handleServiceDisconnect.mock.invocationCallOrder[0]);
+
             // Verify removal was logged
             expect(logger.info).toHaveBeenCalledWith(
                 expect.stringContaining(`Removed connection for service ${serviceId}`)
@@ -237,7 +397,7 @@ describe('ConnectionManager', () => {
             }, undefined, undefined);
 
             // Verify message was sent with empty object payload
-            expect(mockConnection.send).toHaveBeenCalledWith(
+            expect(mockConnection.send.mock.calls.map(([message]) => message.toString())).toContainEqual(
                 expect.stringMatching(/\n{}$/)
             );
         });
@@ -257,6 +417,67 @@ describe('ConnectionManager', () => {
         });
     });
 
+    /**
+     * Tests for the fanOutMessage method.
+     * Verifies the message is encoded once for all its recipients, and audited for each of them.
+     */
+    describe('fanOutMessage', () => {
+        const header: BrokerHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0' };
+        let otherConnection: typeof mockConnection;
+        let auditConnection: typeof mockConnection;
+
+        beforeEach(() => {
+            otherConnection = { ...mockConnection, send: jest.fn() };
+            auditConnection = { ...mockConnection, send: jest.fn() };
+            connectionManager.addConnection(mockConnection);
+            connectionManager.addConnection(otherConnection);
+            connectionManager.addConnection(auditConnection);
+            [mockConnection, otherConnection, auditConnection].forEach(connection => connection.send.mockClear());
+        });
+
+        it('should send the same encoded message to every recipient', () => {
+            connectionManager.fanOutMessage([mockConnection.serviceId, otherConnection.serviceId], header, Buffer.from('{"gate":"A1"}'), undefined);
+
+            const [[encoded]] = mockConnection.send.mock.calls;
+            expect(Buffer.isBuffer(encoded)).toBe(true);
+            expect(encoded.toString()).toBe('publish:flight.status:1.0.0\n{"gate":"A1"}');
+            expect(otherConnection.send).toHaveBeenCalledWith(encoded);
+        });
+
+        it('should audit the message for each recipient to the system.message subscribers', () => {
+            mockSubscriptionManager.getPublishSubscribers.mockImplementation((topic: string) => topic === 'system.message' ? [auditConnection.serviceId] : []);
+            mockSubscriptionManager.getPublishSubscribers.mockClear();
+
+            connectionManager.fanOutMessage([mockConnection.serviceId, otherConnection.serviceId], header, { gate: 'A1' }, 'masked-id');
+
+            expect(mockSubscriptionManager.getPublishSubscribers).toHaveBeenCalledTimes(1);
+            const audits = auditConnection.send.mock.calls.map(([message]) => new MessageUtils.Parser(Buffer.from(message)));
+            expect(audits.map(audit => JSON.parse(audit.rawPayload.toString()))).toEqual([
+                expect.objectContaining({ to: mockConnection.serviceId, message: { header, payload: { gate: 'A1' } }, maskedId: 'masked-id' }),
+                expect.objectContaining({ to: otherConnection.serviceId, message: { header, payload: { gate: 'A1' } }, maskedId: 'masked-id' }),
+            ]);
+        });
+
+        it('should audit raw payloads as they are', () => {
+            mockSubscriptionManager.getPublishSubscribers.mockImplementation((topic: string) => topic === 'system.message' ? [auditConnection.serviceId] : []);
+
+            connectionManager.fanOutMessage([mockConnection.serviceId], header, Buffer.from('{"gate":"A1"}'), undefined);
+
+            const [[message]] = auditConnection.send.mock.calls;
+            const audit = JSON.parse(new MessageUtils.Parser(Buffer.from(message)).rawPayload.toString());
+            expect(audit).toEqual({ timestamp: expect.any(String), to: mockConnection.serviceId, message: { header, payload: { gate: 'A1' } } });
+        });
+
+        it('should dead-letter the message for missing recipients and send it to the others', () => {
+            const deadLetter = jest.spyOn(connectionManager, 'deadLetter');
+
+            connectionManager.fanOutMessage(['missing', otherConnection.serviceId], header, {}, undefined);
+
+            expect(deadLetter).toHaveBeenCalledWith(header, {}, expect.any(ServiceUnavailableError));
+            expect(otherConnection.send).toHaveBeenCalledTimes(1);
+        });
+    });
+
     /**
      * Tests for connection state management.
      * Verifies proper handling of connection states.
@@ -284,6 +505,179 @@ describe('ConnectionManager', () => {
         });
     });
 
+    /**
+     * Tests for the dead-lettering of dropped messages.
+     * Verifies the messages are published to the dead-letter topic with their reason and error code.
+     */
+    describe('dead-lettering', () => {
+        const header: BrokerHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0' };
+
+        it('should publish dropped messages to the dead-letter topic subscribers', () => {
+            connectionManager.addConnection(mockConnection);
+            mockSubscriptionManager.getPublishSubscribers.mockImplementation((topic: string) => topic === config.deadletter.topic ? [mockConnection.serviceId] : []);
+            mockConnection.send.mockClear();
+
+            connectionManager.deadLetter(header, Buffer.from('{"gate":"A1"}'), new NoRouteFoundError('No subscribers for topic flight.status'));
+
+            expect(mockSubscriptionManager.getPublishSubscribers).toHaveBeenCalledWith(config.deadletter.topic);
+            const sent = new MessageUtils.Parser(Buffer.from(mockConnection.send.mock.calls[0][0] as string));
+            expect(sent.header).toEqual(expect.objectContaining({ action: ActionType.PUBLISH, topic: config.deadletter.topic }));
+            expect(JSON.parse(sent.rawPayload.toString())).toEqual({
+                reason: 'No subscribers for topic flight.status',
+                code: 'NO_ROUTE_FOUND',
+                header,
+                payload: '{"gate":"A1"}',
+            });
+        });
+
+        it('should not dead-letter messages of the dead-letter topic', () => {
+            mockSubscriptionManager.getPublishSubscribers.mockReturnValue(['operator']);
+
+            connectionManager.deadLetter({ ...header, topic: config.deadletter.topic }, {}, new NoRouteFoundError('No subscribers'));
+
+            expect(mockSubscriptionManager.getPublishSubscribers).not.toHaveBeenCalled();
+        });
+
+        it('should dead-letter messages sent to missing connections', () => {
+            const deadLetter = jest.spyOn(connectionManager, 'deadLetter');
+
+            connectionManager.sendMessage<BrokerHeader>('non-existent', header, { gate: 'A1' }, undefined);
+
+            expect(deadLetter).toHaveBeenCalledWith(header, { gate: 'A1' }, expect.any(ServiceUnavailableError));
+        });
+
+        it('should dead-letter messages sent to closed connections', () => {
+            connectionManager.addConnection(mockConnection);
+            Object.defineProperty(mockConnection, 'state', { value: ConnectionState.CLOSED });
+            const deadLetter = jest.spyOn(connectionManager, 'deadLetter');
+
+            expect(() => connectionManager.sendMessage<BrokerHeader>(mockConnection.serviceId, header, { gate: 'A1' }, undefined)).toThrow(InternalError);
+
+            expect(deadLetter).toHaveBeenCalledWith(header, { gate: 'A1' }, expect.any(InternalError));
+        });
+    });
+
+    describe('backpressure', () => {
+        /**
+         * Reports a change of the outbound queue of the mock connection.
+         */
+        const report = (depth: number, dropped: number) => {
+            const listener = mockConnection.onBackpressure.mock.calls[0][0] as (depth: number, dropped: number) => void;
+            listener(depth, dropped);
+        };
+
+        it('should expose the outbound queue depth per service', () => {
+            connectionManager.addConnection(mockConnection);
+            (mockMetric.slot.add as jest.Mock).mockClear();
+
+            report(2048, 0);
+
+            expect(mockParameterizedMetric.registerMetric).toHaveBeenCalledWith({ serviceId: mockConnection.serviceId });
+            expect(mockMetric.slot.set).toHaveBeenCalledWith(2048);
+            expect(mockMetric.slot.add).not.toHaveBeenCalled();
+        });
+
+        it('should count the messages dropped to slow consumers', () => {
+            connectionManager.addConnection(mockConnection);
+            (mockMetric.slot.add as jest.Mock).mockClear();
+
+            report(1024, 3);
+
+            // Rate and total of the dropped messages
+            expect(mockMetric.slot.add).toHaveBeenCalledTimes(2);
+            expect(mockMetric.slot.add).toHaveBeenCalledWith(3);
+        });
+
+        it('should forget the queue depth of removed connections', () => {
+            connectionManager.addConnection(mockConnection);
+            mockParameterizedMetric.getMetric.mockReturnValue(mockMetric);
+
+            connectionManager.removeConnection(mockConnection.serviceId);
+            report(0, 0);
+
+            expect(mockMetric.dispose).toHaveBeenCalled();
+            expect(mockParameterizedMetric.registerMetric).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sendPaced', () => {
+        const header: BrokerHeader = { action: ActionType.PUBLISH, topic: 'orders.created', version: '1.0.0' };
+
+        /**
+         * Creates a source of numbered messages.
+         */
+        const createSource = (count: number) => {
+            let sent = 0;
+            return jest.fn(() => sent < count ? { header, payload: { id: ++sent } } : undefined);
+        };
+
+        /**
+         * Reports a change of the outbound queue of the mock connection.
+         */
+        const report = (depth: number) => {
+            const listener = mockConnection.onBackpressure.mock.calls[0][0] as (depth: number, dropped: number) => void;
+            listener(depth, 0);
+        };
+
+        beforeEach(() => {
+            config.connection.outbound.lowWaterMark = 100;
+            connectionManager.addConnection(mockConnection);
+            mockConnection.send.mockClear();
+        });
+
+        afterEach(() => {
+            config.connection.outbound.lowWaterMark = 1048576;
+        });
+
+        it('should pull messages until the low water mark and resume once drained', () => {
+            // Every message sent adds 60 bytes to the outbound queue
+            let depth = 0;
+            mockConnection.send.mockImplementation(() => report(depth += 60));
+            const source = createSource(5);
+
+            connectionManager.sendPaced(mockConnection.serviceId, source);
+            expect(mockConnection.send).toHaveBeenCalledTimes(2);
+
+            report(depth = 0);
+            expect(mockConnection.send).toHaveBeenCalledTimes(4);
+
+            report(depth = 0);
+            expect(mockConnection.send).toHaveBeenCalledTimes(5);
+            expect(source).toHaveBeenCalledTimes(6);
+            expect(mockConnection.send.mock.calls[4][0].toString()).toContain('{"id":5}');
+        });
+
+        it('should send the sources of a service one after the other', () => {
+            const first = createSource(2);
+            const second = createSource(1);
+            mockConnection.send.mockImplementation(() => report(200));
+
+            connectionManager.sendPaced(mockConnection.serviceId, first);
+            connectionManager.sendPaced(mockConnection.serviceId, second);
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).not.toHaveBeenCalled();
+
+            mockConnection.send.mockImplementation(() => undefined);
+            report(0);
+            expect(first).toHaveBeenCalledTimes(3);
+            expect(second).toHaveBeenCalledTimes(2);
+            expect(mockConnection.send).toHaveBeenCalledTimes(3);
+        });
+
+        it('should drop the sources of disconnected services', () => {
+            const source = createSource(2);
+            mockConnection.send.mockImplementation(() => report(200));
+            connectionManager.sendPaced(mockConnection.serviceId, source);
+
+            connectionManager.removeConnection(mockConnection.serviceId);
+            report(0);
+
+            expect(source).toHaveBeenCalledTimes(1);
+            connectionManager.sendPaced(mockConnection.serviceId, source);
+            expect(source).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe('message handling', () => {
         it('should handle messages and notify subscribers', () => {
             // Set up test connection
@@ -416,7 +810,7 @@ describe('ConnectionManager', () => {
                 .mockReturnValueOnce(mockSubscriber2);
 
             // Send a message that should be forwarded
-            const header = {
+            const header: BrokerHeader = {
                 action: ActionType.REQUEST,
                 topic: 'test',
                 version: '1.0.0',
@@ -534,6 +928,7 @@ describe('ConnectionManager', () => {
                 state: ConnectionState.OPEN,
                 onMessage: jest.fn(),
                 onClose: jest.fn(),
+                onBackpressure: jest.fn(),
                 send: jest.fn(),
                 close: jest.fn(),
             } as any;
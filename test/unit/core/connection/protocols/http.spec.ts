@@ -0,0 +1,318 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection/manager';
+import { createHttpServer, getHttpStatus, HTTPConnection, SSEConnection } from '@core/connection/protocols/http';
+import { ConnectionState } from '@core/connection/types';
+import { ForbiddenError, MessageError, NoRouteFoundError, ServiceUnavailableError } from '@core/errors';
+import { ActionType } from '@core/types';
+import { BrokerHeader, MessageUtils } from '@core/utils';
+
+jest.mock('@utils/logger', () => {
+    const mockLogger = {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    };
+    return {
+        __esModule: true,
+        default: mockLogger,
+        SetupLogger: jest.fn().mockReturnValue(mockLogger)
+    };
+});
+
+/**
+ * Test suite for the HTTP gateway.
+ * Tests the calls are routed as ephemeral services and answered with the mapped HTTP status.
+ */
+describe('HTTP gateway', () => {
+    const originalConfig = { http: { ...config.http }, host: config.host, allowUnsecure: config.allowUnsecure, ssl: config.ssl };
+    let server: Server;
+    let baseUrl: string;
+    let connections: HTTPConnection[];
+    let removed: string[]; // The service IDs of the closed connections, in the order they were removed
+    let routed: MessageUtils.Parser[];
+    let route: jest.Mock<(parser: MessageUtils.Parser) => object | Buffer | undefined>; // The response of a routed message, if answered at once
+    let mockConnectionManager: jest.Mocked<ConnectionManager>;
+
+    /**
+     * Answers a routed message with a response to its request ID.
+     */
+    const respond = (connection: HTTPConnection, parser: MessageUtils.Parser, payload: object | Buffer) => {
+        connection.send(MessageUtils.encode(MessageUtils.toBrokerHeader(parser.header, ActionType.RESPONSE, parser.header.requestId), payload));
+    };
+
+    beforeAll(async () => {
+        config.http = { enabled: true, port: 0 };
+        config.host = '127.0.0.1';
+        config.allowUnsecure = true;
+        config.ssl = undefined;
+
+        // Register the calls like the ConnectionManager, routing their messages to the route mock
+        mockConnectionManager = {
+            addConnection: jest.fn((connection: HTTPConnection) => {
+                connection.serviceId = `http-${connections.length}`;
+                connections.push(connection);
+                connection.onClose(() => removed.push(connection.serviceId));
+                connection.onMessage((message) => {
+                    const parser = new MessageUtils.Parser(message);
+                    routed.push(parser);
+                    const response = route(parser);
+                    if (response) respond(connection, parser, response);
+                });
+                connection.send(MessageUtils.serialize({ action: ActionType.PUBLISH, topic: 'system.initialize', version: '1.0.0' } as BrokerHeader, {}));
+            }),
+        } as unknown as jest.Mocked<ConnectionManager>;
+
+        server = createHttpServer(mockConnectionManager)!;
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        Object.assign(config, originalConfig);
+    });
+
+    beforeEach(() => {
+        connections = [];
+        removed = [];
+        routed = [];
+        route = jest.fn(() => ({ status: 'success' }));
+    });
+
+    /**
+     * Verifies that publishes are routed with the query parameters and answered once accepted.
+     */
+    it('should publish messages as an ephemeral service', async () => {
+        const response = await fetch(`${baseUrl}/publish/flight.status?version=2.0.0`, { method: 'POST', body: '{"gate":"A1"}' });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: 'success' });
+        expect(routed[0].header).toEqual(expect.objectContaining({ action: ActionType.PUBLISH, topic: 'flight.status', version: '2.0.0' }));
+        expect(routed[0].rawPayload.toString()).toBe('{"gate":"A1"}');
+        expect(connections[0].state).toBe(ConnectionState.CLOSED);
+        expect(removed).toEqual(['http-0']);
+    });
+
+    /**
+     * Verifies that requests wait for the routed response, and answer with its payload.
+     */
+    it('should answer requests with the payload of the response', async () => {
+        route.mockImplementation((parser) => {
+            setTimeout(() => respond(connections[0], parser, Buffer.from('{"eta":"12:05"}')), 10);
+            return undefined;
+        });
+
+        const response = await fetch(`${baseUrl}/request/flight.eta?timeout=1000&routingKey=A1`, { method: 'POST', body: '{}' });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('{"eta":"12:05"}');
+        expect(routed[0].header).toEqual(expect.objectContaining({ action: ActionType.REQUEST, topic: 'flight.eta', timeout: 1000, routingKey: 'A1' }));
+    });
+
+    /**
+     * Verifies that errors of the broker and of the responding services are mapped to HTTP statuses.
+     */
+    it('should map the errors of the responses to HTTP statuses', async () => {
+        route.mockReturnValueOnce({ error: new NoRouteFoundError('No subscribers for topic flight.eta').toJSON() });
+        let response = await fetch(`${baseUrl}/request/flight.eta`, { method: 'POST' });
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: expect.objectContaining({ code: 'NO_ROUTE_FOUND', message: 'No subscribers for topic flight.eta' }) });
+
+        const error = new MessageError('UNKNOWN_FLIGHT', 'Unknown flight').toJSON();
+        route.mockReturnValueOnce(Buffer.from(`error:${JSON.stringify(error)}`));
+        response = await fetch(`${baseUrl}/request/flight.eta`, { method: 'POST' });
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({ error: expect.objectContaining({ code: 'UNKNOWN_FLIGHT' }) });
+    });
+
+    /**
+     * Verifies that calls are answered with a timeout if no response arrives in time.
+     */
+    it('should time out requests without a response', async () => {
+        route.mockReturnValue(undefined);
+
+        const response = await fetch(`${baseUrl}/request/flight.eta?timeout=50`, { method: 'POST' });
+
+        expect(response.status).toBe(504);
+        expect(await response.json()).toEqual({ error: expect.objectContaining({ code: 'TIMEOUT' }) });
+    });
+
+    /**
+     * Verifies that the credentials of the Authorization header are authenticated before routing the message.
+     */
+    it('should authenticate with the credentials of the Authorization header', async () => {
+        const secret = Buffer.from('billing:s3cret').toString('base64');
+
+        await fetch(`${baseUrl}/publish/billing.invoice`, { method: 'POST', headers: { Authorization: `Basic ${secret}` } });
+        await fetch(`${baseUrl}/publish/billing.invoice`, { method: 'POST', headers: { Authorization: 'Bearer key-1' } });
+
+        expect(routed.map(parser => [parser.header.topic, parser.rawPayload.toString()])).toEqual([
+            ['system.auth', '{"identity":"billing","secret":"s3cret"}'],
+            ['billing.invoice', ''],
+            ['system.auth', '{"apiKey":"key-1"}'],
+            ['billing.invoice', ''],
+        ]);
+    });
+
+    /**
+     * Verifies that malformed calls are rejected before being routed.
+     */
+    it('should reject malformed calls', async () => {
+        expect((await fetch(`${baseUrl}/subscribe/flight.status`, { method: 'POST' })).status).toBe(404);
+        expect((await fetch(`${baseUrl}/publish/flight.status`)).status).toBe(405);
+        expect((await fetch(`${baseUrl}/publish/flight..status`, { method: 'POST' })).status).toBe(400);
+        expect((await fetch(`${baseUrl}/request/flight.eta?timeout=soon`, { method: 'POST' })).status).toBe(400);
+        expect((await fetch(`${baseUrl}/publish/flight.status`, { method: 'POST', body: 'a'.repeat(config.message.payload.maxLength + 1) })).status).toBe(400);
+        expect(routed).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that calls rejected by the ConnectionManager are answered with the rejection.
+     */
+    it('should answer rejected calls with the rejection', async () => {
+        mockConnectionManager.addConnection.mockImplementationOnce((connection) => {
+            connection.send(MessageUtils.serialize({ action: ActionType.RESPONSE, topic: 'error', version: '1.0.0' } as BrokerHeader, {
+                error: new ServiceUnavailableError('Maximum number of concurrent connections reached').toJSON(),
+            }));
+            connection.close();
+        });
+
+        const response = await fetch(`${baseUrl}/publish/flight.status`, { method: 'POST' });
+
+        expect(response.status).toBe(503);
+        expect(await response.json()).toEqual({ error: expect.objectContaining({ message: 'Maximum number of concurrent connections reached' }) });
+    });
+});
+
+/**
+ * Test suite for the Server-Sent Events subscriptions of the HTTP gateway.
+ */
+describe('HTTP gateway subscriptions', () => {
+    const originalConfig = { http: { ...config.http }, host: config.host, allowUnsecure: config.allowUnsecure, ssl: config.ssl };
+    let server: Server;
+    let baseUrl: string;
+    let connections: SSEConnection[];
+    let routed: MessageUtils.Parser[];
+    let closed: Promise<void>; // Settled once a connection is removed
+    let route: jest.Mock<(parser: MessageUtils.Parser) => object>;
+    let mockConnectionManager: jest.Mocked<ConnectionManager>;
+
+    /**
+     * Publishes a message to the subscriptions, like the MessageRouter.
+     */
+    const publish = (topic: string, payload: object) => {
+        connections[0].send(MessageUtils.encode({ action: ActionType.PUBLISH, topic, version: '1.0.0' }, payload));
+    };
+
+    beforeAll(async () => {
+        config.http = { enabled: true, port: 0 };
+        config.host = '127.0.0.1';
+        config.allowUnsecure = true;
+        config.ssl = undefined;
+
+        mockConnectionManager = {
+            addConnection: jest.fn((connection: SSEConnection) => {
+                connection.serviceId = `sse-${connections.length}`;
+                connections.push(connection);
+                closed = new Promise(resolve => connection.onClose(resolve));
+                connection.onMessage((message) => {
+                    const parser = new MessageUtils.Parser(message);
+                    routed.push(parser);
+                    connection.send(MessageUtils.encode(MessageUtils.toBrokerHeader(parser.header, ActionType.RESPONSE, parser.header.requestId), route(parser)));
+                });
+                publish('system.initialize', {});
+            }),
+        } as unknown as jest.Mocked<ConnectionManager>;
+
+        server = createHttpServer(mockConnectionManager)!;
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        Object.assign(config, originalConfig);
+    });
+
+    beforeEach(() => {
+        connections = [];
+        routed = [];
+        route = jest.fn(() => ({ status: 'success' }));
+    });
+
+    /**
+     * Verifies that the topic patterns are subscribed to, the matching publishes are streamed as events and the
+     * connection is removed once the client goes away.
+     */
+    it('should stream the publishes of the subscribed topic patterns', async () => {
+        // A publish routed while subscribing is streamed once the stream opens
+        route.mockImplementationOnce(() => {
+            publish('flight.status', { gate: 'A1' });
+            return { status: 'success' };
+        });
+        const abort = new AbortController();
+        const response = await fetch(`${baseUrl}/subscribe?topic=flight.%2B&topic=gate.%23`, { signal: abort.signal });
+        publish('gate.A1.open', { open: true });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        expect(routed.map(parser => [parser.header.topic, parser.rawPayload.toString()])).toEqual([
+            ['system.topic.subscribe', '{"action":"publish","topic":"flight.+"}'],
+            ['system.topic.subscribe', '{"action":"publish","topic":"gate.#"}'],
+        ]);
+
+        const reader = response.body!.getReader();
+        let stream = '';
+        while (!stream.includes('gate.A1.open')) {
+            stream += Buffer.from((await reader.read()).value!).toString();
+        }
+        expect(stream).toBe(
+            'data: {"header":{"action":"publish","topic":"flight.status","version":"1.0.0"},"payload":{"gate":"A1"}}\n\n' +
+            'data: {"header":{"action":"publish","topic":"gate.A1.open","version":"1.0.0"},"payload":{"open":true}}\n\n'
+        );
+
+        abort.abort();
+        await closed;
+        expect(connections[0].state).toBe(ConnectionState.CLOSED);
+    });
+
+    /**
+     * Verifies that refused subscriptions are answered with the mapped HTTP status, and the connection is removed.
+     */
+    it('should answer refused subscriptions with the error', async () => {
+        route.mockReturnValueOnce({ status: 'success' });
+        route.mockReturnValueOnce({ error: new ForbiddenError('Not allowed to subscribe to billing.#').toJSON() });
+
+        const response = await fetch(`${baseUrl}/subscribe?topic=flight.%23&topic=billing.%23`);
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toEqual({ error: expect.objectContaining({ code: 'FORBIDDEN' }) });
+        await closed;
+    });
+
+    /**
+     * Verifies that malformed subscriptions are rejected before subscribing.
+     */
+    it('should reject malformed subscriptions', async () => {
+        expect((await fetch(`${baseUrl}/subscribe`)).status).toBe(400);
+        expect((await fetch(`${baseUrl}/subscribe?topic=flight.status`, { method: 'POST' })).status).toBe(405);
+        expect(routed).toHaveLength(0);
+    });
+});
+
+/**
+ * Test suite for the mapping of error codes to HTTP statuses.
+ */
+describe('getHttpStatus', () => {
+    it('should map the error codes of the broker, and others to Bad Gateway', () => {
+        expect(getHttpStatus(new MessageError('UNAUTHORIZED', 'Authentication required'))).toBe(401);
+        expect(getHttpStatus(new MessageError('FORBIDDEN', 'Not allowed'))).toBe(403);
+        expect(getHttpStatus(new MessageError('RATE_LIMITED', 'Too many messages'))).toBe(429);
+        expect(getHttpStatus(new MessageError('SERVICE_UNAVAILABLE', 'Target service disconnected'))).toBe(503);
+        expect(getHttpStatus(new MessageError('UNKNOWN_FLIGHT', 'Unknown flight'))).toBe(502);
+    });
+});
@@ -0,0 +1,81 @@
+import { ChunkReader } from '@core/connection/protocols/reader';
+
+/**
+ * Test suite for the ChunkReader class.
+ * Tests reading bytes within and across received chunks.
+ */
+describe('ChunkReader', () => {
+    let reader: ChunkReader;
+
+    beforeEach(() => {
+        reader = new ChunkReader();
+    });
+
+    /**
+     * Verifies that reads within a chunk return a view of the chunk instead of a copy.
+     */
+    it('should read within a chunk without copying', () => {
+        const chunk = Buffer.from('abcdef');
+        reader.push(chunk);
+
+        const bytes = reader.read(3);
+        expect(bytes.toString()).toBe('abc');
+        expect(bytes.buffer).toBe(chunk.buffer);
+        expect(reader.read(3).toString()).toBe('def');
+        expect(reader.length).toBe(0);
+    });
+
+    /**
+     * Verifies that reads across chunks copy the bytes of every chunk.
+     */
+    it('should read across chunks', () => {
+        reader.push(Buffer.from('ab'));
+        reader.push(Buffer.from('cd'));
+        reader.push(Buffer.from('efgh'));
+
+        expect(reader.read(1).toString()).toBe('a');
+        expect(reader.read(6).toString()).toBe('bcdefg');
+        expect(reader.length).toBe(1);
+        expect(reader.read(1).toString()).toBe('h');
+    });
+
+    /**
+     * Verifies that the frame length prefix is read within and across chunks.
+     */
+    it('should read 32-bit lengths within and across chunks', () => {
+        const length = Buffer.alloc(8);
+        length.writeUInt32BE(1024, 0);
+        length.writeUInt32BE(65536, 4);
+        reader.push(length.subarray(0, 6));
+        reader.push(length.subarray(6));
+
+        expect(reader.readUInt32BE()).toBe(1024);
+        expect(reader.readUInt32BE()).toBe(65536);
+        expect(reader.length).toBe(0);
+    });
+
+    /**
+     * Verifies that peeking does not consume the bytes.
+     */
+    it('should peek without reading', () => {
+        reader.push(Buffer.from('ab'));
+        reader.push(Buffer.from('cd'));
+
+        expect(reader.peek(3).toString()).toBe('abc');
+        expect(reader.peek(0).length).toBe(0);
+        expect(reader.length).toBe(4);
+        expect(reader.read(4).toString()).toBe('abcd');
+    });
+
+    /**
+     * Verifies that reading more bytes than received is rejected.
+     */
+    it('should reject reads past the received bytes', () => {
+        reader.push(Buffer.from('abc'));
+        reader.push(Buffer.alloc(0));
+
+        expect(() => reader.read(4)).toThrow(RangeError);
+        expect(() => reader.readUInt32BE()).toThrow('Cannot read 4 bytes, only 3 are unread');
+        expect(reader.length).toBe(3);
+    });
+});
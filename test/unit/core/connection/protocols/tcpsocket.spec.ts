@@ -38,7 +38,12 @@ jest.mock('@config', () => {
         allowUnsecure: true,
         host: 'localhost',
         connection: {
-            heartbeatDeregisterTimeout: 30000
+            heartbeatDeregisterTimeout: 30000,
+            outbound: {
+                highWaterMark: 1024,
+                lowWaterMark: 256,
+                policy: 'disconnect'
+            }
         },
         ssl: undefined
     };
@@ -109,15 +114,18 @@ jest.mock('fs', () => ({
  * @class MockSocket
  * @extends {EventEmitter}
  * @description Used to simulate TCP socket behavior in tests:
- * - Implements basic socket operations (write, end)
+ * - Implements basic socket operations (write, cork, uncork, end)
  * - Provides event emission capabilities
  * - Tracks remote address information
  * - Simulates network operations
  */
 class MockSocket extends EventEmitter {
     write = jest.fn();
+    cork = jest.fn();
+    uncork = jest.fn();
     end = jest.fn();
     remoteAddress = '127.0.0.1';
+    writableLength = 0;
 }
 
 /**
@@ -317,6 +325,36 @@ describe('TCPSocketConnection', () => {
             expect(listener).toHaveBeenCalledTimes(2);
         });
 
+        /**
+         * Tests that frames spanning many chunks are reassembled, and frames within a chunk are not copied
+         * Verifies chunk boundary handling of the frame reader
+         */
+        it('should reassemble frames across many chunks', () => {
+            const listener = jest.fn();
+            connection.onMessage(listener);
+
+            const largeData = Buffer.alloc(10000, 'a');
+            const smallData = Buffer.from('small message');
+            const lengthBuffer1 = Buffer.alloc(4);
+            const lengthBuffer2 = Buffer.alloc(4);
+            lengthBuffer1.writeUInt32BE(largeData.length);
+            lengthBuffer2.writeUInt32BE(smallData.length);
+            const stream = Buffer.concat([lengthBuffer1, largeData, lengthBuffer2, smallData]);
+
+            // Emit the stream in chunks of the size of a TCP segment, keeping the small frame within one chunk
+            const chunks: Buffer[] = [];
+            for (let offset = 0; offset < largeData.length + 4; offset += 1460) {
+                chunks.push(stream.subarray(offset, Math.min(offset + 1460, largeData.length + 4)));
+            }
+            chunks.push(stream.subarray(largeData.length + 4));
+            chunks.forEach(chunk => socket.emit('data', chunk));
+
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(listener).toHaveBeenNthCalledWith(1, largeData);
+            expect(listener).toHaveBeenNthCalledWith(2, smallData);
+            expect((listener.mock.calls[1][0] as Buffer).buffer).toBe(stream.buffer);
+        });
+
         /**
          * @test Verifies behavior when no message listener is registered
          * @expected Should not throw error when processing message
@@ -407,9 +445,55 @@ describe('TCPSocketConnection', () => {
 
             connection.send(message);
 
-            expect(socket.write).toHaveBeenCalledWith(
-                Buffer.concat([lengthBuffer, messageBuffer])
-            );
+            expect(socket.cork).toHaveBeenCalled();
+            expect(socket.write).toHaveBeenNthCalledWith(1, lengthBuffer);
+            expect(socket.write).toHaveBeenNthCalledWith(2, message, expect.any(Function));
+        });
+
+        /**
+         * @test Verifies that encoded messages are framed without copying them
+         * @expected The same buffer should be written to the socket after its length
+         */
+        it('should write encoded messages without copying them', () => {
+            const message = Buffer.from('test message');
+
+            connection.send(message);
+
+            expect(socket.write).toHaveBeenNthCalledWith(1, Buffer.from([0, 0, 0, message.length]));
+            expect(socket.write.mock.calls[1][0]).toBe(message);
+        });
+
+        /**
+         * @test Verifies that frames are not held back until the next tick
+         * @expected The socket should be uncorked before the outbound depth is measured
+         */
+        it('should uncork the socket before measuring the outbound depth', () => {
+            const listener = jest.fn();
+            connection.onBackpressure(listener);
+            socket.uncork.mockImplementation(() => { expect(listener).not.toHaveBeenCalled(); });
+
+            connection.send('test message');
+
+            expect(socket.uncork).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(0, 0);
+        });
+
+        /**
+         * @test Verifies the slow-consumer policy
+         * @expected A connection whose socket does not drain past the high water mark should be closed
+         */
+        it('should disconnect a slow consumer exceeding the high water mark', () => {
+            const closeListener = jest.fn();
+            connection.onClose(closeListener);
+
+            connection.send('test message');
+            socket.writableLength = 1020;
+            connection.send('test message');
+
+            expect(socket.write).toHaveBeenCalledTimes(2); // The length and the first message
+            expect(socket.end).toHaveBeenCalled();
+            expect(closeListener).toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Disconnecting slow consumer test-service'), expect.anything());
         });
 
         /**
@@ -27,6 +27,18 @@ jest.mock('@config', () => ({
             wss: 8443
         },
         host: 'localhost',
+        connection: {
+            outbound: {
+                highWaterMark: 1024,
+                lowWaterMark: 256,
+                policy: 'disconnect'
+            }
+        },
+        topic: {
+            maxLength: 255,
+            maxDepth: 5,
+            characters: 'a-zA-Z0-9'
+        },
         allowUnsecure: true,
         message: {
             payload: {
@@ -38,6 +50,9 @@ jest.mock('@config', () => ({
                 timeout: {
                     max: 30000
                 }
+            },
+            retries: {
+                max: 3
             }
         }
     }
@@ -141,6 +156,7 @@ describe('WebSocket Implementation', () => {
             get readyState() {
                 return this._readyState;
             },
+            bufferedAmount: 0,
             on: jest.fn(),
             send: jest.fn(),
             close: jest.fn(),
@@ -233,7 +249,32 @@ describe('WebSocket Implementation', () => {
         it('should send message when connection is open', () => {
             const message = 'test message';
             connection.send(message);
-            expect(mockWs.send).toHaveBeenCalledWith(message);
+            expect(mockWs.send).toHaveBeenCalledWith(message, { binary: false }, expect.any(Function));
+        });
+
+        /**
+         * Tests that encoded messages are sent as text, like serialized ones
+         */
+        it('should send encoded messages as text', () => {
+            const message = Buffer.from('test message');
+            connection.send(message);
+            expect(mockWs.send).toHaveBeenCalledWith(message, { binary: false }, expect.any(Function));
+        });
+
+        /**
+         * Tests that the depth of the outbound queue is reported as messages are sent and drained
+         */
+        it('should report the outbound queue depth', () => {
+            const listener = jest.fn();
+            connection.onBackpressure(listener);
+
+            (mockWs as any).bufferedAmount = 12;
+            connection.send('test message');
+            expect(listener).toHaveBeenLastCalledWith(12, 0);
+
+            (mockWs as any).bufferedAmount = 0;
+            mockWs.send.mock.calls[0][2]();
+            expect(listener).toHaveBeenLastCalledWith(0, 0);
         });
 
         /**
@@ -0,0 +1,137 @@
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import { OutboundQueue, OutboundTransport } from '@core/connection/queue';
+import { SlowConsumerPolicy } from '@core/types';
+
+/**
+ * A transport that buffers the written messages until they are flushed.
+ */
+class MockTransport implements OutboundTransport {
+    buffered = 0;
+    readonly written: string[] = [];
+    private readonly callbacks: (() => void)[] = [];
+
+    write(message: string | Buffer, callback: () => void): void {
+        this.written.push(message.toString());
+        this.buffered += Buffer.byteLength(message);
+        this.callbacks.push(callback);
+    }
+
+    /**
+     * Sends all buffered messages over the network, calling back the queue.
+     */
+    flush(): void {
+        this.buffered = 0;
+        for (const callback of this.callbacks.splice(0)) callback();
+    }
+}
+
+/**
+ * Test suite for the OutboundQueue class.
+ * Tests the accounting of outbound bytes and the slow-consumer policies.
+ */
+describe('OutboundQueue', () => {
+    const originalOutbound = { ...config.connection.outbound };
+    let transport: MockTransport;
+    let disconnect: jest.Mock<(reason: string) => void>;
+    let listener: jest.Mock<(depth: number, dropped: number) => void>;
+    let queue: OutboundQueue;
+
+    beforeEach(() => {
+        config.connection.outbound.highWaterMark = 10;
+        config.connection.outbound.lowWaterMark = 4;
+        transport = new MockTransport();
+        disconnect = jest.fn();
+        listener = jest.fn();
+        queue = new OutboundQueue(transport, disconnect);
+        queue.onChange(listener);
+    });
+
+    afterEach(() => {
+        config.connection.outbound = { ...originalOutbound };
+    });
+
+    /**
+     * Verifies that messages are written as long as the connection keeps up.
+     */
+    it('should write messages and report the depth until the high water mark', () => {
+        queue.push('aaaa');
+        queue.push('bbbb');
+
+        expect(transport.written).toEqual(['aaaa', 'bbbb']);
+        expect(queue.depth).toBe(8);
+        expect(listener).toHaveBeenLastCalledWith(8, 0);
+
+        transport.flush();
+        expect(listener).toHaveBeenLastCalledWith(0, 0);
+        expect(disconnect).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that slow consumers are disconnected with the reason.
+     */
+    it('should disconnect slow consumers', () => {
+        config.connection.outbound.policy = SlowConsumerPolicy.DISCONNECT;
+        queue.push('aaaaaaaa');
+        queue.push('bbbb');
+
+        expect(transport.written).toEqual(['aaaaaaaa']);
+        expect(disconnect).toHaveBeenCalledWith('Outbound queue of 12 bytes exceeds the high water mark of 10 bytes');
+    });
+
+    /**
+     * Verifies that new messages are dropped until the connection drained to the low water mark.
+     */
+    it('should drop new messages until the low water mark', () => {
+        config.connection.outbound.policy = SlowConsumerPolicy.DROP_NEW;
+        queue.push('aaaaaaaa');
+        queue.push('bbbb');
+        expect(listener).toHaveBeenLastCalledWith(8, 1);
+
+        // Still a slow consumer, even though the message would fit under the high water mark
+        transport.buffered = 6;
+        queue.push('c');
+        expect(listener).toHaveBeenLastCalledWith(6, 1);
+
+        transport.flush();
+        queue.push('dddd');
+        expect(transport.written).toEqual(['aaaaaaaa', 'dddd']);
+    });
+
+    /**
+     * Verifies that the oldest queued messages are dropped, and the queue is written once drained.
+     */
+    it('should drop the oldest queued messages and write the queue once drained', () => {
+        config.connection.outbound.policy = SlowConsumerPolicy.DROP_OLDEST;
+        queue.push('aaaaaaaa');
+        queue.push('bbb');
+        expect(queue.depth).toBe(11);
+
+        queue.push('c');
+        expect(queue.depth).toBe(9);
+        expect(listener).toHaveBeenLastCalledWith(9, 1);
+        queue.push('d');
+        expect(listener).toHaveBeenLastCalledWith(10, 0);
+        expect(transport.written).toEqual(['aaaaaaaa']);
+
+        transport.flush();
+        expect(transport.written).toEqual(['aaaaaaaa', 'c', 'd']);
+        expect(queue.depth).toBe(2);
+    });
+
+    /**
+     * Verifies that clearing the queue drops the queued messages.
+     */
+    it('should drop the queued messages when cleared', () => {
+        config.connection.outbound.policy = SlowConsumerPolicy.DROP_OLDEST;
+        queue.push('aaaaaaaa');
+        queue.push('bbbb');
+        expect(queue.depth).toBe(12);
+
+        queue.clear();
+        transport.flush();
+
+        expect(queue.depth).toBe(0);
+        expect(transport.written).toEqual(['aaaaaaaa']);
+    });
+});
@@ -0,0 +1,112 @@
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { DeliveryManager } from '@core/delivery';
+import { ServiceUnavailableError, TimeoutError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { ActionType } from '@core/types';
+import { BrokerHeader } from '@core/utils';
+
+jest.mock('@utils/logger', () => ({
+    SetupLogger: jest.fn().mockReturnValue({
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    })
+}));
+
+/**
+ * Test suite for the DeliveryManager class.
+ * Tests acknowledgements, redelivery with backoff and dead-lettering of at-least-once deliveries.
+ */
+describe('DeliveryManager', () => {
+    const originalDelivery = config.delivery;
+    const header: BrokerHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0', requestId: '123e4567-e89b-42d3-a456-426614174000' };
+    const payload = Buffer.from('{"gate":"A1"}');
+    let monitoringManager: MonitoringManager;
+    let connectionManager: jest.Mocked<ConnectionManager>;
+    let deliveryManager: DeliveryManager;
+
+    /**
+     * Gets the services the message was sent to, in order.
+     *
+     * @returns The IDs of the services.
+     */
+    const getSends = (): string[] => (connectionManager.sendMessage as jest.Mock).mock.calls.map(([serviceId]: any[]) => serviceId);
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        config.delivery = { ack: { timeout: 1000 }, backoff: { max: 3000 }, attempts: { max: 4 } };
+        monitoringManager = new MonitoringManager();
+        connectionManager = { sendMessage: jest.fn(), deadLetter: jest.fn() } as unknown as jest.Mocked<ConnectionManager>;
+        deliveryManager = new DeliveryManager(monitoringManager);
+        deliveryManager.assignConnectionManager(connectionManager);
+    });
+
+    afterEach(async () => {
+        await deliveryManager.dispose();
+        config.delivery = originalDelivery;
+        jest.useRealTimers();
+    });
+
+    it('should send the message to the subscribers and stop once acknowledged', () => {
+        deliveryManager.deliver(['service1', 'service2'], header, payload);
+
+        expect(connectionManager.sendMessage).toHaveBeenCalledWith('service1', header, payload, undefined);
+        expect(connectionManager.sendMessage).toHaveBeenCalledWith('service2', header, payload, undefined);
+        expect(monitoringManager.getMetric('delivery.service.{serviceid:service1}.inflight')!.value).toBe(1);
+        expect(deliveryManager.getInFlight('service1')).toBe(1);
+
+        expect(deliveryManager.ack('service1', header.requestId!)).toBe(true);
+        expect(deliveryManager.ack('service1', header.requestId!)).toBe(false);
+        expect(monitoringManager.getMetric('delivery.service.{serviceid:service1}.inflight')!.value).toBe(0);
+
+        jest.advanceTimersByTime(1000);
+        expect(getSends()).toEqual(['service1', 'service2', 'service2']);
+    });
+
+    it('should redeliver with exponential backoff and dead-letter after the maximum attempts', () => {
+        deliveryManager.deliver(['service1'], header, payload);
+
+        // Attempts are sent after 1000, 2000 (doubled) and 3000 (capped) ms
+        jest.advanceTimersByTime(999);
+        expect(getSends()).toHaveLength(1);
+        jest.advanceTimersByTime(1);
+        expect(getSends()).toHaveLength(2);
+        jest.advanceTimersByTime(2000);
+        expect(getSends()).toHaveLength(3);
+        jest.advanceTimersByTime(3000);
+        expect(getSends()).toHaveLength(4);
+        expect(connectionManager.deadLetter).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(3000);
+        expect(getSends()).toHaveLength(4);
+        expect(connectionManager.deadLetter).toHaveBeenCalledWith(header, payload, expect.any(TimeoutError));
+        const error = connectionManager.deadLetter.mock.calls[0][2];
+        expect(error.message).toBe('Not acknowledged after 4 attempts');
+        expect(error.details).toEqual({ serviceId: 'service1', attempts: 4 });
+        expect(deliveryManager.ack('service1', header.requestId!)).toBe(false);
+        expect(monitoringManager.getMetric('delivery.message.count.redelivered')!.value).toBe(3);
+        expect(monitoringManager.getMetric('delivery.message.count.deadlettered')!.value).toBe(1);
+    });
+
+    it('should dead-letter the pending deliveries of a disconnected subscriber', () => {
+        deliveryManager.deliver(['service1'], header, payload);
+
+        deliveryManager.detach('service1');
+
+        expect(connectionManager.deadLetter).toHaveBeenCalledWith(header, payload, expect.any(ServiceUnavailableError));
+        expect(monitoringManager.getMetric('delivery.service.{serviceid:service1}.inflight')).toBeUndefined();
+        jest.advanceTimersByTime(10000);
+        expect(getSends()).toHaveLength(1);
+    });
+
+    it('should keep its own copy of the payload', () => {
+        const buffer = Buffer.from('{"gate":"A1"}');
+        deliveryManager.deliver(['service1'], header, buffer);
+        buffer.fill(0);
+
+        jest.advanceTimersByTime(1000);
+        expect((connectionManager.sendMessage as jest.Mock).mock.calls[1][2]).toEqual(payload);
+    });
+});
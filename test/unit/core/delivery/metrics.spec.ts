@@ -0,0 +1,38 @@
+import { MonitoringManager } from '@core/monitoring';
+import { DeliveryMetrics } from '@core/delivery/metrics';
+import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
+
+describe('DeliveryMetrics', () => {
+    let monitoringManager: MonitoringManager;
+    let metrics: DeliveryMetrics;
+
+    beforeEach(() => {
+        monitoringManager = new MonitoringManager();
+        metrics = new DeliveryMetrics(monitoringManager);
+    });
+
+    afterEach(() => {
+        metrics.dispose();
+    });
+
+    it('should register all required metrics', () => {
+        expect(metrics.acknowledgedCount.name).toBe('delivery.message.count.acknowledged');
+        expect(metrics.acknowledgedCount.slot).toBeInstanceOf(GaugeSlot);
+        expect(metrics.redeliveredCount.name).toBe('delivery.message.count.redelivered');
+        expect(metrics.redeliveredRate.name).toBe('delivery.message.rate.redelivered');
+        expect(metrics.redeliveredRate.slot).toBeInstanceOf(RateSlot);
+        expect(metrics.deadLetteredCount.name).toBe('delivery.message.count.deadlettered');
+
+        const inFlight = metrics.serviceInFlight.registerMetric({ serviceId: 'test' });
+        expect(inFlight.slot).toBeInstanceOf(GaugeSlot);
+    });
+
+    it('should properly dispose all metrics', () => {
+        metrics.serviceInFlight.registerMetric({ serviceId: 'test' });
+
+        metrics.dispose();
+
+        expect(monitoringManager.getMetric('delivery.message.count.acknowledged')).toBeUndefined();
+        expect(monitoringManager.getMetric('delivery.service.{serviceid:test}.inflight')).toBeUndefined();
+    });
+});
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { DurableManager } from '@core/durable';
+import { ForbiddenError, InvalidRequestError } from '@core/errors';
+import { MonitoringManager } from '@core/monitoring';
+import { ActionType } from '@core/types';
+import { ClientHeader, MessageUtils } from '@core/utils';
+
+jest.mock('@utils/logger', () => ({
+    SetupLogger: jest.fn().mockReturnValue({
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    })
+}));
+
+/**
+ * Test suite for the DurableManager class.
+ * Tests durable subscriptions, delivery, acknowledgement and replay to reconnecting consumers.
+ */
+describe('DurableManager', () => {
+    const originalDurable = config.durable;
+    let monitoringManager: MonitoringManager;
+    let connectionManager: jest.Mocked<ConnectionManager>;
+    let durableManager: DurableManager;
+
+    /**
+     * Creates a DurableManager using the test directory.
+     *
+     * @returns The DurableManager.
+     */
+    const createManager = (): DurableManager => {
+        const manager = new DurableManager(monitoringManager);
+        manager.assignConnectionManager(connectionManager);
+        return manager;
+    };
+
+    /**
+     * Publishes a message to the consumers matching its topic.
+     *
+     * @param topic The topic of the message.
+     * @param payload The payload of the message.
+     * @param version The version of the message.
+     */
+    const publish = (topic: string, payload: object, version = '1.0.0'): void => {
+        const header: ClientHeader = { action: ActionType.PUBLISH, topic, version };
+        const parser = new MessageUtils.Parser(Buffer.from(MessageUtils.serialize(header, payload)));
+        durableManager.publish(durableManager.getConsumers(topic, version), parser);
+    };
+
+    /**
+     * Gets the messages delivered to a service.
+     *
+     * @param serviceId The ID of the service.
+     * @returns The requestIds and payloads of the delivered messages.
+     */
+    const getDeliveries = (serviceId: string): { requestId: string, payload: any }[] => (connectionManager.sendMessage as jest.Mock).mock.calls
+        .filter(([target]: any[]) => target === serviceId)
+        .map(([, header, payload]: any[]) => ({ requestId: header.requestId, payload: JSON.parse(payload.toString()) }));
+
+    beforeEach(() => {
+        config.durable = {
+            ...originalDurable,
+            directory: fs.mkdtempSync(path.join(os.tmpdir(), 'durable-')),
+            segment: { maxSize: 1024 },
+            retention: { ...originalDurable.retention },
+        };
+        monitoringManager = new MonitoringManager();
+        connectionManager = { sendMessage: jest.fn(), sendPaced: jest.fn() } as unknown as jest.Mocked<ConnectionManager>;
+        // Send the paced messages right away, as to a connection that keeps up
+        connectionManager.sendPaced.mockImplementation((serviceId, source) => {
+            for (let message = source(); message; message = source()) {
+                connectionManager.sendMessage(serviceId, message.header, message.payload, undefined);
+            }
+        });
+        durableManager = createManager();
+    });
+
+    afterEach(async () => {
+        await durableManager.dispose();
+        fs.rmSync(config.durable.directory, { recursive: true, force: true });
+        config.durable = originalDurable;
+    });
+
+    it('should validate consumer names', () => {
+        expect(DurableManager.isValidConsumer('billing-service_2')).toBe(true);
+        expect(DurableManager.isValidConsumer('')).toBe(false);
+        expect(DurableManager.isValidConsumer('..')).toBe(false);
+        expect(DurableManager.isValidConsumer('a/b')).toBe(false);
+        expect(DurableManager.isValidConsumer('a'.repeat(65))).toBe(false);
+    });
+
+    it('should match consumers by topic and version', () => {
+        expect(durableManager.subscribe('billing', 'service1', 'orders.#', '^1.0.0')).toBe(true);
+        expect(durableManager.subscribe('audit', 'service2', 'orders.created')).toBe(true);
+
+        expect(durableManager.getConsumers('orders.created', '1.2.0').sort()).toEqual(['audit', 'billing']);
+        expect(durableManager.getConsumers('orders.created', '2.0.0')).toEqual(['audit']);
+        expect(durableManager.getConsumers('orders.updated', '1.0.0')).toEqual(['billing']);
+        expect(durableManager.getConsumers('invoices.created', '1.0.0')).toEqual([]);
+    });
+
+    it('should reject invalid subscriptions', () => {
+        expect(durableManager.subscribe('billing', 'service1', 'orders..created')).toBe(false);
+        expect(durableManager.subscribe('billing', 'service1', 'orders.created', 'not a range')).toBe(false);
+
+        durableManager.subscribe('billing', 'service1', 'orders.created', undefined, 'billing');
+        expect(() => durableManager.subscribe('billing', 'service2', 'orders.updated', undefined, 'billing')).toThrow(InvalidRequestError);
+    });
+
+    it('should only attach services of the identity that created the consumer', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created', undefined, 'billing');
+        publish('orders.created', { id: 1 });
+        durableManager.detach('service1');
+
+        expect(() => durableManager.subscribe('billing', 'service2', 'orders.created', undefined, 'audit')).toThrow(ForbiddenError);
+        expect(getDeliveries('service2')).toHaveLength(0);
+
+        expect(durableManager.subscribe('billing', 'service2', 'orders.created', undefined, 'billing')).toBe(true);
+        expect(getDeliveries('service2').map(delivery => delivery.payload)).toEqual([{ id: 1 }]);
+    });
+
+    it('should let a reconnected service attach to the consumer without authentication', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        publish('orders.created', { id: 1 });
+        durableManager.detach('service1');
+
+        expect(durableManager.subscribe('billing', 'service2', 'orders.created')).toBe(true);
+        expect(getDeliveries('service2').map(delivery => delivery.payload)).toEqual([{ id: 1 }]);
+        expect(() => durableManager.subscribe('billing', 'service3', 'orders.created')).toThrow(InvalidRequestError);
+
+        expect(durableManager.unsubscribe('billing', 'service2', 'orders.created')).toBe(true);
+        expect(durableManager.getConsumers('orders.created')).toEqual([]);
+    });
+
+    it('should deliver published messages to the attached service', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+
+        publish('orders.created', { id: 1 });
+
+        expect(connectionManager.sendMessage).toHaveBeenCalledWith(
+            'service1',
+            expect.objectContaining({ action: ActionType.PUBLISH, topic: 'orders.created', version: '1.0.0', requestId: expect.any(String) }),
+            expect.any(Buffer),
+            undefined
+        );
+        expect(getDeliveries('service1').map(delivery => delivery.payload)).toEqual([{ id: 1 }]);
+    });
+
+    it('should replay the unacknowledged messages when a service attaches again', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created', undefined, 'billing');
+        publish('orders.created', { id: 1 });
+        publish('orders.created', { id: 2 });
+        expect(durableManager.ack('service1', getDeliveries('service1')[0].requestId)).toBe(true);
+
+        durableManager.detach('service1');
+        publish('orders.created', { id: 3 });
+        expect(getDeliveries('service1')).toHaveLength(2);
+
+        durableManager.subscribe('billing', 'service2', 'orders.created', undefined, 'billing');
+        expect(getDeliveries('service2').map(delivery => delivery.payload)).toEqual([{ id: 2 }, { id: 3 }]);
+    });
+
+    it('should replay one page at a time and deliver the messages published meanwhile in order', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        publish('orders.created', { id: 1 });
+        publish('orders.created', { id: 2 });
+        durableManager.detach('service1');
+
+        // Hold the paced messages back, as for a connection that did not drain yet
+        connectionManager.sendPaced.mockImplementation(() => undefined);
+        durableManager.subscribe('billing', 'service2', 'orders.created');
+        const source = connectionManager.sendPaced.mock.lastCall![1];
+        expect(getDeliveries('service2')).toHaveLength(0);
+
+        expect(JSON.parse(source()!.payload.toString())).toEqual({ id: 1 });
+        publish('orders.created', { id: 3 });
+        expect(getDeliveries('service2')).toHaveLength(0);
+        expect(JSON.parse(source()!.payload.toString())).toEqual({ id: 2 });
+        expect(JSON.parse(source()!.payload.toString())).toEqual({ id: 3 });
+        expect(source()).toBeUndefined();
+
+        // Once caught up, new messages are delivered as they are published
+        publish('orders.created', { id: 4 });
+        expect(getDeliveries('service2').map(delivery => delivery.payload)).toEqual([{ id: 4 }]);
+    });
+
+    it('should stop replaying to a detached service', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        publish('orders.created', { id: 1 });
+        durableManager.detach('service1');
+
+        connectionManager.sendPaced.mockImplementation(() => undefined);
+        durableManager.subscribe('billing', 'service2', 'orders.created');
+        const source = connectionManager.sendPaced.mock.lastCall![1];
+        durableManager.detach('service2');
+
+        expect(source()).toBeUndefined();
+    });
+
+    it('should acknowledge all messages delivered before the acknowledged one', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        publish('orders.created', { id: 1 });
+        publish('orders.created', { id: 2 });
+        const [first, second] = getDeliveries('service1');
+
+        expect(durableManager.ack('service2', second.requestId)).toBe(false);
+        expect(durableManager.ack('service1', second.requestId)).toBe(true);
+        expect(durableManager.ack('service1', first.requestId)).toBe(false);
+
+        durableManager.detach('service1');
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        expect(getDeliveries('service1')).toHaveLength(2);
+    });
+
+    it('should restore the consumers and their logs after a restart', async () => {
+        durableManager.subscribe('billing', 'service1', 'orders.#', '^1.0.0', 'billing');
+        publish('orders.created', { id: 1 });
+        publish('orders.created', { id: 2 });
+        durableManager.ack('service1', getDeliveries('service1')[0].requestId);
+        await durableManager.dispose();
+
+        durableManager = createManager();
+        expect(durableManager.getConsumers('orders.updated', '1.0.0')).toEqual(['billing']);
+        expect(durableManager.getConsumers('orders.updated', '2.0.0')).toEqual([]);
+
+        expect(() => durableManager.subscribe('billing', 'service2', 'orders.#', '^1.0.0', 'audit')).toThrow(ForbiddenError);
+        durableManager.subscribe('billing', 'service2', 'orders.#', '^1.0.0', 'billing');
+        expect(getDeliveries('service2').map(delivery => delivery.payload)).toEqual([{ id: 2 }]);
+    });
+
+    it('should save the acknowledged offsets in batches', () => {
+        jest.useFakeTimers();
+        const file = path.join(config.durable.directory, 'billing', 'consumer.json');
+        const acknowledged = () => JSON.parse(fs.readFileSync(file, 'utf-8')).acknowledged;
+        try {
+            durableManager.subscribe('billing', 'service1', 'orders.created');
+            for (let id = 0; id < 3; id++) publish('orders.created', { id });
+            for (const delivery of getDeliveries('service1')) durableManager.ack('service1', delivery.requestId);
+            expect(acknowledged()).toBe(-1);
+
+            jest.advanceTimersByTime(config.durable.ack.interval);
+            expect(acknowledged()).toBe(2);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('should delete a consumer and its log once it has no subscriptions left', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        durableManager.subscribe('billing', 'service1', 'orders.updated');
+        publish('orders.created', { id: 1 });
+
+        expect(durableManager.unsubscribe('billing', 'service2', 'orders.created')).toBe(false);
+        expect(durableManager.unsubscribe('billing', 'service1', 'orders.created')).toBe(true);
+        expect(fs.existsSync(path.join(config.durable.directory, 'billing'))).toBe(true);
+
+        expect(durableManager.unsubscribe('billing', 'service1', 'orders.updated')).toBe(true);
+        expect(durableManager.getConsumers('orders.updated')).toEqual([]);
+        expect(fs.existsSync(path.join(config.durable.directory, 'billing'))).toBe(false);
+    });
+
+    it('should compact the acknowledged messages and apply the retention limits', () => {
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        for (let id = 0; id < 40; id++) publish('orders.created', { id });
+        const deliveries = getDeliveries('service1');
+        durableManager.ack('service1', deliveries[19].requestId);
+
+        durableManager.maintain();
+        const compacted = monitoringManager.getMetric('durable.message.count.compacted')!.value;
+        expect(compacted).toBeGreaterThan(0);
+        expect(compacted).toBeLessThanOrEqual(20);
+
+        config.durable.retention.maxSize = 1;
+        durableManager.maintain();
+        expect(monitoringManager.getMetric('durable.message.count.expired')!.value).toBeGreaterThan(0);
+
+        durableManager.detach('service1');
+        durableManager.subscribe('billing', 'service1', 'orders.created');
+        const replayed = getDeliveries('service1').slice(deliveries.length).map(delivery => delivery.payload.id);
+        expect(replayed[replayed.length - 1]).toBe(39);
+        expect(replayed[0]).toBeGreaterThan(20);
+    });
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SegmentLog } from '@core/durable/log';
+
+/**
+ * Test suite for the SegmentLog class.
+ * Tests appending, reading, recovery, retention and compaction of the log.
+ */
+describe('SegmentLog', () => {
+    let directory: string;
+    let log: SegmentLog;
+
+    /**
+     * Appends records with the given data to the log.
+     *
+     * @param values The data of the records.
+     * @param timestamp The timestamp of the records.
+     */
+    const append = (values: string[], timestamp?: number): void => {
+        for (const value of values) log.append(Buffer.from(value), timestamp);
+    };
+
+    /**
+     * Reads the data of the records of the log from an offset.
+     *
+     * @param fromOffset The offset to read from.
+     * @returns The data of the records.
+     */
+    const read = (fromOffset = 0): string[] => Array.from(log.read(fromOffset), record => record.data.toString());
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'segment-log-'));
+        // Segments of two 25-byte records (20-byte header and 5-byte data)
+        log = new SegmentLog(directory, 50);
+    });
+
+    afterEach(() => {
+        log.close();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should append records with consecutive offsets', () => {
+        expect(log.append(Buffer.from('rec-0'))).toBe(0);
+        expect(log.append(Buffer.from('rec-1'))).toBe(1);
+
+        expect(log.startOffset).toBe(0);
+        expect(log.endOffset).toBe(2);
+        expect(log.size).toBe(50);
+        expect(Array.from(log.read(1))).toEqual([{ offset: 1, timestamp: expect.any(Number), data: Buffer.from('rec-1') }]);
+    });
+
+    it('should write the records appended during a turn of the event loop at once', async () => {
+        const segmentPath = path.join(directory, '00000000000000000000.log');
+        append(['rec-0', 'rec-1']);
+        expect(fs.statSync(segmentPath).size).toBe(0);
+
+        await new Promise(setImmediate);
+        expect(fs.statSync(segmentPath).size).toBe(50);
+    });
+
+    it('should read one page at a time, including the records appended and skipping the records removed meanwhile', () => {
+        log = new SegmentLog(directory, 100);
+        append(['rec-0', 'rec-1', 'rec-2', 'rec-3', 'rec-4']);
+
+        // Pages of one 25-byte record
+        const records = log.read(1, 30);
+        expect(records.next().value.data.toString()).toBe('rec-1');
+
+        append(['rec-5']);
+        log.compact(2);
+        expect(Array.from(records, record => record.data.toString())).toEqual(['rec-3', 'rec-4', 'rec-5']);
+    });
+
+    it('should read records larger than a page', () => {
+        append(['rec-0', 'rec-1']);
+
+        expect(Array.from(log.read(0, 10), record => record.data.toString())).toEqual(['rec-0', 'rec-1']);
+    });
+
+    it('should roll segments once they are full', () => {
+        append(['rec-0', 'rec-1', 'rec-2', 'rec-3', 'rec-4']);
+
+        expect(fs.readdirSync(directory).sort()).toEqual([
+            '00000000000000000000.log',
+            '00000000000000000002.log',
+            '00000000000000000004.log',
+        ]);
+        expect(read(3)).toEqual(['rec-3', 'rec-4']);
+    });
+
+    it('should recover the records and drop an incomplete record when reopened', () => {
+        append(['rec-0', 'rec-1', 'rec-2']);
+        log.close();
+        fs.appendFileSync(path.join(directory, '00000000000000000002.log'), Buffer.from([0, 0, 0, 9, 1]));
+
+        log = new SegmentLog(directory, 50);
+
+        expect(log.endOffset).toBe(3);
+        expect(log.append(Buffer.from('rec-3'))).toBe(3);
+        expect(read()).toEqual(['rec-0', 'rec-1', 'rec-2', 'rec-3']);
+    });
+
+    it('should remove the oldest segments by size', () => {
+        append(['rec-0', 'rec-1', 'rec-2', 'rec-3', 'rec-4']);
+
+        expect(log.applyRetention(60, 0)).toBe(4);
+
+        expect(log.startOffset).toBe(4);
+        expect(read()).toEqual(['rec-4']);
+    });
+
+    it('should remove the segments by age, keeping the active segment', () => {
+        append(['rec-0', 'rec-1'], 1000);
+        append(['rec-2', 'rec-3'], 5000);
+        append(['rec-4'], 1000);
+
+        expect(log.applyRetention(0, 2000, 6000)).toBe(2);
+        expect(read()).toEqual(['rec-2', 'rec-3', 'rec-4']);
+
+        // The active segment is kept even if all its records are too old
+        expect(log.applyRetention(0, 500, 10000)).toBe(2);
+        expect(read()).toEqual(['rec-4']);
+    });
+
+    it('should compact the records up to an offset', () => {
+        append(['rec-0', 'rec-1', 'rec-2', 'rec-3', 'rec-4']);
+
+        expect(log.compact(2)).toBe(3);
+
+        expect(log.startOffset).toBe(3);
+        expect(read()).toEqual(['rec-3', 'rec-4']);
+        expect(fs.readdirSync(directory).sort()).toEqual(['00000000000000000003.log', '00000000000000000004.log']);
+
+        // The compacted log is recovered when reopened
+        log.close();
+        log = new SegmentLog(directory, 50);
+        expect(log.startOffset).toBe(3);
+        expect(read()).toEqual(['rec-3', 'rec-4']);
+    });
+
+    it('should not compact the active segment', () => {
+        append(['rec-0', 'rec-1']);
+
+        expect(log.compact(1)).toBe(0);
+        expect(read()).toEqual(['rec-0', 'rec-1']);
+    });
+
+    it('should delete its directory when destroyed', () => {
+        append(['rec-0']);
+
+        log.destroy();
+
+        expect(fs.existsSync(directory)).toBe(false);
+    });
+});
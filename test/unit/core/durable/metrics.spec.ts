@@ -0,0 +1,41 @@
+import { MonitoringManager } from '@core/monitoring';
+import { DurableMetrics } from '@core/durable/metrics';
+import { GaugeSlot, RateSlot } from '@core/monitoring/metrics/slots';
+
+describe('DurableMetrics', () => {
+    let monitoringManager: MonitoringManager;
+    let metrics: DurableMetrics;
+
+    beforeEach(() => {
+        monitoringManager = new MonitoringManager();
+        metrics = new DurableMetrics(monitoringManager);
+    });
+
+    afterEach(() => {
+        metrics.dispose();
+    });
+
+    it('should register all required metrics', () => {
+        expect(metrics.consumerCount.name).toBe('durable.consumer.count');
+        expect(metrics.consumerCount.slot).toBeInstanceOf(GaugeSlot);
+
+        expect(metrics.appendedCount.name).toBe('durable.message.count.appended');
+        expect(metrics.appendedCount.slot).toBeInstanceOf(GaugeSlot);
+        expect(metrics.appendedRate.name).toBe('durable.message.rate.appended');
+        expect(metrics.appendedRate.slot).toBeInstanceOf(RateSlot);
+
+        expect(metrics.replayedCount.name).toBe('durable.message.count.replayed');
+        expect(metrics.expiredCount.name).toBe('durable.message.count.expired');
+        expect(metrics.compactedCount.name).toBe('durable.message.count.compacted');
+        expect(metrics.logSize.name).toBe('durable.log.size');
+        expect(metrics.logSize.slot).toBeInstanceOf(GaugeSlot);
+    });
+
+    it('should properly dispose all metrics', () => {
+        metrics.dispose();
+
+        expect(monitoringManager.getMetric('durable.consumer.count')).toBeUndefined();
+        expect(monitoringManager.getMetric('durable.message.rate.appended')).toBeUndefined();
+        expect(monitoringManager.getMetric('durable.log.size')).toBeUndefined();
+    });
+});
@@ -10,6 +10,7 @@ import {
     NoRouteFoundError,
     ServiceUnavailableError,
     TimeoutError,
+    RateLimitedError,
     InternalError
 } from '@core/errors';
 
@@ -163,6 +164,11 @@ describe('Error Classes', () => {
                 code: 'TIMEOUT',
                 name: 'TimeoutError'
             },
+            {
+                ErrorClass: RateLimitedError,
+                code: 'RATE_LIMITED',
+                name: 'RateLimitedError'
+            },
             {
                 ErrorClass: InternalError,
                 code: 'INTERNAL_ERROR',
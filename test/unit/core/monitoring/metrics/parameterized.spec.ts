@@ -5,6 +5,7 @@ import { InternalError } from '@core/errors';
 import { jest } from '@jest/globals';
 import { GaugeSlot } from '@core/monitoring/metrics/slots';
 import { Metric } from '@core/monitoring/metrics';
+import { config } from '@config';
 
 // Mock Metric class
 jest.mock('@core/monitoring/metrics', () => {
@@ -127,6 +128,36 @@ describe('ParameterizedMetric', () => {
         });
     });
 
+    describe('topic grammar', () => {
+        /**
+         * Loads the ParameterizedMetric class with a topic grammar, in a module registry of its own.
+         */
+        const load = (topic: typeof config.topic): typeof ParameterizedMetric => {
+            let Loaded!: typeof ParameterizedMetric;
+            jest.isolateModules(() => {
+                jest.requireActual<typeof import('@config')>('@config').config.topic = topic;
+                Loaded = jest.requireActual<typeof import('@core/monitoring/metrics/parameterized')>('@core/monitoring/metrics/parameterized').ParameterizedMetric;
+            });
+            return Loaded;
+        };
+
+        it('should follow the configured topic depth and characters', () => {
+            const Loaded = load({ maxLength: 255, maxDepth: 8, characters: 'a-z0-9_-' });
+
+            expect(() => new Loaded('region-eu.order_v2.a.b.c.d.e.{topic}', MockSlot)).not.toThrow();
+            expect(() => new Loaded('region-eu.order_v2.a.b.c.d.e.f.{topic}', MockSlot)).toThrow('Invalid metric template');
+            expect(() => new Loaded('region-eu.order_v2.{topic}', MockSlot)).not.toThrow();
+            expect(() => new ParameterizedMetric('region-eu.order_v2.{topic}', MockSlot)).toThrow(InternalError);
+        });
+
+        it('should keep the depth of the metrics of the broker with a lower topic depth', () => {
+            const Loaded = load({ maxLength: 255, maxDepth: 2, characters: 'a-z0-9' });
+
+            expect(() => new Loaded('connection.service.{serviceid}.queue.depth', MockSlot)).not.toThrow();
+            expect(() => new Loaded('connection.service.{serviceid}.queue.depth.max', MockSlot)).toThrow('Invalid metric template');
+        });
+    });
+
     /**
      * Tests for parameter extraction and instance management.
      * Each unique parameter combination should have its own slot instance.
@@ -153,6 +184,11 @@ describe('ParameterizedMetric', () => {
             expect(() => metric.registerMetric({ alpha: 'v1', beta: 'v2', gamma: 'v3' })).not.toThrow();
         });
 
+        it('should accept topic names as parameter values', () => {
+            const instance = metric.registerMetric({ param: 'region-eu.order_v2.created' });
+            expect(instance.name).toBe('system.test.{param:region-eu.order_v2.created}');
+        });
+
         it('should reject invalid parameter values', () => {
             // Invalid characters in value
             expect(() => metric.registerMetric({ param: 'value:with:colons' })).toThrow(InternalError);
@@ -1,10 +1,13 @@
 import { LogEntry } from 'winston';
 import { config } from '@config';
+import { AuthManager } from '@core/auth';
 import { ConnectionManager } from '@core/connection';
-import { InvalidRequestError, TopicNotSupportedError } from '@core/errors';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
+import { ForbiddenError, InvalidRequestError, TopicNotSupportedError, UnauthorizedError } from '@core/errors';
 import { MonitoringManager } from '@core/monitoring';
 import { SubscriptionManager } from '@core/subscription';
-import { ActionType } from '@core/types';
+import { ActionType, LoadBalancingStrategy } from '@core/types';
 import { MessageUtils } from '@core/utils';
 import { ServiceRegistry } from '@core/registry';
 import { RegistryMetrics } from '@core/registry/metrics';
@@ -33,9 +36,12 @@ jest.mock('@utils/logger', () => ({
 describe('ServiceRegistry', () => {
     let registry: ServiceRegistry;
     let subscriptionManager: jest.Mocked<SubscriptionManager>;
+    let durableManager: jest.Mocked<DurableManager>;
+    let deliveryManager: jest.Mocked<DeliveryManager>;
     let connectionManager: jest.Mocked<ConnectionManager>;
     let monitoringManager: MonitoringManager;
     let messageRouter: jest.Mocked<MessageRouter>;
+    let authManager: AuthManager;
 
     const createMockMessage = (header: any, payload?: any): MessageUtils.Parser => {
         const message = MessageUtils.serialize({
@@ -50,15 +56,26 @@ describe('ServiceRegistry', () => {
         jest.clearAllMocks();
 
         // Create instances with minimal required constructor args
-        subscriptionManager = new SubscriptionManager() as jest.Mocked<SubscriptionManager>;
         monitoringManager = new MonitoringManager();
-        messageRouter = new MessageRouter(subscriptionManager, monitoringManager) as jest.Mocked<MessageRouter>;
+        subscriptionManager = new SubscriptionManager(monitoringManager) as jest.Mocked<SubscriptionManager>;
+        durableManager = {
+            subscribe: jest.fn().mockReturnValue(true),
+            unsubscribe: jest.fn().mockReturnValue(true),
+            ack: jest.fn().mockReturnValue(true),
+            detach: jest.fn(),
+        } as unknown as jest.Mocked<DurableManager>;
+        deliveryManager = {
+            ack: jest.fn().mockReturnValue(false),
+            detach: jest.fn(),
+        } as unknown as jest.Mocked<DeliveryManager>;
+        authManager = new AuthManager(monitoringManager);
+        messageRouter = new MessageRouter(subscriptionManager, durableManager, deliveryManager, monitoringManager, authManager) as jest.Mocked<MessageRouter>;
 
         // Create registry instance first since ConnectionManager needs it
-        registry = new ServiceRegistry(subscriptionManager, monitoringManager);
+        registry = new ServiceRegistry(subscriptionManager, durableManager, deliveryManager, monitoringManager, authManager);
 
         // Now create ConnectionManager with all required dependencies
-        connectionManager = new ConnectionManager(messageRouter, registry, monitoringManager, subscriptionManager) as jest.Mocked<ConnectionManager>;
+        connectionManager = new ConnectionManager(messageRouter, registry, monitoringManager, subscriptionManager, authManager) as jest.Mocked<ConnectionManager>;
 
         // Mock subscriptionManager methods
         subscriptionManager.subscribePublish = jest.fn().mockReturnValue(true);
@@ -74,6 +91,7 @@ describe('ServiceRegistry', () => {
     afterEach(() => {
         // Dispose registry and metrics
         registry.dispose();
+        authManager.dispose();
         monitoringManager.dispose();
         jest.useRealTimers();
     });
@@ -174,6 +192,8 @@ describe('ServiceRegistry', () => {
 
             // Verify cleanup actions
             expect(subscriptionManager.unsubscribe).toHaveBeenCalledWith(serviceId);
+            expect(durableManager.detach).toHaveBeenCalledWith(serviceId);
+            expect(deliveryManager.detach).toHaveBeenCalledWith(serviceId);
             expect(connectionManager.removeConnection).toHaveBeenCalledWith(serviceId);
         });
 
@@ -272,6 +292,146 @@ describe('ServiceRegistry', () => {
             );
         });
 
+        it('should update and report rate limits with system.rate.limit', () => {
+            const originalLimits = JSON.parse(JSON.stringify(config.rate.limit));
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            config.rate.limit.admins = ['ops'];
+            jest.spyOn(authManager, 'getIdentity').mockReturnValue('ops');
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.rate.limit',
+                version: '1.0.0'
+            }, { service: 100, topic: 1000, topics: { 'baggage.events': 10 } }));
+
+            // Verify the limits were applied to the configuration
+            expect(config.rate.limit.global.per.service).toBe(100);
+            expect(config.rate.limit.global.per.topic).toBe(1000);
+            expect(config.rate.limit.topic.per.service['baggage.events']).toBe(10);
+
+            // Remove the topic limit, and verify the response holds the current limits
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.rate.limit',
+                version: '1.0.0'
+            }, { topics: { 'baggage.events': 0 } }));
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(
+                serviceId,
+                expect.objectContaining({ action: ActionType.RESPONSE, topic: 'system.rate.limit' }),
+                { status: 'success', limits: { service: 100, topic: 1000, topics: {} } },
+                undefined
+            );
+
+            config.rate.limit = originalLimits;
+        });
+
+        it('should only let admins change the rate limits', () => {
+            const originalLimits = JSON.parse(JSON.stringify(config.rate.limit));
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            config.rate.limit.admins = ['ops'];
+            const getIdentity = jest.spyOn(authManager, 'getIdentity').mockReturnValue('sorter');
+
+            // An authenticated service that is not an admin, and a service that did not authenticate
+            for (const identity of ['sorter', undefined]) {
+                getIdentity.mockReturnValue(identity);
+                expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                    action: ActionType.REQUEST,
+                    topic: 'system.rate.limit',
+                    version: '1.0.0'
+                }, { service: 0, topics: { 'baggage.events': 0 } }))).toThrow(ForbiddenError);
+            }
+            expect(config.rate.limit).toEqual({ ...originalLimits, admins: ['ops'] });
+
+            // Viewing the limits is allowed
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.rate.limit',
+                version: '1.0.0'
+            }, {}));
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(
+                serviceId,
+                expect.objectContaining({ action: ActionType.RESPONSE, topic: 'system.rate.limit' }),
+                expect.objectContaining({ status: 'success' }),
+                undefined
+            );
+
+            config.rate.limit = originalLimits;
+        });
+
+        it('should reject invalid rate limits without applying any of them', () => {
+            const originalLimits = JSON.parse(JSON.stringify(config.rate.limit));
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            config.rate.limit.admins = ['ops'];
+            jest.spyOn(authManager, 'getIdentity').mockReturnValue('ops');
+
+            const invalidPayloads = [
+                { service: -1 },
+                { topic: 1.5 },
+                { topics: [] },
+                { service: 5, topics: { 'system.heartbeat': 10 } },
+                { topics: { 'baggage.events': 'ten' } },
+            ];
+            for (const payload of invalidPayloads) {
+                expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                    action: ActionType.REQUEST,
+                    topic: 'system.rate.limit',
+                    version: '1.0.0'
+                }, payload))).toThrow(InvalidRequestError);
+            }
+            expect(config.rate.limit).toEqual({ ...originalLimits, admins: ['ops'] });
+
+            config.rate.limit = originalLimits;
+        });
+
+        it('should authenticate services with system.auth', () => {
+            const serviceId = randomUUID();
+            const requestId = randomUUID();
+            registry.registerService(serviceId);
+            connectionManager.getConnection = jest.fn().mockReturnValue({ ip: '10.0.0.1' });
+            const authenticate = jest.spyOn(authManager, 'authenticate').mockReturnValue('sorter');
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.auth',
+                version: '1.0.0',
+                requestId
+            }, { apiKey: 'sorter-api-key' }));
+
+            // Verify the credentials and the connection IP were passed to the auth manager
+            expect(authenticate).toHaveBeenCalledWith(serviceId, '10.0.0.1', { apiKey: 'sorter-api-key' });
+            expect(connectionManager.sendMessage).toHaveBeenCalledWith(
+                serviceId,
+                expect.objectContaining({
+                    action: ActionType.RESPONSE,
+                    topic: 'system.auth',
+                    requestId
+                }),
+                { status: 'success', identity: 'sorter' },
+                undefined
+            );
+        });
+
+        it('should reject system.auth requests with invalid credentials', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+
+            // No credentials are configured, so every attempt fails
+            expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.auth',
+                version: '1.0.0'
+            }, { apiKey: 'unknown' }))).toThrow(UnauthorizedError);
+            expect(connectionManager.sendMessage).not.toHaveBeenCalledWith(
+                serviceId,
+                expect.objectContaining({ topic: 'system.auth' }),
+                expect.anything(),
+                undefined
+            );
+        });
+
         it('should handle error logging with and without requestId', () => {
             const serviceId = randomUUID();
             const requestId = randomUUID();
@@ -344,7 +504,8 @@ describe('ServiceRegistry', () => {
             expect(subscriptionManager.subscribeRequest).toHaveBeenCalledWith(
                 serviceId,
                 'test.topic',
-                0
+                0,
+                undefined
             );
         });
 
@@ -808,6 +969,274 @@ describe('ServiceRegistry', () => {
             }))).toThrow('Invalid priority');
         });
 
+        it('should set the load balancing strategy when subscribing', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            subscriptionManager.subscribeRequest = jest.fn().mockReturnValueOnce(true);
+            subscriptionManager.setRequestStrategy = jest.fn().mockReturnValueOnce(true);
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0',
+                requestId: randomUUID()
+            }, {
+                topic: 'baggage.events',
+                action: ActionType.REQUEST,
+                strategy: LoadBalancingStrategy.ROUND_ROBIN
+            }));
+
+            expect(subscriptionManager.subscribeRequest).toHaveBeenCalledWith(serviceId, 'baggage.events', 0, undefined);
+            expect(subscriptionManager.setRequestStrategy).toHaveBeenCalledWith('baggage.events', LoadBalancingStrategy.ROUND_ROBIN);
+        });
+
+        it('should pass the version range when subscribing', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            subscriptionManager.subscribePublish = jest.fn().mockReturnValueOnce(true);
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0',
+                requestId: randomUUID()
+            }, {
+                topic: 'baggage.events',
+                action: ActionType.PUBLISH,
+                version: '^2.0.0'
+            }));
+
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'baggage.events', '^2.0.0', undefined, undefined);
+
+            // Test invalid version ranges
+            for (const version of ['not a range', 2]) {
+                expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                    action: ActionType.REQUEST,
+                    topic: 'system.topic.subscribe',
+                    version: '1.0.0'
+                }, {
+                    topic: 'baggage.events',
+                    action: ActionType.REQUEST,
+                    version
+                }))).toThrow('Invalid version range');
+            }
+        });
+
+        it('should handle durable subscription requests', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            jest.spyOn(authManager, 'getIdentity').mockReturnValue('billing-service');
+            const subscribe = (payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, payload));
+
+            subscribe({ topic: 'orders.created', action: ActionType.PUBLISH, version: '^1.0.0', consumer: 'billing' });
+
+            // The consumer belongs to the identity of the service
+            expect(durableManager.subscribe).toHaveBeenCalledWith('billing', serviceId, 'orders.created', '^1.0.0', 'billing-service');
+            expect(subscriptionManager.subscribePublish).not.toHaveBeenCalled();
+
+            // Test invalid durable subscriptions
+            expect(() => subscribe({ topic: 'orders.get', action: ActionType.REQUEST, consumer: 'billing' }))
+                .toThrow('Durable subscriptions are only allowed for publish subscriptions');
+            expect(() => subscribe({ topic: 'system.log', action: ActionType.PUBLISH, consumer: 'billing' }))
+                .toThrow('Durable subscriptions are only allowed for publish subscriptions');
+            for (const consumer of ['', '../billing', 42]) {
+                expect(() => subscribe({ topic: 'orders.created', action: ActionType.PUBLISH, consumer }))
+                    .toThrow('Invalid consumer name');
+            }
+        });
+
+        it('should handle durable unsubscription requests', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.unsubscribe',
+                version: '1.0.0'
+            }, {
+                topic: 'orders.created',
+                action: ActionType.PUBLISH,
+                consumer: 'billing'
+            }));
+
+            expect(durableManager.unsubscribe).toHaveBeenCalledWith('billing', serviceId, 'orders.created');
+            expect(connectionManager.sendMessage).toHaveBeenCalledWith(serviceId, expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+        });
+
+        it('should acknowledge durable messages with system.publish.ack', () => {
+            const serviceId = randomUUID();
+            const requestId = randomUUID();
+            registry.registerService(serviceId);
+            durableManager.ack.mockReturnValueOnce(true).mockReturnValueOnce(false);
+            const ack = (payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.publish.ack',
+                version: '1.0.0'
+            }, payload));
+
+            ack({ requestId });
+            expect(durableManager.ack).toHaveBeenCalledWith(serviceId, requestId);
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(serviceId, expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+
+            ack({ requestId });
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(serviceId, expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'failure' }, undefined);
+
+            // Test invalid requestIds
+            for (const payload of [{}, { requestId: 'not-a-uuid' }]) {
+                expect(() => ack(payload)).toThrow('Missing or invalid requestId');
+            }
+        });
+
+        it('should acknowledge at-least-once deliveries with system.publish.ack', () => {
+            const serviceId = randomUUID();
+            const requestId = randomUUID();
+            registry.registerService(serviceId);
+            deliveryManager.ack.mockReturnValueOnce(true);
+
+            registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.publish.ack',
+                version: '1.0.0'
+            }, { requestId }));
+
+            expect(deliveryManager.ack).toHaveBeenCalledWith(serviceId, requestId);
+            expect(durableManager.ack).not.toHaveBeenCalled();
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(serviceId, expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+        });
+
+        it('should pass the QoS when subscribing', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            const subscribe = (payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, payload));
+
+            subscribe({ topic: 'flight.status', action: ActionType.PUBLISH, qos: 1 });
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'flight.status', undefined, 1, undefined);
+
+            // Test invalid QoS
+            expect(() => subscribe({ topic: 'flight.status', action: ActionType.REQUEST, qos: 1 }))
+                .toThrow('QoS is only allowed for non-durable publish subscriptions');
+            expect(() => subscribe({ topic: 'flight.status', action: ActionType.PUBLISH, qos: 1, consumer: 'billing' }))
+                .toThrow('QoS is only allowed for non-durable publish subscriptions');
+            for (const qos of [2, '1']) {
+                expect(() => subscribe({ topic: 'flight.status', action: ActionType.PUBLISH, qos }))
+                    .toThrow('Invalid QoS, expected 0 or 1');
+            }
+        });
+
+        it('should pass the subscription group and its strategy when subscribing', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            subscriptionManager.subscribePublish = jest.fn().mockReturnValue(true);
+            subscriptionManager.setGroupStrategy = jest.fn().mockReturnValue(true);
+            const { SubscriptionManager: ActualSubscriptionManager } = jest.requireActual<typeof import('@core/subscription')>('@core/subscription');
+            (SubscriptionManager.isValidGroup as jest.Mock).mockImplementation(ActualSubscriptionManager.isValidGroup);
+            const subscribe = (payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, payload));
+
+            subscribe({ topic: 'orders.created', action: ActionType.PUBLISH, group: 'billing-workers', strategy: LoadBalancingStrategy.LEAST_OUTSTANDING });
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'orders.created', undefined, undefined, 'billing-workers');
+            expect(subscriptionManager.setGroupStrategy).toHaveBeenCalledWith('billing-workers', LoadBalancingStrategy.LEAST_OUTSTANDING);
+
+            // Test invalid subscription groups
+            expect(() => subscribe({ topic: 'orders.get', action: ActionType.REQUEST, group: 'billing-workers' }))
+                .toThrow('Subscription groups are only allowed for non-durable publish subscriptions');
+            expect(() => subscribe({ topic: 'orders.created', action: ActionType.PUBLISH, group: 'billing-workers', consumer: 'billing' }))
+                .toThrow('Subscription groups are only allowed for non-durable publish subscriptions');
+            expect(() => subscribe({ topic: 'system.log', action: ActionType.PUBLISH, group: 'billing-workers' }))
+                .toThrow('Subscription groups are only allowed for non-durable publish subscriptions');
+            for (const group of ['', 'billing.workers', 42]) {
+                expect(() => subscribe({ topic: 'orders.created', action: ActionType.PUBLISH, group }))
+                    .toThrow('Invalid subscription group');
+            }
+        });
+
+        it('should allow subscribing to the configured dead-letter topic', () => {
+            const originalTopic = config.deadletter.topic;
+            config.deadletter.topic = 'system.dropped';
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            const handle = (topic: string, payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic,
+                version: '1.0.0'
+            }, payload));
+
+            handle('system.topic.subscribe', { topic: 'system.dropped', action: ActionType.PUBLISH });
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'system.dropped', undefined, undefined, undefined);
+            handle('system.topic.unsubscribe', { topic: 'system.dropped', action: ActionType.PUBLISH });
+            expect(subscriptionManager.unsubscribePublish).toHaveBeenCalledWith(serviceId, 'system.dropped');
+
+            expect(() => handle('system.topic.subscribe', { topic: 'system.deadletter', action: ActionType.PUBLISH }))
+                .toThrow('Unable to subscribe to restricted topic');
+            config.deadletter.topic = originalTopic;
+        });
+
+        it('should reject subscriptions denied by the topic ACL policy', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            jest.spyOn(authManager, 'assertAllowed').mockImplementation((_serviceId, _action, topic) => {
+                if (topic.startsWith('billing.')) throw new ForbiddenError(`Not allowed to subscribe on topic ${topic}`);
+            });
+            const subscribe = (payload: any) => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, payload));
+
+            expect(() => subscribe({ topic: 'billing.#', action: ActionType.PUBLISH })).toThrow(ForbiddenError);
+            expect(() => subscribe({ topic: 'billing.invoice', action: ActionType.REQUEST, consumer: 'audit' })).toThrow(ForbiddenError);
+            expect(subscriptionManager.subscribePublish).not.toHaveBeenCalled();
+            expect(durableManager.subscribe).not.toHaveBeenCalled();
+
+            subscribe({ topic: 'orders.#', action: ActionType.PUBLISH });
+            expect(authManager.assertAllowed).toHaveBeenCalledWith(serviceId, 'subscribe', 'orders.#');
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'orders.#', undefined, undefined, undefined);
+        });
+
+        it('should validate the load balancing strategy in subscription request', () => {
+            const serviceId = randomUUID();
+            registry.registerService(serviceId);
+            subscriptionManager.subscribeRequest = jest.fn();
+            subscriptionManager.subscribePublish = jest.fn();
+
+            // Test unknown strategy
+            expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, {
+                topic: 'test.topic',
+                action: ActionType.REQUEST,
+                strategy: 'fastest'
+            }))).toThrow('Invalid load balancing strategy');
+
+            // Test strategy on a publish subscription
+            expect(() => registry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscribe',
+                version: '1.0.0'
+            }, {
+                topic: 'test.topic',
+                action: ActionType.PUBLISH,
+                strategy: LoadBalancingStrategy.ROUND_ROBIN
+            }))).toThrow('Load balancing strategy is only allowed for request subscriptions');
+
+            // Verify nothing was subscribed
+            expect(subscriptionManager.subscribeRequest).not.toHaveBeenCalled();
+            expect(subscriptionManager.subscribePublish).not.toHaveBeenCalled();
+        });
+
         it('should validate topic in unsubscription request', () => {
             const serviceId = randomUUID();
             const requestId = randomUUID();
@@ -1169,7 +1598,7 @@ describe('ServiceRegistry', () => {
                 topic: 'test.topic',
                 action: ActionType.PUBLISH
             }));
-            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'test.topic');
+            expect(subscriptionManager.subscribePublish).toHaveBeenCalledWith(serviceId, 'test.topic', undefined, undefined, undefined);
 
             // Test REQUEST action
             subscriptionManager.subscribeRequest = jest.fn().mockReturnValueOnce(true);
@@ -1183,7 +1612,7 @@ describe('ServiceRegistry', () => {
                 priority: 0,
                 action: ActionType.REQUEST
             }));
-            expect(subscriptionManager.subscribeRequest).toHaveBeenCalledWith(serviceId, 'test.topic', 0);
+            expect(subscriptionManager.subscribeRequest).toHaveBeenCalledWith(serviceId, 'test.topic', 0, undefined);
         });
 
         it('should validate action in topic unsubscription request', () => {
@@ -1298,6 +1727,110 @@ describe('ServiceRegistry', () => {
         });
     });
 
+    describe('Wildcard Subscriptions', () => {
+        let wildcardRegistry: ServiceRegistry;
+        let subscriptions: SubscriptionManager;
+        let wildcardMonitoringManager: MonitoringManager;
+
+        const subscribe = (serviceId: string, payload: any) => wildcardRegistry.handleSystemMessage(serviceId, createMockMessage({
+            action: ActionType.REQUEST,
+            topic: 'system.topic.subscribe',
+            version: '1.0.0'
+        }, payload));
+
+        beforeEach(() => {
+            // Use a real SubscriptionManager, so the subscriptions go through the actual topic matching
+            const { SubscriptionManager: ActualSubscriptionManager } = jest.requireActual('@core/subscription');
+            wildcardMonitoringManager = new MonitoringManager();
+            subscriptions = new ActualSubscriptionManager(wildcardMonitoringManager);
+            wildcardRegistry = new ServiceRegistry(subscriptions, durableManager, deliveryManager, wildcardMonitoringManager, authManager);
+            wildcardRegistry.assignConnectionManager(connectionManager);
+        });
+
+        afterEach(async () => {
+            wildcardRegistry.dispose();
+            await subscriptions.dispose();
+            wildcardMonitoringManager.dispose();
+        });
+
+        it('should subscribe to and unsubscribe from topic patterns', () => {
+            const serviceId = randomUUID();
+            wildcardRegistry.registerService(serviceId);
+
+            subscribe(serviceId, { action: ActionType.PUBLISH, topic: 'baggage.#' });
+            subscribe(serviceId, { action: ActionType.REQUEST, topic: 'baggage.+.europe', priority: 1 });
+
+            expect(subscriptions.getPublishSubscribers('baggage.events.europe')).toEqual([serviceId]);
+            expect(subscriptions.getTopRequestSubscribers('baggage.events.europe')).toEqual([serviceId]);
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(
+                serviceId,
+                expect.objectContaining({ action: ActionType.RESPONSE, topic: 'system.topic.subscribe' }),
+                { status: 'success' },
+                undefined
+            );
+
+            wildcardRegistry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.unsubscribe',
+                version: '1.0.0'
+            }, { action: ActionType.PUBLISH, topic: 'baggage.#' }));
+
+            expect(subscriptions.getPublishSubscribers('baggage.events.europe')).toEqual([]);
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(
+                serviceId,
+                expect.objectContaining({ action: ActionType.RESPONSE, topic: 'system.topic.unsubscribe' }),
+                { status: 'success' },
+                undefined
+            );
+        });
+
+        it('should rank exact request subscribers before wildcard ones of the same priority', () => {
+            const exact = randomUUID();
+            const wildcard = randomUUID();
+            wildcardRegistry.registerService(exact);
+            wildcardRegistry.registerService(wildcard);
+
+            subscribe(wildcard, { action: ActionType.REQUEST, topic: 'baggage.#' });
+            subscribe(exact, { action: ActionType.REQUEST, topic: 'baggage.events' });
+            expect(subscriptions.getRequestSubscriberTiers('baggage.events')).toEqual([[exact], [wildcard]]);
+
+            subscribe(wildcard, { action: ActionType.REQUEST, topic: 'baggage.+', priority: 1 });
+            expect(subscriptions.getRequestSubscriberTiers('baggage.events')).toEqual([[wildcard], [exact]]);
+        });
+
+        it('should list subscriptions with their patterns', () => {
+            const serviceId = randomUUID();
+            wildcardRegistry.registerService(serviceId);
+            subscribe(serviceId, { action: ActionType.PUBLISH, topic: 'baggage.+.europe' });
+
+            wildcardRegistry.handleSystemMessage(serviceId, createMockMessage({
+                action: ActionType.REQUEST,
+                topic: 'system.topic.subscriptions',
+                version: '1.0.0'
+            }));
+
+            expect(connectionManager.sendMessage).toHaveBeenLastCalledWith(
+                serviceId,
+                expect.objectContaining({ action: ActionType.RESPONSE, topic: 'system.topic.subscriptions' }),
+                { subscriptions: [{ action: ActionType.PUBLISH, topic: 'baggage.+.europe', subscribers: [{ serviceId, version: undefined, qos: undefined, group: undefined }] }] },
+                undefined
+            );
+        });
+
+        it('should not match system topics with wildcard patterns', () => {
+            const serviceId = randomUUID();
+            wildcardRegistry.registerService(serviceId);
+
+            expect(() => subscribe(serviceId, { action: ActionType.PUBLISH, topic: 'system.#' }))
+                .toThrow('Unable to subscribe to restricted topic');
+
+            subscribe(serviceId, { action: ActionType.PUBLISH, topic: '#' });
+            expect(subscriptions.getPublishSubscribers('baggage.events')).toEqual([serviceId]);
+            expect(subscriptions.getPublishSubscribers('system.log')).toEqual([]);
+            expect(subscriptions.getPublishSubscribers('system.message')).toEqual([]);
+        });
+    });
+
     describe('Heartbeat', () => {
         beforeEach(() => {
             jest.useFakeTimers();
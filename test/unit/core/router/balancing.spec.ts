@@ -0,0 +1,202 @@
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import {
+    BalancingContext,
+    ConsistentHashBalancer,
+    LeastOutstandingBalancer,
+    LoadBalancer,
+    RandomBalancer,
+    RoundRobinBalancer
+} from '@core/router/balancing';
+import { SubscriptionManager } from '@core/subscription';
+import { LoadBalancingStrategy } from '@core/types';
+
+jest.mock('@utils/logger', () => {
+    const mockLogger = {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    };
+    return {
+        __esModule: true,
+        default: mockLogger,
+        SetupLogger: jest.fn().mockReturnValue(mockLogger)
+    };
+});
+
+const CANDIDATES = ['service1', 'service2', 'service3'];
+
+/**
+ * Creates a balancing context for a topic.
+ *
+ * @param overrides The fields to override.
+ * @returns The balancing context.
+ */
+const createContext = (overrides: Partial<BalancingContext> = {}): BalancingContext => ({
+    topic: 'test.topic',
+    outstanding: () => 0,
+    ...overrides,
+});
+
+/**
+ * Test suite for the individual balancers.
+ */
+describe('Balancers', () => {
+    /**
+     * Verifies that the random balancer picks any of the candidates.
+     */
+    it('should pick a random candidate', () => {
+        const balancer = new RandomBalancer();
+        jest.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.99);
+
+        expect(balancer.select(CANDIDATES)).toBe('service1');
+        expect(balancer.select(CANDIDATES)).toBe('service3');
+    });
+
+    /**
+     * Verifies that the round-robin balancer cycles through the candidates per topic.
+     */
+    it('should pick each candidate in turn per topic', () => {
+        const balancer = new RoundRobinBalancer();
+        const picks = Array.from({ length: 4 }, () => balancer.select(CANDIDATES, createContext()));
+        expect(picks).toEqual(['service1', 'service2', 'service3', 'service1']);
+
+        // Verify other topics have their own counter
+        expect(balancer.select(CANDIDATES, createContext({ topic: 'other.topic' }))).toBe('service1');
+    });
+
+    /**
+     * Verifies that the round-robin balancer cycles through the members of a subscription group across its topics.
+     */
+    it('should pick each candidate in turn per subscription group', () => {
+        const balancer = new RoundRobinBalancer();
+        balancer.select(CANDIDATES, createContext());
+        expect(balancer.select(CANDIDATES, createContext({ group: 'workers' }))).toBe('service1');
+        expect(balancer.select(CANDIDATES, createContext({ topic: 'other.topic', group: 'workers' }))).toBe('service2');
+    });
+
+    /**
+     * Verifies that the round-robin balancer only keeps the counters of the most recently used topics.
+     */
+    it('should evict the least recently used counters', () => {
+        const balancer = new RoundRobinBalancer(2);
+        balancer.select(CANDIDATES, createContext());
+        balancer.select(CANDIDATES, createContext({ topic: 'other.topic' }));
+        balancer.select(CANDIDATES, createContext());
+        balancer.select(CANDIDATES, createContext({ topic: 'third.topic' }));
+
+        expect((balancer as any).counters.size).toBe(2);
+        expect(balancer.select(CANDIDATES, createContext())).toBe('service3');
+        expect(balancer.select(CANDIDATES, createContext({ topic: 'other.topic' }))).toBe('service1');
+    });
+
+    /**
+     * Verifies that the least-outstanding balancer picks the candidate with the fewest outstanding requests.
+     */
+    it('should pick the candidate with the fewest outstanding requests', () => {
+        const balancer = new LeastOutstandingBalancer();
+        const outstanding: Record<string, number> = { service1: 3, service2: 1, service3: 2 };
+
+        expect(balancer.select(CANDIDATES, createContext({ outstanding: (id) => outstanding[id] }))).toBe('service2');
+
+        // Verify ties are broken by order
+        expect(balancer.select(CANDIDATES, createContext())).toBe('service1');
+    });
+
+    /**
+     * Verifies that the consistent-hash balancer picks the same candidate for the same routing key,
+     * and only moves the keys of a candidate that leaves.
+     */
+    it('should pick the same candidate for the same routing key', () => {
+        const balancer = new ConsistentHashBalancer();
+        const keys = Array.from({ length: 50 }, (_, i) => `customer-${i}`);
+        const picks = keys.map(routingKey => balancer.select(CANDIDATES, createContext({ routingKey })));
+
+        // Verify the picks are stable and spread across the candidates
+        expect(keys.map(routingKey => balancer.select(CANDIDATES, createContext({ routingKey })))).toEqual(picks);
+        expect(new Set(picks).size).toBe(CANDIDATES.length);
+
+        // Verify only the keys of the removed candidate move
+        const remaining = CANDIDATES.filter(candidate => candidate !== 'service3');
+        keys.forEach((routingKey, i) => {
+            const pick = balancer.select(remaining, createContext({ routingKey }));
+            if (picks[i] !== 'service3') expect(pick).toBe(picks[i]);
+        });
+    });
+
+    /**
+     * Verifies that the consistent-hash balancer falls back to random without a routing key.
+     */
+    it('should pick a random candidate without a routing key', () => {
+        const balancer = new ConsistentHashBalancer();
+        jest.spyOn(Math, 'random').mockReturnValueOnce(0.5);
+
+        expect(balancer.select(CANDIDATES, createContext())).toBe('service2');
+    });
+});
+
+/**
+ * Test suite for the LoadBalancer class.
+ * Tests resolving the strategy of a topic and delegating to the balancers.
+ */
+describe('LoadBalancer', () => {
+    let mockSubscriptionManager: jest.Mocked<SubscriptionManager>;
+    let loadBalancer: LoadBalancer;
+    const originalStrategy = config.request.loadbalancing.strategy;
+
+    beforeEach(() => {
+        mockSubscriptionManager = {
+            getRequestStrategy: jest.fn().mockReturnValue(undefined),
+        } as unknown as jest.Mocked<SubscriptionManager>;
+        loadBalancer = new LoadBalancer(mockSubscriptionManager);
+    });
+
+    afterEach(() => {
+        config.request.loadbalancing.strategy = originalStrategy;
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Verifies that the default strategy is used when no pattern matches.
+     */
+    it('should use the configured default strategy', () => {
+        config.request.loadbalancing.strategy = LoadBalancingStrategy.ROUND_ROBIN;
+        expect(loadBalancer.getStrategy('test.topic')).toBe(LoadBalancingStrategy.ROUND_ROBIN);
+        expect(mockSubscriptionManager.getRequestStrategy).toHaveBeenCalledWith('test.topic');
+    });
+
+    /**
+     * Verifies that the strategy of a matching pattern takes precedence over the default.
+     */
+    it('should use the strategy of the topic pattern', () => {
+        mockSubscriptionManager.getRequestStrategy.mockReturnValue(LoadBalancingStrategy.ROUND_ROBIN);
+        const picks = Array.from({ length: 3 }, () => loadBalancer.select(CANDIDATES, createContext()));
+        expect(picks).toEqual(CANDIDATES);
+    });
+
+    /**
+     * Verifies that a given strategy (e.g. of a subscription group) takes precedence over the strategy of the topic.
+     */
+    it('should use the given strategy', () => {
+        const picks = Array.from({ length: 3 }, () => loadBalancer.select(CANDIDATES, createContext({ group: 'workers' }), LoadBalancingStrategy.ROUND_ROBIN));
+        expect(picks).toEqual(CANDIDATES);
+        expect(mockSubscriptionManager.getRequestStrategy).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that an unknown strategy falls back to random.
+     */
+    it('should fall back to random for unknown strategies', () => {
+        config.request.loadbalancing.strategy = 'fastest' as LoadBalancingStrategy;
+        expect(loadBalancer.getStrategy('test.topic')).toBe(LoadBalancingStrategy.RANDOM);
+    });
+
+    /**
+     * Verifies that a single candidate is picked without consulting a strategy.
+     */
+    it('should pick the only candidate', () => {
+        expect(loadBalancer.select(['service1'], createContext())).toBe('service1');
+        expect(mockSubscriptionManager.getRequestStrategy).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,73 @@
+import { ServiceUnavailableError } from '@core/errors';
+import { Gather } from '@core/router/gather';
+import { ActionType } from '@core/types';
+import { ClientHeader, GatherMode } from '@core/utils';
+
+const TARGETS = ['service1', 'service2', 'service3'];
+
+/**
+ * Creates a gather request to the test targets.
+ *
+ * @param gather The completion mode of the request.
+ * @returns The gather request.
+ */
+const createGather = (gather: GatherMode): Gather => {
+    const header: ClientHeader = { action: ActionType.REQUEST, topic: 'inventory.query', version: '1.0.0', gather };
+    return new Gather('client', header, TARGETS);
+};
+
+/**
+ * Test suite for the Gather class.
+ * Tests the completion modes and the aggregated payload.
+ */
+describe('Gather', () => {
+    /**
+     * Verifies the number of successful responses needed for each mode.
+     */
+    it('should compute the required responses', () => {
+        expect(Gather.getRequired('all', 3)).toBe(3);
+        expect(Gather.getRequired('quorum', 3)).toBe(2);
+        expect(Gather.getRequired('quorum', 4)).toBe(3);
+        expect(Gather.getRequired(2, 3)).toBe(2);
+        expect(Gather.getRequired(5, 3)).toBe(3);
+    });
+
+    /**
+     * Verifies that a gather request completes once enough subscribers responded successfully.
+     */
+    it('should complete after the required successful responses', () => {
+        const gather = createGather(2);
+        gather.addResult('service2', { stock: 1 });
+        gather.addError('service1', new ServiceUnavailableError('Shard offline'));
+        expect(gather.isSettled).toBe(false);
+
+        gather.addResult('service3', { stock: 2 });
+        expect(gather.isComplete).toBe(true);
+        expect(gather.isSettled).toBe(true);
+        expect(gather.toPayload()).toEqual({
+            complete: true,
+            required: 2,
+            results: [
+                { serviceId: 'service2', result: { stock: 1 } },
+                { serviceId: 'service1', error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE', message: 'Shard offline' }) },
+                { serviceId: 'service3', result: { stock: 2 } },
+            ],
+        });
+    });
+
+    /**
+     * Verifies that an incomplete gather request is settled once all subscribers responded.
+     */
+    it('should settle once all subscribers responded', () => {
+        const gather = createGather('all');
+        gather.addResult('service1', {});
+        gather.addError('service2', new ServiceUnavailableError('Shard offline'));
+        expect(gather.pending).toBe(1);
+        expect(gather.isSettled).toBe(false);
+
+        gather.addResult('service3', {});
+        expect(gather.isComplete).toBe(false);
+        expect(gather.isSettled).toBe(true);
+        expect(gather.toPayload()).toEqual(expect.objectContaining({ complete: false, required: 3 }));
+    });
+});
@@ -7,16 +7,19 @@
 import { jest } from '@jest/globals';
 import { randomUUID } from 'crypto';
 import { config } from '@config';
+import { AuthManager } from '@core/auth';
 import { ConnectionManager } from '@core/connection';
+import { DeliveryManager } from '@core/delivery';
+import { DurableManager } from '@core/durable';
 import { MessageRouter } from '@core/router';
 import { ServiceRegistry } from '@core/registry';
 import { SubscriptionManager } from '@core/subscription';
-import { ActionType } from '@core/types';
+import { ActionType, LoadBalancingStrategy } from '@core/types';
 import { BrokerHeader, ClientHeader, Message } from '@core/utils/types';
 import { Parser, serialize } from '@core/utils/message';
 import logger, { SetupLogger } from '@utils/logger';
 import { MonitoringManager } from '@core/monitoring/manager';
-import { InvalidRequestIdError } from '@core/errors';
+import { ForbiddenError, InvalidRequestIdError, NoRouteFoundError, RateLimitedError, ServiceUnavailableError, TimeoutError, UnsupportedVersionError } from '@core/errors';
 import { RouterMetrics } from '@core/router/metrics';
 import { GaugeSlot, RateSlot, AverageSlot, MaximumSlot } from '@core/monitoring/metrics/slots';
 
@@ -47,6 +50,9 @@ describe('MessageRouter', () => {
     let mockConnectionManager: jest.Mocked<ConnectionManager>;
     let mockServiceRegistry: jest.Mocked<ServiceRegistry>;
     let mockSubscriptionManager: jest.Mocked<SubscriptionManager>;
+    let mockDurableManager: jest.Mocked<DurableManager>;
+    let mockDeliveryManager: jest.Mocked<DeliveryManager>;
+    let mockAuthManager: jest.Mocked<AuthManager>;
     let monitoringManager: MonitoringManager;
 
     /**
@@ -61,13 +67,37 @@ describe('MessageRouter', () => {
         mockSubscriptionManager = {
             // Mock subscriber retrieval methods
             getPublishSubscribers: jest.fn().mockReturnValue([]),
+            getPublishRecipients: jest.fn().mockReturnValue([]),
+            getGroupStrategy: jest.fn().mockReturnValue(LoadBalancingStrategy.ROUND_ROBIN),
+            getQosPublishSubscribers: jest.fn().mockReturnValue([]),
+            getRequestSubscribers: jest.fn().mockReturnValue([]),
             getTopRequestSubscribers: jest.fn().mockReturnValue([]),
+            getRequestSubscriberTiers: jest.fn().mockReturnValue([]),
+            getRequestStrategy: jest.fn().mockReturnValue(undefined),
+            setRetained: jest.fn(),
             subscribePublish: jest.fn(),
             subscribeRequest: jest.fn(),
             unsubscribePublish: jest.fn(),
             unsubscribeRequest: jest.fn()
         } as unknown as jest.Mocked<SubscriptionManager>;
 
+        // Create mock DurableManager without durable consumers
+        mockDurableManager = {
+            getConsumers: jest.fn().mockReturnValue([]),
+            publish: jest.fn(),
+        } as unknown as jest.Mocked<DurableManager>;
+
+        // Create mock DeliveryManager for at-least-once deliveries
+        mockDeliveryManager = {
+            deliver: jest.fn(),
+            getInFlight: jest.fn().mockReturnValue(0),
+        } as unknown as jest.Mocked<DeliveryManager>;
+
+        // Create mock AuthManager allowing every topic
+        mockAuthManager = {
+            assertAllowed: jest.fn(),
+        } as unknown as jest.Mocked<AuthManager>;
+
         // Create mock ServiceRegistry with basic implementations
         mockServiceRegistry = {
             resetHeartbeat: jest.fn(),
@@ -78,12 +108,14 @@ describe('MessageRouter', () => {
         monitoringManager = new MonitoringManager();
 
         // Create MessageRouter with mock managers and real monitoring
-        messageRouter = new MessageRouter(mockSubscriptionManager, monitoringManager);
+        messageRouter = new MessageRouter(mockSubscriptionManager, mockDurableManager, mockDeliveryManager, monitoringManager, mockAuthManager);
 
         // Create mock ConnectionManager with basic implementations
         mockConnectionManager = {
             // Mock message sending functionality
             sendMessage: jest.fn(),
+            fanOutMessage: jest.fn(),
+            deadLetter: jest.fn(),
         } as unknown as jest.Mocked<ConnectionManager>;
 
         // Assign managers to router
@@ -125,7 +157,7 @@ describe('MessageRouter', () => {
             expect(mockServiceRegistry.handleSystemMessage).toHaveBeenCalledWith('service1', parser);
 
             // Verify no other handlers were called
-            expect(mockSubscriptionManager.getPublishSubscribers).not.toHaveBeenCalled();
+            expect(mockSubscriptionManager.getPublishRecipients).not.toHaveBeenCalled();
             expect(mockConnectionManager.sendMessage).not.toHaveBeenCalled();
         });
 
@@ -145,14 +177,14 @@ describe('MessageRouter', () => {
             const parser = new Parser(Buffer.from(message));
 
             // Mock subscribers for the topic
-            mockSubscriptionManager.getPublishSubscribers.mockReturnValueOnce(['service2']);
+            mockSubscriptionManager.getPublishRecipients.mockReturnValueOnce(['service2']);
 
             // Route the message
             messageRouter.routeMessage('service1', parser);
 
             // Verify message was forwarded to subscribers
-            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith(
-                'service2',
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledWith(
+                ['service2'],
                 expect.objectContaining({
                     action: ActionType.PUBLISH,
                     topic: 'test.topic',
@@ -267,8 +299,8 @@ describe('MessageRouter', () => {
             const message = serialize(header, payload);
             const parser = new Parser(Buffer.from(message));
 
-            // Mock getPublishSubscribers to throw an error
-            mockSubscriptionManager.getPublishSubscribers.mockImplementationOnce(() => {
+            // Mock getPublishRecipients to throw an error
+            mockSubscriptionManager.getPublishRecipients.mockImplementationOnce(() => {
                 throw new Error('Test error');
             });
 
@@ -449,14 +481,14 @@ describe('MessageRouter', () => {
             const parser = new Parser(Buffer.from(message));
 
             // Mock subscribers for the topic
-            mockSubscriptionManager.getPublishSubscribers.mockReturnValueOnce(['service2']);
+            mockSubscriptionManager.getPublishRecipients.mockReturnValueOnce(['service2']);
 
             // Route the message
             messageRouter.routeMessage('service1', parser);
 
             // Verify message was forwarded to subscribers
-            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith(
-                'service2',
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledWith(
+                ['service2'],
                 expect.objectContaining({
                     action: ActionType.PUBLISH,
                     topic: 'test.topic',
@@ -980,4 +1012,1039 @@ describe('MessageRouter', () => {
             );
         });
     });
-});
\ No newline at end of file
+
+    describe('rate limiting', () => {
+        const originalLimits = JSON.parse(JSON.stringify(config.rate.limit));
+
+        afterEach(() => {
+            config.rate.limit = JSON.parse(JSON.stringify(originalLimits));
+        });
+
+        /**
+         * Tests that messages beyond the configured limit are rejected with a RateLimitedError
+         * and counted in the rate limit metrics.
+         */
+        it('should reject messages exceeding the rate limit', () => {
+            config.rate.limit.global.per.service = 1;
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'test.topic', version: '1.0.0' };
+
+            // The first message is within the limit
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))));
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledTimes(1);
+
+            // The second message is rejected before being forwarded
+            expect(() => messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {})))))
+                .toThrow(RateLimitedError);
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledTimes(1);
+
+            // Verify the rate limit metrics were incremented
+            const metrics = (messageRouter as any).metrics;
+            expect(metrics.messageCountRateLimited.slot.value).toBe(1);
+            expect(metrics.messageCountError.slot.value).toBe(1);
+        });
+
+        /**
+         * Tests that system messages and responses are never rate limited.
+         */
+        it('should not rate limit system messages or responses', () => {
+            config.rate.limit.global.per.service = 1;
+            const systemHeader: ClientHeader = { action: ActionType.REQUEST, topic: 'system.heartbeat', version: '1.0.0' };
+            const responseHeader: ClientHeader = { action: ActionType.RESPONSE, topic: 'test.topic', version: '1.0.0', requestId: randomUUID() };
+
+            for (let i = 0; i < 3; i++) {
+                messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(systemHeader, {}))));
+                // Responses without a matching request fail, but not because of the rate limit
+                expect(() => messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(responseHeader, {})))))
+                    .toThrow(InvalidRequestIdError);
+            }
+
+            expect(mockServiceRegistry.handleSystemMessage).toHaveBeenCalledTimes(3);
+            expect((messageRouter as any).metrics.messageCountRateLimited.slot.value).toBe(0);
+        });
+    });
+
+    describe('load balancing', () => {
+        /**
+         * Routes a request for a topic and returns the service it was forwarded to.
+         */
+        const routeRequest = (topic: string, routingKey?: string): string => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic, version: '1.0.0', requestId: randomUUID(), routingKey };
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, {}))));
+            return mockConnectionManager.sendMessage.mock.calls[mockConnectionManager.sendMessage.mock.calls.length - 1][0];
+        };
+
+        /**
+         * Tests that requests are spread using the strategy of the topic.
+         */
+        it('should pick subscribers using the strategy of the topic', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1', 'service2']);
+            mockSubscriptionManager.getRequestStrategy.mockReturnValue(LoadBalancingStrategy.ROUND_ROBIN);
+
+            expect([routeRequest('test.topic'), routeRequest('test.topic'), routeRequest('test.topic')])
+                .toEqual(['service1', 'service2', 'service1']);
+            expect(mockSubscriptionManager.getRequestStrategy).toHaveBeenCalledWith('test.topic');
+        });
+
+        /**
+         * Tests that requests with the same routing key go to the same subscriber.
+         */
+        it('should pass the routing key to the strategy', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1', 'service2', 'service3']);
+            mockSubscriptionManager.getRequestStrategy.mockReturnValue(LoadBalancingStrategy.CONSISTENT_HASH);
+
+            const target = routeRequest('test.topic', 'customer-42');
+            for (let i = 0; i < 5; i++) {
+                expect(routeRequest('test.topic', 'customer-42')).toBe(target);
+            }
+        });
+
+        /**
+         * Tests that the outstanding requests are tracked per target, so the least-outstanding
+         * strategy avoids busy subscribers.
+         */
+        it('should track outstanding requests per target', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1', 'service2']);
+            mockSubscriptionManager.getRequestStrategy.mockReturnValue(LoadBalancingStrategy.LEAST_OUTSTANDING);
+
+            expect(routeRequest('test.topic')).toBe('service1');
+            expect(routeRequest('test.topic')).toBe('service2');
+            expect(routeRequest('test.topic')).toBe('service1');
+            expect((messageRouter as any).requestsByTarget.get('service1').size).toBe(2);
+            expect((messageRouter as any).requestsByTarget.get('service2').size).toBe(1);
+
+            // Respond to both requests of service1
+            const forwarded = mockConnectionManager.sendMessage.mock.calls.filter(call => call[0] === 'service1');
+            for (const [, header] of forwarded) {
+                const responseHeader: ClientHeader = { action: ActionType.RESPONSE, topic: 'test.topic', version: '1.0.0', requestId: (header as BrokerHeader).requestId };
+                messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(responseHeader, {}))));
+            }
+
+            // Verify service1 is now the least busy
+            expect((messageRouter as any).requestsByTarget.has('service1')).toBe(false);
+            expect((messageRouter as any).requestsByTarget.get('service2').size).toBe(1);
+            expect(routeRequest('test.topic')).toBe('service1');
+        });
+    });
+
+    describe('service disconnect', () => {
+        /**
+         * Routes a request for a topic and returns the header it was forwarded with.
+         */
+        const routeRequest = (retries?: number, timeout?: number): ClientHeader => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID(), timeout, retries };
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, { value: 42 }))));
+            return header;
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that pending requests fail immediately when their target disconnects.
+         */
+        it('should fail the outstanding requests of a disconnected service', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            const first = routeRequest();
+            const second = routeRequest();
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue([]);
+            mockConnectionManager.sendMessage.mockClear();
+
+            messageRouter.handleServiceDisconnect('service1');
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(2);
+            for (const [index, header] of [first, second].entries()) {
+                expect(mockConnectionManager.sendMessage).toHaveBeenNthCalledWith(index + 1,
+                    'client',
+                    expect.objectContaining({ action: ActionType.RESPONSE, requestId: header.requestId }),
+                    { error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE', details: { targetServiceId: 'service1' } }) },
+                    undefined
+                );
+            }
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect((messageRouter as any).requestsByTarget.size).toBe(0);
+            expect((messageRouter as any).metrics.requestCountUnavailable.slot.value).toBe(2);
+
+            // Verify the timeouts were cleared
+            jest.advanceTimersByTime(config.request.response.timeout.default);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(2);
+        });
+
+        /**
+         * Tests that only the requests of the disconnected service are settled.
+         */
+        it('should not affect requests to other services', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service2']);
+            routeRequest();
+            mockConnectionManager.sendMessage.mockClear();
+
+            messageRouter.handleServiceDisconnect('service1');
+
+            expect(mockConnectionManager.sendMessage).not.toHaveBeenCalled();
+            expect((messageRouter as any).requests.size).toBe(1);
+        });
+
+        /**
+         * Tests that requests with a retry budget are re-routed to another subscriber,
+         * keeping their payload and original deadline.
+         */
+        it('should re-route requests with a retry budget', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            const header = routeRequest(1, 1000);
+            jest.advanceTimersByTime(400);
+            mockSubscriptionManager.getRequestSubscriberTiers.mockReturnValue([['service2']]);
+            mockConnectionManager.sendMessage.mockClear();
+
+            messageRouter.handleServiceDisconnect('service1');
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            const [target, forwardedHeader, payload, requestId] = mockConnectionManager.sendMessage.mock.calls[0];
+            expect(target).toBe('service2');
+            expect(forwardedHeader).toEqual(expect.objectContaining({ action: ActionType.REQUEST, topic: 'test.topic' }));
+            expect((payload as Buffer).toString()).toBe(JSON.stringify({ value: 42 }));
+            expect(requestId).toBe(header.requestId);
+            expect((messageRouter as any).metrics.requestCountRerouted.slot.value).toBe(1);
+
+            // Verify the budget was used up, so a second disconnect fails the request
+            const request = (messageRouter as any).getRequest('service2', (forwardedHeader as BrokerHeader).requestId);
+            expect(request.retries).toBe(0);
+
+            // Verify the re-routed request times out at the original deadline
+            jest.advanceTimersByTime(600);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.objectContaining({ requestId: header.requestId }),
+                { error: expect.objectContaining({ code: 'TIMEOUT' }) },
+                undefined
+            );
+        });
+
+        /**
+         * Tests that requests with a retry budget fail when there is no other subscriber.
+         */
+        it('should fail requests with a retry budget without another subscriber', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            routeRequest(2);
+            mockConnectionManager.sendMessage.mockClear();
+
+            messageRouter.handleServiceDisconnect('service1');
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith(
+                'client',
+                expect.any(Object),
+                { error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE' }) },
+                undefined
+            );
+            expect((messageRouter as any).metrics.requestCountRerouted.slot.value).toBe(0);
+        });
+    });
+
+    describe('failover', () => {
+        /**
+         * Routes a request for a topic with a retry budget and returns its header.
+         */
+        const routeRequest = (retries: number, timeout: number): ClientHeader => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID(), timeout, retries };
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, { value: 42 }))));
+            return header;
+        };
+
+        /**
+         * Gets the service and request ID of the last forwarded request.
+         */
+        const lastForwarded = (): [string, string] => {
+            const [target, header] = mockConnectionManager.sendMessage.mock.calls[mockConnectionManager.sendMessage.mock.calls.length - 1];
+            return [target, (header as BrokerHeader).requestId!];
+        };
+
+        /**
+         * Sends a response from a service.
+         */
+        const respond = (serviceId: string, requestId: string, payload: string): void => {
+            messageRouter.routeMessage(serviceId, new Parser(Buffer.from(`response:test.topic:1.0.0:${requestId}\n${payload}`)));
+        };
+
+        const retryableError = `error:${JSON.stringify(new ServiceUnavailableError('Shutting down').toJSON())}`;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1', 'service2']);
+            mockSubscriptionManager.getRequestSubscriberTiers.mockReturnValue([['service1', 'service2'], ['service3']]);
+            mockSubscriptionManager.getRequestStrategy.mockReturnValue(LoadBalancingStrategy.ROUND_ROBIN);
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that timed out attempts are retried on the rest of the tier, then on the next tier,
+         * with the deadline split between the attempts.
+         */
+        it('should retry timed out requests on the next subscribers', () => {
+            const header = routeRequest(2, 3000);
+            expect(lastForwarded()[0]).toBe('service1');
+
+            jest.advanceTimersByTime(1000);
+            expect(lastForwarded()[0]).toBe('service2');
+
+            jest.advanceTimersByTime(1000);
+            expect(lastForwarded()[0]).toBe('service3');
+            expect((messageRouter as any).metrics.requestCountRetry.slot.value).toBe(2);
+            expect((messageRouter as any).metrics.requestCountTimeout.slot.value).toBe(2);
+
+            // Verify the last attempt fails at the original deadline
+            jest.advanceTimersByTime(999);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(3);
+            jest.advanceTimersByTime(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.objectContaining({ requestId: header.requestId }),
+                { error: expect.objectContaining({ code: 'TIMEOUT', details: { targetServiceId: 'service3' } }) },
+                undefined
+            );
+        });
+
+        /**
+         * Tests that retryable error responses are retried, and the successful response is sent to the requester.
+         */
+        it('should retry requests failing with a retryable error', () => {
+            const header = routeRequest(1, 3000);
+            respond(...lastForwarded(), retryableError);
+
+            const [target, requestId] = lastForwarded();
+            expect(target).toBe('service2');
+            expect((messageRouter as any).metrics.requestCountRetry.slot.value).toBe(1);
+
+            respond(target, requestId, JSON.stringify({ result: 'ok' }));
+            const [origin, responseHeader, payload] = mockConnectionManager.sendMessage.mock.calls[mockConnectionManager.sendMessage.mock.calls.length - 1];
+            expect(origin).toBe('client');
+            expect((responseHeader as BrokerHeader).requestId).toBe(header.requestId);
+            expect((payload as Buffer).toString()).toBe(JSON.stringify({ result: 'ok' }));
+        });
+
+        /**
+         * Tests that errors are sent to the requester once the retry budget is used up, or if they are not retryable.
+         */
+        it('should forward errors that cannot be retried', () => {
+            routeRequest(1, 3000);
+            respond(...lastForwarded(), retryableError);
+            respond(...lastForwarded(), retryableError);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith('client', expect.anything(), expect.any(Buffer), undefined);
+
+            routeRequest(1, 3000);
+            respond(...lastForwarded(), `error:${JSON.stringify(new InvalidRequestIdError('Bad request').toJSON())}`);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith('client', expect.anything(), expect.any(Buffer), undefined);
+            expect((messageRouter as any).metrics.requestCountRetry.slot.value).toBe(1);
+        });
+
+        /**
+         * Tests that the full timeout is used when there are no other subscribers to retry on.
+         */
+        it('should not split the deadline without other subscribers', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            mockSubscriptionManager.getRequestSubscriberTiers.mockReturnValue([['service1']]);
+            routeRequest(2, 3000);
+
+            jest.advanceTimersByTime(2999);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            jest.advanceTimersByTime(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.anything(),
+                { error: expect.objectContaining({ code: 'TIMEOUT' }) },
+                undefined
+            );
+            expect((messageRouter as any).metrics.requestCountRetry.slot.value).toBe(0);
+        });
+    });
+
+    describe('gather', () => {
+        /**
+         * Routes a gather request for a topic and returns its header.
+         */
+        const routeGather = (gather: ClientHeader['gather'], timeout = 3000): ClientHeader => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'inventory.query', version: '1.0.0', requestId: randomUUID(), timeout, gather };
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, { sku: 'A1' }))));
+            return header;
+        };
+
+        /**
+         * Gets the request ID each subscriber received the gather request with.
+         */
+        const forwardedRequestIds = (): Record<string, string> => Object.fromEntries(
+            mockConnectionManager.sendMessage.mock.calls.map(([target, header]) => [target, (header as BrokerHeader).requestId!])
+        );
+
+        /**
+         * Sends a response from a service.
+         */
+        const respond = (serviceId: string, requestId: string, payload: string): void => {
+            messageRouter.routeMessage(serviceId, new Parser(Buffer.from(`response:inventory.query:1.0.0:${requestId}\n${payload}`)));
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            mockSubscriptionManager.getRequestSubscribers.mockReturnValue(['service1', 'service2', 'service3']);
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that gather requests are sent to all subscribers, and their responses aggregated.
+         */
+        it('should aggregate the responses of all subscribers', () => {
+            const header = routeGather('all');
+            const requestIds = forwardedRequestIds();
+            expect(Object.keys(requestIds)).toEqual(['service1', 'service2', 'service3']);
+            expect(new Set(Object.values(requestIds)).size).toBe(3);
+
+            respond('service2', requestIds.service2, JSON.stringify({ stock: 2 }));
+            respond('service1', requestIds.service1, `error:${JSON.stringify(new ServiceUnavailableError('Shard offline').toJSON())}`);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(3);
+
+            respond('service3', requestIds.service3, JSON.stringify({ stock: 3 }));
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.objectContaining({ action: ActionType.RESPONSE, requestId: header.requestId }),
+                {
+                    complete: false,
+                    required: 3,
+                    results: [
+                        { serviceId: 'service2', result: { stock: 2 } },
+                        { serviceId: 'service1', error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE' }) },
+                        { serviceId: 'service3', result: { stock: 3 } },
+                    ],
+                },
+                undefined
+            );
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect((messageRouter as any).metrics.requestCountGather.slot.value).toBe(1);
+            expect((messageRouter as any).metrics.requestCountGatherIncomplete.slot.value).toBe(1);
+        });
+
+        /**
+         * Tests that a quorum gather request completes early and drops the outstanding requests.
+         */
+        it('should complete once the quorum responded', () => {
+            routeGather('quorum');
+            const requestIds = forwardedRequestIds();
+
+            respond('service1', requestIds.service1, JSON.stringify({ stock: 1 }));
+            respond('service3', requestIds.service3, JSON.stringify({ stock: 3 }));
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.anything(),
+                expect.objectContaining({ complete: true, required: 2 }),
+                undefined
+            );
+            expect((messageRouter as any).requests.size).toBe(0);
+
+            // Verify late responses are rejected
+            expect(() => respond('service2', requestIds.service2, '{}')).toThrow(InvalidRequestIdError);
+        });
+
+        /**
+         * Tests that the subscribers that did not respond by the deadline are reported as timed out.
+         */
+        it('should report timed out subscribers at the deadline', () => {
+            routeGather(1, 1000);
+            const requestIds = forwardedRequestIds();
+            respond('service1', requestIds.service1, `error:${JSON.stringify(new ServiceUnavailableError('Shard offline').toJSON())}`);
+
+            jest.advanceTimersByTime(1000);
+
+            const payload = mockConnectionManager.sendMessage.mock.calls[mockConnectionManager.sendMessage.mock.calls.length - 1][2];
+            expect(payload).toEqual({
+                complete: false,
+                required: 1,
+                results: [
+                    { serviceId: 'service1', error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE' }) },
+                    { serviceId: 'service2', error: expect.objectContaining({ code: 'TIMEOUT' }) },
+                    { serviceId: 'service3', error: expect.objectContaining({ code: 'TIMEOUT' }) },
+                ],
+            });
+            expect((messageRouter as any).requests.size).toBe(0);
+        });
+
+        /**
+         * Tests that a disconnected subscriber is reported as unavailable.
+         */
+        it('should report disconnected subscribers', () => {
+            mockSubscriptionManager.getRequestSubscribers.mockReturnValue(['service1', 'service2']);
+            routeGather('all');
+            const requestIds = forwardedRequestIds();
+            respond('service1', requestIds.service1, '{}');
+
+            messageRouter.handleServiceDisconnect('service2');
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.anything(),
+                expect.objectContaining({
+                    complete: false,
+                    results: [
+                        { serviceId: 'service1', result: {} },
+                        { serviceId: 'service2', error: expect.objectContaining({ code: 'SERVICE_UNAVAILABLE', details: { targetServiceId: 'service2' } }) },
+                    ],
+                }),
+                undefined
+            );
+        });
+
+        /**
+         * Tests that gather requests without subscribers are rejected.
+         */
+        it('should throw NoRouteFoundError without subscribers', () => {
+            mockSubscriptionManager.getRequestSubscribers.mockReturnValue([]);
+            expect(() => routeGather('all')).toThrow('No subscribers for topic inventory.query');
+        });
+    });
+
+    /**
+     * Test suite for streamed responses.
+     * Verifies that partial responses are forwarded without closing the request.
+     */
+    describe('streaming', () => {
+        /**
+         * Routes a request from the client to service1 and returns the request ID known to service1.
+         */
+        const routeRequest = (header: ClientHeader): string => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, {}))));
+            return (mockConnectionManager.sendMessage.mock.calls[0][1] as BrokerHeader).requestId!;
+        };
+
+        /**
+         * Sends a response from service1.
+         */
+        const respond = (targetRequestId: string, payload: string, partial = false): void => {
+            const header: BrokerHeader = { action: ActionType.RESPONSE, topic: 'test.topic', version: '1.0.0', requestId: targetRequestId, partial };
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(`${serialize(header, {}).split('\n')[0]}\n${payload}`)));
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that partial responses are forwarded to the requester, and the final response closes the request.
+         */
+        it('should forward partial responses until the final response', () => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID() };
+            const targetRequestId = routeRequest(header);
+
+            respond(targetRequestId, JSON.stringify({ page: 1 }), true);
+            respond(targetRequestId, JSON.stringify({ page: 2 }), true);
+            respond(targetRequestId, JSON.stringify({ page: 3 }));
+
+            const responses = mockConnectionManager.sendMessage.mock.calls.slice(1);
+            expect(responses.map(([target, responseHeader, payload]) => [target, (responseHeader as BrokerHeader).partial, payload!.toString()])).toEqual([
+                ['client', true, '{"page":1}'],
+                ['client', true, '{"page":2}'],
+                ['client', undefined, '{"page":3}'],
+            ]);
+            expect(responses[0][1]).toEqual(expect.objectContaining({ action: ActionType.RESPONSE, requestId: header.requestId }));
+            expect((messageRouter as any).requests.size).toBe(0);
+
+            // Verify the chunks were tracked
+            const metrics = (messageRouter as any).metrics;
+            expect(metrics.responseCountPartial.slot.value).toBe(2);
+            expect(metrics.responseChunksMax.slot.value).toBe(3);
+        });
+
+        /**
+         * Tests that each partial response resets the inactivity timeout of the request.
+         */
+        it('should reset the timeout on each partial response', () => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID(), timeout: 1000 };
+            const targetRequestId = routeRequest(header);
+
+            jest.advanceTimersByTime(800);
+            respond(targetRequestId, '{}', true);
+            jest.advanceTimersByTime(800);
+            expect((messageRouter as any).requests.size).toBe(1);
+
+            jest.advanceTimersByTime(200);
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.objectContaining({ action: ActionType.RESPONSE, requestId: header.requestId }),
+                { error: expect.objectContaining({ code: 'TIMEOUT' }) },
+                undefined
+            );
+        });
+
+        /**
+         * Tests that an error closes a streamed request, even if marked as partial.
+         */
+        it('should close the request on partial error responses', () => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID() };
+            const targetRequestId = routeRequest(header);
+
+            respond(targetRequestId, '{}', true);
+            respond(targetRequestId, `error:${JSON.stringify(new ServiceUnavailableError('Cursor expired').toJSON())}`, true);
+
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect(mockConnectionManager.sendMessage).toHaveBeenLastCalledWith(
+                'client',
+                expect.not.objectContaining({ partial: true }),
+                expect.anything(),
+                undefined
+            );
+        });
+
+        /**
+         * Tests that partial responses are rejected for gather requests.
+         */
+        it('should reject partial responses to gather requests', () => {
+            mockSubscriptionManager.getRequestSubscribers.mockReturnValue(['service1']);
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: randomUUID(), gather: 'all' }, {}))));
+            const targetRequestId = (mockConnectionManager.sendMessage.mock.calls[0][1] as BrokerHeader).requestId!;
+
+            expect(() => respond(targetRequestId, '{}', true)).toThrow('Partial responses are not allowed for gather requests');
+            expect((messageRouter as any).requests.size).toBe(1);
+        });
+    });
+
+    /**
+     * Test suite for request cancellation.
+     * Verifies that cancelled requests are dropped and the cancellation is forwarded to their targets.
+     */
+    describe('cancellation', () => {
+        /**
+         * Routes a message from the client.
+         */
+        const route = (header: ClientHeader): void => {
+            messageRouter.routeMessage('client', new Parser(Buffer.from(serialize(header, {}))));
+        };
+
+        /**
+         * Cancels a request of the client.
+         */
+        const cancel = (requestId: string): void => {
+            route({ action: ActionType.CANCEL, topic: 'test.topic', version: '1.0.0', requestId });
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that a cancelled request is dropped and its target notified with the request ID it knows.
+         */
+        it('should drop the request and notify its target', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            const requestId = randomUUID();
+            route({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId });
+            const targetRequestId = (mockConnectionManager.sendMessage.mock.calls[0][1] as BrokerHeader).requestId;
+            mockConnectionManager.sendMessage.mockClear();
+
+            cancel(requestId);
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith(
+                'service1',
+                { action: ActionType.CANCEL, topic: 'test.topic', version: '1.0.0', requestId: targetRequestId },
+                undefined,
+                requestId
+            );
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect((messageRouter as any).requestsByTarget.size).toBe(0);
+            expect((messageRouter as any).requestsByOrigin.size).toBe(0);
+            expect((messageRouter as any).metrics.requestCountCancelled.slot.value).toBe(1);
+
+            // Verify the timeout was cleared and a late response is rejected
+            jest.advanceTimersByTime(config.request.response.timeout.default);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(() => messageRouter.routeMessage('service1', new Parser(Buffer.from(`response:test.topic:1.0.0:${targetRequestId}\n{}`))))
+                .toThrow(InvalidRequestIdError);
+        });
+
+        /**
+         * Tests that cancelling a gather request cancels the requests of all pending subscribers.
+         */
+        it('should cancel the pending requests of a gather request', () => {
+            mockSubscriptionManager.getRequestSubscribers.mockReturnValue(['service1', 'service2']);
+            const requestId = randomUUID();
+            route({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId, gather: 'all' });
+            const service1RequestId = (mockConnectionManager.sendMessage.mock.calls[0][1] as BrokerHeader).requestId;
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(`response:test.topic:1.0.0:${service1RequestId}\n{}`)));
+            mockConnectionManager.sendMessage.mockClear();
+
+            cancel(requestId);
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith('service2', expect.objectContaining({ action: ActionType.CANCEL }), undefined, requestId);
+            expect((messageRouter as any).requests.size).toBe(0);
+            expect((messageRouter as any).requestsByOrigin.size).toBe(0);
+
+            // Verify the gather timeout was cleared
+            jest.advanceTimersByTime(config.request.response.timeout.default);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+        });
+
+        /**
+         * Tests that only the requests of the cancelling service are cancelled, and unknown requests are ignored.
+         */
+        it('should ignore unknown requests', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            const requestId = randomUUID();
+            messageRouter.routeMessage('other', new Parser(Buffer.from(serialize({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId }, {}))));
+            mockConnectionManager.sendMessage.mockClear();
+
+            cancel(requestId);
+            cancel(randomUUID());
+
+            expect(mockConnectionManager.sendMessage).not.toHaveBeenCalled();
+            expect((messageRouter as any).requests.size).toBe(1);
+            expect((messageRouter as any).metrics.requestCountCancelled.slot.value).toBe(0);
+        });
+
+        /**
+         * Tests that the index of requests by origin is cleaned up when requests are answered or time out.
+         */
+        it('should untrack requests by origin once settled', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service1']);
+            const answeredId = randomUUID();
+            const expiredId = randomUUID();
+            route({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: answeredId });
+            route({ action: ActionType.REQUEST, topic: 'test.topic', version: '1.0.0', requestId: expiredId });
+            const targetRequestId = (mockConnectionManager.sendMessage.mock.calls[0][1] as BrokerHeader).requestId;
+            expect((messageRouter as any).requestsByOrigin.get(`client:${answeredId}`).size).toBe(1);
+            expect((messageRouter as any).requestsByOrigin.get(`client:${expiredId}`).size).toBe(1);
+
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(`response:test.topic:1.0.0:${targetRequestId}\n{}`)));
+            expect((messageRouter as any).requestsByOrigin.has(`client:${answeredId}`)).toBe(false);
+
+            jest.advanceTimersByTime(config.request.response.timeout.default);
+            expect((messageRouter as any).requestsByOrigin.size).toBe(0);
+        });
+    });
+
+    /**
+     * Test suite for version-aware routing.
+     * Verifies that messages only reach the subscribers accepting their version.
+     */
+    describe('versioning', () => {
+        /**
+         * Routes a message with version 2.0.0.
+         *
+         * @param action The action of the message.
+         */
+        const routeVersioned = (action: ActionType): void => {
+            const header: ClientHeader = { action, topic: 'test.topic', version: '2.0.0', requestId: randomUUID() };
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))));
+        };
+
+        /**
+         * Tests that the version of a message is used to look up its subscribers.
+         */
+        it('should look up subscribers accepting the message version', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service3']);
+
+            routeVersioned(ActionType.PUBLISH);
+            routeVersioned(ActionType.REQUEST);
+
+            expect(mockSubscriptionManager.getPublishRecipients).toHaveBeenCalledWith('test.topic', '2.0.0', expect.any(Function));
+            expect(mockSubscriptionManager.getTopRequestSubscribers).toHaveBeenCalledWith('test.topic', '2.0.0');
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith('service3', expect.objectContaining({ action: ActionType.REQUEST }), expect.anything(), expect.any(String));
+        });
+
+        /**
+         * Tests that a request is rejected when subscribers exist but none accepts its version.
+         */
+        it('should throw UnsupportedVersionError without compatible request subscribers', () => {
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue([]);
+            mockSubscriptionManager.getRequestSubscribers.mockImplementation((_topic, version) => version ? [] : ['service2']);
+
+            expect(() => routeVersioned(ActionType.REQUEST)).toThrow(UnsupportedVersionError);
+        });
+
+        /**
+         * Tests that a publisher is told when subscribers exist but none accepts its version.
+         */
+        it('should respond with UnsupportedVersionError without compatible publish subscribers', () => {
+            mockSubscriptionManager.getPublishSubscribers.mockImplementation((_topic, version) => version ? [] : ['service2']);
+
+            routeVersioned(ActionType.PUBLISH);
+
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith(
+                'service1',
+                expect.objectContaining({ action: ActionType.RESPONSE }),
+                { error: expect.objectContaining({ code: 'VERSION_NOT_SUPPORTED', details: { topic: 'test.topic', version: '2.0.0' } }) },
+                undefined
+            );
+        });
+    });
+
+    describe('durable subscriptions', () => {
+        /**
+         * Routes a publish message to the test topic.
+         */
+        const routePublish = (): Parser => {
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'test.topic', version: '1.0.0', requestId: randomUUID() };
+            const parser = new Parser(Buffer.from(serialize(header, { value: 1 })));
+            messageRouter.routeMessage('service1', parser);
+            return parser;
+        };
+
+        /**
+         * Tests that a publish is appended to the logs of the durable consumers, besides the live subscribers.
+         */
+        it('should pass publishes to the durable consumers', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+            mockDurableManager.getConsumers.mockReturnValue(['orders']);
+
+            const parser = routePublish();
+
+            expect(mockDurableManager.getConsumers).toHaveBeenCalledWith('test.topic', '1.0.0');
+            expect(mockDurableManager.publish).toHaveBeenCalledWith(['orders'], parser);
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledWith(['service2'], expect.objectContaining({ action: ActionType.PUBLISH }), expect.anything(), expect.any(String));
+        });
+
+        /**
+         * Tests that a publish with only durable consumers is not dropped.
+         */
+        it('should accept publishes with only durable consumers', () => {
+            mockDurableManager.getConsumers.mockReturnValue(['orders']);
+
+            routePublish();
+
+            expect(mockDurableManager.publish).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith('service1', expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+        });
+
+        /**
+         * Tests that the durable consumers are skipped when there are none.
+         */
+        it('should not pass publishes without durable consumers', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+
+            routePublish();
+
+            expect(mockDurableManager.publish).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('retained messages', () => {
+        /**
+         * Routes a retained publish message to the test topic.
+         *
+         * @param payload The raw payload of the message.
+         * @returns The routed message.
+         */
+        const routeRetained = (payload: string): Parser => {
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0', requestId: randomUUID(), retain: true };
+            const parser = new Parser(Buffer.from(`${serialize(header, {}).split('\n')[0]}\n${payload}`));
+            messageRouter.routeMessage('service1', parser);
+            return parser;
+        };
+
+        /**
+         * Tests that a retained publish is kept and forwarded to the subscribers without the retain flag.
+         */
+        it('should retain the message and forward it to the subscribers', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+
+            const parser = routeRetained('{"gate":"A1"}');
+
+            expect(mockSubscriptionManager.setRetained).toHaveBeenCalledWith(parser.header, parser.rawPayload);
+            const [serviceIds, forwardedHeader] = mockConnectionManager.fanOutMessage.mock.calls[0];
+            expect(serviceIds).toEqual(['service2']);
+            expect(forwardedHeader).toEqual(expect.objectContaining({ action: ActionType.PUBLISH, topic: 'flight.status' }));
+            expect(forwardedHeader).not.toHaveProperty('retain');
+        });
+
+        /**
+         * Tests that a retained publish without subscribers is not dropped.
+         */
+        it('should accept retained messages without subscribers', () => {
+            routeRetained('{"gate":"A1"}');
+
+            expect(mockSubscriptionManager.setRetained).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith('service1', expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+        });
+
+        /**
+         * Tests that an empty retained publish only clears the retained message.
+         */
+        it('should not forward empty retained messages', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+
+            routeRetained('');
+
+            expect(mockSubscriptionManager.setRetained).toHaveBeenCalledWith(expect.anything(), Buffer.alloc(0));
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.sendMessage).toHaveBeenCalledWith('service1', expect.objectContaining({ action: ActionType.RESPONSE }), { status: 'success' }, undefined);
+        });
+    });
+
+    describe('at-least-once delivery', () => {
+        /**
+         * Tests that QoS 1 subscribers get the message through the DeliveryManager, and the others directly.
+         */
+        it('should deliver publishes to QoS 1 subscribers until acknowledged', () => {
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2', 'service3']);
+            mockSubscriptionManager.getQosPublishSubscribers.mockReturnValue(['service3']);
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0' };
+            const parser = new Parser(Buffer.from(serialize(header, { gate: 'A1' })));
+
+            messageRouter.routeMessage('service1', parser);
+
+            expect(mockSubscriptionManager.getQosPublishSubscribers).toHaveBeenCalledWith('flight.status', '1.0.0');
+            expect(mockConnectionManager.fanOutMessage).toHaveBeenCalledTimes(1);
+            const [serviceIds, forwardedHeader] = mockConnectionManager.fanOutMessage.mock.calls[0];
+            expect(serviceIds).toEqual(['service2']);
+            expect(mockDeliveryManager.deliver).toHaveBeenCalledWith(['service3'], forwardedHeader, parser.rawPayload);
+        });
+    });
+
+    describe('subscription groups', () => {
+        /**
+         * Routes a publish to a subscription group of two members.
+         *
+         * @returns The services the publish was sent to.
+         */
+        const routeGrouped = (): string[] => {
+            mockConnectionManager.fanOutMessage.mockClear();
+            mockSubscriptionManager.getPublishRecipients.mockImplementation((_topic, _version, select) => ['service4', select('workers', ['service2', 'service3'])]);
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'orders.created', version: '1.0.0' };
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))));
+            return mockConnectionManager.fanOutMessage.mock.calls.flatMap(([serviceIds]) => serviceIds);
+        };
+
+        /**
+         * Tests that the members of a group take turns by default.
+         */
+        it('should send each publish to one member of the group in turn', () => {
+            expect(routeGrouped()).toEqual(['service4', 'service2']);
+            expect(routeGrouped()).toEqual(['service4', 'service3']);
+            expect(routeGrouped()).toEqual(['service4', 'service2']);
+            expect(mockSubscriptionManager.getGroupStrategy).toHaveBeenCalledWith('workers');
+        });
+
+        /**
+         * Tests that the least loaded member gets the publish with the least-outstanding strategy.
+         */
+        it('should send publishes to the least loaded member of the group', () => {
+            mockSubscriptionManager.getGroupStrategy.mockReturnValue(LoadBalancingStrategy.LEAST_OUTSTANDING);
+            mockDeliveryManager.getInFlight.mockImplementation((serviceId) => serviceId === 'service2' ? 2 : 1);
+
+            expect(routeGrouped()).toEqual(['service4', 'service3']);
+            expect(routeGrouped()).toEqual(['service4', 'service3']);
+        });
+    });
+
+    describe('dead-lettering', () => {
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        /**
+         * Tests that publishes without subscribers are dead-lettered with their raw payload.
+         */
+        it('should dead-letter publishes without subscribers', () => {
+            mockSubscriptionManager.getPublishSubscribers.mockReturnValue([]);
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.0.0' };
+            const parser = new Parser(Buffer.from(serialize(header, { gate: 'A1' })));
+
+            messageRouter.routeMessage('service1', parser);
+
+            expect(mockConnectionManager.deadLetter).toHaveBeenCalledWith(parser.header, parser.rawPayload, expect.any(NoRouteFoundError));
+        });
+
+        /**
+         * Tests that requests evicted by the maximum number of outstanding requests are dead-lettered.
+         */
+        it('should dead-letter requests evicted by the maximum outstanding requests', () => {
+            const originalMaxRequests = config.max.outstanding.requests;
+            config.max.outstanding.requests = 1;
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service2']);
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'flight.gate', version: '1.0.0', requestId: randomUUID() };
+
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, { flight: 'AB123' }))));
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize({ ...header, requestId: randomUUID() }, {}))));
+
+            expect(mockConnectionManager.deadLetter).toHaveBeenCalledTimes(1);
+            expect(mockConnectionManager.deadLetter).toHaveBeenCalledWith(expect.objectContaining({ requestId: header.requestId }), Buffer.from('{"flight":"AB123"}'), expect.any(ServiceUnavailableError));
+            config.max.outstanding.requests = originalMaxRequests;
+        });
+
+        /**
+         * Tests that timed out requests are dead-lettered once they have no retries left.
+         */
+        it('should dead-letter timed out requests', () => {
+            jest.useFakeTimers();
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service2']);
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'flight.gate', version: '1.0.0', requestId: randomUUID(), timeout: 1000 };
+            const parser = new Parser(Buffer.from(serialize(header, { flight: 'AB123' })));
+
+            messageRouter.routeMessage('service1', parser);
+            expect(mockConnectionManager.deadLetter).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(1000);
+
+            expect(mockConnectionManager.deadLetter).toHaveBeenCalledWith(parser.header, Buffer.from('{"flight":"AB123"}'), expect.any(TimeoutError));
+        });
+    });
+
+    describe('topic ACLs', () => {
+        /**
+         * Tests that publishes denied by the policy are rejected before reaching any subscriber.
+         */
+        it('should reject publishes denied by the policy', () => {
+            mockAuthManager.assertAllowed.mockImplementation(() => { throw new ForbiddenError('Not allowed to publish on topic orders.created'); });
+            mockSubscriptionManager.getPublishRecipients.mockReturnValue(['service2']);
+            const header: ClientHeader = { action: ActionType.PUBLISH, topic: 'orders.created', version: '1.0.0' };
+
+            expect(() => messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))))).toThrow(ForbiddenError);
+            expect(mockAuthManager.assertAllowed).toHaveBeenCalledWith('service1', 'publish', 'orders.created');
+            expect(mockConnectionManager.sendMessage).not.toHaveBeenCalled();
+            expect(mockConnectionManager.deadLetter).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Tests that requests denied by the policy are rejected before being forwarded.
+         */
+        it('should reject requests denied by the policy', () => {
+            mockAuthManager.assertAllowed.mockImplementation(() => { throw new ForbiddenError('Not allowed to request on topic flight.gate'); });
+            mockSubscriptionManager.getTopRequestSubscribers.mockReturnValue(['service2']);
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'flight.gate', version: '1.0.0', requestId: randomUUID() };
+
+            expect(() => messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))))).toThrow(ForbiddenError);
+            expect(mockAuthManager.assertAllowed).toHaveBeenCalledWith('service1', 'request', 'flight.gate');
+            expect(mockConnectionManager.sendMessage).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Tests that system messages are handled by the registry without checking the policy.
+         */
+        it('should not check the policy for system messages', () => {
+            const header: ClientHeader = { action: ActionType.REQUEST, topic: 'system.topic.list', version: '1.0.0', requestId: randomUUID() };
+
+            messageRouter.routeMessage('service1', new Parser(Buffer.from(serialize(header, {}))));
+
+            expect(mockAuthManager.assertAllowed).not.toHaveBeenCalled();
+            expect(mockServiceRegistry.handleSystemMessage).toHaveBeenCalled();
+        });
+    });
+});
@@ -21,6 +21,8 @@ describe('RouterMetrics', () => {
         expect(metrics.messageRate['slot']).toBeInstanceOf(RateSlot);
         expect(metrics.messageCountError['slot']).toBeInstanceOf(GaugeSlot);
         expect(metrics.messageRateError['slot']).toBeInstanceOf(RateSlot);
+        expect(metrics.messageCountRateLimited['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.messageRateRateLimited['slot']).toBeInstanceOf(RateSlot);
         expect(metrics.messageSizeAvg['slot']).toBeInstanceOf(AverageSlot);
         expect(metrics.messageSizeMax['slot']).toBeInstanceOf(MaximumSlot);
 
@@ -34,6 +36,12 @@ describe('RouterMetrics', () => {
         expect(metrics.requestCountDropped['slot']).toBeInstanceOf(GaugeSlot);
         expect(metrics.requestCountError['slot']).toBeInstanceOf(GaugeSlot);
         expect(metrics.requestCountTimeout['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountUnavailable['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountRerouted['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountRetry['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountGather['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountGatherIncomplete['slot']).toBeInstanceOf(GaugeSlot);
+        expect(metrics.requestCountCancelled['slot']).toBeInstanceOf(GaugeSlot);
         expect(metrics.requestRate['slot']).toBeInstanceOf(RateSlot);
 
         // Response metrics
@@ -50,6 +58,8 @@ describe('RouterMetrics', () => {
         expect(registeredMetrics.has('router.message.rate')).toBe(true);
         expect(registeredMetrics.has('router.message.count.error')).toBe(true);
         expect(registeredMetrics.has('router.message.rate.error')).toBe(true);
+        expect(registeredMetrics.has('router.message.count.ratelimited')).toBe(true);
+        expect(registeredMetrics.has('router.message.rate.ratelimited')).toBe(true);
         expect(registeredMetrics.has('router.message.size.avg')).toBe(true);
         expect(registeredMetrics.has('router.message.size.max')).toBe(true);
 
@@ -63,12 +73,20 @@ describe('RouterMetrics', () => {
         expect(registeredMetrics.has('router.request.count.dropped')).toBe(true);
         expect(registeredMetrics.has('router.request.count.error')).toBe(true);
         expect(registeredMetrics.has('router.request.count.timeout')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.unavailable')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.rerouted')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.retry')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.gather')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.gather.incomplete')).toBe(true);
+        expect(registeredMetrics.has('router.request.count.cancelled')).toBe(true);
         expect(registeredMetrics.has('router.request.rate')).toBe(true);
 
         // Response metrics
         expect(registeredMetrics.has('router.response.count')).toBe(true);
         expect(registeredMetrics.has('router.response.count.error')).toBe(true);
         expect(registeredMetrics.has('router.response.rate')).toBe(true);
+        expect(registeredMetrics.has('router.response.count.partial')).toBe(true);
+        expect(registeredMetrics.has('router.response.chunks.avg')).toBe(true);
     });
 
     it('should dispose all metrics', () => {
@@ -80,6 +98,8 @@ describe('RouterMetrics', () => {
         expect(registeredMetrics.has('router.message.rate')).toBe(false);
         expect(registeredMetrics.has('router.message.count.error')).toBe(false);
         expect(registeredMetrics.has('router.message.rate.error')).toBe(false);
+        expect(registeredMetrics.has('router.message.count.ratelimited')).toBe(false);
+        expect(registeredMetrics.has('router.message.rate.ratelimited')).toBe(false);
         expect(registeredMetrics.has('router.message.size.avg')).toBe(false);
         expect(registeredMetrics.has('router.message.size.max')).toBe(false);
 
@@ -93,11 +113,19 @@ describe('RouterMetrics', () => {
         expect(registeredMetrics.has('router.request.count.dropped')).toBe(false);
         expect(registeredMetrics.has('router.request.count.error')).toBe(false);
         expect(registeredMetrics.has('router.request.count.timeout')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.unavailable')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.rerouted')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.retry')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.gather')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.gather.incomplete')).toBe(false);
+        expect(registeredMetrics.has('router.request.count.cancelled')).toBe(false);
         expect(registeredMetrics.has('router.request.rate')).toBe(false);
 
         // Response metrics
         expect(registeredMetrics.has('router.response.count')).toBe(false);
         expect(registeredMetrics.has('router.response.count.error')).toBe(false);
         expect(registeredMetrics.has('router.response.rate')).toBe(false);
+        expect(registeredMetrics.has('router.response.count.partial')).toBe(false);
+        expect(registeredMetrics.has('router.response.chunks.avg')).toBe(false);
     });
 });
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { jest } from '@jest/globals';
+import { config } from '@config';
+import { RateLimitedError } from '@core/errors';
+import { RateLimiter, TokenBucket } from '@core/router/ratelimit';
+
+/**
+ * Test suite for the TokenBucket class.
+ * Tests the refill rate, capacity and resizing of the bucket.
+ */
+describe('TokenBucket', () => {
+    /**
+     * Verifies that a new bucket is full and runs dry after `limit` tokens.
+     */
+    it('should start full and run dry after limit tokens', () => {
+        const bucket = new TokenBucket(2, 0);
+        for (let i = 0; i < 2; i++) {
+            expect(bucket.peek(2, 0)).toBe(0);
+            bucket.take();
+        }
+        // One token takes 500ms to refill at 2 tokens per second
+        expect(bucket.peek(2, 0)).toBe(500);
+    });
+
+    /**
+     * Verifies that tokens are refilled continuously, up to the capacity.
+     */
+    it('should refill tokens over time up to the limit', () => {
+        const bucket = new TokenBucket(10, 0);
+        for (let i = 0; i < 10; i++) bucket.take();
+
+        expect(bucket.peek(10, 50)).toBe(50);
+        expect(bucket.peek(10, 100)).toBe(0);
+        expect(bucket.isFull(100)).toBe(false);
+        expect(bucket.isFull(10000)).toBe(true);
+    });
+
+    /**
+     * Verifies that changing the limit resizes the bucket.
+     */
+    it('should resize when the limit changes', () => {
+        const bucket = new TokenBucket(10, 0);
+        expect(bucket.peek(1, 0)).toBe(0);
+        bucket.take();
+        expect(bucket.peek(1, 0)).toBe(1000);
+    });
+});
+
+/**
+ * Test suite for the RateLimiter class.
+ * Tests enforcement of the per service, per topic and per service per topic limits.
+ */
+describe('RateLimiter', () => {
+    let rateLimiter: RateLimiter;
+    const originalLimits = JSON.parse(JSON.stringify(config.rate.limit));
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        config.rate.limit.global.per.service = 0;
+        config.rate.limit.global.per.topic = 0;
+        config.rate.limit.topic.per.service = {};
+        rateLimiter = new RateLimiter();
+    });
+
+    afterEach(() => {
+        rateLimiter.dispose();
+        config.rate.limit = JSON.parse(JSON.stringify(originalLimits));
+        jest.useRealTimers();
+    });
+
+    /**
+     * Verifies that nothing is limited when all limits are 0.
+     */
+    it('should not limit when all limits are 0', () => {
+        for (let i = 0; i < 1000; i++) {
+            rateLimiter.consume('service1', 'test.topic');
+        }
+        expect(rateLimiter['buckets'].size).toBe(0);
+    });
+
+    /**
+     * Verifies that the per service limit applies across all topics.
+     */
+    it('should enforce the per service limit across topics', () => {
+        config.rate.limit.global.per.service = 2;
+        rateLimiter.consume('service1', 'topic.a');
+        rateLimiter.consume('service1', 'topic.b');
+
+        expect(() => rateLimiter.consume('service1', 'topic.c')).toThrow(expect.objectContaining({
+            code: 'RATE_LIMITED',
+            details: { scope: 'service', limit: 2, retryAfterMs: 500 },
+        }));
+
+        // Verify other services are unaffected
+        expect(() => rateLimiter.consume('service2', 'topic.a')).not.toThrow();
+    });
+
+    /**
+     * Verifies that the per topic limit applies across all services.
+     */
+    it('should enforce the per topic limit across services', () => {
+        config.rate.limit.global.per.topic = 1;
+        rateLimiter.consume('service1', 'topic.a');
+
+        expect(() => rateLimiter.consume('service2', 'topic.a')).toThrow(expect.objectContaining({
+            details: expect.objectContaining({ scope: 'topic', limit: 1 }),
+        }));
+        expect(() => rateLimiter.consume('service2', 'topic.b')).not.toThrow();
+    });
+
+    /**
+     * Verifies that the per service limit of a topic only applies to that topic.
+     */
+    it('should enforce the per service limit of a topic', () => {
+        config.rate.limit.topic.per.service['topic.a'] = 1;
+        rateLimiter.consume('service1', 'topic.a');
+
+        expect(() => rateLimiter.consume('service1', 'topic.a')).toThrow(RateLimitedError);
+        expect(() => rateLimiter.consume('service2', 'topic.a')).not.toThrow();
+        expect(() => rateLimiter.consume('service1', 'topic.b')).not.toThrow();
+    });
+
+    /**
+     * Verifies that a rejected message does not take tokens from the other buckets.
+     */
+    it('should not take tokens when a message is rejected', () => {
+        config.rate.limit.global.per.service = 2;
+        config.rate.limit.topic.per.service['topic.a'] = 1;
+        rateLimiter.consume('service1', 'topic.a');
+        expect(() => rateLimiter.consume('service1', 'topic.a')).toThrow(RateLimitedError);
+
+        // The service still has one token left for other topics
+        expect(() => rateLimiter.consume('service1', 'topic.b')).not.toThrow();
+        expect(() => rateLimiter.consume('service1', 'topic.b')).toThrow(RateLimitedError);
+    });
+
+    /**
+     * Verifies that messages are allowed again once the bucket has refilled.
+     */
+    it('should allow messages again after the bucket refills', () => {
+        config.rate.limit.global.per.service = 1;
+        rateLimiter.consume('service1', 'topic.a');
+        expect(() => rateLimiter.consume('service1', 'topic.a')).toThrow(RateLimitedError);
+
+        jest.advanceTimersByTime(1000);
+
+        expect(() => rateLimiter.consume('service1', 'topic.a')).not.toThrow();
+    });
+
+    /**
+     * Verifies that changes to the configuration apply immediately.
+     */
+    it('should apply configuration changes immediately', () => {
+        config.rate.limit.global.per.service = 1;
+        rateLimiter.consume('service1', 'topic.a');
+        expect(() => rateLimiter.consume('service1', 'topic.a')).toThrow(RateLimitedError);
+
+        config.rate.limit.global.per.service = 0;
+        expect(() => rateLimiter.consume('service1', 'topic.a')).not.toThrow();
+    });
+
+    /**
+     * Verifies that idle buckets are pruned periodically.
+     */
+    it('should prune full buckets', () => {
+        config.rate.limit.global.per.service = 10;
+        rateLimiter.consume('service1', 'topic.a');
+        expect(rateLimiter['buckets'].size).toBe(1);
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(rateLimiter['buckets'].size).toBe(0);
+    });
+});
@@ -1,5 +1,9 @@
+import { config } from '@config';
+import { ConnectionManager } from '@core/connection';
+import { MonitoringManager } from '@core/monitoring';
+import { RateSlot } from '@core/monitoring/metrics/slots';
 import { SubscriptionManager } from '@core/subscription';
-import { ActionType } from '@core/types';
+import { ActionType, LoadBalancingStrategy } from '@core/types';
 import logger, { SetupLogger } from '@utils/logger';
 
 /**
@@ -30,6 +34,7 @@ jest.mock('@utils/logger', () => {
  */
 describe('SubscriptionManager', () => {
     let subscriptionManager: SubscriptionManager;
+    let monitoringManager: MonitoringManager;
 
     /**
      * Test setup before each test case:
@@ -41,7 +46,8 @@ describe('SubscriptionManager', () => {
         jest.resetAllMocks();
 
         // Create a new SubscriptionManager instance for each test
-        subscriptionManager = new SubscriptionManager();
+        monitoringManager = new MonitoringManager();
+        subscriptionManager = new SubscriptionManager(monitoringManager);
     });
 
     /**
@@ -51,6 +57,7 @@ describe('SubscriptionManager', () => {
     afterEach(async () => {
         // Clean up subscriptions after each test to ensure isolation
         await subscriptionManager.dispose();
+        monitoringManager.dispose();
     });
 
     /**
@@ -112,6 +119,41 @@ describe('SubscriptionManager', () => {
                 expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual(['service1']);
             });
 
+            /**
+             * Tests version-aware subscriber retrieval.
+             * Verifies that only subscribers whose version range accepts the message version are returned.
+             */
+            it('should only return subscribers accepting the version', () => {
+                subscriptionManager.subscribePublish('service1', 'baggage.events', '^1.0.0');
+                subscriptionManager.subscribePublish('service2', 'baggage.events', '>=2.0.0');
+                subscriptionManager.subscribePublish('service3', 'baggage.events');
+
+                expect(subscriptionManager.getPublishSubscribers('baggage.events', '1.2.0')).toEqual(['service1', 'service3']);
+                expect(subscriptionManager.getPublishSubscribers('baggage.events', '2.1.0')).toEqual(['service2', 'service3']);
+                expect(subscriptionManager.getPublishSubscribers('baggage.events')).toHaveLength(3);
+            });
+
+            /**
+             * Tests re-subscribing with another version range.
+             * Verifies that the new range replaces the previous one.
+             */
+            it('should replace the version range when re-subscribing', () => {
+                subscriptionManager.subscribePublish('service1', 'baggage.events', '^1.0.0');
+                subscriptionManager.subscribePublish('service1', 'baggage.events', '^2.0.0');
+
+                expect(subscriptionManager.getPublishSubscribers('baggage.events', '1.0.0')).toEqual([]);
+                expect(subscriptionManager.getPublishSubscribers('baggage.events', '2.0.0')).toEqual(['service1']);
+            });
+
+            /**
+             * Tests subscribing with an invalid version range.
+             * Verifies that the subscription is rejected.
+             */
+            it('should reject invalid version ranges', () => {
+                expect(subscriptionManager.subscribePublish('service1', 'baggage.events', 'not a range')).toBe(false);
+                expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual([]);
+            });
+
             /**
              * Tests topic name validation.
              * Verifies that invalid topic names are rejected according to
@@ -425,6 +467,239 @@ describe('SubscriptionManager', () => {
                     .toEqual(['service1']);
             });
         });
+
+        /**
+         * Test suite for getRequestSubscriberTiers method.
+         * Verifies the grouping of REQUEST subscribers by priority.
+         */
+        describe('getRequestSubscriberTiers', () => {
+            /**
+             * Tests grouping by priority.
+             * Verifies that subscribers are grouped in tiers from the highest to the lowest priority.
+             */
+            it('should group subscribers by priority', () => {
+                subscriptionManager.subscribeRequest('service1', 'baggage.events', 1);
+                subscriptionManager.subscribeRequest('service2', 'baggage.events', 2);
+                subscriptionManager.subscribeRequest('service3', 'baggage.events', 2);
+                subscriptionManager.subscribeRequest('service4', 'baggage.events', 0);
+
+                expect(subscriptionManager.getRequestSubscriberTiers('baggage.events'))
+                    .toEqual([['service2', 'service3'], ['service1'], ['service4']]);
+            });
+
+            /**
+             * Tests subscribers matching through several patterns.
+             * Verifies that tiers are ordered across patterns, and that each service is only listed at its highest priority.
+             */
+            it('should order subscribers across matching patterns', () => {
+                subscriptionManager.subscribeRequest('service1', 'baggage.events', 0);
+                subscriptionManager.subscribeRequest('service2', 'baggage.#', 1);
+                subscriptionManager.subscribeRequest('service1', 'baggage.+', 2);
+
+                expect(subscriptionManager.getRequestSubscriberTiers('baggage.events'))
+                    .toEqual([['service1'], ['service2']]);
+            });
+
+            /**
+             * Tests retrieval for non-existent topics.
+             * Verifies that no tiers are returned for topics with no subscribers.
+             */
+            it('should return no tiers for non-existent topics', () => {
+                expect(subscriptionManager.getRequestSubscriberTiers('nonexistent.topic')).toEqual([]);
+            });
+
+            /**
+             * Tests version-aware grouping.
+             * Verifies that subscribers not accepting the version are left out of every tier.
+             */
+            it('should only group subscribers accepting the version', () => {
+                subscriptionManager.subscribeRequest('service1', 'baggage.events', 2, '^1.0.0');
+                subscriptionManager.subscribeRequest('service2', 'baggage.events', 1, '^2.0.0');
+                subscriptionManager.subscribeRequest('service3', 'baggage.events', 0);
+
+                expect(subscriptionManager.getRequestSubscriberTiers('baggage.events', '2.0.0'))
+                    .toEqual([['service2'], ['service3']]);
+                expect(subscriptionManager.getTopRequestSubscribers('baggage.events', '1.5.0')).toEqual(['service1']);
+                expect(subscriptionManager.getRequestSubscribers('baggage.events', '3.0.0')).toEqual(['service3']);
+            });
+        });
+    });
+
+    /**
+     * Test suite for the topic match cache.
+     * Verifies that cache hits and misses are reported through the monitoring manager.
+     */
+    describe('Match Cache', () => {
+        /**
+         * Tests that repeated publishes to a topic hit the cache, and new subscriptions are still matched.
+         */
+        it('should report cache hits and misses', () => {
+            const hit = jest.spyOn(monitoringManager.getMetric('subscription.cache.rate.hit') as RateSlot, 'add');
+            const miss = jest.spyOn(monitoringManager.getMetric('subscription.cache.rate.miss') as RateSlot, 'add');
+            subscriptionManager.subscribePublish('service1', 'baggage.events');
+
+            expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual(['service1']);
+            expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual(['service1']);
+            expect(hit).toHaveBeenCalledTimes(1);
+            expect(miss).toHaveBeenCalledTimes(1);
+
+            subscriptionManager.subscribePublish('service2', 'baggage.+');
+            expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual(['service1', 'service2']);
+            expect(miss).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    /**
+     * Test suite for the per-service index of subscriptions.
+     * Verifies that the index stays consistent with the tries on subscribe, unsubscribe and disposal.
+     */
+    describe('Service Index', () => {
+        /**
+         * Tests that a new subscription to the same topic replaces the indexed one.
+         */
+        it('should index the latest subscription of a topic', () => {
+            subscriptionManager.subscribeRequest('service1', 'Baggage.Events', 1);
+            subscriptionManager.subscribeRequest('service1', 'baggage.events', 3, '^1.0.0');
+
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([
+                { action: ActionType.REQUEST, topic: 'baggage.events', priority: 3, version: '^1.0.0' }
+            ]);
+        });
+
+        /**
+         * Tests that unsubscribing from a topic removes it from the index only if it was subscribed.
+         */
+        it('should remove unsubscribed topics from the index', () => {
+            subscriptionManager.subscribePublish('service1', 'baggage.events');
+            subscriptionManager.subscribeRequest('service1', 'baggage.events', 1);
+
+            expect(subscriptionManager.unsubscribePublish('service2', 'baggage.events')).toBe(false);
+            expect(subscriptionManager.unsubscribePublish('service1', 'baggage.events')).toBe(true);
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([
+                { action: ActionType.REQUEST, topic: 'baggage.events', priority: 1, version: undefined }
+            ]);
+
+            expect(subscriptionManager.unsubscribeRequest('service1', 'baggage.events')).toBe(true);
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([]);
+            expect(subscriptionManager.unsubscribe('service1')).toBe(false);
+        });
+
+        /**
+         * Tests that unsubscribing a service from all topics removes it from the tries and the index,
+         * leaving the other services untouched.
+         */
+        it('should remove all subscriptions of a service from the tries', () => {
+            subscriptionManager.subscribePublish('service1', 'baggage.#');
+            subscriptionManager.subscribeRequest('service1', 'baggage.events', 1);
+            subscriptionManager.subscribePublish('service2', 'baggage.events');
+
+            expect(subscriptionManager.unsubscribe('service1')).toBe(true);
+
+            expect(subscriptionManager.getPublishSubscribers('baggage.events')).toEqual(['service2']);
+            expect(subscriptionManager.getRequestSubscribers('baggage.events')).toEqual([]);
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([]);
+            expect(subscriptionManager.getSubscribedTopics('service2')).toHaveLength(1);
+        });
+
+        /**
+         * Tests that disposal clears the index.
+         */
+        it('should clear the index on disposal', async () => {
+            subscriptionManager.subscribePublish('service1', 'baggage.events');
+
+            await subscriptionManager.dispose();
+
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([]);
+            expect(subscriptionManager.unsubscribe('service1')).toBe(false);
+        });
+    });
+
+    /**
+     * Test suite for wildcard subscriptions.
+     * Verifies how '+' and '#' patterns match topics and rank against exact subscriptions.
+     */
+    describe('Wildcard Subscriptions', () => {
+        /**
+         * Tests that publish patterns match their topics.
+         * Verifies that '+' matches one level and '#' matches any trailing levels.
+         */
+        it('should deliver publishes to matching patterns', () => {
+            subscriptionManager.subscribePublish('service1', 'baggage.+.europe');
+            subscriptionManager.subscribePublish('service2', 'baggage.#');
+            subscriptionManager.subscribePublish('service3', 'flights.#');
+
+            expect(subscriptionManager.getPublishSubscribers('baggage.events.europe').sort()).toEqual(['service1', 'service2']);
+            expect(subscriptionManager.getPublishSubscribers('baggage')).toEqual(['service2']);
+        });
+
+        /**
+         * Tests that system topics are only matched by exact subscriptions.
+         * Verifies that a '#' pattern does not receive the messages of the broker itself.
+         */
+        it('should not match system topics with wildcard patterns', () => {
+            subscriptionManager.subscribePublish('service1', '#');
+            subscriptionManager.subscribePublish('service2', '+.log');
+            subscriptionManager.subscribePublish('service3', 'system.log');
+
+            expect(subscriptionManager.getPublishSubscribers('system.log')).toEqual(['service3']);
+            expect(subscriptionManager.getPublishSubscribers('baggage.log').sort()).toEqual(['service1', 'service2']);
+        });
+
+        /**
+         * Tests ranking for the same priority.
+         * Verifies that exact subscribers rank before '+' patterns, which rank before '#' patterns.
+         */
+        it('should rank more specific patterns first for the same priority', () => {
+            subscriptionManager.subscribeRequest('service1', 'baggage.#', 0);
+            subscriptionManager.subscribeRequest('service2', 'baggage.+', 0);
+            subscriptionManager.subscribeRequest('service3', 'baggage.events', 0);
+
+            expect(subscriptionManager.getTopRequestSubscribers('baggage.events')).toEqual(['service3']);
+            expect(subscriptionManager.getRequestSubscriberTiers('baggage.events')).toEqual([['service3'], ['service2'], ['service1']]);
+            expect(subscriptionManager.getRequestSubscribers('baggage.events')).toEqual(['service3', 'service2', 'service1']);
+        });
+
+        /**
+         * Tests ranking for different priorities.
+         * Verifies that priority outranks specificity, so a wildcard subscriber can take over from an exact one.
+         */
+        it('should rank higher priorities first regardless of the pattern', () => {
+            subscriptionManager.subscribeRequest('service1', 'baggage.events', 0);
+            subscriptionManager.subscribeRequest('service2', 'baggage.#', 1);
+
+            expect(subscriptionManager.getTopRequestSubscribers('baggage.events')).toEqual(['service2']);
+            expect(subscriptionManager.getRequestSubscriberTiers('baggage.events')).toEqual([['service2'], ['service1']]);
+        });
+
+        /**
+         * Tests a service subscribed through several matching patterns.
+         * Verifies that the service is only listed once, at its best rank.
+         */
+        it('should list a service once at its best rank', () => {
+            subscriptionManager.subscribeRequest('service1', 'baggage.#', 0);
+            subscriptionManager.subscribeRequest('service1', 'baggage.events', 0);
+            subscriptionManager.subscribeRequest('service2', 'baggage.+', 0);
+
+            expect(subscriptionManager.getRequestSubscriberTiers('baggage.events')).toEqual([['service1'], ['service2']]);
+            expect(subscriptionManager.getRequestSubscribers('baggage.events')).toEqual(['service1', 'service2']);
+        });
+
+        /**
+         * Tests listing of wildcard subscriptions.
+         * Verifies that the subscriptions are listed with their patterns, and can be removed by pattern.
+         */
+        it('should list and remove subscriptions by pattern', () => {
+            subscriptionManager.subscribePublish('service1', 'baggage.#');
+            subscriptionManager.subscribeRequest('service1', 'baggage.+.europe', 1);
+
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([
+                { action: ActionType.PUBLISH, topic: 'baggage.#', version: undefined, qos: undefined, group: undefined },
+                { action: ActionType.REQUEST, topic: 'baggage.+.europe', priority: 1, version: undefined }
+            ]);
+
+            expect(subscriptionManager.unsubscribeRequest('service1', 'baggage.+.europe')).toBe(true);
+            expect(subscriptionManager.getRequestSubscribers('baggage.events.europe')).toEqual([]);
+        });
     });
 
     /**
@@ -777,6 +1052,313 @@ describe('SubscriptionManager', () => {
         });
     });
 
+    /**
+     * Test suite for the load balancing strategies of REQUEST topic patterns.
+     */
+    describe('Load Balancing Strategies', () => {
+        /**
+         * Tests that topics without a matching pattern have no strategy.
+         */
+        it('should return undefined when no pattern matches', () => {
+            expect(subscriptionManager.getRequestStrategy('test.topic')).toBeUndefined();
+        });
+
+        /**
+         * Tests that the most specific matching pattern wins:
+         * exact levels before '+', and '+' before '#'.
+         */
+        it('should return the strategy of the most specific matching pattern', () => {
+            subscriptionManager.setRequestStrategy('#', LoadBalancingStrategy.RANDOM);
+            subscriptionManager.setRequestStrategy('baggage.#', LoadBalancingStrategy.ROUND_ROBIN);
+            subscriptionManager.setRequestStrategy('baggage.+.europe', LoadBalancingStrategy.LEAST_OUTSTANDING);
+            subscriptionManager.setRequestStrategy('baggage.events.europe', LoadBalancingStrategy.CONSISTENT_HASH);
+
+            expect(subscriptionManager.getRequestStrategy('baggage.events.europe')).toBe(LoadBalancingStrategy.CONSISTENT_HASH);
+            expect(subscriptionManager.getRequestStrategy('baggage.scans.europe')).toBe(LoadBalancingStrategy.LEAST_OUTSTANDING);
+            expect(subscriptionManager.getRequestStrategy('baggage.scans')).toBe(LoadBalancingStrategy.ROUND_ROBIN);
+            expect(subscriptionManager.getRequestStrategy('Baggage')).toBe(LoadBalancingStrategy.ROUND_ROBIN);
+            expect(subscriptionManager.getRequestStrategy('flight.updates')).toBe(LoadBalancingStrategy.RANDOM);
+        });
+
+        /**
+         * Tests that setting a strategy replaces the previous strategy of the pattern.
+         */
+        it('should replace the strategy of a pattern', () => {
+            expect(subscriptionManager.setRequestStrategy('test.topic', LoadBalancingStrategy.ROUND_ROBIN)).toBe(true);
+            expect(subscriptionManager.setRequestStrategy('test.topic', LoadBalancingStrategy.CONSISTENT_HASH)).toBe(true);
+            expect(subscriptionManager.getRequestStrategy('test.topic')).toBe(LoadBalancingStrategy.CONSISTENT_HASH);
+        });
+
+        /**
+         * Tests that invalid patterns and strategies are rejected.
+         */
+        it('should reject invalid patterns and strategies', () => {
+            expect(subscriptionManager.setRequestStrategy('invalid..topic', LoadBalancingStrategy.RANDOM)).toBe(false);
+            expect(subscriptionManager.setRequestStrategy('test.topic', 'fastest' as LoadBalancingStrategy)).toBe(false);
+            expect(subscriptionManager.getRequestStrategy('test.topic')).toBeUndefined();
+        });
+
+        /**
+         * Tests that the strategies from the configuration are loaded, ignoring invalid entries.
+         */
+        it('should load the strategies from the configuration', () => {
+            const originalTopics = config.request.loadbalancing.topics;
+            config.request.loadbalancing.topics = {
+                'baggage.#': LoadBalancingStrategy.ROUND_ROBIN,
+                'flight.updates': 'fastest' as LoadBalancingStrategy,
+            };
+
+            const manager = new SubscriptionManager(new MonitoringManager());
+            expect(manager.getRequestStrategy('baggage.events')).toBe(LoadBalancingStrategy.ROUND_ROBIN);
+            expect(manager.getRequestStrategy('flight.updates')).toBeUndefined();
+            expect(logger.warn).toHaveBeenCalledWith('Ignoring invalid load balancing strategy fastest for topic: flight.updates');
+
+            config.request.loadbalancing.topics = originalTopics;
+        });
+    });
+
+    /**
+     * Test suite for the delivery guarantees of PUBLISH subscriptions.
+     */
+    describe('QoS', () => {
+        /**
+         * Tests that only the subscribers with QoS 1 through a matching pattern are returned.
+         */
+        it('should get the QoS 1 subscribers of a topic', () => {
+            subscriptionManager.subscribePublish('service1', 'flight.status', undefined, 1);
+            subscriptionManager.subscribePublish('service2', 'flight.status', undefined, 0);
+            subscriptionManager.subscribePublish('service3', 'flight.status');
+            subscriptionManager.subscribePublish('service3', 'flight.+', undefined, 1);
+            subscriptionManager.subscribePublish('service4', 'flight.status', '^2.0.0', 1);
+
+            expect(subscriptionManager.getPublishSubscribers('flight.status', '1.0.0').sort()).toEqual(['service1', 'service2', 'service3']);
+            expect(subscriptionManager.getQosPublishSubscribers('flight.status', '1.0.0').sort()).toEqual(['service1', 'service3']);
+        });
+
+        /**
+         * Tests that the QoS of a subscription is listed.
+         */
+        it('should list the QoS of subscriptions', () => {
+            subscriptionManager.subscribePublish('service1', 'flight.status', undefined, 1);
+
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([{ action: ActionType.PUBLISH, topic: 'flight.status', version: undefined, qos: 1 }]);
+            expect(subscriptionManager.getAllSubscribedTopics()[0].subscribers).toEqual([{ serviceId: 'service1', version: undefined, qos: 1 }]);
+        });
+    });
+
+    /**
+     * Test suite for the subscription groups of PUBLISH subscriptions.
+     */
+    describe('Subscription Groups', () => {
+        /**
+         * Tests that each group gets the message once, besides the ungrouped subscribers.
+         */
+        it('should get the ungrouped subscribers and one member of each group', () => {
+            subscriptionManager.subscribePublish('service1', 'orders.created');
+            subscriptionManager.subscribePublish('service2', 'orders.created', undefined, undefined, 'billing');
+            subscriptionManager.subscribePublish('service3', 'orders.+', undefined, undefined, 'billing');
+            subscriptionManager.subscribePublish('service4', 'orders.#', undefined, undefined, 'shipping');
+            subscriptionManager.subscribePublish('service5', 'orders.created', '^2.0.0', undefined, 'shipping');
+            const select = jest.fn((_group: string, members: string[]) => members[members.length - 1]);
+
+            const recipients = subscriptionManager.getPublishRecipients('orders.created', '1.0.0', select);
+
+            expect(recipients.sort()).toEqual(['service1', 'service3', 'service4']);
+            expect(select).toHaveBeenCalledTimes(2);
+            expect(select).toHaveBeenCalledWith('billing', expect.arrayContaining(['service2', 'service3']));
+            expect(select).toHaveBeenCalledWith('shipping', ['service4']);
+            expect(subscriptionManager.getPublishSubscribers('orders.created', '1.0.0').sort()).toEqual(['service1', 'service2', 'service3', 'service4']);
+        });
+
+        /**
+         * Tests that a service getting the message as an ungrouped subscriber is not sent it twice.
+         */
+        it('should list a recipient only once', () => {
+            subscriptionManager.subscribePublish('service1', 'orders.created');
+            subscriptionManager.subscribePublish('service1', 'orders.+', undefined, undefined, 'billing');
+
+            expect(subscriptionManager.getPublishRecipients('orders.created', '1.0.0', (_group, members) => members[0])).toEqual(['service1']);
+        });
+
+        /**
+         * Tests that invalid group names are rejected.
+         */
+        it('should reject invalid group names', () => {
+            expect(subscriptionManager.subscribePublish('service1', 'orders.created', undefined, undefined, 'billing.workers')).toBe(false);
+            expect(subscriptionManager.subscribePublish('service1', 'orders.created', undefined, undefined, '')).toBe(false);
+            expect(SubscriptionManager.isValidGroup('billing-workers_2')).toBe(true);
+        });
+
+        /**
+         * Tests that groups are balanced round-robin unless another strategy is set.
+         */
+        it('should set the load balancing strategy of a group', () => {
+            expect(subscriptionManager.getGroupStrategy('billing')).toBe(LoadBalancingStrategy.ROUND_ROBIN);
+
+            expect(subscriptionManager.setGroupStrategy('billing', LoadBalancingStrategy.LEAST_OUTSTANDING)).toBe(true);
+            expect(subscriptionManager.setGroupStrategy('billing', 'fastest' as LoadBalancingStrategy)).toBe(false);
+
+            expect(subscriptionManager.getGroupStrategy('billing')).toBe(LoadBalancingStrategy.LEAST_OUTSTANDING);
+        });
+
+        /**
+         * Tests that the group membership of subscriptions is listed.
+         */
+        it('should list the group of subscriptions', () => {
+            subscriptionManager.subscribePublish('service1', 'orders.created', undefined, undefined, 'billing');
+            subscriptionManager.subscribePublish('service2', 'orders.created');
+
+            expect(subscriptionManager.getSubscribedTopics('service1')).toEqual([{ action: ActionType.PUBLISH, topic: 'orders.created', group: 'billing' }]);
+            expect(subscriptionManager.getAllSubscribedTopics()[0].subscribers).toEqual([
+                { serviceId: 'service1', group: 'billing' },
+                { serviceId: 'service2' },
+            ]);
+        });
+    });
+
+    /**
+     * Test suite for the retained last values of topics.
+     */
+    describe('Retained Messages', () => {
+        let connectionManager: jest.Mocked<ConnectionManager>;
+
+        /**
+         * Retains a message for a topic.
+         *
+         * @param topic The topic of the message.
+         * @param payload The raw payload of the message.
+         * @param version The version of the message.
+         */
+        const retain = (topic: string, payload: string, version = '1.0.0'): void => {
+            subscriptionManager.setRetained({ action: ActionType.PUBLISH, topic, version, retain: true }, Buffer.from(payload));
+        };
+
+        /**
+         * Gets the retained messages delivered to a service.
+         *
+         * @param serviceId The ID of the service.
+         * @returns The topics and payloads of the delivered messages.
+         */
+        const getDelivered = (serviceId: string): [string, string][] => (connectionManager.sendMessage as jest.Mock).mock.calls
+            .filter(([target]: any[]) => target === serviceId)
+            .map(([, header, payload]: any[]) => [header.topic, payload.toString()]);
+
+        beforeEach(() => {
+            connectionManager = { sendMessage: jest.fn(), sendPaced: jest.fn() } as unknown as jest.Mocked<ConnectionManager>;
+            // Send the paced messages right away, as to a connection that keeps up
+            connectionManager.sendPaced.mockImplementation((serviceId, source) => {
+                for (let message = source(); message; message = source()) {
+                    connectionManager.sendMessage(serviceId, message.header, message.payload, undefined);
+                }
+            });
+            subscriptionManager.assignConnectionManager(connectionManager);
+        });
+
+        /**
+         * Tests that the last retained value of a topic is delivered to a new subscriber, flagged as retained.
+         */
+        it('should deliver the last retained message to new subscribers', () => {
+            retain('flight.status', '{"gate":"A1"}');
+            retain('Flight.Status', '{"gate":"B2"}', '1.1.0');
+
+            subscriptionManager.subscribePublish('service1', 'flight.status');
+
+            expect(connectionManager.sendMessage).toHaveBeenCalledTimes(1);
+            expect(connectionManager.sendMessage).toHaveBeenCalledWith(
+                'service1',
+                { action: ActionType.PUBLISH, topic: 'flight.status', version: '1.1.0', requestId: expect.any(String), retain: true },
+                Buffer.from('{"gate":"B2"}'),
+                undefined
+            );
+        });
+
+        /**
+         * Tests that wildcard subscriptions get all matching retained messages.
+         */
+        it('should deliver the retained messages matching wildcard subscriptions', () => {
+            retain('flight.status.ba123', '1');
+            retain('flight.status.lh456', '2');
+            retain('flight.delay.ba123', '3');
+            retain('baggage.status', '4');
+
+            subscriptionManager.subscribePublish('service1', 'flight.status.+');
+            subscriptionManager.subscribePublish('service2', 'flight.#');
+            subscriptionManager.subscribePublish('service3', '+.status');
+
+            expect(getDelivered('service1')).toEqual([['flight.status.ba123', '1'], ['flight.status.lh456', '2']]);
+            expect(getDelivered('service2')).toEqual([['flight.status.ba123', '1'], ['flight.status.lh456', '2'], ['flight.delay.ba123', '3']]);
+            expect(getDelivered('service3')).toEqual([['baggage.status', '4']]);
+        });
+
+        /**
+         * Tests that only retained messages with an accepted version are delivered.
+         */
+        it('should only deliver the retained messages accepted by the version range', () => {
+            retain('flight.status', '1', '1.2.0');
+            retain('flight.gate', '2', '2.0.0');
+
+            subscriptionManager.subscribePublish('service1', 'flight.+', '^1.0.0');
+
+            expect(getDelivered('service1')).toEqual([['flight.status', '1']]);
+        });
+
+        /**
+         * Tests that an empty retained message clears the retained value of the topic.
+         */
+        it('should clear the retained message with an empty payload', () => {
+            retain('flight.status', '1');
+            retain('flight.status', '');
+
+            subscriptionManager.subscribePublish('service1', 'flight.status');
+
+            expect(connectionManager.sendMessage).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Tests that the retained messages are sent a page at a time, with the value they have when sent.
+         */
+        it('should page the retained messages with their last value', () => {
+            retain('flight.status.a', '1');
+            retain('flight.status.b', '2');
+            retain('flight.status.c', '3');
+            connectionManager.sendPaced.mockImplementation(() => undefined);
+
+            subscriptionManager.subscribePublish('service1', 'flight.status.+');
+            const source = connectionManager.sendPaced.mock.lastCall![1];
+            expect(connectionManager.sendMessage).not.toHaveBeenCalled();
+
+            expect(source()!.header.topic).toBe('flight.status.a');
+            retain('flight.status.b', '');
+            retain('flight.status.c', '4');
+            expect(source()).toEqual({ header: expect.objectContaining({ topic: 'flight.status.c', retain: true }), payload: Buffer.from('4') });
+            expect(source()).toBeUndefined();
+        });
+
+        /**
+         * Tests that the least recently set retained messages are evicted over the count and size limits.
+         */
+        it('should evict the least recently set retained messages over the limits', () => {
+            const originalRetained = config.subscription.retained;
+            config.subscription.retained = { maxCount: 3, maxSize: 0 };
+
+            retain('flight.status.a', '1');
+            retain('flight.status.b', '2');
+            retain('flight.status.c', '3');
+            retain('flight.status.a', '4');
+            retain('flight.status.d', '5');
+            subscriptionManager.subscribePublish('service1', 'flight.status.+');
+            expect(getDelivered('service1')).toEqual([['flight.status.c', '3'], ['flight.status.a', '4'], ['flight.status.d', '5']]);
+
+            config.subscription.retained = { maxCount: 0, maxSize: 6 };
+            retain('flight.status.e', '123456');
+            subscriptionManager.subscribePublish('service2', 'flight.status.+');
+            expect(getDelivered('service2')).toEqual([['flight.status.e', '123456']]);
+            expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Evicted retained message of topic: flight.status.d'), { topic: 'flight.status.d' });
+
+            config.subscription.retained = originalRetained;
+        });
+    });
+
     /**
      * Test suite for subscription manager disposal functionality.
      * Tests the cleanup of all subscriptions when the manager is disposed.
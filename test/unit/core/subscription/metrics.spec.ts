@@ -0,0 +1,31 @@
+import { MonitoringManager } from '@core/monitoring';
+import { RateSlot } from '@core/monitoring/metrics/slots';
+import { SubscriptionMetrics } from '@core/subscription/metrics';
+
+describe('SubscriptionMetrics', () => {
+    let monitoringManager: MonitoringManager;
+    let metrics: SubscriptionMetrics;
+
+    beforeEach(() => {
+        monitoringManager = new MonitoringManager();
+        metrics = new SubscriptionMetrics(monitoringManager);
+    });
+
+    afterEach(() => {
+        metrics.dispose();
+    });
+
+    it('should register all required metrics', () => {
+        expect(metrics.cacheHitRate.name).toBe('subscription.cache.rate.hit');
+        expect(metrics.cacheHitRate.slot).toBeInstanceOf(RateSlot);
+        expect(metrics.cacheMissRate.name).toBe('subscription.cache.rate.miss');
+        expect(metrics.cacheMissRate.slot).toBeInstanceOf(RateSlot);
+    });
+
+    it('should properly dispose all metrics', () => {
+        metrics.dispose();
+
+        expect(monitoringManager.getMetric('subscription.cache.rate.hit')).toBeUndefined();
+        expect(monitoringManager.getMetric('subscription.cache.rate.miss')).toBeUndefined();
+    });
+});
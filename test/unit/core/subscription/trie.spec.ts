@@ -1,4 +1,4 @@
-import { TopicTrie, SetLeafCollection, SortedSetLeafCollection } from '@core/subscription/trie';
+import { TopicTrie, SetLeafCollection, SortedSetLeafCollection, KeyedSetLeafCollection } from '@core/subscription/trie';
 
 /**
  * Test suite for the TopicTrie class.
@@ -476,6 +476,151 @@ describe('TopicTrie', () => {
         });
     });
 
+    /**
+     * Test suite for the match cache.
+     * Verifies that cached matches are reused, and invalidated only for the topics a change can affect.
+     */
+    describe('match cache', () => {
+        let cachedTrie: TopicTrie<string, SetLeafCollection<string>>;
+        let onCacheHit: jest.Mock;
+        let onCacheMiss: jest.Mock;
+
+        beforeEach(() => {
+            onCacheHit = jest.fn();
+            onCacheMiss = jest.fn();
+            cachedTrie = new TopicTrie<string, SetLeafCollection<string>>(() => new SetLeafCollection(), { cacheSize: 2, onCacheHit, onCacheMiss });
+        });
+
+        /**
+         * Tests that the matches of a topic are cached, and that leaves added to an existing collection are visible.
+         */
+        it('should reuse the matches of a topic', () => {
+            cachedTrie.set('device.status', 'subscriber1');
+
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber1']);
+            cachedTrie.set('device.status', 'subscriber2');
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber1', 'subscriber2']);
+
+            expect(onCacheMiss).toHaveBeenCalledTimes(1);
+            expect(onCacheHit).toHaveBeenCalledTimes(1);
+        });
+
+        /**
+         * Tests that creating a collection only invalidates the topics its pattern matches.
+         */
+        it('should invalidate the topics matched by a new pattern', () => {
+            cachedTrie.set('device.status', 'subscriber1');
+            Array.from(cachedTrie.get('device.status'));
+            Array.from(cachedTrie.get('sensor.status'));
+
+            cachedTrie.set('device.+', 'subscriber2');
+
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber1', 'subscriber2']);
+            expect(Array.from(cachedTrie.get('sensor.status'))).toEqual([]);
+            expect(onCacheMiss).toHaveBeenCalledTimes(3);
+            expect(onCacheHit).toHaveBeenCalledTimes(1);
+        });
+
+        /**
+         * Tests that a '#' pattern invalidates the topics of its level and of every level below it.
+         */
+        it('should invalidate the topics at and below a new multi-level pattern', () => {
+            Array.from(cachedTrie.get('device'));
+            Array.from(cachedTrie.get('device.status.europe'));
+
+            cachedTrie.set('device.#', 'subscriber1');
+
+            expect(Array.from(cachedTrie.get('device'))).toEqual(['subscriber1']);
+            expect(Array.from(cachedTrie.get('device.status.europe'))).toEqual(['subscriber1']);
+            expect(onCacheMiss).toHaveBeenCalledTimes(4);
+            expect(onCacheHit).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Tests that evicted topics are cached and invalidated again once matched again.
+         */
+        it('should invalidate the topics matched again after their eviction', () => {
+            Array.from(cachedTrie.get('device.one'));
+            Array.from(cachedTrie.get('device.two'));
+            Array.from(cachedTrie.get('device.three'));
+            Array.from(cachedTrie.get('device.one'));
+
+            cachedTrie.set('device.one', 'subscriber1');
+
+            expect(Array.from(cachedTrie.get('device.one'))).toEqual(['subscriber1']);
+            expect(Array.from(cachedTrie.get('device.three'))).toEqual([]);
+            expect(onCacheMiss).toHaveBeenCalledTimes(5);
+            expect(onCacheHit).toHaveBeenCalledTimes(1);
+        });
+
+        /**
+         * Tests that removed and recreated collections are not served from the cache.
+         */
+        it('should invalidate the topics matched by a removed pattern', () => {
+            cachedTrie.set('device.#', 'subscriber1');
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber1']);
+
+            cachedTrie.delete('device.#', 'subscriber1');
+            cachedTrie.set('device.#', 'subscriber2');
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber2']);
+
+            cachedTrie.delete('device.status.+', 'subscriber3');
+            cachedTrie.set('device.+', 'subscriber3');
+            cachedTrie.delete('device.+', 'subscriber3');
+            cachedTrie.set('device.+', 'subscriber4');
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber4', 'subscriber2']);
+        });
+
+        /**
+         * Tests that clearing the trie clears the cache.
+         */
+        it('should clear the cache with the trie', () => {
+            cachedTrie.set('device.status', 'subscriber1');
+            Array.from(cachedTrie.get('device.status'));
+
+            cachedTrie.clear();
+            cachedTrie.set('device.status', 'subscriber2');
+
+            expect(Array.from(cachedTrie.get('device.status'))).toEqual(['subscriber2']);
+            expect(onCacheHit).not.toHaveBeenCalled();
+        });
+
+        /**
+         * Tests that the least recently matched topic is evicted when the cache is full.
+         */
+        it('should evict the least recently matched topic', () => {
+            Array.from(cachedTrie.get('device.one'));
+            Array.from(cachedTrie.get('device.two'));
+            Array.from(cachedTrie.get('device.one'));
+            Array.from(cachedTrie.get('device.three'));
+
+            Array.from(cachedTrie.get('device.one'));
+            Array.from(cachedTrie.get('device.two'));
+
+            expect(onCacheHit).toHaveBeenCalledTimes(2);
+            expect(onCacheMiss).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    /**
+     * Test suite for exact-only lookups.
+     * Verifies that getExact ignores the wildcard subscriptions matching a topic.
+     */
+    describe('getExact', () => {
+        /**
+         * Tests that only the leaves of the exact topic are returned.
+         */
+        it('should ignore wildcard subscriptions', () => {
+            trie.set('device.status', 'subscriber1');
+            trie.set('device.+', 'subscriber2');
+            trie.set('#', 'subscriber3');
+
+            expect(Array.from(trie.getExact('device.status'))).toEqual(['subscriber1']);
+            expect(Array.from(trie.getExact('device.other'))).toEqual([]);
+            expect(Array.from(trie.getExact('device'))).toEqual([]);
+        });
+    });
+
     /**
      * Tests for clearing the trie
      */
@@ -931,3 +1076,44 @@ describe('SortedSetLeafCollection', () => {
         });
     });
 });
+
+/**
+ * Test suite for KeyedSetLeafCollection class.
+ * Tests the implementation of a collection of leaves that are unique by key,
+ * where adding a leaf with an existing key replaces the existing leaf.
+ */
+describe('KeyedSetLeafCollection', () => {
+    interface TestLeaf {
+        id: string;
+        version?: string;
+    }
+
+    let collection: KeyedSetLeafCollection<TestLeaf, 'id'>;
+
+    beforeEach(() => {
+        collection = new KeyedSetLeafCollection<TestLeaf, 'id'>('id');
+    });
+
+    /**
+     * Tests that leaves with the same key replace each other, keeping the insertion order.
+     */
+    it('should replace leaves with the same key', () => {
+        collection.add({ id: '1', version: '^1.0.0' });
+        collection.add({ id: '2' });
+        collection.add({ id: '1', version: '^2.0.0' });
+
+        expect(collection.size).toBe(2);
+        expect(Array.from(collection)).toEqual([{ id: '1', version: '^2.0.0' }, { id: '2' }]);
+    });
+
+    /**
+     * Tests that leaves are deleted by key, regardless of their other properties.
+     */
+    it('should delete leaves by key', () => {
+        collection.add({ id: '1', version: '^1.0.0' });
+
+        expect(collection.delete({ id: '1' })).toBe(true);
+        expect(collection.delete({ id: '1' })).toBe(false);
+        expect(collection.size).toBe(0);
+    });
+});
@@ -4,10 +4,15 @@ import { Parser, serialize, prettySize, toBrokerHeader, serializePayload } from
 
 /**
  * Mock configuration for message tests
- * Sets up maximum payload length and timeout values
+ * Sets up topic grammar, maximum payload length, timeout and retries values
  */
 jest.mock('@config', () => ({
     config: {
+        topic: {
+            maxLength: 255,
+            maxDepth: 5,
+            characters: 'a-zA-Z0-9',
+        },
         message: {
             payload: {
                 maxLength: 32 * 1024, // 32KB
@@ -19,6 +24,9 @@ jest.mock('@config', () => ({
                     max: 5000,
                 },
             },
+            retries: {
+                max: 3,
+            },
         },
     },
 }));
@@ -96,6 +104,27 @@ describe('message utils', () => {
             expect(JSON.parse(parser.rawPayload.toString())).toEqual({ data: 'test' });
         });
 
+        /**
+         * Tests that the maximum header length follows the configured topic length.
+         * Verifies that a header with a topic of the maximum length is still found.
+         */
+        it('should size the header for the configured topic length', () => {
+            jest.isolateModules(() => {
+                const { config } = require('@config');
+                const defaultLength = require('@core/utils/message').MAX_HEADER_LENGTH;
+                jest.resetModules();
+
+                const { config: longConfig } = require('@config');
+                longConfig.topic = { ...config.topic, maxLength: config.topic.maxLength + 1000 };
+                const message = require('@core/utils/message');
+                expect(message.MAX_HEADER_LENGTH).toBe(defaultLength + 1000);
+
+                const topic = Array.from({ length: 5 }, () => 'a'.repeat(250)).join('.');
+                const parser = new message.Parser(Buffer.from(`publish:${topic}:1.0.0\n{}`));
+                expect(parser.header.topic).toBe(topic);
+            });
+        });
+
         /**
          * Tests message parsing without a request ID.
          * Verifies header components and payload are correctly parsed when requestId is omitted.
@@ -204,6 +233,88 @@ describe('message utils', () => {
             expect(() => new Parser(message)).toThrow(MalformedMessageError);
         });
 
+        /**
+         * Tests parsing of the routing key.
+         * Should parse the routing key after the timeout, which may be blank.
+         */
+        it('should parse the routing key', () => {
+            const message = Buffer.from('request:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000:::customer-42\n{}');
+            const parser = new Parser(message);
+            expect(parser.header.routingKey).toBe('customer-42');
+            expect(parser.header.timeout).toBeUndefined();
+        });
+
+        /**
+         * Tests validation of routing keys.
+         * Should throw MalformedMessageError for non-request messages, and for too long or invalid keys.
+         */
+        it('should validate the routing key', () => {
+            expect(() => new Parser(Buffer.from('publish:test.topic:1.0.0::::customer-42\n{}'))).toThrow('Routing key is only allowed for request actions');
+            expect(() => new Parser(Buffer.from(`request:test.topic:1.0.0::::${'k'.repeat(129)}\n{}`))).toThrow('Invalid routing key');
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0::::customer 42\n{}'))).toThrow(MalformedMessageError);
+        });
+
+        /**
+         * Tests parsing and validation of the gather mode.
+         * Should throw MalformedMessageError for non-request messages, invalid modes, and gather requests without request ID or with retries.
+         */
+        it('should parse and validate the gather mode', () => {
+            const requestId = '123e4567-e89b-12d3-a456-426614174000';
+            expect(new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}:::::quorum\n{}`)).header.gather).toBe('quorum');
+            expect(new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}:::::2\n{}`)).header.gather).toBe(2);
+            expect(() => new Parser(Buffer.from(`publish:test.topic:1.0.0:${requestId}:::::all\n{}`))).toThrow('Gather is only allowed for request actions');
+            expect(() => new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}:::::most\n{}`))).toThrow('Invalid gather mode');
+            expect(() => new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}:::::0\n{}`))).toThrow('Invalid gather mode');
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0::::::all\n{}'))).toThrow('Gather requires a request ID');
+            expect(() => new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}::::1:all\n{}`))).toThrow('Retries are not allowed for gather requests');
+        });
+
+        /**
+         * Tests parsing and validation of cancellations.
+         * Should throw MalformedMessageError for cancellations without request ID or with request options.
+         */
+        it('should parse and validate cancellations', () => {
+            const requestId = '123e4567-e89b-12d3-a456-426614174000';
+            expect(new Parser(Buffer.from(`cancel:test.topic:1.0.0:${requestId}\n`)).header).toEqual({ action: ActionType.CANCEL, topic: 'test.topic', version: '1.0.0', requestId });
+            expect(() => new Parser(Buffer.from('cancel:test.topic:1.0.0\n'))).toThrow('Cancel requires a request ID');
+            expect(() => new Parser(Buffer.from(`cancel:test.topic:1.0.0:${requestId}::1000\n`))).toThrow('Timeout is only allowed for request actions');
+        });
+
+        /**
+         * Tests parsing and validation of the partial flag.
+         * Should throw MalformedMessageError for non-response messages and invalid flags.
+         */
+        it('should parse and validate the partial flag', () => {
+            const requestId = '123e4567-e89b-12d3-a456-426614174000';
+            expect(new Parser(Buffer.from(`response:test.topic:1.0.0:${requestId}::::::true\n{}`)).header.partial).toBe(true);
+            expect(new Parser(Buffer.from(`response:test.topic:1.0.0:${requestId}\n{}`)).header.partial).toBeUndefined();
+            expect(() => new Parser(Buffer.from(`request:test.topic:1.0.0:${requestId}::::::true\n{}`))).toThrow('Partial is only allowed for response actions');
+            expect(() => new Parser(Buffer.from(`response:test.topic:1.0.0:${requestId}::::::yes\n{}`))).toThrow('Invalid partial flag');
+        });
+
+        /**
+         * Tests parsing and validation of the retain flag.
+         * Should throw MalformedMessageError for non-publish messages and invalid flags.
+         */
+        it('should parse and validate the retain flag', () => {
+            expect(new Parser(Buffer.from('publish:test.topic:1.0.0::::::::true\n{}')).header.retain).toBe(true);
+            expect(new Parser(Buffer.from('publish:test.topic:1.0.0\n{}')).header.retain).toBeUndefined();
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0::::::::true\n{}'))).toThrow('Retain is only allowed for publish actions');
+            expect(() => new Parser(Buffer.from('publish:test.topic:1.0.0::::::::yes\n{}'))).toThrow('Invalid retain flag');
+        });
+
+        /**
+         * Tests parsing and validation of the retry budget.
+         * Should throw MalformedMessageError for non-request messages, and for negative, fractional or too large budgets.
+         */
+        it('should parse and validate the retries', () => {
+            expect(new Parser(Buffer.from('request:test.topic:1.0.0:::::2\n{}')).header.retries).toBe(2);
+            expect(() => new Parser(Buffer.from('publish:test.topic:1.0.0:::::2\n{}'))).toThrow('Retries are only allowed for request actions');
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0:::::-1\n{}'))).toThrow('Invalid retries value');
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0:::::1.5\n{}'))).toThrow('Invalid retries value');
+            expect(() => new Parser(Buffer.from('request:test.topic:1.0.0:::::4\n{}'))).toThrow('Invalid retries value');
+        });
+
         /**
          * Tests validation of error object structure in payloads.
          * Should throw MalformedMessageError for invalid error objects.
@@ -366,6 +477,96 @@ describe('message utils', () => {
             expect(serialized).toBe('request:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000:987fcdeb-51a2-43e8-9876-543210fedcba:1000\n{"data":"test"}');
         });
 
+        /**
+         * Tests serialization of messages with a routing key.
+         * Should include all header components, leaving the missing ones blank.
+         */
+        it('should serialize message with routing key', () => {
+            const header = {
+                action: ActionType.REQUEST,
+                topic: 'test.topic',
+                version: '1.0.0',
+                requestId: '123e4567-e89b-12d3-a456-426614174000',
+                routingKey: 'customer-42'
+            };
+
+            const serialized = serialize(header, {});
+            expect(serialized).toBe('request:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000:::customer-42\n{}');
+            expect(new Parser(Buffer.from(serialized)).header).toEqual(header);
+        });
+
+        /**
+         * Tests serialization of messages with a retry budget.
+         * Should include all header components, leaving the missing ones blank.
+         */
+        it('should serialize message with retries', () => {
+            const header = {
+                action: ActionType.REQUEST,
+                topic: 'test.topic',
+                version: '1.0.0',
+                requestId: '123e4567-e89b-12d3-a456-426614174000',
+                retries: 2
+            };
+
+            const serialized = serialize(header, {});
+            expect(serialized).toBe('request:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000::::2\n{}');
+            expect(new Parser(Buffer.from(serialized)).header).toEqual(header);
+        });
+
+        /**
+         * Tests serialization of gather requests.
+         * Should include all header components, leaving the missing ones blank.
+         */
+        it('should serialize message with gather mode', () => {
+            const header = {
+                action: ActionType.REQUEST,
+                topic: 'test.topic',
+                version: '1.0.0',
+                requestId: '123e4567-e89b-12d3-a456-426614174000',
+                timeout: 3000,
+                gather: 'quorum' as const
+            };
+
+            const serialized = serialize(header, {});
+            expect(serialized).toBe('request:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000::3000:::quorum\n{}');
+            expect(new Parser(Buffer.from(serialized)).header).toEqual(header);
+        });
+
+        /**
+         * Tests serialization of partial responses.
+         * Should include the partial flag after the blank request fields.
+         */
+        it('should serialize partial responses', () => {
+            const header = {
+                action: ActionType.RESPONSE,
+                topic: 'test.topic',
+                version: '1.0.0',
+                requestId: '123e4567-e89b-12d3-a456-426614174000',
+                partial: true
+            };
+
+            const serialized = serialize(header, {});
+            expect(serialized).toBe('response:test.topic:1.0.0:123e4567-e89b-12d3-a456-426614174000::::::true\n{}');
+            expect(new Parser(Buffer.from(serialized)).header).toEqual(header);
+        });
+
+        /**
+         * Tests serialization of retained publishes.
+         * Should include the retain flag after the blank optional fields.
+         */
+        it('should serialize retained publishes', () => {
+            const header = {
+                action: ActionType.PUBLISH,
+                topic: 'test.topic',
+                version: '1.0.0',
+                retain: true
+            };
+
+            const serialized = serialize(header, {});
+            expect(serialized).toBe('publish:test.topic:1.0.0::::::::true\n{}');
+            expect(new Parser(Buffer.from(serialized)).header).toEqual(header);
+        });
+
         /**
          * Tests serialization of messages with parent request ID but no timeout.
          * Should include requestId and parentRequestId but omit timeout.
@@ -359,6 +359,27 @@ describe('TopicUtils', () => {
         });
     });
 
+    /**
+     * Test suite for the matches method.
+     * Verifies that topics are matched against subscription patterns with the '+' and '#' wildcards.
+     */
+    describe('matches', () => {
+        it('should match topics against subscription patterns', () => {
+            expect(TopicUtils.matches('baggage.events', 'baggage.events')).toBe(true);
+            expect(TopicUtils.matches('baggage.events.europe', 'baggage.+.europe')).toBe(true);
+            expect(TopicUtils.matches('baggage.events.europe', 'baggage.#')).toBe(true);
+            expect(TopicUtils.matches('baggage', 'baggage.#')).toBe(true);
+            expect(TopicUtils.matches('baggage.events', '#')).toBe(true);
+        });
+
+        it('should not match topics outside subscription patterns', () => {
+            expect(TopicUtils.matches('baggage.events', 'flight.events')).toBe(false);
+            expect(TopicUtils.matches('baggage.events.europe', 'baggage.+')).toBe(false);
+            expect(TopicUtils.matches('baggage', 'baggage.+')).toBe(false);
+            expect(TopicUtils.matches('baggage.events', 'baggage.events.europe')).toBe(false);
+        });
+    });
+
     describe('isValidSubscription', () => {
         it('should validate subscription topic names', () => {
             // Valid subscription patterns
@@ -405,4 +426,27 @@ describe('TopicUtils', () => {
             expect(TopicUtils.isValidSubscription('a.b.c.d.e.f')).toBe(false);
         });
     });
+
+    /**
+     * Tests for the configured topic grammar.
+     * Verifies that the depth, length and characters of topic names follow the configuration.
+     */
+    describe('configured grammar', () => {
+        it('should follow the configured depth, length and characters', () => {
+            jest.isolateModules(() => {
+                const { config } = require('@config');
+                config.topic = { maxLength: 30, maxDepth: 3, characters: 'a-z0-9_-' };
+                const Topic = require('@core/utils/topic');
+
+                expect(Topic.MAX_TOPIC_LENGTH).toBe(30);
+                expect(Topic.isValid('region-eu.order_v2.created')).toBe(true);
+                expect(Topic.isValid('region-eu.order_v2.created.europe')).toBe(false);
+                expect(Topic.isValid('region-eu.order_v2.created-in-the-eu')).toBe(false);
+                expect(Topic.isValid('_region.orders')).toBe(false);
+                expect(Topic.isValidSubscription('region-eu.+.#')).toBe(true);
+                expect(Topic.isValidSubscription('region-eu.+.created.#')).toBe(false);
+                expect(Topic.test('region-eu.order_v2.created', 'region-eu.*.created')).toBe(true);
+            });
+        });
+    });
 });
\ No newline at end of file